@@ -1,4 +1,3 @@
-import { anthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
 import { NextRequest, NextResponse } from 'next/server';
 import {
@@ -6,6 +5,7 @@ import {
   isValidArtifactType,
   type DocumentationArtifactType,
 } from '@/lib/documentation-prompts';
+import { getModelSettings } from '@/lib/models';
 
 export const maxDuration = 120; // 2 minutes for complex documentation generation
 
@@ -95,11 +95,9 @@ Generate the markdown documentation following the format specified in your instr
 
     // Generate documentation using Claude
     const result = await generateText({
-      model: anthropic('claude-sonnet-4-20250514'),
+      ...getModelSettings('documentation'),
       system: systemPrompt,
       messages: [{ role: 'user', content: userMessage }],
-      maxTokens: 8192,
-      maxRetries: 5,
     });
 
     const markdown = result.text;
@@ -1,19 +1,51 @@
-import { anthropic } from '@ai-sdk/anthropic';
 import { streamText } from 'ai';
-import { getSystemPrompt } from '@/lib/prompts';
-import type { ConversationPhase } from '@/types';
+import { toModelMessages } from '@/lib/clarifying-questions';
+import { getChatRole, getModelSettings } from '@/lib/models';
+import { getSystemPrompt, REQUIREMENTS_CONTINUATION_PROMPT } from '@/lib/prompts';
+import { generateTasks, TaskGenerationError } from '@/lib/task-generation';
+import type {
+  ChatRequestMessage,
+  ConversationPhase,
+  ProjectTemplate,
+  TaskGenerationScope,
+} from '@/types';
 
 export const maxDuration = 60;
 
 export async function POST(req: Request) {
   try {
-    const { messages, phase, researchContext, codebaseContext } = (await req.json()) as {
-      messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+    const {
+      messages,
+      phase,
+      researchContext,
+      codebaseContext,
+      output,
+      requirements,
+      scope,
+      partialRequirements,
+      sourceDocument,
+      template,
+    } = (await req.json()) as {
+      // Clarifying questions and structured answers are turned into text here
+      messages: ChatRequestMessage[];
       phase: ConversationPhase;
       researchContext?: string;
       codebaseContext?: string;
+      // 'tasks' requests the schema-validated task list for the given requirements
+      output?: 'text' | 'tasks';
+      requirements?: string;
+      // Step of staged task generation; absent for the whole document at once
+      scope?: TaskGenerationScope;
+      // Requirements document cut off by the output limit, to be continued
+      partialRequirements?: string;
+      // Imported PRD the session is extending
+      sourceDocument?: string;
+      // Project template the session started from
+      template?: ProjectTemplate;
     };
 
+    const modelMessages = toModelMessages(messages);
+
     // Combine codebase and research context into a single context string
     let combinedContext = '';
     if (codebaseContext) {
@@ -23,17 +55,48 @@ export async function POST(req: Request) {
       combinedContext += `## Domain Research\n${researchContext}`;
     }
 
-    const systemPrompt = getSystemPrompt(phase, combinedContext || undefined);
+    if (phase === 'generating' && output === 'tasks') {
+      try {
+        const tasks = await generateTasks({
+          messages: modelMessages,
+          requirements: requirements ?? '',
+          context: combinedContext || undefined,
+          scope,
+          abortSignal: req.signal,
+        });
+        return Response.json({ tasks });
+      } catch (error) {
+        if (error instanceof TaskGenerationError) {
+          console.error('Task generation failed:', error.toFailure());
+          return Response.json({ error: error.message, failure: error.toFailure() }, { status: 422 });
+        }
+        throw error;
+      }
+    }
+
+    const systemPrompt = getSystemPrompt(
+      phase,
+      combinedContext || undefined,
+      sourceDocument,
+      template
+    );
+
+    // The stream then carries only the rest of the document
+    if (phase === 'generating' && partialRequirements) {
+      // The partial document replaces the cut-off reply if the history still has it
+      if (modelMessages[modelMessages.length - 1]?.role === 'assistant') modelMessages.pop();
+      modelMessages.push(
+        { role: 'assistant', content: `[REQUIREMENTS_START]\n${partialRequirements}` },
+        { role: 'user', content: REQUIREMENTS_CONTINUATION_PROMPT }
+      );
+    }
 
     const result = streamText({
-      model: anthropic('claude-sonnet-4-20250514'),
+      ...getModelSettings(getChatRole(phase)),
       system: systemPrompt,
-      messages: messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-      maxTokens: 8000,
-      maxRetries: 5,
+      messages: modelMessages,
+      // Stop generating (and paying for) tokens once the client aborts
+      abortSignal: req.signal,
     });
 
     return result.toTextStreamResponse();
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { loadCodebase } from '@/lib/codebase-store';
+
+/**
+ * GET /api/codebase
+ *
+ * Returns the VS Code extension's scan artifacts for the server's workspace,
+ * as the sections sent to the model as codebase context.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await loadCodebase());
+  } catch (error) {
+    console.error('Codebase API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { generateObject, NoObjectGeneratedError, type ModelMessage } from 'ai';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getModelSettings } from '@/lib/models';
+import { getRefinementPrompt } from '@/lib/prompts';
+import {
+  applyTaskPatch,
+  getRequirementSections,
+  getSectionContent,
+  taskToMarkdown,
+  validateTaskList,
+} from '@/lib/refinement';
+import { formatIssues, repairTasksJson, taskSchema } from '@/lib/task-schema';
+import type { RefinementPatch, Task } from '@/types';
+
+export const maxDuration = 60;
+
+// Initial attempt plus one re-ask when the patched task list is inconsistent
+const MAX_ATTEMPTS = 2;
+
+const taskRefinementSchema = z.object({
+  summary: z.string().min(1),
+  tasks: z.array(taskSchema).min(1),
+});
+
+const sectionRefinementSchema = z.object({
+  summary: z.string().min(1),
+  content: z.string().min(1),
+});
+
+const refinementRequestSchema = z.discriminatedUnion('target', [
+  z.object({
+    target: z.literal('tasks'),
+    action: z.enum(['split', 'merge', 'rewrite-criteria', 'custom']),
+    taskIds: z.array(z.string().min(1)).min(1),
+    instructions: z.string().optional(),
+  }),
+  z.object({
+    target: z.literal('section'),
+    action: z.enum(['expand-edge-cases', 'clarify', 'custom']),
+    sectionId: z.string().min(1),
+    instructions: z.string().optional(),
+  }),
+]);
+
+// Tasks are only matched by id here; the full shape is checked after patching
+const refineBodySchema = z.object({
+  request: refinementRequestSchema,
+  requirements: z.string().nullish(),
+  tasks: z.array(z.object({ id: z.string() }).passthrough()).optional(),
+});
+
+function failure(error: string, issues: string[] = [], status = 422) {
+  return NextResponse.json({ error, issues }, { status });
+}
+
+/**
+ * POST /api/refine
+ *
+ * Applies one targeted action (split, merge, rewrite, expand...) to selected
+ * tasks or a requirements section and returns a structured patch for review.
+ * Nothing is changed server-side; the client applies the patch on accept.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = refineBodySchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return failure('Invalid refinement request', formatIssues(parsed.error), 400);
+    }
+
+    const { request, requirements } = parsed.data;
+    const tasks = parsed.data.tasks as Task[] | undefined;
+    if (request.action === 'custom' && !request.instructions?.trim()) {
+      return failure('A refinement action is required', [], 400);
+    }
+
+    const system = getRefinementPrompt(request.target, request.action, request.instructions);
+    const document = requirements ? `## Requirements Document\n${requirements}\n\n` : '';
+
+    if (request.target === 'section') {
+      const section = getRequirementSections(requirements ?? null).find(
+        (s) => s.id === request.sectionId
+      );
+      if (!requirements || !section) {
+        return failure(`Section "${request.sectionId}" was not found`, [], 400);
+      }
+
+      const { object } = await generateObject({
+        ...getModelSettings('refine'),
+        system,
+        prompt: `${document}## Section to Change\n${getSectionContent(requirements, section)}`,
+        schema: sectionRefinementSchema,
+        schemaName: 'SectionRefinement',
+      });
+
+      // The section must keep its heading so it can be located again
+      const headingLine = requirements.split('\n')[section.start];
+      const content = object.content.trim().startsWith('#')
+        ? object.content.trim()
+        : `${headingLine}\n\n${object.content.trim()}`;
+
+      const patch: RefinementPatch = {
+        target: 'section',
+        summary: object.summary,
+        sectionId: section.id,
+        content,
+      };
+      return NextResponse.json({ patch });
+    }
+
+    const allTasks = tasks ?? [];
+    const targets = allTasks.filter((t) => request.taskIds.includes(t.id));
+    if (targets.length === 0 || targets.length !== request.taskIds.length) {
+      return failure('The selected tasks were not found', [], 400);
+    }
+    if (request.action === 'merge' && targets.length < 2) {
+      return failure('Select at least two tasks to merge', [], 400);
+    }
+
+    const others = allTasks.filter((t) => !request.taskIds.includes(t.id));
+    const messages: ModelMessage[] = [
+      {
+        role: 'user',
+        content: `${document}## Other Tasks\n${
+          others.map((t) => `- ${t.id}: ${t.title}`).join('\n') || '(none)'
+        }\n\n## Tasks to Change\n${targets.map(taskToMarkdown).join('\n\n')}`,
+      },
+    ];
+
+    let issues: string[] = [];
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const { object } = await generateObject({
+        ...getModelSettings('refine'),
+        system,
+        messages,
+        schema: taskRefinementSchema,
+        schemaName: 'TaskRefinement',
+        experimental_repairText: async ({ text }) => repairTasksJson(text),
+      });
+
+      const patch: RefinementPatch = {
+        target: 'tasks',
+        summary: object.summary,
+        replaceIds: request.taskIds,
+        tasks: object.tasks,
+      };
+
+      issues = validateTaskList(applyTaskPatch(allTasks, patch));
+      if (issues.length === 0) {
+        return NextResponse.json({ patch });
+      }
+
+      console.error(`Refinement attempt ${attempt} produced an invalid task list:`, issues);
+      messages.push(
+        { role: 'assistant', content: JSON.stringify(object) },
+        {
+          role: 'user',
+          content: `Those tasks conflict with the rest of the list:\n${issues.map((i) => `- ${i}`).join('\n')}\n\nReturn the corrected tasks.`,
+        }
+      );
+    }
+
+    return failure('The refined tasks conflict with the rest of the task list', issues);
+  } catch (error) {
+    if (NoObjectGeneratedError.isInstance(error)) {
+      console.error('Refinement produced no valid output:', error.cause);
+      return failure('The model did not return a valid change', [
+        error.cause instanceof Error ? error.cause.message : 'No output',
+      ]);
+    }
+    console.error('Refine API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,62 @@
-import { anthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
-import type { ResearchFinding, ResearchResults } from '@/types';
+import { getModelSettings } from '@/lib/models';
+import {
+  isResearchProviderId,
+  resolveResearchProvider,
+  ResearchProviderError,
+} from '@/lib/research-providers';
+import type {
+  ResearchCitation,
+  ResearchFinding,
+  ResearchProviderId,
+  ResearchResults,
+} from '@/types';
 
 export const maxDuration = 120; // Research can take longer
 
-interface PerplexityMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+// Longest codebase scan passed to analysis
+const MAX_CODEBASE_CONTEXT = 20000;
+
+const EMPTY_RESEARCH_SUMMARIES: Record<ResearchProviderId, string> = {
+  perplexity: 'Research returned no content for this project.',
+  local: 'No documents in the knowledge folder matched this project.',
+  none: 'External research is disabled and no codebase scan was provided, so no findings were gathered.',
+};
+
+const FALLBACK_QUESTIONS = [
+  'What specific features are most important for your use case?',
+  'Are there any technical constraints I should know about?',
+];
+
+function formatCitation(citation: ResearchCitation): string {
+  return `[${citation.index}] ${citation.title}${citation.url ? ` (${citation.url})` : ''}`;
 }
 
-interface PerplexityResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-  citations?: string[];
+/**
+ * Keep only indices of citations that exist, so a finding never links to a
+ * source the model made up.
+ */
+function linkCitations(cited: unknown, citations: ResearchCitation[]): number[] {
+  if (!Array.isArray(cited)) return [];
+  const known = new Set(citations.map((c) => c.index));
+  const indices = cited.map(Number).filter((index) => known.has(index));
+  return Array.from(new Set(indices)).sort((a, b) => a - b);
 }
 
 export async function POST(req: Request) {
   try {
-    const { projectDescription } = (await req.json()) as {
+    const {
+      projectDescription,
+      topic,
+      knownFindings,
+      codebaseContext,
+      provider: requestedProvider,
+    } = (await req.json()) as {
       projectDescription: string;
+      topic?: string;              // Follow-up research into one topic
+      knownFindings?: string[];    // Titles of findings the client already has
+      codebaseContext?: string;    // Scan summary sent by the VS Code extension
+      provider?: string;
     };
 
     if (!projectDescription) {
@@ -31,71 +66,42 @@ export async function POST(req: Request) {
       );
     }
 
-    // Step 1: Use Perplexity Sonar to research the domain
-    const perplexityApiKey = process.env.PERPLEXITY_API_KEY;
-    if (!perplexityApiKey) {
+    if (requestedProvider !== undefined && !isResearchProviderId(requestedProvider)) {
       return new Response(
-        JSON.stringify({ error: 'PERPLEXITY_API_KEY not configured' }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: `Unknown research provider: ${requestedProvider}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    const researchPrompt = `Research the following project idea comprehensively. I need practical, actionable information for building this project.
-
-Project: ${projectDescription}
-
-Please provide:
-1. **Key Domain Concepts**: Essential terminology and concepts a developer should understand
-2. **Best Practices**: Industry-standard approaches and patterns for this type of project
-3. **Common Pitfalls**: Mistakes to avoid and challenges teams typically face
-4. **Edge Cases**: Scenarios that are often overlooked but important to handle
-5. **Technical Considerations**: Architecture, technology choices, and implementation details
-
-Be specific and practical. Include real examples where helpful.`;
-
-    const perplexityMessages: PerplexityMessage[] = [
-      {
-        role: 'system',
-        content: 'You are a technical research assistant. Provide detailed, practical research findings with citations. Focus on actionable insights for software development projects.'
-      },
-      {
-        role: 'user',
-        content: researchPrompt
-      }
-    ];
-
-    const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${perplexityApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
-        messages: perplexityMessages,
-        temperature: 0.2,
-        max_tokens: 4000,
-      }),
-    });
-
-    if (!perplexityResponse.ok) {
-      const errorText = await perplexityResponse.text();
-      console.error('Perplexity API error:', errorText);
-      return new Response(
-        JSON.stringify({ error: 'Research API failed', details: errorText }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
+    // Step 1: Gather raw research from the configured provider
+    const provider = resolveResearchProvider(requestedProvider);
+    const gathered = await provider.gather({ projectDescription, topic, codebaseContext });
+    const rawResearch = gathered.content;
+    const codebase = codebaseContext?.slice(0, MAX_CODEBASE_CONTEXT) ?? '';
+
+    // The codebase scan is a source too, so findings drawn from it are not
+    // shown as unsupported
+    const citations: ResearchCitation[] = codebase
+      ? [...gathered.citations, { index: gathered.citations.length + 1, title: 'Codebase scan' }]
+      : gathered.citations;
+
+    if (!rawResearch && !codebase) {
+      const emptyResults: ResearchResults = {
+        query: projectDescription,
+        topic,
+        findings: [],
+        summary: EMPTY_RESEARCH_SUMMARIES[provider.id],
+        suggestedQuestions: FALLBACK_QUESTIONS,
+        timestamp: new Date(),
+        provider: provider.id,
+        citations: [],
+      };
+      return Response.json(emptyResults);
     }
 
-    const perplexityData = (await perplexityResponse.json()) as PerplexityResponse;
-    const rawResearch = perplexityData.choices[0]?.message?.content || '';
-    const citations = perplexityData.citations || [];
-
-    // Step 2: Use Claude Sonnet 4 to analyze and structure the research
+    // Step 2: Analyze and structure the research
     const reasoningResult = await generateText({
-      model: anthropic('claude-sonnet-4-20250514'),
-      maxTokens: 8000,
-      maxRetries: 5, // More retries for transient overload errors
+      ...getModelSettings('research'),
       system: `You are a research analyst specializing in software development projects. Your task is to analyze raw research findings and:
 
 1. Extract and categorize key insights
@@ -112,7 +118,7 @@ Output your analysis as valid JSON with this exact structure:
       "category": "concept|best_practice|pitfall|edge_case|technical",
       "title": "Short descriptive title",
       "content": "Detailed explanation",
-      "source": "Citation or source if available",
+      "citations": [1, 3],
       "relevance": "high|medium|low"
     }
   ],
@@ -122,15 +128,14 @@ Output your analysis as valid JSON with this exact structure:
   ]
 }
 
-Focus on findings that are actionable for project planning. Prioritize high-relevance items.`,
-      prompt: `Project Description: ${projectDescription}
+Focus on findings that are actionable for project planning. Prioritize high-relevance items. Only draw on the material provided.
 
-Raw Research Findings:
-${rawResearch}
+${topic ? `This is follow-up research into one topic of the project. Only report findings about that topic, and skip anything listed under "Known Findings".
 
-${citations.length > 0 ? `Citations:\n${citations.join('\n')}` : ''}
+` : ''}Sources are numbered under "Sources". Set "citations" to the numbers of the sources that support each finding; a finding may cite several. If no source supports a finding, use an empty array. Never cite a number that is not listed.`,
+      prompt: `Project Description: ${projectDescription}
 
-Analyze this research and output structured JSON.`,
+${topic ? `Follow-up Topic: ${topic}\n\n` : ''}${knownFindings?.length ? `Known Findings:\n${knownFindings.map((title) => `- ${title}`).join('\n')}\n\n` : ''}${rawResearch ? `${gathered.sourceLabel}:\n${rawResearch}\n\n` : ''}${codebase ? `Codebase Scan [${citations.length}]:\n${codebase}\n\n` : ''}${citations.length > 0 ? `Sources:\n${citations.map(formatCitation).join('\n')}\n\n` : ''}Analyze this research and output structured JSON.`,
     });
 
     // Parse Claude's analysis
@@ -151,35 +156,46 @@ Analyze this research and output structured JSON.`,
       console.error('Failed to parse Claude analysis:', parseError);
       // Fallback: create basic structure from raw research
       analysis = {
-        summary: rawResearch.substring(0, 500) + '...',
+        summary: (rawResearch || codebase).substring(0, 500) + '...',
         findings: [{
           id: 'finding-1',
           category: 'concept',
           title: 'Research Summary',
-          content: rawResearch,
+          content: rawResearch || codebase,
+          citations: citations.map((c) => c.index),
           relevance: 'high',
         }],
-        suggestedQuestions: [
-          'What specific features are most important for your use case?',
-          'Are there any technical constraints I should know about?',
-        ],
+        suggestedQuestions: FALLBACK_QUESTIONS,
       };
     }
 
     // Construct the final research results
     const researchResults: ResearchResults = {
       query: projectDescription,
+      topic,
       findings: analysis.findings.map((f, idx) => ({
-        ...f,
         id: f.id || `finding-${idx + 1}`,
+        category: f.category,
+        title: f.title,
+        content: f.content,
+        citations: linkCitations(f.citations, citations),
+        relevance: f.relevance,
       })),
       summary: analysis.summary,
       suggestedQuestions: analysis.suggestedQuestions,
       timestamp: new Date(),
+      provider: provider.id,
+      citations,
     };
 
     return Response.json(researchResults);
   } catch (error) {
+    if (error instanceof ResearchProviderError) {
+      return new Response(
+        JSON.stringify({ error: error.message, details: error.details }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     console.error('Research API error:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
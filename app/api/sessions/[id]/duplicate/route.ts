@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { duplicateSession, isValidSessionId } from '@/lib/session-store';
+
+/**
+ * POST /api/sessions/:id/duplicate
+ *
+ * Copies a session (state included) into a new session.
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const session = isValidSessionId(id) ? await duplicateSession(id) : null;
+    if (!session) {
+      return NextResponse.json({ error: `Session not found: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
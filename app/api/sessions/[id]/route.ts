@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteSession,
+  getSession,
+  isValidSessionId,
+  renameSession,
+  saveSession,
+} from '@/lib/session-store';
+import type { SessionState } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Session not found: ${id}` }, { status: 404 });
+}
+
+function serverError(error: unknown) {
+  console.error('Sessions API error:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/sessions/:id
+ *
+ * Returns the full stored session, including its state.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) return notFound(id);
+
+  try {
+    const session = await getSession(id);
+    return session ? NextResponse.json(session) : notFound(id);
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+/**
+ * PUT /api/sessions/:id
+ *
+ * Replaces the session state (autosave).
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) return notFound(id);
+
+  try {
+    const { state } = (await req.json()) as { state?: SessionState };
+    if (!state || !Array.isArray(state.messages) || !Array.isArray(state.tasks)) {
+      return NextResponse.json({ error: 'Session state is required' }, { status: 400 });
+    }
+
+    const session = await saveSession(id, state);
+    return session ? NextResponse.json(session) : notFound(id);
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+/**
+ * PATCH /api/sessions/:id
+ *
+ * Renames the session.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) return notFound(id);
+
+  try {
+    const { title } = (await req.json()) as { title?: string };
+    if (!title || !title.trim()) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    }
+
+    const session = await renameSession(id, title.trim());
+    return session ? NextResponse.json(session) : notFound(id);
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/sessions/:id
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) return notFound(id);
+
+  try {
+    const deleted = await deleteSession(id);
+    return deleted ? NextResponse.json({ success: true }) : notFound(id);
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession, listSessions } from '@/lib/session-store';
+import type { SessionState } from '@/types';
+
+/**
+ * GET /api/sessions
+ *
+ * Lists saved planning sessions, most recently updated first.
+ */
+export async function GET() {
+  try {
+    const sessions = await listSessions();
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sessions
+ *
+ * Creates a new session from the client's current state.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { title, state } = (await req.json()) as {
+      title?: string;
+      state?: SessionState;
+    };
+
+    if (!state || !Array.isArray(state.messages) || !Array.isArray(state.tasks)) {
+      return NextResponse.json({ error: 'Session state is required' }, { status: 400 });
+    }
+
+    const session = await createSession(title?.trim() || 'Untitled session', state);
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
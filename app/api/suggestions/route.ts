@@ -1,6 +1,7 @@
-import { anthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
 import { NextRequest, NextResponse } from 'next/server';
+import { getModelSettings } from '@/lib/models';
+import { listTemplates } from '@/lib/template-store';
 
 export const maxDuration = 30;
 
@@ -14,14 +15,17 @@ export async function POST(req: NextRequest) {
       codebaseContext?: string;
     };
 
-    // If no codebase context, return generic suggestions
+    // If no codebase context, suggest project templates, the team's own first
     if (!codebaseContext) {
+      const templates = await listTemplates();
+      const suggestions = [
+        ...templates.filter((t) => t.source === 'custom'),
+        ...templates.filter((t) => t.source === 'builtin'),
+      ]
+        .slice(0, 3)
+        .map((t) => `${t.name}: ${t.summary}`);
       return NextResponse.json({
-        suggestions: [
-          'Build a todo app with user authentication',
-          'Create an API for managing inventory',
-          'Design a real-time chat application'
-        ],
+        suggestions,
         fromCodebase: false
       });
     }
@@ -41,9 +45,8 @@ Respond with ONLY a JSON array of 3 strings, nothing else. Example:
 ["Add dark mode toggle to settings", "Implement user activity logging", "Create admin dashboard for analytics"]`;
 
     const result = await generateText({
-      model: anthropic('claude-3-5-haiku-20241022'),
+      ...getModelSettings('suggestions'),
       prompt,
-      maxTokens: 200,
     });
 
     // Parse the JSON array from the response
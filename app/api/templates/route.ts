@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { listTemplates } from '@/lib/template-store';
+
+/**
+ * GET /api/templates
+ *
+ * Returns the project templates offered in the welcome dialog: the built-in
+ * ones and those in the workspace's .braingrid/templates folder.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ templates: await listTemplates() });
+  } catch (error) {
+    console.error('Templates API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,12 +7,17 @@ import * as vscode from 'vscode';
 import {
     ResearchResults,
     ResearchRequest,
+    ResearchProviderId,
     ChatRequest,
+    CodebaseSection,
+    ClarifyingAnswer,
+    ClarifyingQuestion,
     ParsedArtifacts,
     Task,
+    TaskGenerationFailure,
     SuggestionsResponse
 } from './types';
-import { StorageManager, StoredArtifact, ArtifactType } from '../storage';
+import { StorageManager, StoredArtifact } from '../storage';
 
 /**
  * Configuration for BrainGrid API client.
@@ -30,6 +35,31 @@ const DEFAULT_CONFIG: BrainGridClientConfig = {
     timeout: 120000 // 2 minutes for research/generation
 };
 
+/**
+ * Clarifying questions follow the assistant's message as a JSON block.
+ */
+const QUESTIONS_BLOCK = /\[QUESTIONS_START\]([\s\S]*?)\[QUESTIONS_END\]/;
+const OPEN_QUESTIONS_BLOCK = /\[QUESTIONS_START\][\s\S]*$/;
+const QUESTION_TYPES: ClarifyingQuestion['type'][] = ['single_choice', 'multi_choice', 'free_text', 'numeric'];
+
+/**
+ * Codebase context sections, each from its documentation or raw JSON artifact.
+ */
+const CODEBASE_SECTIONS: { type: CodebaseSection['type']; title: string }[] = [
+    { type: 'summary', title: 'Codebase Summary' },
+    { type: 'architecture', title: 'Architecture' },
+    { type: 'dataModel', title: 'Data Model' },
+    { type: 'workflow', title: 'Workflows' }
+];
+
+/**
+ * Staged generation: a requirements document cut off by the output limit is
+ * continued, then tasks are generated a few functional requirements at a time.
+ */
+const FR_HEADING = /^[ \t]*#{2,4}\s*(FR-\d+)/gm;
+const REQUIREMENTS_PER_TASK_STEP = 3;
+export const MAX_CONTINUATIONS = 3;
+
 /**
  * Client for BrainGrid backend API communication.
  */
@@ -43,14 +73,24 @@ export class BrainGridClient {
     }
 
     /**
-     * Perform domain research using Perplexity + Claude.
+     * Perform domain research with the configured research provider + Claude.
+     * @param codebaseContext - Optional scan summary; the only source when external research is off
+     * @param signal - Aborts the request
      */
-    async research(projectDescription: string): Promise<ResearchResults> {
+    async research(projectDescription: string, codebaseContext?: string, signal?: AbortSignal): Promise<ResearchResults> {
         this.log(`Starting research for: ${projectDescription.substring(0, 50)}...`);
 
+        const setting = vscode.workspace.getConfiguration('braingrid').get<string>('researchProvider', 'auto');
+        const request: ResearchRequest = {
+            projectDescription,
+            codebaseContext,
+            provider: setting === 'auto' ? undefined : setting as ResearchProviderId
+        };
+
         const response = await this.fetch('/api/research', {
             method: 'POST',
-            body: JSON.stringify({ projectDescription } as ResearchRequest)
+            body: JSON.stringify(request),
+            signal
         });
 
         if (!response.ok) {
@@ -70,18 +110,21 @@ export class BrainGridClient {
      * Stream chat response from Claude.
      * @param request - Chat request with messages, phase, and optional research context
      * @param onChunk - Callback for each text chunk received
-     * @param onComplete - Callback when streaming completes with full text
+     * @param onComplete - Callback when streaming completes with full text; awaited
+     * @param signal - Aborts the request and the stream; the server stops generating
      */
     async chatStream(
         request: ChatRequest,
         onChunk: (text: string) => void,
-        onComplete: (fullText: string) => void
+        onComplete: (fullText: string) => void | Promise<void>,
+        signal?: AbortSignal
     ): Promise<void> {
         this.log(`Starting chat stream, phase: ${request.phase}`);
 
         const response = await this.fetch('/api/chat', {
             method: 'POST',
-            body: JSON.stringify(request)
+            body: JSON.stringify(request),
+            signal
         });
 
         if (!response.ok) {
@@ -111,7 +154,78 @@ export class BrainGridClient {
         }
 
         this.log(`Chat stream complete: ${fullText.length} chars`);
-        onComplete(fullText);
+        await onComplete(fullText);
+    }
+
+    /**
+     * Generate a schema-validated task list for the given requirements.
+     * The backend repairs and re-asks on invalid output; if it still cannot
+     * produce a valid list the typed failure is surfaced in the thrown error.
+     */
+    async generateTasks(request: ChatRequest & { requirements: string }, signal?: AbortSignal): Promise<Task[]> {
+        this.log('Requesting structured task list');
+
+        const response = await this.fetch('/api/chat', {
+            method: 'POST',
+            body: JSON.stringify({ ...request, phase: 'generating', output: 'tasks' } as ChatRequest),
+            signal
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({})) as {
+                error?: string;
+                failure?: TaskGenerationFailure;
+            };
+            const failure = data.failure;
+            const details = failure?.issues.length ? `: ${failure.issues.slice(0, 3).join('; ')}` : '';
+            this.log(`Task generation failed: ${JSON.stringify(failure ?? data)}`);
+            throw new Error(`Task generation failed: ${failure?.message || data.error || `HTTP ${response.status}`}${details}`);
+        }
+
+        const data = await response.json() as { tasks: Task[] };
+        this.log(`Generated ${data.tasks.length} tasks`);
+        return data.tasks;
+    }
+
+    /**
+     * Stream the rest of a requirements document that was cut off.
+     * @param content - Generation reply so far, including the cut-off document
+     * @returns Text to append to the reply
+     */
+    async continueRequirements(request: ChatRequest, content: string, signal?: AbortSignal): Promise<string> {
+        const start = content.indexOf('[REQUIREMENTS_START]');
+        const partialRequirements = content.slice(start + '[REQUIREMENTS_START]'.length).trimStart();
+
+        let continuation = '';
+        await this.chatStream(
+            { ...request, phase: 'generating', partialRequirements },
+            (chunk) => { continuation += chunk; },
+            () => {},
+            signal
+        );
+        return continuation.replace('[REQUIREMENTS_START]', '');
+    }
+
+    /**
+     * Group the document's functional requirements into task steps.
+     * A document without numbered requirements is broken down in a single step.
+     */
+    planTaskGroups(requirements: string): string[][] {
+        const ids: string[] = [];
+        const pattern = new RegExp(FR_HEADING.source, FR_HEADING.flags);
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(requirements)) !== null) {
+            if (!ids.includes(match[1])) ids.push(match[1]);
+        }
+        if (ids.length === 0) {
+            return [[]];
+        }
+
+        const groups: string[][] = [];
+        for (let i = 0; i < ids.length; i += REQUIREMENTS_PER_TASK_STEP) {
+            groups.push(ids.slice(i, i + REQUIREMENTS_PER_TASK_STEP));
+        }
+        return groups;
     }
 
     /**
@@ -119,9 +233,18 @@ export class BrainGridClient {
      */
     parseArtifacts(content: string): ParsedArtifacts {
         const result: ParsedArtifacts = {
+            content,
             readyToGenerate: false
         };
 
+        // Extract clarifying questions
+        const questionsMatch = content.match(QUESTIONS_BLOCK);
+        if (questionsMatch) {
+            result.content = content.replace(QUESTIONS_BLOCK, '').trim();
+            result.questions = this.parseQuestions(questionsMatch[1]);
+            this.log(`Extracted ${result.questions?.length ?? 0} clarifying questions`);
+        }
+
         // Check for ready to generate marker
         if (content.includes('[READY_TO_GENERATE]')) {
             result.readyToGenerate = true;
@@ -149,16 +272,100 @@ export class BrainGridClient {
         return result;
     }
 
+    /**
+     * Parse the JSON of a questions block. Invalid questions are dropped;
+     * returns undefined when none are usable.
+     */
+    private parseQuestions(json: string): ClarifyingQuestion[] | undefined {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(json.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+        } catch (e) {
+            this.log(`Failed to parse questions JSON: ${e}`);
+            return undefined;
+        }
+
+        const items = Array.isArray(raw) ? raw : (raw as { questions?: unknown })?.questions;
+        if (!Array.isArray(items)) {
+            return undefined;
+        }
+
+        const questions: ClarifyingQuestion[] = [];
+        for (const item of items as Partial<ClarifyingQuestion>[]) {
+            if (!item || typeof item.id !== 'string' || typeof item.prompt !== 'string' || !item.prompt) continue;
+            if (!item.type || !QUESTION_TYPES.includes(item.type)) continue;
+            if (questions.some(q => q.id === item.id)) continue;
+
+            const isChoice = item.type === 'single_choice' || item.type === 'multi_choice';
+            const options = Array.isArray(item.options)
+                ? item.options.filter((o): o is string => typeof o === 'string' && o.length > 0)
+                : [];
+            if (isChoice && options.length < 2) continue;
+
+            questions.push({
+                id: item.id,
+                type: item.type,
+                prompt: item.prompt,
+                ...(isChoice && { options }),
+                ...(item.type === 'numeric' && {
+                    unit: typeof item.unit === 'string' ? item.unit : undefined,
+                    min: typeof item.min === 'number' ? item.min : undefined,
+                    max: typeof item.max === 'number' ? item.max : undefined
+                }),
+                ...(typeof item.findingId === 'string' && { findingId: item.findingId })
+            });
+        }
+
+        return questions.length > 0 ? questions.slice(0, 5) : undefined;
+    }
+
+    /**
+     * Response text without the questions block, including one still streaming.
+     */
+    stripQuestionsBlock(content: string): string {
+        return content.replace(QUESTIONS_BLOCK, '').replace(OPEN_QUESTIONS_BLOCK, '').trim();
+    }
+
+    /**
+     * Format structured answers as the text shown for the user's message.
+     * The server pairs the answers with their questions for the model.
+     */
+    formatAnswers(questions: ClarifyingQuestion[], answers: ClarifyingAnswer[]): string {
+        const lines = questions.map((q, index) => {
+            const value = answers.find(a => a.questionId === q.id)?.value ?? null;
+            let text = 'Skipped';
+            if (Array.isArray(value)) {
+                text = value.length > 0 ? value.join(', ') : text;
+            } else if (typeof value === 'number') {
+                text = q.unit ? `${value} ${q.unit}` : String(value);
+            } else if (value?.trim()) {
+                text = value.trim();
+            }
+            return `${index + 1}. ${q.prompt}\n   ${text}`;
+        });
+        return `My answers:\n${lines.join('\n')}`;
+    }
+
     /**
      * Format research results as context string for chat.
      */
     formatResearchContext(research: ResearchResults): string {
         const findings = research.findings
             .filter(f => f.relevance === 'high' || f.relevance === 'medium')
-            .map(f => `- **${f.title}** (${f.category}): ${f.content}`)
+            .map(f => {
+                const cited = f.citations && f.citations.length > 0
+                    ? ` [${f.citations.join(', ')}]`
+                    : '';
+                return `- **${f.title}** (${f.category}, id: ${f.id}): ${f.content}${cited}`;
+            })
+            .join('\n');
+
+        const sources = (research.citations || [])
+            .map(c => `[${c.index}] ${c.title}${c.url ? ` (${c.url})` : ''}`)
             .join('\n');
 
-        return `## Research Summary\n${research.summary}\n\n## Key Findings\n${findings}`;
+        const context = `## Research Summary\n${research.summary}\n\n## Key Findings\n${findings}`;
+        return sources ? `${context}\n\n## Sources\n${sources}` : context;
     }
 
     /**
@@ -184,43 +391,45 @@ export class BrainGridClient {
     }
 
     /**
-     * Format scan artifacts into context string for chat.
+     * Scan artifacts that make up the codebase context, in context order.
      * Prefers markdown documentation over raw JSON for better readability.
      */
-    async formatCodebaseContext(storageManager: StorageManager): Promise<string | undefined> {
+    async getCodebaseSections(storageManager: StorageManager): Promise<CodebaseSection[]> {
         const artifacts = await storageManager.listStoredArtifacts();
-        if (artifacts.length === 0) {
-            this.log('No scan artifacts found for codebase context');
-            return undefined;
-        }
-
-        const sections: string[] = [];
+        const sections: CodebaseSection[] = [];
 
         // Prefer documentation artifacts (already formatted markdown)
         // Fallback to JSON summaries if docs not available
-        const docTypes: ArtifactType[] = ['summary-docs', 'architecture-docs', 'dataModel-docs', 'workflow-docs'];
-        const jsonTypes: ArtifactType[] = ['summary', 'architecture', 'dataModel', 'workflow'];
-
-        for (let i = 0; i < docTypes.length; i++) {
-            const docArtifact = artifacts.find(a => a.type === docTypes[i]);
-            const jsonArtifact = artifacts.find(a => a.type === jsonTypes[i]);
-
-            if (docArtifact) {
-                // Use markdown documentation (already well-formatted)
-                sections.push(docArtifact.content);
-            } else if (jsonArtifact) {
-                // Create brief summary from JSON artifact
-                sections.push(this.summarizeJsonArtifact(jsonArtifact));
-            }
+        for (const { type, title } of CODEBASE_SECTIONS) {
+            const docArtifact = artifacts.find(a => a.type === `${type}-docs`);
+            const artifact = docArtifact ?? artifacts.find(a => a.type === type);
+            if (!artifact) continue;
+
+            sections.push({
+                type,
+                title,
+                content: docArtifact ? docArtifact.content : this.summarizeJsonArtifact(artifact),
+                source: docArtifact ? 'docs' : 'summary',
+                generatedAt: artifact.metadata.generatedAt,
+                ...(artifact.metadata.incomplete && { incomplete: true })
+            });
         }
 
+        return sections;
+    }
+
+    /**
+     * Format scan artifacts into context string for chat.
+     */
+    async formatCodebaseContext(storageManager: StorageManager): Promise<string | undefined> {
+        const sections = await this.getCodebaseSections(storageManager);
         if (sections.length === 0) {
-            this.log('No usable artifacts found for codebase context');
+            this.log('No scan artifacts found for codebase context');
             return undefined;
         }
 
         this.log(`Formatted codebase context from ${sections.length} artifacts`);
-        return sections.join('\n\n---\n\n');
+        return sections.map(s => s.content).join('\n\n---\n\n');
     }
 
     /**
@@ -273,6 +482,14 @@ export class BrainGridClient {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
+        // The caller's signal also aborts the response body after headers arrive
+        const callerSignal = options.signal;
+        if (callerSignal?.aborted) {
+            controller.abort();
+        } else {
+            callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+        }
+
         try {
             return await fetch(url, {
                 ...options,
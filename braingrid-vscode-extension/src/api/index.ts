@@ -1,6 +1,6 @@
 /**
  * API module barrel export.
  */
-export { BrainGridClient } from './BrainGridClient';
+export { BrainGridClient, MAX_CONTINUATIONS } from './BrainGridClient';
 export type { BrainGridClientConfig } from './BrainGridClient';
 export * from './types';
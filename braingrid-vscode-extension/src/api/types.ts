@@ -10,10 +10,20 @@ export interface ResearchFinding {
     category: 'concept' | 'best_practice' | 'pitfall' | 'edge_case' | 'technical';
     title: string;
     content: string;
-    source?: string;
+    source?: string;            // Free-text source on research from older servers
+    citations?: number[];       // Indices of the ResearchResults citations supporting it
     relevance: 'high' | 'medium' | 'low';
 }
 
+/**
+ * A source the research was drawn from, referred to by index from findings.
+ */
+export interface ResearchCitation {
+    index: number;
+    title: string;
+    url?: string;               // Absent for knowledge base excerpts and the codebase scan
+}
+
 /**
  * Complete research results from /api/research.
  */
@@ -23,6 +33,7 @@ export interface ResearchResults {
     summary: string;
     suggestedQuestions: string[];
     timestamp: Date;
+    citations?: ResearchCitation[];
 }
 
 /**
@@ -35,12 +46,37 @@ export type ConversationPhase =
     | 'generating'
     | 'complete';
 
+/**
+ * Clarifying question asked as a structured object and answered in a form.
+ */
+export interface ClarifyingQuestion {
+    id: string;
+    type: 'single_choice' | 'multi_choice' | 'free_text' | 'numeric';
+    prompt: string;
+    options?: string[];         // Choice questions only
+    unit?: string;              // Numeric questions only, e.g. "users"
+    min?: number;
+    max?: number;
+    findingId?: string;         // Research finding that motivated the question
+}
+
+/**
+ * Answer to a clarifying question; null when the user skipped it.
+ */
+export interface ClarifyingAnswer {
+    questionId: string;
+    value: string | string[] | number | null;
+}
+
 /**
  * Chat message for API communication.
+ * The server turns questions and structured answers into text for the model.
  */
 export interface ChatMessage {
     role: 'user' | 'assistant';
     content: string;
+    questions?: ClarifyingQuestion[];   // Assistant messages that ask clarifying questions
+    answers?: ClarifyingAnswer[];       // User messages answering them
 }
 
 /**
@@ -51,13 +87,68 @@ export interface ChatRequest {
     phase: ConversationPhase;
     researchContext?: string;    // Web research from Perplexity
     codebaseContext?: string;    // Scan artifacts from local codebase analysis
+    output?: 'text' | 'tasks';   // 'tasks' returns a validated task list as JSON
+    requirements?: string;       // Requirements to break down when output is 'tasks'
+    scope?: TaskGenerationScope; // Step of staged task generation
+    partialRequirements?: string; // Cut-off requirements document to continue
+}
+
+/**
+ * One step of staged task generation: tasks for a few functional requirements,
+ * building on the tasks of earlier steps.
+ */
+export interface TaskGenerationScope {
+    requirementIds: string[];    // e.g. ["FR-4", "FR-5"]; empty for the whole document
+    step: number;
+    totalSteps: number;
+    existingTasks: Task[];
+}
+
+/**
+ * Progress of a generation, kept so a stopped or failed one resumes where it left off.
+ */
+export interface GenerationCheckpoint {
+    content: string;             // Generation reply so far, including the requirements document
+    continuations: number;       // Times a cut-off document was continued
+    taskGroups: string[][];      // Functional requirement ids per task step
+    completedGroups: number;
+    tasks: Task[];
+}
+
+/**
+ * Typed failure returned by /api/chat when a valid task list cannot be produced.
+ */
+export interface TaskGenerationFailure {
+    code: 'INVALID_JSON' | 'SCHEMA_MISMATCH' | 'NO_OUTPUT' | 'MISSING_REQUIREMENTS';
+    message: string;
+    issues: string[];
 }
 
+/**
+ * Research source: web search, the server's knowledge folder, or the codebase scan only.
+ */
+export type ResearchProviderId = 'perplexity' | 'local' | 'none';
+
 /**
  * Request body for /api/research.
  */
 export interface ResearchRequest {
     projectDescription: string;
+    codebaseContext?: string;
+    provider?: ResearchProviderId;
+}
+
+/**
+ * One part of the codebase context: the generated documentation of a scan
+ * artifact, or a short summary of its raw JSON when no documentation exists.
+ */
+export interface CodebaseSection {
+    type: 'summary' | 'architecture' | 'dataModel' | 'workflow';
+    title: string;
+    content: string;             // Markdown
+    source: 'docs' | 'summary';
+    generatedAt: string;         // ISO8601
+    incomplete?: boolean;        // The scan stopped before covering every file
 }
 
 /**
@@ -66,9 +157,21 @@ export interface ResearchRequest {
 export interface ParsedArtifacts {
     requirements?: string;
     tasks?: Task[];
+    questions?: ClarifyingQuestion[];
+    content: string;             // Response text without the questions block
     readyToGenerate: boolean;
 }
 
+/**
+ * Task priority, aligned with requirement priorities
+ */
+export type TaskPriority = 'must-have' | 'should-have' | 'nice-to-have';
+
+/**
+ * Relative task size
+ */
+export type TaskEstimate = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
 /**
  * Task structure from AI generation.
  */
@@ -79,6 +182,10 @@ export interface Task {
     completed: boolean;
     subtasks: Subtask[];
     acceptanceCriteria: string[];
+    dependsOn?: string[];        // Ids of tasks that must be done first
+    estimate?: TaskEstimate;
+    priority?: TaskPriority;
+    requirementId?: string;      // Functional requirement implemented, e.g. "FR-2"
 }
 
 /**
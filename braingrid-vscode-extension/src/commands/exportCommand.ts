@@ -0,0 +1,134 @@
+/**
+ * Export command handler.
+ * Writes stored requirements and tasks to Markdown, JSON, CSV and GitHub-issue files.
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageManager } from '../storage/StorageManager';
+import { buildExportDocument, exportFiles, ExportFile, ExportFormat } from '../export';
+
+/**
+ * Quick pick entries for the available export formats.
+ */
+const FORMAT_ITEMS: Array<vscode.QuickPickItem & { formats: ExportFormat[] }> = [
+    { label: 'Markdown bundle', description: 'Requirements and tasks in one document', formats: ['markdown'] },
+    { label: 'JSON', description: 'Versioned document for re-import', formats: ['json'] },
+    { label: 'Tasks CSV', description: 'Tasks, subtasks and acceptance criteria', formats: ['csv'] },
+    { label: 'GitHub issues', description: 'One Markdown file per task with checklists', formats: ['github-issues'] },
+    { label: 'All formats', formats: ['markdown', 'json', 'csv', 'github-issues'] }
+];
+
+/**
+ * Execute the export command.
+ * @param outputChannel - Output channel for logging
+ */
+export async function executeExportCommand(
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    // Validate workspace
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+        vscode.window.showErrorMessage('BrainGrid: No workspace folder open');
+        return;
+    }
+
+    // Select workspace folder (if multiple)
+    let workspacePath: string;
+    if (workspaceFolders.length === 1) {
+        workspacePath = workspaceFolders[0].uri.fsPath;
+    } else {
+        const items = workspaceFolders.map(f => ({
+            label: f.name,
+            path: f.uri.fsPath
+        }));
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select workspace folder'
+        });
+        if (!selected) {
+            return;
+        }
+        workspacePath = selected.path;
+    }
+
+    const storage = new StorageManager(workspacePath);
+    const requirements = await storage.loadRequirements();
+    const tasks = await storage.loadTasks();
+
+    if (!requirements && tasks.length === 0) {
+        vscode.window.showWarningMessage(
+            'BrainGrid: Nothing to export. Complete a planning session first.'
+        );
+        return;
+    }
+
+    const choice = await vscode.window.showQuickPick(FORMAT_ITEMS, {
+        placeHolder: 'Select export format'
+    });
+    if (!choice) {
+        return;
+    }
+
+    const research = await storage.getLatestResearch();
+    const doc = buildExportDocument(requirements, tasks, research);
+
+    // Task-based formats are skipped when there are no tasks
+    const files: ExportFile[] = [];
+    for (const format of choice.formats) {
+        if (tasks.length === 0 && (format === 'csv' || format === 'github-issues')) {
+            outputChannel.appendLine(`  [SKIP] ${format}: no tasks`);
+            continue;
+        }
+        files.push(...exportFiles(doc, format));
+    }
+
+    if (files.length === 0) {
+        vscode.window.showWarningMessage('BrainGrid: No tasks to export. Generate tasks first.');
+        return;
+    }
+
+    const timestamp = doc.exportedAt.replace(/[:.]/g, '-');
+    const exportPath = path.join(storage.braingridPath, 'exports', timestamp);
+    outputChannel.appendLine(`[${new Date().toISOString()}] Exporting ${files.length} files to: ${exportPath}`);
+
+    try {
+        for (const file of files) {
+            const filePath = path.join(exportPath, file.path);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, file.content, 'utf-8');
+            outputChannel.appendLine(`  [OK] ${file.path}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        outputChannel.appendLine(`[ERROR] Export failed: ${message}`);
+        vscode.window.showErrorMessage(`BrainGrid: Export failed - ${message}`);
+        return;
+    }
+
+    const action = await vscode.window.showInformationMessage(
+        `BrainGrid: Exported ${files.length} files to .braingrid/exports/${timestamp}`,
+        'Open',
+        'Reveal in Explorer'
+    );
+    if (action === 'Open') {
+        const document = await vscode.workspace.openTextDocument(path.join(exportPath, files[0].path));
+        await vscode.window.showTextDocument(document);
+    } else if (action === 'Reveal in Explorer') {
+        vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(path.join(exportPath, files[0].path)));
+    }
+}
+
+/**
+ * Register the export command with VS Code.
+ * @param context - Extension context for subscriptions
+ * @param outputChannel - Output channel for logging
+ */
+export function registerExportCommand(
+    context: vscode.ExtensionContext,
+    outputChannel: vscode.OutputChannel
+): void {
+    const disposable = vscode.commands.registerCommand('braingrid.export', () => {
+        executeExportCommand(outputChannel);
+    });
+    context.subscriptions.push(disposable);
+}
@@ -146,7 +146,7 @@ export async function executeGenerateDocsCommand(
                     });
 
                     try {
-                        await storage.storeArtifact(type as ArtifactType, result);
+                        await storage.storeArtifact(type as ArtifactType, result, 'generation');
                         successCount++;
                         outputChannel.appendLine(`  [OK] ${type}`);
                     } catch (storeError) {
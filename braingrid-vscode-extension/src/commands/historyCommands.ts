@@ -0,0 +1,182 @@
+/**
+ * Revision history command handlers.
+ * Compares saved revisions side by side and restores them.
+ */
+import * as vscode from 'vscode';
+import { StorageManager } from '../storage/StorageManager';
+import { Revision, RevisionSubject } from '../storage/types';
+import {
+    BrainGridTreeProvider,
+    RevisionContentProvider,
+    CURRENT_REVISION_ID,
+    getRevisionSubjectLabel,
+    REVISION_SOURCE_LABELS
+} from '../views';
+
+/**
+ * Format a revision for diff titles and quick picks.
+ */
+function describeRevision(revision: Revision): string {
+    const date = new Date(revision.timestamp).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+    return `${date} (${REVISION_SOURCE_LABELS[revision.source]})`;
+}
+
+/**
+ * Open a side-by-side diff of a revision against the current content.
+ * @param subject - The subject the revision belongs to
+ * @param revision - The revision to compare
+ * @param outputChannel - Output channel for logging
+ */
+export async function compareRevisionWithCurrent(
+    subject: RevisionSubject,
+    revision: Revision,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    const label = getRevisionSubjectLabel(subject);
+    outputChannel.appendLine(`Comparing ${label} revision ${revision.id} with current`);
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        RevisionContentProvider.getUri(subject, revision.id),
+        RevisionContentProvider.getUri(subject, CURRENT_REVISION_ID),
+        `${label}: ${describeRevision(revision)} ↔ Current`
+    );
+}
+
+/**
+ * Open a side-by-side diff of a revision against the revision before it.
+ * @param subject - The subject the revision belongs to
+ * @param revision - The revision to compare
+ * @param storageManager - Storage manager to read the history from
+ * @param outputChannel - Output channel for logging
+ */
+export async function compareRevisionWithPrevious(
+    subject: RevisionSubject,
+    revision: Revision,
+    storageManager: StorageManager,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    // Revisions are listed newest first, so the previous one follows it
+    const revisions = await storageManager.listRevisions(subject);
+    const index = revisions.findIndex(r => r.id === revision.id);
+    const previous = index >= 0 ? revisions[index + 1] : undefined;
+
+    if (!previous) {
+        vscode.window.showInformationMessage('BrainGrid: This is the oldest saved revision.');
+        return;
+    }
+
+    const label = getRevisionSubjectLabel(subject);
+    outputChannel.appendLine(`Comparing ${label} revision ${revision.id} with ${previous.id}`);
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        RevisionContentProvider.getUri(subject, previous.id),
+        RevisionContentProvider.getUri(subject, revision.id),
+        `${label}: ${describeRevision(previous)} ↔ ${describeRevision(revision)}`
+    );
+}
+
+/**
+ * Restore a revision as the current content after confirmation.
+ * @param subject - The subject to restore
+ * @param revision - The revision to restore
+ * @param storageManager - Storage manager for persistence
+ * @param treeProvider - Tree provider for refresh
+ * @param outputChannel - Output channel for logging
+ */
+export async function restoreRevision(
+    subject: RevisionSubject,
+    revision: Revision,
+    storageManager: StorageManager,
+    treeProvider: BrainGridTreeProvider,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    const label = getRevisionSubjectLabel(subject);
+    const choice = await vscode.window.showWarningMessage(
+        `Restore ${label} to the revision from ${describeRevision(revision)}?`,
+        { modal: true, detail: 'The current version stays in the history and can be restored later.' },
+        'Restore'
+    );
+    if (choice !== 'Restore') {
+        return;
+    }
+
+    try {
+        const restored = await storageManager.restoreRevision(subject, revision.id);
+        if (!restored) {
+            vscode.window.showErrorMessage('BrainGrid: Revision not found');
+            return;
+        }
+
+        outputChannel.appendLine(`Restored ${label} revision ${revision.id}`);
+        treeProvider.refresh();
+        vscode.window.showInformationMessage(`BrainGrid: Restored ${label} from ${describeRevision(revision)}`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        outputChannel.appendLine(`[ERROR] Failed to restore ${label} revision: ${message}`);
+        vscode.window.showErrorMessage(`BrainGrid: ${message}`);
+    }
+}
+
+/**
+ * Browse revision history from the command palette: pick a subject, a
+ * revision, then compare or restore it.
+ * @param storageManager - Storage manager to read the history from
+ * @param treeProvider - Tree provider for refresh after a restore
+ * @param outputChannel - Output channel for logging
+ */
+export async function showRevisionHistory(
+    storageManager: StorageManager,
+    treeProvider: BrainGridTreeProvider,
+    outputChannel: vscode.OutputChannel
+): Promise<void> {
+    const subjects = await storageManager.listRevisionSubjects();
+    if (subjects.length === 0) {
+        vscode.window.showInformationMessage('BrainGrid: No revision history yet.');
+        return;
+    }
+
+    const subjectPick = await vscode.window.showQuickPick(
+        subjects.map(subject => ({ label: getRevisionSubjectLabel(subject), subject })),
+        { placeHolder: 'Select what to view the history of' }
+    );
+    if (!subjectPick) {
+        return;
+    }
+
+    const revisions = await storageManager.listRevisions(subjectPick.subject);
+    const revisionPick = await vscode.window.showQuickPick(
+        revisions.map((revision, index) => ({
+            label: describeRevision(revision),
+            description: index === 0 ? 'latest' : undefined,
+            revision
+        })),
+        { placeHolder: `${subjectPick.label} revisions, newest first` }
+    );
+    if (!revisionPick) {
+        return;
+    }
+
+    const action = await vscode.window.showQuickPick(
+        ['Compare with Current', 'Compare with Previous', 'Restore'],
+        { placeHolder: revisionPick.label }
+    );
+
+    switch (action) {
+        case 'Compare with Current':
+            await compareRevisionWithCurrent(subjectPick.subject, revisionPick.revision, outputChannel);
+            break;
+        case 'Compare with Previous':
+            await compareRevisionWithPrevious(subjectPick.subject, revisionPick.revision, storageManager, outputChannel);
+            break;
+        case 'Restore':
+            await restoreRevision(subjectPick.subject, revisionPick.revision, storageManager, treeProvider, outputChannel);
+            break;
+    }
+}
@@ -40,11 +40,15 @@ export async function executeScanCommand(
     const config = vscode.workspace.getConfiguration('braingrid');
     const generateDocumentation = config.get<boolean>('generateDocumentation', false);
     const documentationApiEndpoint = config.get<string>('documentationApiEndpoint', 'http://localhost:3000/api/ai-documentation');
+    const incremental = config.get<boolean>('incrementalScan', true);
+    const workerThreads = config.get<boolean>('scanWorkerThreads', false);
 
     // Run scan with progress UI
     const startTime = Date.now();
     outputChannel.appendLine(`[${new Date().toISOString()}] Starting scan: ${workspacePath}`);
     outputChannel.appendLine(`  Documentation generation: ${generateDocumentation ? 'enabled' : 'disabled'}`);
+    outputChannel.appendLine(`  Incremental: ${incremental ? 'enabled' : 'disabled'}`);
+    outputChannel.appendLine(`  Worker threads: ${workerThreads ? 'enabled' : 'disabled'}`);
 
     await vscode.window.withProgress(
         {
@@ -55,7 +59,9 @@ export async function executeScanCommand(
         async (progress, token) => {
             const orchestrator = new ScanOrchestrator(workspacePath, {
                 generateDocumentation,
-                documentationApiEndpoint
+                documentationApiEndpoint,
+                incremental,
+                workerThreads
             });
             let lastProgress = 0;
 
@@ -85,6 +91,23 @@ export async function executeScanCommand(
                 outputChannel.appendLine(`Scan completed in ${duration}s`);
                 outputChannel.appendLine(`  Artifacts: ${artifactCount}`);
                 outputChannel.appendLine(`  Errors: ${result.errors.length}`);
+                if (result.changes) {
+                    const { added, modified, deleted } = result.changes;
+                    outputChannel.appendLine(
+                        `  Changes since last scan: ${added.length} added, ${modified.length} modified, ${deleted.length} deleted`
+                    );
+                }
+                if (result.unchanged && result.unchanged.length > 0) {
+                    outputChannel.appendLine(`  Unchanged artifacts: ${result.unchanged.join(', ')}`);
+                }
+                if (result.timings) {
+                    const { index, generators, documentation } = result.timings;
+                    const stages = Object.entries(generators).map(([type, ms]) => `${type} ${ms}ms`);
+                    outputChannel.appendLine(`  Timings: index ${index}ms${stages.length > 0 ? `, ${stages.join(', ')}` : ''}`);
+                    if (documentation !== undefined) {
+                        outputChannel.appendLine(`  Documentation: ${documentation}ms`);
+                    }
+                }
 
                 if (result.errors.length > 0) {
                     for (const err of result.errors) {
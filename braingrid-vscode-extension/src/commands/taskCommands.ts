@@ -227,6 +227,12 @@ export function formatTaskContext(task: Task, codebaseSummary: string): string {
     if (task.description) {
         lines.push(task.description);
     }
+    if (task.requirementId) {
+        lines.push(`Implements requirement ${task.requirementId}.`);
+    }
+    if (task.dependsOn && task.dependsOn.length > 0) {
+        lines.push(`Builds on tasks: ${task.dependsOn.join(', ')}.`);
+    }
     lines.push('');
 
     // Subtasks section
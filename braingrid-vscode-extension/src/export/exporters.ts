@@ -0,0 +1,258 @@
+/**
+ * Exporters - Convert requirements and tasks into shareable formats.
+ *
+ * Mirrors the web app's lib/export.ts so both produce identical files.
+ */
+import { Task, ResearchResults } from '../storage/types';
+
+/**
+ * Version of the JSON export document. Bump when its shape changes.
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Supported export formats.
+ */
+export type ExportFormat = 'markdown' | 'json' | 'csv' | 'github-issues';
+
+/**
+ * A file produced by an export, with a path relative to the export folder.
+ */
+export interface ExportFile {
+    path: string;
+    content: string;
+}
+
+/**
+ * Versioned JSON export document.
+ */
+export interface BrainGridExport {
+    format: 'braingrid-export';
+    version: number;
+    exportedAt: string;
+    title: string;
+    requirements: string | null;
+    tasks: Task[];
+    research: ResearchResults | null;
+}
+
+/**
+ * Build the export document from stored artifacts.
+ */
+export function buildExportDocument(
+    requirements: string | null,
+    tasks: Task[],
+    research: ResearchResults | null
+): BrainGridExport {
+    const heading = requirements ? requirements.match(/^#\s+(.+)$/m) : null;
+    return {
+        format: 'braingrid-export',
+        version: EXPORT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        title: heading ? heading[1].trim() : 'BrainGrid Project',
+        requirements,
+        tasks,
+        research
+    };
+}
+
+/**
+ * Convert text to a file-name-safe slug.
+ */
+export function slugify(text: string): string {
+    const slug = text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .substring(0, 60);
+    return slug || 'untitled';
+}
+
+function checkbox(completed: boolean): string {
+    return completed ? '[x]' : '[ ]';
+}
+
+function taskDetails(task: Task, tasks: Task[]): string[] {
+    const details: string[] = [];
+    if (task.requirementId) {
+        details.push(`**Implements:** ${task.requirementId}`);
+    }
+    if (task.priority) {
+        details.push(`**Priority:** ${task.priority}`);
+    }
+    if (task.estimate) {
+        details.push(`**Estimate:** ${task.estimate}`);
+    }
+    if (task.dependsOn && task.dependsOn.length > 0) {
+        const titles = task.dependsOn.map(id => {
+            const dependency = tasks.find(t => t.id === id);
+            return dependency ? dependency.title : id;
+        });
+        details.push(`**Depends on:** ${titles.join(', ')}`);
+    }
+    return details;
+}
+
+/**
+ * Single Markdown document: requirements followed by the task list.
+ */
+export function toMarkdownBundle(doc: BrainGridExport): string {
+    const lines: string[] = [];
+
+    if (doc.requirements) {
+        lines.push(doc.requirements.trim(), '');
+    } else {
+        lines.push(`# ${doc.title}`, '');
+    }
+
+    if (doc.tasks.length > 0) {
+        lines.push('## Tasks', '');
+        doc.tasks.forEach((task, index) => {
+            lines.push(`### ${index + 1}. ${checkbox(task.completed)} ${task.title}`, '');
+            if (task.description) {
+                lines.push(task.description, '');
+            }
+
+            const details = taskDetails(task, doc.tasks);
+            if (details.length > 0) {
+                lines.push(details.join('  \n'), '');
+            }
+
+            if (task.subtasks.length > 0) {
+                lines.push('**Subtasks:**', '');
+                task.subtasks.forEach(s => lines.push(`- ${checkbox(s.completed)} ${s.title}`));
+                lines.push('');
+            }
+            if (task.acceptanceCriteria.length > 0) {
+                lines.push('**Acceptance Criteria:**', '');
+                task.acceptanceCriteria.forEach(c => lines.push(`- ${c}`));
+                lines.push('');
+            }
+        });
+    }
+
+    lines.push('---', `Exported from BrainGrid on ${doc.exportedAt}`, '');
+    return lines.join('\n');
+}
+
+/**
+ * Versioned JSON document.
+ */
+export function toJson(doc: BrainGridExport): string {
+    return JSON.stringify(doc, null, 2);
+}
+
+function csvCell(value: string | boolean | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV row per task, subtask and acceptance criterion, linked by task id.
+ */
+export function toTasksCsv(tasks: Task[]): string {
+    const header = [
+        'type',
+        'task_id',
+        'id',
+        'title',
+        'completed',
+        'priority',
+        'estimate',
+        'requirement_id',
+        'depends_on',
+        'description'
+    ];
+    const rows: Array<Array<string | boolean | undefined>> = [header];
+
+    for (const task of tasks) {
+        rows.push([
+            'task',
+            task.id,
+            task.id,
+            task.title,
+            task.completed,
+            task.priority,
+            task.estimate,
+            task.requirementId,
+            (task.dependsOn || []).join(' '),
+            task.description
+        ]);
+        for (const subtask of task.subtasks) {
+            rows.push(['subtask', task.id, subtask.id, subtask.title, subtask.completed]);
+        }
+        task.acceptanceCriteria.forEach((criterion, index) => {
+            rows.push(['criterion', task.id, `${task.id}-ac-${index + 1}`, criterion]);
+        });
+    }
+
+    return rows.map(row => header.map((_, i) => csvCell(row[i])).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * One GitHub-issue-style Markdown file per task. Front matter carries the
+ * title and labels; the body has checklists for subtasks and criteria.
+ */
+export function toGitHubIssues(doc: BrainGridExport): ExportFile[] {
+    const width = String(doc.tasks.length).length;
+
+    return doc.tasks.map((task, index) => {
+        const labels = [task.priority, task.estimate && `size:${task.estimate}`, task.requirementId]
+            .filter(label => !!label)
+            .map(label => JSON.stringify(label));
+
+        const lines = ['---', `title: ${JSON.stringify(task.title)}`];
+        if (labels.length > 0) {
+            lines.push(`labels: [${labels.join(', ')}]`);
+        }
+        lines.push('---', '');
+
+        if (task.description) {
+            lines.push(task.description, '');
+        }
+
+        const details = taskDetails(task, doc.tasks);
+        if (details.length > 0) {
+            lines.push(details.join('  \n'), '');
+        }
+
+        if (task.subtasks.length > 0) {
+            lines.push('## Tasks', '');
+            task.subtasks.forEach(s => lines.push(`- ${checkbox(s.completed)} ${s.title}`));
+            lines.push('');
+        }
+        if (task.acceptanceCriteria.length > 0) {
+            lines.push('## Acceptance criteria', '');
+            task.acceptanceCriteria.forEach(c => lines.push(`- [ ] ${c}`));
+            lines.push('');
+        }
+
+        let number = String(index + 1);
+        while (number.length < width) {
+            number = `0${number}`;
+        }
+
+        return {
+            path: `issues/${number}-${slugify(task.title)}.md`,
+            content: lines.join('\n')
+        };
+    });
+}
+
+/**
+ * Files produced for an export format.
+ */
+export function exportFiles(doc: BrainGridExport, format: ExportFormat): ExportFile[] {
+    const base = slugify(doc.title);
+
+    switch (format) {
+        case 'markdown':
+            return [{ path: `${base}.md`, content: toMarkdownBundle(doc) }];
+        case 'json':
+            return [{ path: `${base}.json`, content: toJson(doc) }];
+        case 'csv':
+            return [{ path: `${base}-tasks.csv`, content: toTasksCsv(doc.tasks) }];
+        case 'github-issues':
+            return toGitHubIssues(doc);
+    }
+}
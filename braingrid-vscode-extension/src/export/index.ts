@@ -0,0 +1,4 @@
+/**
+ * Export module barrel export
+ */
+export * from './exporters';
@@ -4,10 +4,18 @@ import * as path from 'path';
 import { StorageManager, ConfigManager } from './storage';
 import { registerScanCommand } from './commands/scanCommand';
 import { registerGenerateDocsCommand } from './commands/generateDocsCommand';
+import { registerExportCommand } from './commands/exportCommand';
 import { toggleTaskCompletion, sendTaskToCursor } from './commands/taskCommands';
+import {
+    compareRevisionWithCurrent,
+    compareRevisionWithPrevious,
+    restoreRevision,
+    showRevisionHistory
+} from './commands/historyCommands';
 import { startPlanningSession } from './commands/planningSession';
-import { BrainGridTreeProvider, TaskTreeItem } from './views';
+import { BrainGridTreeProvider, TaskTreeItem, RevisionTreeItem, RevisionContentProvider } from './views';
 import { ChatPanel, ChatViewProvider } from './webview';
+import { ScanWatcher } from './scanner';
 
 let outputChannel: vscode.OutputChannel;
 
@@ -17,6 +25,7 @@ let configManager: ConfigManager | null = null;
 let treeProvider: BrainGridTreeProvider | null = null;
 let treeView: vscode.TreeView<any> | null = null;
 let chatViewProvider: ChatViewProvider | null = null;
+let scanWatcher: ScanWatcher | null = null;
 
 /**
  * Get the StorageManager instance.
@@ -75,6 +84,51 @@ async function ensureGitignoreEntry(workspaceRoot: string): Promise<void> {
     }
 }
 
+/**
+ * Start or stop watch mode to match the braingrid.watchMode setting.
+ * A running watcher is restarted so changed settings take effect.
+ */
+function updateWatchMode(): void {
+    if (scanWatcher) {
+        scanWatcher.dispose();
+        scanWatcher = null;
+        treeProvider?.setArtifactsStale(false);
+    }
+
+    const config = vscode.workspace.getConfiguration('braingrid');
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!config.get<boolean>('watchMode', false) || !storageManager || !workspaceFolder) {
+        return;
+    }
+
+    scanWatcher = new ScanWatcher(
+        workspaceFolder.uri.fsPath,
+        {
+            debounceMs: config.get<number>('watchDebounce', 2000),
+            generateDocumentation: config.get<boolean>('generateDocumentation', false),
+            documentationApiEndpoint: config.get<string>('documentationApiEndpoint', 'http://localhost:3000/api/ai-documentation'),
+            workerThreads: config.get<boolean>('scanWorkerThreads', false)
+        },
+        outputChannel
+    );
+
+    // Artifacts are stale from the first unscanned change until the scan finishes
+    scanWatcher.onDidChangeState(state => {
+        treeProvider?.setArtifactsStale(state !== 'idle');
+    });
+
+    // Keep chat context in line with the code that was just written
+    scanWatcher.onDidUpdate(result => {
+        if (result.unchanged && result.unchanged.length === Object.keys(result.artifacts).length) {
+            return;
+        }
+        chatViewProvider?.refreshCodebaseContext();
+        ChatPanel.getCurrentPanel()?.refreshCodebaseContext();
+    });
+
+    outputChannel.appendLine('Watch mode enabled');
+}
+
 /**
  * Initialize storage system for the workspace.
  */
@@ -143,6 +197,9 @@ async function initializeStorage(context: vscode.ExtensionContext): Promise<void
         chatViewProvider.setStorageManager(storageManager);
         outputChannel.appendLine('ChatViewProvider updated with storage');
     }
+
+    // Start watch mode if enabled
+    updateWatchMode();
 }
 
 export function activate(context: vscode.ExtensionContext) {
@@ -190,6 +247,9 @@ export function activate(context: vscode.ExtensionContext) {
     // Register generate documentation command
     registerGenerateDocsCommand(context, outputChannel);
 
+    // Register export command
+    registerExportCommand(context, outputChannel);
+
     // Register viewArtifacts command to focus TreeView (Explorer section)
     const viewArtifactsDisposable = vscode.commands.registerCommand('braingrid.viewArtifacts', async () => {
         const invokeTime = new Date().toISOString();
@@ -228,6 +288,60 @@ export function activate(context: vscode.ExtensionContext) {
     );
     context.subscriptions.push(sendToCursorDisposable);
 
+    // Register revision document provider for side-by-side diffs
+    const revisionProviderDisposable = vscode.workspace.registerTextDocumentContentProvider(
+        RevisionContentProvider.scheme,
+        new RevisionContentProvider(() => storageManager)
+    );
+    context.subscriptions.push(revisionProviderDisposable);
+
+    // Register revision history commands (receive RevisionTreeItem from the tree)
+    const compareRevisionDisposable = vscode.commands.registerCommand(
+        'braingrid.compareRevision',
+        (item: RevisionTreeItem) => {
+            if (item?.revision) {
+                compareRevisionWithCurrent(item.subject, item.revision, outputChannel);
+            }
+        }
+    );
+    context.subscriptions.push(compareRevisionDisposable);
+
+    const comparePreviousRevisionDisposable = vscode.commands.registerCommand(
+        'braingrid.comparePreviousRevision',
+        (item: RevisionTreeItem) => {
+            if (storageManager && item?.revision) {
+                compareRevisionWithPrevious(item.subject, item.revision, storageManager, outputChannel);
+            } else if (!storageManager) {
+                vscode.window.showWarningMessage('Storage not available. Open a workspace first.');
+            }
+        }
+    );
+    context.subscriptions.push(comparePreviousRevisionDisposable);
+
+    const restoreRevisionDisposable = vscode.commands.registerCommand(
+        'braingrid.restoreRevision',
+        (item: RevisionTreeItem) => {
+            if (storageManager && treeProvider && item?.revision) {
+                restoreRevision(item.subject, item.revision, storageManager, treeProvider, outputChannel);
+            } else if (!storageManager) {
+                vscode.window.showWarningMessage('Storage not available. Open a workspace first.');
+            }
+        }
+    );
+    context.subscriptions.push(restoreRevisionDisposable);
+
+    const showHistoryDisposable = vscode.commands.registerCommand(
+        'braingrid.showHistory',
+        () => {
+            if (storageManager && treeProvider) {
+                showRevisionHistory(storageManager, treeProvider, outputChannel);
+            } else {
+                vscode.window.showWarningMessage('Storage not available. Open a workspace first.');
+            }
+        }
+    );
+    context.subscriptions.push(showHistoryDisposable);
+
     // Register openChat command with ChatPanel
     const openChatDisposable = vscode.commands.registerCommand(
         'braingrid.openChat',
@@ -266,6 +380,15 @@ export function activate(context: vscode.ExtensionContext) {
     );
     context.subscriptions.push(refreshDisposable);
 
+    // Start, stop or restart watch mode when its settings change
+    const watchSettings = ['watchMode', 'watchDebounce', 'generateDocumentation', 'documentationApiEndpoint', 'scanWorkerThreads'];
+    const configurationDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+        if (watchSettings.some(setting => event.affectsConfiguration(`braingrid.${setting}`))) {
+            updateWatchMode();
+        }
+    });
+    context.subscriptions.push(configurationDisposable);
+
     // Register other commands (placeholder implementations)
     const commands = [
         { id: 'braingrid.sync', name: 'Sync' },
@@ -282,7 +405,7 @@ export function activate(context: vscode.ExtensionContext) {
         context.subscriptions.push(disposable);
     }
 
-    outputChannel.appendLine(`Registered ${commands.length + 8} commands`);
+    outputChannel.appendLine(`Registered ${commands.length + 13} commands`);
 
     // Show output channel
     outputChannel.show(true);
@@ -295,5 +418,7 @@ export function deactivate() {
     treeProvider = null;
     treeView = null;
     chatViewProvider = null;
+    scanWatcher?.dispose();
+    scanWatcher = null;
     // Resources are automatically disposed via context.subscriptions
 }
@@ -10,41 +10,23 @@ import {
     ScanError,
     ArtifactResult,
     ProgressCallback,
+    ScanTimings,
     DEFAULT_SCAN_OPTIONS
 } from './types';
 import { StorageManager } from '../storage/StorageManager';
-import { DirectoryStructureGenerator } from './generators/DirectoryStructureGenerator';
-import { CodebaseSummaryGenerator } from './generators/CodebaseSummaryGenerator';
-import { DataModelExtractor } from './generators/DataModelExtractor';
-import { ArchitectureMapper } from './generators/ArchitectureMapper';
-import { WorkflowDetector } from './generators/WorkflowDetector';
+import { ARTIFACT_FILENAMES, CachedFileAnalysis, ScanMetadata, StoredArtifact } from '../storage/types';
+import { AnalysisCache } from './utils/analysisCache';
+import { collectFileHashes, diffFileHashes, countChanges } from './utils/changeDetector';
+import { ScanContext, createScanContext } from './utils/scanContext';
+import { WorkspaceIndex } from './utils/workspaceIndex';
+import { GENERATORS, GeneratorConfig, GeneratorRun, GeneratorWorker, runGenerator } from './pipeline';
 import { DocumentationGenerator } from './generators/DocumentationGenerator';
 import * as path from 'path';
 
-/**
- * Generator configuration type
- */
-interface GeneratorConfig {
-    type: ArtifactType;
-    Generator: new (path: string, opts?: ScanOptions) => { generate(): Promise<ArtifactResult> };
-    message: string;
-}
-
 /**
  * Orchestrates workspace scanning and artifact generation.
  */
 export class ScanOrchestrator {
-    /**
-     * Generator execution order with configuration
-     */
-    private static readonly GENERATOR_ORDER: GeneratorConfig[] = [
-        { type: 'directory', Generator: DirectoryStructureGenerator, message: 'Scanning directory structure...' },
-        { type: 'summary', Generator: CodebaseSummaryGenerator, message: 'Analyzing codebase...' },
-        { type: 'dataModel', Generator: DataModelExtractor, message: 'Extracting data models...' },
-        { type: 'architecture', Generator: ArchitectureMapper, message: 'Mapping architecture...' },
-        { type: 'workflow', Generator: WorkflowDetector, message: 'Detecting workflows...' }
-    ];
-
     /**
      * Timeout for each generator in milliseconds (15 minutes)
      */
@@ -96,13 +78,16 @@ export class ScanOrchestrator {
     }
 
     /**
-     * Run full workspace scan, generating all artifacts.
-     * Artifacts are generated in dependency order:
-     * 1. directory (structure)
-     * 2. summary (tech stack)
-     * 3. dataModel (schemas)
-     * 4. architecture (layers)
-     * 5. workflow (operations)
+     * Scan the workspace, generating all artifacts.
+     * The workspace is walked once; the generators share that index and the
+     * parsed sources, and run concurrently since none depends on another:
+     * directory (structure), summary (tech stack), dataModel (schemas),
+     * architecture (layers) and workflow (operations). With the workerThreads
+     * option each generator runs in its own worker thread instead.
+     *
+     * Incremental scans compare file hashes with the last scan: generators
+     * re-analyse only changed files, and documentation is regenerated only
+     * for artifacts whose content changed.
      *
      * @returns Scan result with all generated artifacts
      */
@@ -121,33 +106,94 @@ export class ScanOrchestrator {
             });
         }
 
-        const totalGenerators = ScanOrchestrator.GENERATOR_ORDER.length;
+        // Index the workspace and detect changes since the last scan
+        this.reportProgress('init', 0, 'Checking for changes...');
+        const index = await WorkspaceIndex.build(this.workspacePath, this.options);
+        const fileHashes = await collectFileHashes(
+            index,
+            this.options,
+            filePath => storage.computeFileHash(filePath)
+        );
+        const timings: ScanTimings = { index: Date.now() - startTime, generators: {} };
+        const previous = this.options.incremental ? await storage.loadScanMetadata() : null;
+        const changes = previous ? diffFileHashes(previous.fileHashes, fileHashes) : undefined;
+
+        if (changes && countChanges(changes) === 0) {
+            const stored = await this.loadStoredArtifacts(storage);
+            if (stored) {
+                this.reportProgress('init', 100, 'No changes since the last scan');
+                const unchanged = GENERATORS.map(g => g.type);
+
+                // Documentation that is missing, e.g. because it was just enabled
+                if (this.options.generateDocumentation) {
+                    await this.generateDocumentation(stored, storage, errors, unchanged, timings);
+                }
 
-        for (let i = 0; i < totalGenerators; i++) {
-            // Check cancellation before each generator
-            if (this.isCancelled()) {
                 return {
-                    artifacts,
+                    artifacts: stored,
                     duration: Date.now() - startTime,
                     errors,
-                    cancelled: true
+                    changes,
+                    unchanged,
+                    timings
                 };
             }
+        }
+        if (changes) {
+            this.reportProgress(
+                'init',
+                0,
+                `${changes.added.length} added, ${changes.modified.length} modified, ${changes.deleted.length} deleted since the last scan`
+            );
+        }
 
-            const { type, Generator, message } = ScanOrchestrator.GENERATOR_ORDER[i];
-            const progress = Math.round((i / totalGenerators) * 100);
+        const context = await createScanContext(this.workspacePath, this.options, index);
+        const unchanged: ArtifactType[] = [];
+        const totalGenerators = GENERATORS.length;
+        let completed = 0;
 
-            this.reportProgress(type, progress, message);
+        // Workers can be stopped mid-run; generators on this thread only between steps
+        const workers: GeneratorWorker[] = [];
+        const cancelListener = this.cancellationToken?.onCancellationRequested(() => {
+            workers.forEach(worker => worker.terminate());
+        });
+
+        await Promise.all(GENERATORS.map(async config => {
+            const { type, message } = config;
+            if (this.isCancelled()) {
+                return;
+            }
+
+            this.reportProgress(type, Math.round((completed / totalGenerators) * 100), message);
+            const generatorStart = Date.now();
 
             try {
-                const generator = new Generator(this.workspacePath, this.options);
-                const result = await this.withTimeout(generator.generate(), type);
+                const cacheEntries = await this.loadCacheEntries(storage, type, previous);
+                const run = this.options.workerThreads
+                    ? await this.runInWorker(config, index, fileHashes, cacheEntries, workers)
+                    : await this.withTimeout(
+                        runGenerator(config, this.workspacePath, this.options, {
+                            ...context,
+                            cache: new AnalysisCache(fileHashes, cacheEntries)
+                        }),
+                        type
+                    );
+                timings.generators[type] = Date.now() - generatorStart;
+                if (run.reusedFiles > 0) {
+                    console.log(`  [${type}] Reused ${run.reusedFiles} unchanged files`);
+                }
 
+                const result = run.result;
                 artifacts[type] = result;
 
-                // Store artifact
+                // Store artifact, noting whether its content changed
                 try {
+                    const stored = await storage.getStoredArtifact(type);
+                    if (stored && !stored.metadata.incomplete && stored.content === result.content) {
+                        unchanged.push(type);
+                    }
                     await storage.storeArtifact(type, result);
+                    await storage.saveAnalysisCache(type, run.cacheEntries);
                 } catch (storeError) {
                     const storeMessage = storeError instanceof Error ? storeError.message : String(storeError);
                     errors.push({
@@ -156,6 +202,10 @@ export class ScanOrchestrator {
                     });
                 }
             } catch (error) {
+                timings.generators[type] = Date.now() - generatorStart;
+                if (this.isCancelled()) {
+                    return;
+                }
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 errors.push({ stage: type, message: errorMessage });
 
@@ -170,19 +220,132 @@ export class ScanOrchestrator {
                 };
             }
 
-            const finalProgress = Math.round(((i + 1) / totalGenerators) * 100);
-            this.reportProgress(type, finalProgress, `${type} complete`);
+            completed++;
+            this.reportProgress(type, Math.round((completed / totalGenerators) * 100), `${type} complete`);
+        }));
+        cancelListener?.dispose();
+
+        if (this.isCancelled()) {
+            return {
+                artifacts,
+                duration: Date.now() - startTime,
+                errors,
+                cancelled: true,
+                changes,
+                timings
+            };
+        }
+
+        // Keep artifacts in generator order regardless of finishing order
+        const ordered: Partial<Record<ArtifactType, ArtifactResult>> = {};
+        for (const { type } of GENERATORS) {
+            if (artifacts[type]) {
+                ordered[type] = artifacts[type];
+            }
         }
 
         // Optional: Generate AI documentation
         if (this.options.generateDocumentation) {
-            await this.generateDocumentation(artifacts, storage, errors);
+            await this.generateDocumentation(ordered, storage, errors, unchanged, timings);
         }
 
+        // Hashes are the baseline for the next incremental scan
+        await storage.saveScanMetadata({
+            timestamp: new Date().toISOString(),
+            fileHashes,
+            fileCount: Object.keys(fileHashes).length
+        });
+
         return {
-            artifacts,
+            artifacts: ordered,
             duration: Date.now() - startTime,
-            errors
+            errors,
+            changes,
+            unchanged,
+            timings
+        };
+    }
+
+    /**
+     * Run a generator in a worker thread, stopping the worker on timeout.
+     * @param workers - Running workers, for cancellation
+     */
+    private async runInWorker(
+        config: GeneratorConfig,
+        index: WorkspaceIndex,
+        fileHashes: Record<string, string>,
+        cacheEntries: Record<string, CachedFileAnalysis>,
+        workers: GeneratorWorker[]
+    ): Promise<GeneratorRun> {
+        const worker = new GeneratorWorker({
+            type: config.type,
+            workspacePath: this.workspacePath,
+            options: this.options,
+            entries: index.toEntries(),
+            fileHashes,
+            cacheEntries
+        });
+        workers.push(worker);
+
+        try {
+            return await this.withTimeout(worker.result(), config.type);
+        } finally {
+            worker.terminate();
+        }
+    }
+
+    /**
+     * Load a generator's analysis cache entries. Full scans start empty, so
+     * every file is analysed again, but still record results for the next scan.
+     */
+    private async loadCacheEntries(
+        storage: StorageManager,
+        type: ArtifactType,
+        previous: ScanMetadata | null
+    ): Promise<Record<string, CachedFileAnalysis>> {
+        return previous ? storage.loadAnalysisCache(type) : {};
+    }
+
+    /**
+     * Load the stored raw and documentation artifacts of the last scan.
+     * @returns The artifacts, or null if any raw artifact is missing or incomplete
+     */
+    private async loadStoredArtifacts(
+        storage: StorageManager
+    ): Promise<Partial<Record<ArtifactType, ArtifactResult>> | null> {
+        const artifacts: Partial<Record<ArtifactType, ArtifactResult>> = {};
+
+        for (const { type } of GENERATORS) {
+            const stored = await storage.getStoredArtifact(type);
+            if (!stored || stored.metadata.incomplete) {
+                return null;
+            }
+            artifacts[type] = this.toArtifactResult(type, stored);
+
+            const docsType = `${type}-docs` as ArtifactType;
+            const docs = docsType in ARTIFACT_FILENAMES ? await storage.getStoredArtifact(docsType) : null;
+            if (docs) {
+                artifacts[docsType] = this.toArtifactResult(docsType, docs);
+            }
+        }
+
+        return artifacts;
+    }
+
+    /**
+     * Convert a stored artifact back into a generator result.
+     */
+    private toArtifactResult(
+        type: ArtifactType,
+        stored: StoredArtifact
+    ): ArtifactResult {
+        return {
+            type,
+            content: stored.content,
+            generatedAt: stored.metadata.generatedAt,
+            fileCount: stored.metadata.fileCount,
+            errorCount: stored.metadata.errorCount,
+            incomplete: stored.metadata.incomplete
         };
     }
 
@@ -191,18 +354,42 @@ export class ScanOrchestrator {
      * @param artifacts - Generated raw artifacts
      * @param storage - Storage manager for persisting results
      * @param errors - Error array to append any failures
+     * @param unchanged - Artifacts whose content did not change; their existing documentation is kept
+     * @param timings - Scan timings to record the documentation duration in
      */
     private async generateDocumentation(
         artifacts: Partial<Record<ArtifactType, ArtifactResult>>,
         storage: StorageManager,
-        errors: ScanError[]
+        errors: ScanError[],
+        unchanged: ArtifactType[] = [],
+        timings?: ScanTimings
     ): Promise<void> {
         // Check cancellation before documentation generation
         if (this.isCancelled()) {
             return;
         }
 
+        // Prepare artifacts map, skipping those whose documentation is current
+        const artifactsMap = new Map<string, string>();
+        for (const [type, result] of Object.entries(artifacts)) {
+            const docsType = `${type}-docs`;
+            if (!result || result.incomplete || !(docsType in ARTIFACT_FILENAMES)) {
+                continue;
+            }
+            if (unchanged.includes(type as ArtifactType)) {
+                const docs = await storage.getStoredArtifact(docsType as ArtifactType);
+                if (docs && !docs.metadata.incomplete) {
+                    continue;
+                }
+            }
+            artifactsMap.set(type, result.content);
+        }
+        if (artifactsMap.size === 0) {
+            return;
+        }
+
         this.reportProgress('documentation', 0, 'Generating AI documentation...');
+        const documentationStart = Date.now();
 
         const docGenerator = new DocumentationGenerator(this.workspacePath, {
             apiEndpoint: this.options.documentationApiEndpoint,
@@ -220,14 +407,6 @@ export class ScanOrchestrator {
             return;
         }
 
-        // Prepare artifacts map
-        const artifactsMap = new Map<string, string>();
-        for (const [type, result] of Object.entries(artifacts)) {
-            if (result && !result.incomplete) {
-                artifactsMap.set(type, result.content);
-            }
-        }
-
         // Generate documentation
         try {
             const docResults = await docGenerator.generateAll(artifactsMap);
@@ -240,7 +419,7 @@ export class ScanOrchestrator {
                     artifacts[type as ArtifactType] = result;
 
                     // Store to disk
-                    await storage.storeArtifact(type as ArtifactType, result);
+                    await storage.storeArtifact(type as ArtifactType, result, 'generation');
                     docCount++;
                 } catch (storeError) {
                     const storeMessage = storeError instanceof Error ? storeError.message : String(storeError);
@@ -260,6 +439,10 @@ export class ScanOrchestrator {
                 message: `Documentation generation failed: ${errorMessage}`
             });
         }
+
+        if (timings) {
+            timings.documentation = Date.now() - documentationStart;
+        }
     }
 
     /**
@@ -268,7 +451,7 @@ export class ScanOrchestrator {
      * @returns Generated artifact result
      */
     async scanArtifact(artifactType: ArtifactType): Promise<ArtifactResult> {
-        const config = ScanOrchestrator.GENERATOR_ORDER.find(g => g.type === artifactType);
+        const config = GENERATORS.find(g => g.type === artifactType);
         if (!config) {
             throw new Error(`Unknown artifact type: ${artifactType}`);
         }
@@ -280,11 +463,26 @@ export class ScanOrchestrator {
         this.reportProgress(artifactType, 0, config.message);
 
         try {
-            const generator = new config.Generator(this.workspacePath, this.options);
-            const result = await this.withTimeout(generator.generate(), artifactType);
+            const index = await WorkspaceIndex.build(this.workspacePath, this.options);
+            const fileHashes = await collectFileHashes(
+                index,
+                this.options,
+                filePath => storage.computeFileHash(filePath)
+            );
+            const previous = this.options.incremental ? await storage.loadScanMetadata() : null;
+            const cacheEntries = await this.loadCacheEntries(storage, artifactType, previous);
+            const context: ScanContext = {
+                ...await createScanContext(this.workspacePath, this.options, index),
+                cache: new AnalysisCache(fileHashes, cacheEntries)
+            };
+            const { result, cacheEntries: newEntries } = await this.withTimeout(
+                runGenerator(config, this.workspacePath, this.options, context),
+                artifactType
+            );
 
             // Store artifact
             await storage.storeArtifact(artifactType, result);
+            await storage.saveAnalysisCache(artifactType, newEntries);
 
             this.reportProgress(artifactType, 100, `${artifactType} complete`);
             return result;
@@ -303,14 +501,20 @@ export class ScanOrchestrator {
      * @throws Error if timeout is exceeded
      */
     private async withTimeout<T>(promise: Promise<T>, stage: ArtifactType): Promise<T> {
-        return Promise.race([
-            promise,
-            new Promise<never>((_, reject) => {
-                setTimeout(() => {
-                    reject(new Error(`${stage} generator timed out after 15 minutes`));
-                }, ScanOrchestrator.GENERATOR_TIMEOUT);
-            })
-        ]);
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            return await Promise.race([
+                promise,
+                new Promise<never>((_, reject) => {
+                    timer = setTimeout(() => {
+                        reject(new Error(`${stage} generator timed out after 15 minutes`));
+                    }, ScanOrchestrator.GENERATOR_TIMEOUT);
+                })
+            ]);
+        } finally {
+            // Concurrent generators would otherwise keep one timer each alive
+            clearTimeout(timer);
+        }
     }
 
     /**
@@ -0,0 +1,218 @@
+/**
+ * ScanWatcher keeps scan artifacts up to date while the workspace is edited
+ * by running incremental scans in the background.
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ScanOrchestrator } from './ScanOrchestrator';
+import { ArtifactType, ScanResult, DEFAULT_SCAN_OPTIONS } from './types';
+import { parseGitignore } from './utils/gitignoreParser';
+import { isScannedPath } from './utils/changeDetector';
+
+/**
+ * Where watch mode stands: waiting for edits to settle, scanning, or current
+ */
+export type WatchState = 'idle' | 'pending' | 'updating';
+
+/**
+ * Options for watch mode
+ */
+export interface ScanWatcherOptions {
+    /** Quiet period after the last file change before updating, in milliseconds */
+    debounceMs: number;
+    /** Regenerate documentation for artifacts that changed */
+    generateDocumentation: boolean;
+    /** API endpoint for documentation generation */
+    documentationApiEndpoint: string;
+    /** Run generators in worker threads */
+    workerThreads: boolean;
+}
+
+/**
+ * Watches the workspace and runs an incremental scan once file changes settle.
+ * Changes made while a scan is running trigger another scan when it finishes.
+ */
+export class ScanWatcher implements vscode.Disposable {
+    private readonly _onDidChangeState = new vscode.EventEmitter<WatchState>();
+    readonly onDidChangeState = this._onDidChangeState.event;
+
+    private readonly _onDidUpdate = new vscode.EventEmitter<ScanResult>();
+    readonly onDidUpdate = this._onDidUpdate.event;
+
+    private readonly fileWatcher: vscode.FileSystemWatcher;
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private gitignorePatterns: string[] = [];
+    private state: WatchState = 'idle';
+    private scanning = false;
+    private rescanRequested = false;
+    private cancellation: vscode.CancellationTokenSource | null = null;
+    private disposed = false;
+
+    /**
+     * Create a watcher and start watching the workspace.
+     * @param workspacePath - Root path of the workspace
+     * @param options - Debounce and documentation settings
+     * @param outputChannel - Output channel for logging
+     */
+    constructor(
+        private readonly workspacePath: string,
+        private readonly options: ScanWatcherOptions,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {
+        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(workspacePath, '**/*')
+        );
+        const onChange = (uri: vscode.Uri) => this.handleChange(uri);
+        this.fileWatcher.onDidCreate(onChange);
+        this.fileWatcher.onDidChange(onChange);
+        this.fileWatcher.onDidDelete(onChange);
+
+        this.loadGitignore();
+    }
+
+    /**
+     * Get the current watch state.
+     */
+    getState(): WatchState {
+        return this.state;
+    }
+
+    /**
+     * Schedule an update for a changed file, ignoring files scans skip.
+     */
+    private handleChange(uri: vscode.Uri): void {
+        const relativePath = path.relative(this.workspacePath, uri.fsPath);
+
+        if (relativePath === '.gitignore') {
+            // The set of scanned files may have changed
+            this.loadGitignore();
+        } else if (!isScannedPath(relativePath, DEFAULT_SCAN_OPTIONS, this.gitignorePatterns)) {
+            return;
+        }
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = undefined;
+            this.update();
+        }, this.options.debounceMs);
+
+        if (!this.scanning) {
+            this.setState('pending');
+        }
+    }
+
+    /**
+     * Run an incremental scan, or queue one if a scan is already running.
+     */
+    private async update(): Promise<void> {
+        if (this.disposed) {
+            return;
+        }
+        if (this.scanning) {
+            this.rescanRequested = true;
+            return;
+        }
+
+        this.scanning = true;
+        this.setState('updating');
+        try {
+            await this.scan();
+        } finally {
+            this.scanning = false;
+        }
+
+        if (this.disposed) {
+            return;
+        }
+        if (this.rescanRequested) {
+            this.rescanRequested = false;
+            this.update();
+        } else {
+            this.setState(this.debounceTimer ? 'pending' : 'idle');
+        }
+    }
+
+    /**
+     * Scan with window progress only, so editing is never interrupted.
+     */
+    private async scan(): Promise<void> {
+        const startTime = Date.now();
+        const orchestrator = new ScanOrchestrator(this.workspacePath, {
+            generateDocumentation: this.options.generateDocumentation,
+            documentationApiEndpoint: this.options.documentationApiEndpoint,
+            incremental: true,
+            workerThreads: this.options.workerThreads
+        });
+        const cancellation = new vscode.CancellationTokenSource();
+        orchestrator.setCancellationToken(cancellation.token);
+        this.cancellation = cancellation;
+
+        try {
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Window,
+                    title: 'BrainGrid: Updating artifacts'
+                },
+                () => orchestrator.scanWorkspace()
+            );
+            if (result.cancelled) {
+                return;
+            }
+
+            const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+            const updated = Object.keys(result.artifacts)
+                .filter(type => !result.unchanged?.includes(type as ArtifactType));
+            this.outputChannel.appendLine(
+                `[${new Date().toISOString()}] Watch mode scan finished in ${duration}s: ` +
+                (updated.length > 0 ? `updated ${updated.join(', ')}` : 'no artifact changes')
+            );
+            for (const err of result.errors) {
+                this.outputChannel.appendLine(`  [ERROR] ${err.stage}: ${err.message}`);
+            }
+
+            this._onDidUpdate.fire(result);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.outputChannel.appendLine(`[ERROR] Watch mode update failed: ${message}`);
+        } finally {
+            cancellation.dispose();
+            this.cancellation = null;
+        }
+    }
+
+    /**
+     * Load the .gitignore patterns used to filter file changes.
+     */
+    private loadGitignore(): void {
+        parseGitignore(this.workspacePath).then(patterns => {
+            this.gitignorePatterns = patterns;
+        });
+    }
+
+    /**
+     * Update the state and notify listeners if it changed.
+     */
+    private setState(state: WatchState): void {
+        if (this.state === state || this.disposed) {
+            return;
+        }
+        this.state = state;
+        this._onDidChangeState.fire(state);
+    }
+
+    /**
+     * Stop watching and cancel a running scan.
+     */
+    dispose(): void {
+        this.disposed = true;
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.cancellation?.cancel();
+        this.fileWatcher.dispose();
+        this._onDidChangeState.dispose();
+        this._onDidUpdate.dispose();
+    }
+}
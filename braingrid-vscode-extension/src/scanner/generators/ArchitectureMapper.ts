@@ -4,9 +4,15 @@
  */
 import * as path from 'path';
 import { ArtifactResult, ScanOptions, DEFAULT_SCAN_OPTIONS } from '../types';
-import { listDirectory, isDirectory, pathExists } from '../utils/fileSystem';
-import { parseGitignore, isIgnored } from '../utils/gitignoreParser';
-import { ImportAnalyzer, ImportInfo } from '../utils/importAnalyzer';
+import { ImportAnalyzer } from '../utils/importAnalyzer';
+import { readFileSafe } from '../utils/fileSystem';
+import { PythonImport, parsePythonImports, isPythonStdlibModule } from '../utils/pythonParser';
+import { parseGoImports } from '../utils/goParser';
+import { parseRustImports, isRustStdCrate } from '../utils/rustParser';
+import { parseGoMod, parseCargoToml } from '../utils/dependencyParser';
+import { AnalysisCache } from '../utils/analysisCache';
+import { ScanContext, createScanContext } from '../utils/scanContext';
+import { WorkspaceIndex } from '../utils/workspaceIndex';
 
 /**
  * Architecture layer types
@@ -53,7 +59,27 @@ export interface LayerInfo {
 export interface DependencyEdge {
     from: string;      // Source file path
     to: string;        // Target file/module
-    importType: 'relative' | 'alias' | 'external';
+    importType: 'relative' | 'alias' | 'absolute' | 'external'; // absolute: workspace module, package or crate path
+}
+
+/**
+ * Imports of one file: internal edges and external package names
+ */
+interface FileImports {
+    internal: Omit<DependencyEdge, 'from'>[];
+    external: string[];
+}
+
+/**
+ * Go modules and Rust crates of the workspace, to tell workspace imports from dependencies
+ */
+interface WorkspaceModules {
+    /** Module paths of the go.mod files */
+    goModules: string[];
+    /** Modules the go.mod files require */
+    goRequires: string[];
+    /** Package names of the Cargo.toml files, as code refers to them */
+    crates: Set<string>;
 }
 
 /**
@@ -75,16 +101,16 @@ const LAYER_PATTERNS: Record<Exclude<ArchitectureLayer, 'unknown'>, string[]> =
         'app', 'src/app', 'src/pages', 'src/components'
     ],
     'api': [
-        'api', 'routes', 'controllers', 'handlers',
+        'api', 'routes', 'controllers', 'handlers', 'routers', 'endpoints', 'handler', 'controller',
         'app/api', 'src/api', 'pages/api'
     ],
     'business': [
-        'services', 'usecases', 'use-cases', 'domain',
+        'services', 'usecases', 'use-cases', 'domain', 'service', 'usecase',
         'core', 'business', 'logic'
     ],
     'data': [
         'repositories', 'repos', 'data', 'database', 'db',
-        'models', 'entities', 'prisma'
+        'models', 'entities', 'prisma', 'repository', 'model', 'entity'
     ],
     'infrastructure': [
         'lib', 'utils', 'helpers', 'config', 'shared',
@@ -96,17 +122,20 @@ const LAYER_PATTERNS: Record<Exclude<ArchitectureLayer, 'unknown'>, string[]> =
  * Entry point file patterns
  */
 const ENTRY_POINT_PATTERNS: Record<EntryPointType, string[]> = {
-    'main': ['index.ts', 'index.js', 'main.ts', 'main.js', 'app.ts', 'app.js', 'server.ts', 'server.js'],
+    'main': [
+        'index.ts', 'index.js', 'main.ts', 'main.js', 'app.ts', 'app.js', 'server.ts', 'server.js',
+        'main.py', 'app.py', 'wsgi.py', 'asgi.py', 'main.go', 'main.rs'
+    ],
     'api-route': ['route.ts', 'route.js'],
     'page': ['page.tsx', 'page.jsx', 'page.ts', 'page.js'],
     'worker': ['worker.ts', 'worker.js'],
-    'cli': ['cli.ts', 'cli.js', 'bin.ts', 'bin.js']
+    'cli': ['cli.ts', 'cli.js', 'bin.ts', 'bin.js', 'cli.py', 'manage.py', '__main__.py']
 };
 
 /**
  * Code file extensions
  */
-const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs'];
 
 /**
  * Maps folders to architectural layers and builds dependency graph.
@@ -114,18 +143,22 @@ const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
 export class ArchitectureMapper {
     private readonly workspacePath: string;
     private readonly options: Required<ScanOptions>;
-    private gitignorePatterns: string[] = [];
     private errorCount = 0;
     private fileCount = 0;
+    private readonly context: ScanContext | null;
+    private readonly cache: AnalysisCache | null;
 
     /**
      * Create a new ArchitectureMapper.
      * @param workspacePath - Root path of the workspace to scan
      * @param options - Scan configuration options
+     * @param context - File index, parsed sources and analysis cache of a scan
      */
-    constructor(workspacePath: string, options?: ScanOptions) {
+    constructor(workspacePath: string, options?: ScanOptions, context?: ScanContext) {
         this.workspacePath = workspacePath;
         this.options = { ...DEFAULT_SCAN_OPTIONS, ...options };
+        this.context = context ?? null;
+        this.cache = context?.cache ?? null;
     }
 
     /**
@@ -137,22 +170,20 @@ export class ArchitectureMapper {
         this.errorCount = 0;
         this.fileCount = 0;
 
-        // Parse gitignore
-        console.log('  [architecture] Parsing gitignore...');
-        this.gitignorePatterns = await parseGitignore(this.workspacePath);
+        const context = this.context ?? await createScanContext(this.workspacePath, this.options);
 
         // Run sequentially with progress logging instead of parallel
         // This makes progress more visible
         console.log('  [architecture] Step 1/3: Detecting layers...');
-        const layers = await this.detectLayers();
+        const layers = this.detectLayers(context.index);
         console.log(`  [architecture] Step 1/3 complete: Found ${layers.length} layers`);
 
         console.log('  [architecture] Step 2/3: Finding entry points...');
-        const entryPoints = await this.findEntryPoints();
+        const entryPoints = this.findEntryPoints(context.index);
         console.log(`  [architecture] Step 2/3 complete: Found ${entryPoints.length} entry points`);
 
         console.log('  [architecture] Step 3/3: Analyzing dependencies (this may take a while)...');
-        const dependencyInfo = await this.analyzeDependencies();
+        const dependencyInfo = await this.analyzeDependencies(context);
         console.log(`  [architecture] Step 3/3 complete: ${this.fileCount} files, ${dependencyInfo.dependencies.length} deps, ${dependencyInfo.externalDeps.length} external`);
 
         const architecture: ArchitectureModel = {
@@ -172,9 +203,9 @@ export class ArchitectureMapper {
     }
 
     /**
-     * Detect architecture layers by scanning directories.
+     * Detect architecture layers by classifying directories.
      */
-    private async detectLayers(): Promise<LayerInfo[]> {
+    private detectLayers(index: WorkspaceIndex): LayerInfo[] {
         const layerCounts: Record<ArchitectureLayer, { dirs: Set<string>; files: number }> = {
             'presentation': { dirs: new Set(), files: 0 },
             'api': { dirs: new Set(), files: 0 },
@@ -184,7 +215,21 @@ export class ArchitectureMapper {
             'unknown': { dirs: new Set(), files: 0 }
         };
 
-        await this.traverseForLayers(this.workspacePath, 0, layerCounts);
+        for (const entry of index.toEntries()) {
+            if (entry.depth > this.options.maxDepth) continue;
+
+            if (entry.isDirectory) {
+                // Classify the directory
+                const dirLayer = this.classifyDirectory(entry.relativePath);
+                if (dirLayer !== 'unknown') {
+                    layerCounts[dirLayer].dirs.add(entry.relativePath);
+                }
+            } else if (this.isCodeFile(entry.name)) {
+                // Classify file based on parent directory
+                const parentLayer = this.classifyDirectory(path.dirname(entry.relativePath));
+                layerCounts[parentLayer].files++;
+            }
+        }
 
         // Convert to LayerInfo array, excluding 'unknown' if empty
         return Object.entries(layerCounts)
@@ -196,49 +241,6 @@ export class ArchitectureMapper {
             }));
     }
 
-    /**
-     * Recursively traverse directories to classify layers.
-     */
-    private async traverseForLayers(
-        dirPath: string,
-        depth: number,
-        counts: Record<ArchitectureLayer, { dirs: Set<string>; files: number }>
-    ): Promise<void> {
-        if (depth >= this.options.maxDepth) return;
-
-        let entries: string[];
-        try {
-            entries = await listDirectory(dirPath);
-        } catch {
-            return;
-        }
-
-        const relativeDirPath = path.relative(this.workspacePath, dirPath);
-
-        for (const entry of entries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
-
-            // Check exclusions
-            if (this.options.excludePatterns.includes(entry)) continue;
-            if (isIgnored(relativePath, this.gitignorePatterns, isDir)) continue;
-
-            if (isDir) {
-                // Classify the directory
-                const dirLayer = this.classifyDirectory(relativePath);
-                if (dirLayer !== 'unknown') {
-                    counts[dirLayer].dirs.add(relativePath);
-                }
-                await this.traverseForLayers(entryPath, depth + 1, counts);
-            } else if (this.isCodeFile(entry)) {
-                // Classify file based on parent directory
-                const parentLayer = this.classifyDirectory(relativeDirPath || '.');
-                counts[parentLayer].files++;
-            }
-        }
-    }
-
     /**
      * Classify a directory into an architecture layer.
      */
@@ -275,51 +277,21 @@ export class ArchitectureMapper {
     /**
      * Find all entry points in the codebase.
      */
-    private async findEntryPoints(): Promise<EntryPoint[]> {
+    private findEntryPoints(index: WorkspaceIndex): EntryPoint[] {
         const entryPoints: EntryPoint[] = [];
-        await this.traverseForEntryPoints(this.workspacePath, 0, entryPoints);
-        return entryPoints;
-    }
 
-    /**
-     * Recursively traverse directories to find entry points.
-     */
-    private async traverseForEntryPoints(
-        dirPath: string,
-        depth: number,
-        entryPoints: EntryPoint[]
-    ): Promise<void> {
-        if (depth >= this.options.maxDepth) return;
-
-        let entries: string[];
-        try {
-            entries = await listDirectory(dirPath);
-        } catch {
-            return;
-        }
-
-        for (const entry of entries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
-
-            // Check exclusions
-            if (this.options.excludePatterns.includes(entry)) continue;
-            if (isIgnored(relativePath, this.gitignorePatterns, isDir)) continue;
-
-            if (isDir) {
-                await this.traverseForEntryPoints(entryPath, depth + 1, entryPoints);
-            } else {
-                const entryPointType = this.classifyEntryPoint(entry, relativePath);
-                if (entryPointType) {
-                    entryPoints.push({
-                        filePath: relativePath,
-                        type: entryPointType,
-                        name: this.getEntryPointName(relativePath, entryPointType)
-                    });
-                }
+        for (const file of index.files({ maxDepth: this.options.maxDepth })) {
+            const entryPointType = this.classifyEntryPoint(file.name, file.relativePath);
+            if (entryPointType) {
+                entryPoints.push({
+                    filePath: file.relativePath,
+                    type: entryPointType,
+                    name: this.getEntryPointName(file.relativePath, entryPointType)
+                });
             }
         }
+
+        return entryPoints;
     }
 
     /**
@@ -342,6 +314,14 @@ export class ArchitectureMapper {
             return 'page';
         }
 
+        // Go commands (cmd/server/main.go) and Rust binaries (src/bin/migrate.rs)
+        if (/(^|\/)cmd\/[^/]+\/main\.go$/.test(normalizedPath)) {
+            return 'main';
+        }
+        if (/(^|\/)src\/bin\/[^/]+\.rs$/.test(normalizedPath)) {
+            return 'cli';
+        }
+
         // Check main entry points (only at root or src level)
         const pathDepth = relativePath.split(/[/\\]/).length;
         if (pathDepth <= 2) {
@@ -382,6 +362,11 @@ export class ArchitectureMapper {
             return normalizedPath.replace(/\/page\.[jt]sx?$/i, '').replace(/^app/i, '') || '/';
         }
 
+        // Go commands are named by their directory: cmd/server/main.go -> server
+        if (/(^|\/)cmd\/[^/]+\/main\.go$/i.test(normalizedPath)) {
+            return path.basename(path.dirname(relativePath));
+        }
+
         // For other types, use the filename without extension
         return path.basename(relativePath, path.extname(relativePath));
     }
@@ -389,94 +374,238 @@ export class ArchitectureMapper {
     /**
      * Analyze dependencies by parsing imports.
      */
-    private async analyzeDependencies(): Promise<{
+    private async analyzeDependencies(context: ScanContext): Promise<{
         dependencies: DependencyEdge[];
         externalDeps: string[];
     }> {
         const dependencies: DependencyEdge[] = [];
-        const externalDepsSet = new Set<string>();
-        const analyzer = new ImportAnalyzer();
+        const externalDeps = new Set<string>();
+        const analyzer = new ImportAnalyzer(context.project);
+        const pythonModules = this.findPythonModules(context.index);
+        const workspaceModules = await this.findWorkspaceModules(context.index);
+
+        for (const file of context.index.files({ maxDepth: this.options.maxDepth })) {
+            if (!this.isCodeFile(file.name)) continue;
+
+            this.fileCount++;
+            // Log progress every 100 files
+            if (this.fileCount % 100 === 0) {
+                console.log(`  [architecture] Analyzed ${this.fileCount} files...`);
+            }
+            try {
+                // Python, Go and Rust imports are cached unclassified: whether a
+                // module is internal depends on the workspace
+                let fileImports: FileImports | undefined;
+                if (file.name.endsWith('.py')) {
+                    const imports = await this.readImports(file.relativePath, file.absolutePath, parsePythonImports);
+                    if (!imports) continue;
+                    fileImports = this.classifyPythonImports(imports, pythonModules);
+                } else if (file.name.endsWith('.go')) {
+                    const imports = await this.readImports(file.relativePath, file.absolutePath, parseGoImports);
+                    if (!imports) continue;
+                    fileImports = this.classifyGoImports(imports, workspaceModules);
+                } else if (file.name.endsWith('.rs')) {
+                    const imports = await this.readImports(file.relativePath, file.absolutePath, parseRustImports);
+                    if (!imports) continue;
+                    fileImports = this.classifyRustImports(imports, workspaceModules);
+                } else {
+                    fileImports = this.cache?.get<FileImports>(file.relativePath);
+                    if (!fileImports) {
+                        fileImports = this.analyzeImports(analyzer, file.absolutePath);
+                        this.cache?.set(file.relativePath, fileImports);
+                    }
+                }
 
-        await this.traverseForDependencies(
-            this.workspacePath,
-            0,
-            analyzer,
-            dependencies,
-            externalDepsSet
-        );
+                for (const edge of fileImports.internal) {
+                    dependencies.push({ from: file.relativePath, ...edge });
+                }
+                for (const packageName of fileImports.external) {
+                    externalDeps.add(packageName);
+                }
+            } catch {
+                this.errorCount++;
+            }
+        }
 
         return {
             dependencies,
-            externalDeps: Array.from(externalDepsSet).sort()
+            externalDeps: Array.from(externalDeps).sort()
         };
     }
 
     /**
-     * Recursively traverse directories to analyze dependencies.
+     * Read a file's imports from the analysis cache, or parse and cache them.
+     * @returns Parsed imports, or null if the file cannot be read
      */
-    private async traverseForDependencies(
-        dirPath: string,
-        depth: number,
-        analyzer: ImportAnalyzer,
-        dependencies: DependencyEdge[],
-        externalDeps: Set<string>
-    ): Promise<void> {
-        if (depth >= this.options.maxDepth) return;
-
-        let entries: string[];
-        try {
-            entries = await listDirectory(dirPath);
-        } catch {
-            return;
+    private async readImports<T>(
+        relativePath: string,
+        filePath: string,
+        parse: (content: string) => T
+    ): Promise<T | null> {
+        const cached = this.cache?.get<T>(relativePath);
+        if (cached) return cached;
+
+        const content = await readFileSafe(filePath, this.options.maxFileSize);
+        if (content === null) {
+            this.errorCount++;
+            return null;
         }
+        const imports = parse(content);
+        this.cache?.set(relativePath, imports);
+        return imports;
+    }
 
-        for (const entry of entries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
-
-            // Check exclusions
-            if (this.options.excludePatterns.includes(entry)) continue;
-            if (isIgnored(relativePath, this.gitignorePatterns, isDir)) continue;
-
-            if (isDir) {
-                await this.traverseForDependencies(
-                    entryPath,
-                    depth + 1,
-                    analyzer,
-                    dependencies,
-                    externalDeps
-                );
-            } else if (this.isCodeFile(entry)) {
-                this.fileCount++;
-                // Log progress every 100 files
-                if (this.fileCount % 100 === 0) {
-                    console.log(`  [architecture] Analyzed ${this.fileCount} files...`);
+    /**
+     * Parse a file's imports into internal edges and external packages.
+     */
+    private analyzeImports(analyzer: ImportAnalyzer, filePath: string): FileImports {
+        const fileImports: FileImports = { internal: [], external: [] };
+
+        for (const imp of analyzer.analyzeFile(filePath).imports) {
+            if (imp.isExternal) {
+                // Extract package name from external import
+                const packageName = this.extractPackageName(imp.source);
+                if (packageName) {
+                    fileImports.external.push(packageName);
                 }
-                try {
-                    const fileDep = analyzer.analyzeFile(entryPath);
-
-                    for (const imp of fileDep.imports) {
-                        if (imp.isExternal) {
-                            // Extract package name from external import
-                            const packageName = this.extractPackageName(imp.source);
-                            if (packageName) {
-                                externalDeps.add(packageName);
-                            }
-                        } else {
-                            // Internal dependency
-                            dependencies.push({
-                                from: relativePath,
-                                to: imp.source,
-                                importType: imp.isRelative ? 'relative' : 'alias'
-                            });
-                        }
-                    }
-                } catch {
-                    this.errorCount++;
+            } else {
+                // Internal dependency
+                fileImports.internal.push({
+                    to: imp.source,
+                    importType: imp.isRelative ? 'relative' : 'alias'
+                });
+            }
+        }
+
+        return fileImports;
+    }
+
+    /**
+     * Find the top-level Python modules and packages of the workspace, at the
+     * root or in a `src` layout, to tell workspace imports from packages.
+     */
+    private findPythonModules(index: WorkspaceIndex): Set<string> {
+        const modules = new Set<string>();
+
+        for (const dir of ['', 'src']) {
+            for (const entry of index.children(dir)) {
+                if (!entry.isDirectory && entry.name.endsWith('.py')) {
+                    modules.add(path.basename(entry.name, '.py'));
+                } else if (entry.isDirectory &&
+                    index.children(entry.relativePath).some(child => child.name.endsWith('.py'))) {
+                    modules.add(entry.name);
                 }
             }
         }
+
+        return modules;
+    }
+
+    /**
+     * Sort a Python file's imports into internal edges and external packages.
+     */
+    private classifyPythonImports(imports: PythonImport[], pythonModules: Set<string>): FileImports {
+        const fileImports: FileImports = { internal: [], external: [] };
+        // Modules imported from in several statements, e.g. from .models import A / B
+        const seen = new Set<string>();
+
+        for (const imp of imports) {
+            if (imp.level > 0) {
+                const dots = '.'.repeat(imp.level);
+                // from . import views: each name is a sibling module
+                const targets = imp.module ? [dots + imp.module] : imp.names.map(n => dots + n.name);
+                for (const to of targets) {
+                    if (seen.has(to)) continue;
+                    seen.add(to);
+                    fileImports.internal.push({ to, importType: 'relative' });
+                }
+                continue;
+            }
+
+            const topLevel = imp.module.split('.')[0];
+            if (pythonModules.has(topLevel)) {
+                if (seen.has(imp.module)) continue;
+                seen.add(imp.module);
+                fileImports.internal.push({ to: imp.module, importType: 'absolute' });
+            } else if (!isPythonStdlibModule(topLevel)) {
+                fileImports.external.push(topLevel);
+            }
+        }
+
+        return fileImports;
+    }
+
+    /**
+     * Read the module paths and requirements of the workspace's go.mod files
+     * and the package names of its Cargo.toml files.
+     */
+    private async findWorkspaceModules(index: WorkspaceIndex): Promise<WorkspaceModules> {
+        const modules: WorkspaceModules = { goModules: [], goRequires: [], crates: new Set() };
+
+        for (const file of index.files()) {
+            if (file.name === 'go.mod') {
+                const info = await parseGoMod(path.dirname(file.absolutePath));
+                if (info?.name) modules.goModules.push(info.name);
+                modules.goRequires.push(...(info?.dependencies ?? []));
+            } else if (file.name === 'Cargo.toml') {
+                const info = await parseCargoToml(path.dirname(file.absolutePath));
+                // Code refers to a crate with dashes in its name by underscores
+                if (info?.name) modules.crates.add(info.name.replace(/-/g, '_'));
+            }
+        }
+
+        return modules;
+    }
+
+    /**
+     * Sort a Go file's imports into internal edges and external modules.
+     * Workspace packages are under a go.mod module path; standard library
+     * packages have no dot in their first path element.
+     */
+    private classifyGoImports(imports: string[], modules: WorkspaceModules): FileImports {
+        const fileImports: FileImports = { internal: [], external: [] };
+        const isUnder = (importPath: string, modulePath: string) =>
+            importPath === modulePath || importPath.startsWith(modulePath + '/');
+
+        for (const importPath of imports) {
+            if (modules.goModules.some(modulePath => isUnder(importPath, modulePath))) {
+                fileImports.internal.push({ to: importPath, importType: 'absolute' });
+            } else if (importPath.split('/')[0].includes('.')) {
+                // The required module, or the repository for hosts such as github.com
+                const required = modules.goRequires
+                    .filter(modulePath => isUnder(importPath, modulePath))
+                    .sort((a, b) => b.length - a.length)[0];
+                fileImports.external.push(required ?? importPath.split('/').slice(0, 3).join('/'));
+            }
+        }
+
+        return fileImports;
+    }
+
+    /**
+     * Sort a Rust file's `use` paths and module declarations into internal
+     * edges and external crates.
+     */
+    private classifyRustImports(imports: string[], modules: WorkspaceModules): FileImports {
+        const fileImports: FileImports = { internal: [], external: [] };
+
+        // Modules declared by the file can be used without self::
+        const localModules = new Set(
+            imports.filter(usePath => usePath.startsWith('self::')).map(usePath => usePath.split('::')[1])
+        );
+
+        for (const usePath of imports) {
+            const root = usePath.split('::')[0];
+            if (root === 'self' || root === 'super' || localModules.has(root)) {
+                fileImports.internal.push({ to: usePath, importType: 'relative' });
+            } else if (root === 'crate' || modules.crates.has(root)) {
+                fileImports.internal.push({ to: usePath, importType: 'absolute' });
+            } else if (!isRustStdCrate(root)) {
+                fileImports.external.push(root);
+            }
+        }
+
+        return fileImports;
     }
 
     /**
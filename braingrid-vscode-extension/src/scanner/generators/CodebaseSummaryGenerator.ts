@@ -4,8 +4,9 @@
  */
 import * as path from 'path';
 import { ArtifactResult, ScanOptions, DEFAULT_SCAN_OPTIONS } from '../types';
-import { readFileSafe, listDirectory, isDirectory, pathExists } from '../utils/fileSystem';
-import { parseGitignore, isIgnored } from '../utils/gitignoreParser';
+import { readFileSafe, pathExists } from '../utils/fileSystem';
+import { ScanContext, createScanContext } from '../utils/scanContext';
+import { WorkspaceIndex } from '../utils/workspaceIndex';
 import { parseAllDependencies, DependencyInfo } from '../utils/dependencyParser';
 
 /**
@@ -144,7 +145,7 @@ const LANGUAGE_EXTENSIONS: Record<string, string> = {
 export class CodebaseSummaryGenerator {
     private readonly workspacePath: string;
     private readonly options: Required<ScanOptions>;
-    private gitignorePatterns: string[] = [];
+    private readonly context: ScanContext | null;
     private errorCount = 0;
     private fileCount = 0;
 
@@ -152,10 +153,12 @@ export class CodebaseSummaryGenerator {
      * Create a new CodebaseSummaryGenerator.
      * @param workspacePath - Root path of the workspace to scan
      * @param options - Scan configuration options
+     * @param context - File index shared with the other generators of a scan
      */
-    constructor(workspacePath: string, options?: ScanOptions) {
+    constructor(workspacePath: string, options?: ScanOptions, context?: ScanContext) {
         this.workspacePath = workspacePath;
         this.options = { ...DEFAULT_SCAN_OPTIONS, ...options };
+        this.context = context ?? null;
     }
 
     /**
@@ -167,13 +170,12 @@ export class CodebaseSummaryGenerator {
         this.errorCount = 0;
         this.fileCount = 0;
 
-        // Parse gitignore
-        this.gitignorePatterns = await parseGitignore(this.workspacePath);
+        const { index } = this.context ?? await createScanContext(this.workspacePath, this.options);
 
         // Gather all information in parallel
         const [dependencies, languages, buildTools, purpose] = await Promise.all([
             this.parseDependencies(),
-            this.detectLanguages(),
+            this.detectLanguages(index),
             this.detectBuildTools(),
             this.extractPurpose()
         ]);
@@ -220,13 +222,19 @@ export class CodebaseSummaryGenerator {
     /**
      * Detect programming languages by counting file extensions.
      */
-    private async detectLanguages(): Promise<Record<string, number>> {
+    private async detectLanguages(index: WorkspaceIndex): Promise<Record<string, number>> {
         const counts: Record<string, number> = {};
         let totalCodeFiles = 0;
 
-        await this.traverseForLanguages(this.workspacePath, 0, counts, () => {
-            totalCodeFiles++;
-        });
+        for (const file of index.files({ maxDepth: this.options.maxDepth })) {
+            this.fileCount++;
+            const ext = path.extname(file.name).toLowerCase();
+            const language = LANGUAGE_EXTENSIONS[ext];
+            if (language) {
+                counts[language] = (counts[language] || 0) + 1;
+                totalCodeFiles++;
+            }
+        }
 
         // Handle edge case: no code files found
         if (totalCodeFiles === 0) {
@@ -242,42 +250,6 @@ export class CodebaseSummaryGenerator {
         return percentages;
     }
 
-    /**
-     * Recursively traverse directories counting language files.
-     */
-    private async traverseForLanguages(
-        dirPath: string,
-        depth: number,
-        counts: Record<string, number>,
-        incrementTotal: () => void
-    ): Promise<void> {
-        if (depth >= this.options.maxDepth) return;
-
-        const entries = await listDirectory(dirPath);
-
-        for (const entry of entries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
-
-            // Check exclusions
-            if (this.options.excludePatterns.includes(entry)) continue;
-            if (isIgnored(relativePath, this.gitignorePatterns, isDir)) continue;
-
-            if (isDir) {
-                await this.traverseForLanguages(entryPath, depth + 1, counts, incrementTotal);
-            } else {
-                this.fileCount++;
-                const ext = path.extname(entry).toLowerCase();
-                const language = LANGUAGE_EXTENSIONS[ext];
-                if (language) {
-                    counts[language] = (counts[language] || 0) + 1;
-                    incrementTotal();
-                }
-            }
-        }
-    }
-
     /**
      * Determine the primary language based on file count percentages.
      */
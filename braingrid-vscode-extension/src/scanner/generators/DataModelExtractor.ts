@@ -1,13 +1,17 @@
 /**
  * Data Model Extractor
- * Extracts data schemas and relationships from TypeScript and Prisma.
+ * Extracts data schemas and relationships from TypeScript, Python, Go, Rust and Prisma.
  */
 import * as path from 'path';
 import { ArtifactResult, ScanOptions, DEFAULT_SCAN_OPTIONS } from '../types';
-import { listDirectory, isDirectory, pathExists } from '../utils/fileSystem';
-import { parseGitignore, isIgnored } from '../utils/gitignoreParser';
+import { pathExists, readFileSafe } from '../utils/fileSystem';
 import { TypeScriptParser, EntityDefinition, EnumDefinition } from '../utils/typeScriptParser';
 import { parsePrismaSchema } from '../utils/prismaParser';
+import { parsePythonModels } from '../utils/pythonParser';
+import { parseGoModels } from '../utils/goParser';
+import { parseRustModels } from '../utils/rustParser';
+import { AnalysisCache } from '../utils/analysisCache';
+import { ScanContext, createScanContext } from '../utils/scanContext';
 
 /**
  * Relationship between entities
@@ -28,6 +32,14 @@ export interface DataModel {
     enums: EnumDefinition[];
 }
 
+/**
+ * Entities and enums extracted from one file
+ */
+interface ParsedModels {
+    entities: EntityDefinition[];
+    enums: EnumDefinition[];
+}
+
 /**
  * Directories commonly containing data models
  */
@@ -50,23 +62,55 @@ const MODEL_DIRECTORIES = [
 ];
 
 /**
- * Extracts data model information from TypeScript and Prisma files.
+ * Module, package and file names that commonly hold models and schemas in
+ * Python, Go and Rust, e.g. Django's `models.py`, Go's `model/` package or
+ * SeaORM's `entities/` module
+ */
+const MODEL_MODULES = new Set([
+    'models', 'model', 'schemas', 'schema', 'entities', 'entity', 'domain', 'tables'
+]);
+
+/**
+ * Model parsers of the languages read without a compiler, by file extension
+ */
+const SOURCE_MODEL_PARSERS: Record<string, (content: string, filePath: string) => ParsedModels> = {
+    '.py': parsePythonModels,
+    '.go': parseGoModels,
+    '.rs': parseRustModels
+};
+
+/**
+ * Key under which same-named models of one language are merged. Prisma
+ * models share the TypeScript key, as they describe the same client types.
+ * @param model - Entity or enum
+ */
+function modelKey(model: { name: string; source: EntityDefinition['source'] }): string {
+    const language = model.source === 'prisma' ? 'typescript' : model.source;
+    return `${language}:${model.name}`;
+}
+
+/**
+ * Extracts data model information from TypeScript, Python, Go, Rust and Prisma files.
  */
 export class DataModelExtractor {
     private readonly workspacePath: string;
     private readonly options: Required<ScanOptions>;
-    private gitignorePatterns: string[] = [];
     private errorCount = 0;
     private fileCount = 0;
+    private readonly context: ScanContext | null;
+    private readonly cache: AnalysisCache | null;
 
     /**
      * Create a new DataModelExtractor.
      * @param workspacePath - Root path of the workspace to scan
      * @param options - Scan configuration options
+     * @param context - File index, parsed sources and analysis cache of a scan
      */
-    constructor(workspacePath: string, options?: ScanOptions) {
+    constructor(workspacePath: string, options?: ScanOptions, context?: ScanContext) {
         this.workspacePath = workspacePath;
         this.options = { ...DEFAULT_SCAN_OPTIONS, ...options };
+        this.context = context ?? null;
+        this.cache = context?.cache ?? null;
     }
 
     /**
@@ -78,33 +122,33 @@ export class DataModelExtractor {
         this.errorCount = 0;
         this.fileCount = 0;
 
-        // Parse gitignore
-        this.gitignorePatterns = await parseGitignore(this.workspacePath);
+        const context = this.context ?? await createScanContext(this.workspacePath, this.options);
 
         // Gather all models in parallel
-        const [tsResult, prismaResult] = await Promise.all([
-            this.scanTypeScriptModels(),
+        const [tsResult, sourceResult, prismaResult] = await Promise.all([
+            this.scanTypeScriptModels(context),
+            this.scanSourceModels(context),
             this.scanPrismaSchema()
         ]);
 
-        // Merge entities (Prisma takes precedence for duplicates)
+        // Merge entities per language (Prisma takes precedence over TypeScript)
         const entityMap = new Map<string, EntityDefinition>();
-        for (const entity of tsResult.entities) {
-            entityMap.set(entity.name, entity);
+        for (const entity of [...tsResult.entities, ...sourceResult.entities]) {
+            entityMap.set(modelKey(entity), entity);
         }
         for (const entity of prismaResult.entities) {
-            entityMap.set(entity.name, entity); // Override TS with Prisma
+            entityMap.set(modelKey(entity), entity); // Override TS with Prisma
         }
 
         const entities = Array.from(entityMap.values());
 
-        // Deduplicate enums by name (Prisma takes precedence)
+        // Deduplicate enums per language (Prisma takes precedence)
         const enumMap = new Map<string, EnumDefinition>();
-        for (const enumDef of tsResult.enums) {
-            enumMap.set(enumDef.name, enumDef);
+        for (const enumDef of [...tsResult.enums, ...sourceResult.enums]) {
+            enumMap.set(modelKey(enumDef), enumDef);
         }
         for (const enumDef of prismaResult.enums) {
-            enumMap.set(enumDef.name, enumDef);
+            enumMap.set(modelKey(enumDef), enumDef);
         }
         const enums = Array.from(enumMap.values());
 
@@ -129,18 +173,36 @@ export class DataModelExtractor {
     /**
      * Scan TypeScript files in common model directories.
      */
-    private async scanTypeScriptModels(): Promise<{
+    private async scanTypeScriptModels(context: ScanContext): Promise<{
         entities: EntityDefinition[];
         enums: EnumDefinition[];
     }> {
-        const parser = new TypeScriptParser();
+        const parser = new TypeScriptParser(context.project);
         const entities: EntityDefinition[] = [];
         const enums: EnumDefinition[] = [];
 
         for (const modelDir of MODEL_DIRECTORIES) {
-            const dirPath = path.join(this.workspacePath, modelDir);
-            if (await pathExists(dirPath)) {
-                await this.scanDirectory(dirPath, parser, entities, enums);
+            for (const file of context.index.files({ under: modelDir })) {
+                if (!file.name.endsWith('.ts') && !file.name.endsWith('.tsx')) continue;
+
+                this.fileCount++;
+                try {
+                    // Field types are resolved through imports, so a change to an
+                    // imported file invalidates the cached result too
+                    const imported = this.cache
+                        ? parser.getImportedFiles(file.absolutePath).map(imp =>
+                            path.isAbsolute(imp) ? path.relative(this.workspacePath, imp) : imp)
+                        : [];
+                    let result = this.cache?.get<ParsedModels>(file.relativePath, undefined, imported);
+                    if (!result) {
+                        result = parser.parseFile(file.absolutePath);
+                        this.cache?.set(file.relativePath, result, undefined, imported);
+                    }
+                    entities.push(...result.entities);
+                    enums.push(...result.enums);
+                } catch {
+                    this.errorCount++;
+                }
             }
         }
 
@@ -148,54 +210,67 @@ export class DataModelExtractor {
     }
 
     /**
-     * Recursively scan a directory for TypeScript files.
+     * Scan Python, Go and Rust model modules: SQLAlchemy, Django and Pydantic
+     * models, Go structs and GORM models, Rust structs and Diesel and SeaORM models.
      */
-    private async scanDirectory(
-        dirPath: string,
-        parser: TypeScriptParser,
-        entities: EntityDefinition[],
-        enums: EnumDefinition[]
-    ): Promise<void> {
-        const entries = await listDirectory(dirPath);
-
-        for (const entry of entries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
-
-            // Check exclusions
-            if (this.options.excludePatterns.includes(entry)) continue;
-            if (isIgnored(relativePath, this.gitignorePatterns, isDir)) continue;
-
-            if (isDir) {
-                await this.scanDirectory(entryPath, parser, entities, enums);
-            } else if (entry.endsWith('.ts') || entry.endsWith('.tsx')) {
-                this.fileCount++;
-                try {
-                    const result = parser.parseFile(entryPath);
-                    entities.push(...result.entities);
-                    enums.push(...result.enums);
-                } catch {
-                    this.errorCount++;
+    private async scanSourceModels(context: ScanContext): Promise<ParsedModels> {
+        const entities: EntityDefinition[] = [];
+        const enums: EnumDefinition[] = [];
+
+        for (const file of context.index.files()) {
+            const parse = SOURCE_MODEL_PARSERS[path.extname(file.name)];
+            if (!parse || file.name.endsWith('_test.go') || !this.isModelModule(file.relativePath)) continue;
+
+            this.fileCount++;
+            try {
+                let result = this.cache?.get<ParsedModels>(file.relativePath);
+                if (!result) {
+                    const content = await readFileSafe(file.absolutePath, this.options.maxFileSize);
+                    if (content === null) {
+                        this.errorCount++;
+                        continue;
+                    }
+                    result = parse(content, file.absolutePath);
+                    this.cache?.set(file.relativePath, result);
                 }
+                entities.push(...result.entities);
+                enums.push(...result.enums);
+            } catch {
+                this.errorCount++;
             }
         }
+
+        return { entities, enums };
+    }
+
+    /**
+     * Check if a source file is a model module or inside a model package.
+     */
+    private isModelModule(relativePath: string): boolean {
+        const segments = relativePath.split(path.sep);
+        const moduleName = path.basename(relativePath, path.extname(relativePath));
+        return MODEL_MODULES.has(moduleName) ||
+            segments.slice(0, -1).some(segment => MODEL_MODULES.has(segment));
     }
 
     /**
      * Scan for Prisma schema file.
      */
-    private async scanPrismaSchema(): Promise<{
-        entities: EntityDefinition[];
-        enums: EnumDefinition[];
-    }> {
-        const schemaPath = path.join(this.workspacePath, 'prisma', 'schema.prisma');
+    private async scanPrismaSchema(): Promise<ParsedModels> {
+        const relativePath = path.join('prisma', 'schema.prisma');
+        const schemaPath = path.join(this.workspacePath, relativePath);
 
         if (await pathExists(schemaPath)) {
             this.fileCount++;
             try {
+                const cached = this.cache?.get<ParsedModels>(relativePath);
+                if (cached) return cached;
+
                 const result = await parsePrismaSchema(schemaPath);
-                if (result) return result;
+                if (result) {
+                    this.cache?.set(relativePath, result);
+                    return result;
+                }
             } catch {
                 this.errorCount++;
             }
@@ -205,11 +280,12 @@ export class DataModelExtractor {
     }
 
     /**
-     * Detect relationships between entities based on field types.
+     * Detect relationships between entities based on field types. A field
+     * refers to the entity of that name in its own language.
      */
     private detectRelationships(entities: EntityDefinition[]): Relationship[] {
         const relationships: Relationship[] = [];
-        const entityNames = new Set(entities.map(e => e.name));
+        const entitiesByKey = new Map(entities.map(e => [modelKey(e), e]));
 
         for (const entity of entities) {
             for (const field of entity.fields) {
@@ -217,22 +293,24 @@ export class DataModelExtractor {
 
                 // Extract target entity name from type
                 const targetName = field.type.replace(/\[\]/g, '').trim();
-                if (!entityNames.has(targetName)) continue;
+                const targetEntity = entitiesByKey.get(modelKey({ name: targetName, source: entity.source }));
+                if (!targetEntity) continue;
 
                 // Determine relationship type
                 let relType: Relationship['type'];
 
-                if (field.isArray) {
+                if (field.relationType) {
+                    // Declared by the ORM, e.g. a Django OneToOneField
+                    relType = field.relationType;
+                } else if (field.isArray) {
                     // Check if target has array back to source (many-to-many)
-                    const targetEntity = entities.find(e => e.name === targetName);
-                    const hasArrayBack = targetEntity?.fields.some(
+                    const hasArrayBack = targetEntity.fields.some(
                         f => f.type.replace(/\[\]/g, '').trim() === entity.name && f.isArray
                     );
                     relType = hasArrayBack ? 'many-to-many' : 'one-to-many';
                 } else {
                     // Check if it's a one-to-one (target has single back reference)
-                    const targetEntity = entities.find(e => e.name === targetName);
-                    const hasSingleBack = targetEntity?.fields.some(
+                    const hasSingleBack = targetEntity.fields.some(
                         f => f.type.replace(/\[\]/g, '').trim() === entity.name && !f.isArray
                     );
                     relType = hasSingleBack ? 'one-to-one' : 'many-to-one';
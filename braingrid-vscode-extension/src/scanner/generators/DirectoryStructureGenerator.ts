@@ -2,11 +2,10 @@
  * Directory Structure Generator
  * Generates a navigable markdown representation of the workspace file tree.
  */
-import * as fs from 'fs';
 import * as path from 'path';
 import { ArtifactResult, ScanOptions, DEFAULT_SCAN_OPTIONS } from '../types';
-import { isDirectory, listDirectory, isCircularSymlink } from '../utils/fileSystem';
-import { parseGitignore, isIgnored } from '../utils/gitignoreParser';
+import { IndexedEntry, WorkspaceIndex } from '../utils/workspaceIndex';
+import { ScanContext, createScanContext } from '../utils/scanContext';
 
 /**
  * Node in the directory tree
@@ -25,8 +24,7 @@ interface TreeNode {
 export class DirectoryStructureGenerator {
     private readonly workspacePath: string;
     private readonly options: Required<ScanOptions>;
-    private gitignorePatterns: string[] = [];
-    private visitedPaths: Set<string> = new Set();
+    private readonly context: ScanContext | null;
     private errorCount = 0;
     private totalFiles = 0;
 
@@ -34,10 +32,12 @@ export class DirectoryStructureGenerator {
      * Create a new DirectoryStructureGenerator.
      * @param workspacePath - Root path of the workspace to scan
      * @param options - Scan configuration options
+     * @param context - File index shared with the other generators of a scan
      */
-    constructor(workspacePath: string, options?: ScanOptions) {
+    constructor(workspacePath: string, options?: ScanOptions, context?: ScanContext) {
         this.workspacePath = workspacePath;
         this.options = { ...DEFAULT_SCAN_OPTIONS, ...options };
+        this.context = context ?? null;
     }
 
     /**
@@ -46,15 +46,13 @@ export class DirectoryStructureGenerator {
      */
     async generate(): Promise<ArtifactResult> {
         // Reset state for fresh generation
-        this.visitedPaths.clear();
         this.errorCount = 0;
         this.totalFiles = 0;
 
-        // Parse gitignore
-        this.gitignorePatterns = await parseGitignore(this.workspacePath);
+        const { index } = this.context ?? await createScanContext(this.workspacePath, this.options);
 
-        // Traverse directory
-        const rootNode = await this.traverseDirectory(this.workspacePath, 0);
+        // Build the tree from the index
+        const rootNode = this.traverseDirectory(index, null, 0);
 
         // Format as markdown
         const content = this.formatAsMarkdown(rootNode);
@@ -69,10 +67,11 @@ export class DirectoryStructureGenerator {
     }
 
     /**
-     * Recursively traverse a directory and build the tree structure.
+     * Recursively build the tree structure of a directory.
+     * @param dir - Directory entry, or null for the workspace root
      */
-    private async traverseDirectory(dirPath: string, depth: number): Promise<TreeNode> {
-        const name = path.basename(dirPath) || path.basename(this.workspacePath);
+    private traverseDirectory(index: WorkspaceIndex, dir: IndexedEntry | null, depth: number): TreeNode {
+        const name = dir ? dir.name : path.basename(this.workspacePath);
         const node: TreeNode = {
             name,
             isDirectory: true,
@@ -88,38 +87,30 @@ export class DirectoryStructureGenerator {
         }
 
         // Check circular symlink
-        if (await isCircularSymlink(dirPath, this.visitedPaths)) {
+        if (dir?.circular) {
             node.children = [{ name: '... (circular symlink)', isDirectory: false }];
             return node;
         }
 
-        // List and sort entries
-        const entries = await listDirectory(dirPath);
-        const sortedEntries = entries.sort((a, b) => {
-            // Directories first, then alphabetical
-            return a.localeCompare(b);
+        // Sort entries alphabetically
+        const sortedEntries = [...index.children(dir ? dir.relativePath : '')].sort((a, b) => {
+            return a.name.localeCompare(b.name);
         });
 
         for (const entry of sortedEntries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
-
-            // Check exclusions
-            if (this.shouldExclude(entry, relativePath, isDir)) {
-                continue;
-            }
-
-            if (isDir) {
-                const childNode = await this.traverseDirectory(entryPath, depth + 1);
+            if (entry.isDirectory) {
+                const childNode = this.traverseDirectory(index, entry, depth + 1);
                 node.children!.push(childNode);
                 node.fileCount! += childNode.fileCount || 0;
                 node.totalSize! += childNode.totalSize || 0;
             } else {
-                const size = await this.getFileSizeSafe(entryPath);
-                node.children!.push({ name: entry, isDirectory: false });
+                // Size is -1 when the file could not be read
+                if (entry.size < 0) {
+                    this.errorCount++;
+                }
+                node.children!.push({ name: entry.name, isDirectory: false });
                 node.fileCount!++;
-                node.totalSize! += size;
+                node.totalSize! += Math.max(entry.size, 0);
                 this.totalFiles++;
             }
         }
@@ -127,31 +118,6 @@ export class DirectoryStructureGenerator {
         return node;
     }
 
-    /**
-     * Check if an entry should be excluded from the tree.
-     */
-    private shouldExclude(name: string, relativePath: string, isDir: boolean): boolean {
-        // Check standard exclusions (by name)
-        if (this.options.excludePatterns.includes(name)) {
-            return true;
-        }
-        // Check gitignore patterns
-        return isIgnored(relativePath, this.gitignorePatterns, isDir);
-    }
-
-    /**
-     * Get file size safely, returning 0 on error.
-     */
-    private async getFileSizeSafe(filePath: string): Promise<number> {
-        try {
-            const stats = await fs.promises.stat(filePath);
-            return stats.size;
-        } catch {
-            this.errorCount++;
-            return 0;
-        }
-    }
-
     /**
      * Format the tree as markdown.
      */
@@ -6,8 +6,14 @@
 import * as path from 'path';
 import { Project, SourceFile, SyntaxKind, FunctionDeclaration, ArrowFunction, CallExpression } from 'ts-morph';
 import { ArtifactResult, ScanOptions, DEFAULT_SCAN_OPTIONS } from '../types';
-import { listDirectory, isDirectory, pathExists, readFileSafe } from '../utils/fileSystem';
-import { parseGitignore, isIgnored } from '../utils/gitignoreParser';
+import { AnalysisCache } from '../utils/analysisCache';
+import { readFileSafe } from '../utils/fileSystem';
+import { PythonRouteFile, DjangoView, parsePythonRoutes, parsePythonFunctions } from '../utils/pythonParser';
+import { RouteFile, DeclaredFunction } from '../utils/braceSyntax';
+import { parseGoRoutes, parseGoFunctions } from '../utils/goParser';
+import { parseRustRoutes, parseRustFunctions } from '../utils/rustParser';
+import { ScanContext, createSourceProject } from '../utils/scanContext';
+import { WorkspaceIndex } from '../utils/workspaceIndex';
 import {
     WorkflowType,
     matchWorkflowPattern,
@@ -99,6 +105,14 @@ export interface WorkflowModel {
     callGraph: CallGraphEdge[];
 }
 
+/**
+ * Handlers and call graph edges found in one file
+ */
+interface FileHandlers {
+    handlers: NamedHandler[];
+    callGraph: CallGraphEdge[];
+}
+
 /**
  * Mapping from HTTP methods to CRUD operations
  */
@@ -118,7 +132,30 @@ const HTTP_METHODS: HTTPMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
 /**
  * Code file extensions
  */
-const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.py', '.go', '.rs'];
+
+/**
+ * Route parsers for Go and Rust, by file extension
+ */
+const ROUTE_PARSERS: Record<string, (content: string) => RouteFile> = {
+    '.go': parseGoRoutes,
+    '.rs': parseRustRoutes
+};
+
+/**
+ * Function and call graph parsers for the languages read without a compiler, by file extension
+ */
+const FUNCTION_PARSERS: Record<string, (content: string) => DeclaredFunction[]> = {
+    '.py': parsePythonFunctions,
+    '.go': parseGoFunctions,
+    '.rs': parseRustFunctions
+};
+
+/**
+ * Methods a Django REST Framework viewset serves on its collection and on single items
+ */
+const VIEWSET_COLLECTION_METHODS: HTTPMethod[] = ['GET', 'POST'];
+const VIEWSET_ITEM_METHODS: HTTPMethod[] = ['GET', 'PUT', 'PATCH', 'DELETE'];
 
 /**
  * Detects business workflows from API handlers and function patterns.
@@ -126,23 +163,24 @@ const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
 export class WorkflowDetector {
     private readonly workspacePath: string;
     private readonly options: Required<ScanOptions>;
-    private gitignorePatterns: string[] = [];
     private errorCount = 0;
     private fileCount = 0;
-    private project: Project;
+    private readonly index: WorkspaceIndex | null;
+    private readonly project: Project;
+    private readonly cache: AnalysisCache | null;
 
     /**
      * Create a new WorkflowDetector.
      * @param workspacePath - Root path of the workspace to scan
      * @param options - Scan configuration options
+     * @param context - File index, parsed sources and analysis cache of a scan
      */
-    constructor(workspacePath: string, options?: ScanOptions) {
+    constructor(workspacePath: string, options?: ScanOptions, context?: ScanContext) {
         this.workspacePath = workspacePath;
         this.options = { ...DEFAULT_SCAN_OPTIONS, ...options };
-        this.project = new Project({
-            compilerOptions: { strict: true },
-            skipAddingFilesFromTsConfig: true
-        });
+        this.index = context?.index ?? null;
+        this.project = context?.project ?? createSourceProject();
+        this.cache = context?.cache ?? null;
     }
 
     /**
@@ -154,17 +192,15 @@ export class WorkflowDetector {
         this.errorCount = 0;
         this.fileCount = 0;
 
-        // Parse gitignore
-        console.log('  [workflow] Parsing gitignore...');
-        this.gitignorePatterns = await parseGitignore(this.workspacePath);
+        const index = this.index ?? await WorkspaceIndex.build(this.workspacePath, this.options);
 
         // Run sequentially with progress logging
         console.log('  [workflow] Step 1/3: Detecting CRUD operations...');
-        const crudOperations = await this.detectCRUDOperations();
+        const crudOperations = await this.detectCRUDOperations(index);
         console.log(`  [workflow] Step 1/3 complete: Found ${crudOperations.length} CRUD operations`);
 
         console.log('  [workflow] Step 2/3: Extracting handlers and call graph (this may take a while)...');
-        const handlersAndGraph = await this.extractHandlersAndCallGraph();
+        const handlersAndGraph = await this.extractHandlersAndCallGraph(index);
         const { handlers, callGraph } = handlersAndGraph;
         console.log(`  [workflow] Step 2/3 complete: ${handlers.length} handlers, ${callGraph.length} call edges`);
 
@@ -192,73 +228,462 @@ export class WorkflowDetector {
     /**
      * Detect CRUD operations from API route files.
      */
-    private async detectCRUDOperations(): Promise<CRUDOperation[]> {
+    private async detectCRUDOperations(index: WorkspaceIndex): Promise<CRUDOperation[]> {
         const operations: CRUDOperation[] = [];
 
         // Look for app/api directory (Next.js App Router)
         const apiDirs = ['app/api', 'src/app/api', 'pages/api', 'src/pages/api'];
 
         for (const apiDir of apiDirs) {
-            const dirPath = path.join(this.workspacePath, apiDir);
-            if (await pathExists(dirPath)) {
-                await this.scanApiDirectory(dirPath, apiDir, operations);
+            for (const file of index.files({ under: apiDir })) {
+                if (file.name === 'route.ts' || file.name === 'route.js') {
+                    this.fileCount++;
+                    this.parseRouteFile(file.absolutePath, file.relativePath, apiDir, operations);
+                }
             }
         }
 
+        // FastAPI, Flask and Django routes
+        operations.push(...await this.detectPythonRoutes(index));
+
+        // Gin, Echo, chi, Axum and Actix Web routes
+        operations.push(...await this.detectGoAndRustRoutes(index));
+
         return operations;
     }
 
     /**
-     * Recursively scan an API directory for route files.
+     * Detect routes declared in Python files. Routers, blueprints and URL
+     * configurations are often mounted from other files, so prefixes are
+     * resolved once every file is parsed.
      */
-    private async scanApiDirectory(
-        dirPath: string,
-        basePath: string,
-        operations: CRUDOperation[]
-    ): Promise<void> {
-        let entries: string[];
-        try {
-            entries = await listDirectory(dirPath);
-        } catch {
-            return;
+    private async detectPythonRoutes(index: WorkspaceIndex): Promise<CRUDOperation[]> {
+        const files = new Map<string, PythonRouteFile>();
+
+        for (const file of index.files()) {
+            if (!file.name.endsWith('.py')) continue;
+
+            try {
+                let parsed = this.cache?.get<PythonRouteFile>(file.relativePath, 'routes');
+                if (!parsed) {
+                    const content = await readFileSafe(file.absolutePath, this.options.maxFileSize);
+                    if (content === null) continue;
+                    parsed = parsePythonRoutes(content);
+                    this.cache?.set(file.relativePath, parsed, 'routes');
+                }
+                if (parsed.routes.length > 0 || parsed.urlPatterns.length > 0) {
+                    this.fileCount++;
+                }
+                files.set(file.relativePath, parsed);
+            } catch {
+                this.errorCount++;
+            }
+        }
+
+        return [
+            ...this.resolveDecoratorRoutes(files, index),
+            ...this.resolveDjangoRoutes(files)
+        ];
+    }
+
+    /**
+     * Turn FastAPI and Flask decorator routes into operations, prefixed by
+     * their router and everything it is mounted on.
+     */
+    private resolveDecoratorRoutes(files: Map<string, PythonRouteFile>, index: WorkspaceIndex): CRUDOperation[] {
+        // Where each router (file#variable) is mounted
+        const mounts = new Map<string, { parent: string; prefix: string; replacesPrefix: boolean }>();
+        for (const [filePath, parsed] of files) {
+            for (const mount of parsed.mounts) {
+                const target = this.resolveRouterReference(filePath, parsed, mount.target, index);
+                if (target && !mounts.has(target)) {
+                    mounts.set(target, {
+                        parent: `${filePath}#${mount.parent}`,
+                        prefix: mount.prefix,
+                        replacesPrefix: mount.replacesPrefix
+                    });
+                }
+            }
+        }
+
+        const prefixOf = (key: string, visited: Set<string>): string => {
+            const separator = key.lastIndexOf('#');
+            const own = files.get(key.slice(0, separator))?.routers[key.slice(separator + 1)] ?? '';
+            const mount = mounts.get(key);
+            if (!mount || visited.has(key)) return own;
+
+            visited.add(key);
+            const parentPrefix = prefixOf(mount.parent, visited);
+            return mount.replacesPrefix
+                ? this.joinRoutePath(parentPrefix, mount.prefix)
+                : this.joinRoutePath(parentPrefix, mount.prefix, own);
+        };
+
+        const operations: CRUDOperation[] = [];
+        for (const [filePath, parsed] of files) {
+            for (const route of parsed.routes) {
+                const prefix = prefixOf(`${filePath}#${route.router}`, new Set());
+                operations.push({
+                    method: route.method,
+                    operation: HTTP_TO_CRUD[route.method],
+                    endpoint: this.joinRoutePath(prefix, route.path),
+                    filePath,
+                    handlerName: route.handlerName
+                });
+            }
+        }
+
+        return operations;
+    }
+
+    /**
+     * Detect routes declared in Go and Rust files. Routes are often registered
+     * by functions that other files call with a router, or nest, so prefixes
+     * are resolved once every file is parsed.
+     */
+    private async detectGoAndRustRoutes(index: WorkspaceIndex): Promise<CRUDOperation[]> {
+        const files = new Map<string, RouteFile>();
+
+        for (const file of index.files()) {
+            const parse = ROUTE_PARSERS[path.extname(file.name)];
+            if (!parse || file.name.endsWith('_test.go')) continue;
+
+            try {
+                let parsed = this.cache?.get<RouteFile>(file.relativePath, 'routes');
+                if (!parsed) {
+                    const content = await readFileSafe(file.absolutePath, this.options.maxFileSize);
+                    if (content === null) continue;
+                    parsed = parse(content);
+                    this.cache?.set(file.relativePath, parsed, 'routes');
+                }
+                if (parsed.routes.length > 0) {
+                    this.fileCount++;
+                }
+                if (parsed.routes.length > 0 || parsed.mounts.length > 0) {
+                    files.set(file.relativePath, parsed);
+                }
+            } catch {
+                this.errorCount++;
+            }
+        }
+
+        return this.resolveMountedRoutes(files);
+    }
+
+    /**
+     * Turn Go and Rust routes into operations, prefixed by where the function
+     * declaring them is mounted and everything that function is mounted on.
+     */
+    private resolveMountedRoutes(files: Map<string, RouteFile>): CRUDOperation[] {
+        // Functions declaring routes or mounts (file#function), by function name
+        const declared = new Map<string, string[]>();
+        for (const [filePath, parsed] of files) {
+            for (const { owner } of [...parsed.routes, ...parsed.mounts]) {
+                if (!owner) continue;
+                const keys = declared.get(owner) ?? [];
+                const key = `${filePath}#${owner}`;
+                if (!keys.includes(key)) keys.push(key);
+                declared.set(owner, keys);
+            }
         }
 
-        for (const entry of entries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
+        // Where each function is mounted
+        const mounts = new Map<string, { parent: string | null; prefix: string }>();
+        for (const [filePath, parsed] of files) {
+            for (const mount of parsed.mounts) {
+                const target = this.resolveMountTarget(filePath, mount.target, declared);
+                if (target && !mounts.has(target)) {
+                    mounts.set(target, {
+                        parent: mount.owner ? `${filePath}#${mount.owner}` : null,
+                        prefix: mount.prefix
+                    });
+                }
+            }
+        }
 
-            // Check exclusions
-            if (this.options.excludePatterns.includes(entry)) continue;
-            if (isIgnored(relativePath, this.gitignorePatterns, isDir)) continue;
+        const prefixOf = (key: string | null, visited: Set<string>): string => {
+            const mount = key ? mounts.get(key) : undefined;
+            if (!key || !mount || visited.has(key)) return '';
 
-            if (isDir) {
-                await this.scanApiDirectory(entryPath, basePath, operations);
-            } else if (entry === 'route.ts' || entry === 'route.js') {
-                this.fileCount++;
-                await this.parseRouteFile(entryPath, relativePath, basePath, operations);
+            visited.add(key);
+            return this.joinRoutePath(prefixOf(mount.parent, visited), mount.prefix);
+        };
+
+        const operations: CRUDOperation[] = [];
+        for (const [filePath, parsed] of files) {
+            for (const route of parsed.routes) {
+                const prefix = route.owner ? prefixOf(`${filePath}#${route.owner}`, new Set()) : '';
+                operations.push({
+                    method: route.method,
+                    operation: HTTP_TO_CRUD[route.method],
+                    endpoint: this.joinRoutePath(prefix, route.path),
+                    filePath,
+                    handlerName: route.handlerName
+                });
             }
         }
+
+        return operations;
+    }
+
+    /**
+     * Find the function a mount refers to, e.g. `users.RegisterRoutes` or
+     * `api::routes`: the only function of that name, or else the one in the
+     * module its qualifier names or in the mounting file.
+     * @returns Key of the form file#function, or null if it is ambiguous or not in the workspace
+     */
+    private resolveMountTarget(filePath: string, target: string, declared: Map<string, string[]>): string | null {
+        const segments = target.split(/::|\./);
+        const candidates = declared.get(segments[segments.length - 1]) ?? [];
+        if (candidates.length <= 1) {
+            return candidates[0] ?? null;
+        }
+
+        const fileOf = (key: string) => key.slice(0, key.lastIndexOf('#'));
+        const qualifier = segments.length > 1 ? segments[segments.length - 2] : null;
+        let matches = candidates.filter(key => this.moduleName(fileOf(key)) === qualifier);
+        if (matches.length === 0) {
+            matches = candidates.filter(key => fileOf(key) === filePath);
+        }
+        return matches.length === 1 ? matches[0] : null;
+    }
+
+    /**
+     * Get the name code qualifies a file's functions with: the package
+     * directory in Go, the module in Rust, e.g. `users` for users.rs or users/mod.rs.
+     */
+    private moduleName(relativePath: string): string {
+        const stem = path.basename(relativePath, path.extname(relativePath));
+        if (relativePath.endsWith('.rs') && !['mod', 'lib', 'main'].includes(stem)) {
+            return stem;
+        }
+        return path.basename(path.dirname(relativePath));
+    }
+
+    /**
+     * Find the file and variable of a mounted router, e.g. `users.router`
+     * after `from app.routers import users`.
+     * @returns Key of the form file#variable, or null if it is not in the workspace
+     */
+    private resolveRouterReference(
+        filePath: string,
+        parsed: PythonRouteFile,
+        reference: string,
+        index: WorkspaceIndex
+    ): string | null {
+        const parts = reference.split('.');
+        const variable = parts[parts.length - 1];
+        if (parts.length === 1 && variable in parsed.routers) {
+            return `${filePath}#${variable}`;
+        }
+
+        for (const imp of parsed.imports) {
+            let modulePath: string | null = null;
+            let targetVariable = variable;
+
+            const bound = imp.names.find(n => (n.alias ?? n.name) === parts[0]);
+            if (bound && parts.length === 1) {
+                // from app.routers.users import router as users_router
+                modulePath = imp.module;
+                targetVariable = bound.name;
+            } else if (bound) {
+                // from app.routers import users -> users.router
+                modulePath = [imp.module, bound.name, ...parts.slice(1, -1)].filter(Boolean).join('.');
+            } else if (imp.names.length === 0 && parts.length > 1) {
+                if (imp.alias === parts[0]) {
+                    // import app.routers.users as users -> users.router
+                    modulePath = [imp.module, ...parts.slice(1, -1)].join('.');
+                } else if (!imp.alias && reference.startsWith(`${imp.module}.`)) {
+                    // import app.routers.users -> app.routers.users.router
+                    modulePath = parts.slice(0, -1).join('.');
+                }
+            }
+            if (modulePath === null) continue;
+
+            const file = this.resolvePythonModule(filePath, modulePath, imp.level, index);
+            if (file) return `${file}#${targetVariable}`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Find the file of a Python module: `module.py` or `module/__init__.py`,
+     * relative to the importing file or from the root or a `src` layout.
+     */
+    private resolvePythonModule(fromFile: string, modulePath: string, level: number, index: WorkspaceIndex): string | null {
+        const moduleParts = modulePath ? modulePath.split('.') : [];
+        let roots: string[];
+        if (level > 0) {
+            let base = path.dirname(fromFile);
+            for (let i = 1; i < level; i++) base = path.dirname(base);
+            roots = [base === '.' ? '' : base];
+        } else {
+            roots = ['', 'src'];
+        }
+
+        for (const root of roots) {
+            const candidate = path.join(root, ...moduleParts);
+            for (const file of [`${candidate}.py`, path.join(candidate, '__init__.py')]) {
+                if (index.get(file)) return file;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Turn Django URL patterns and REST Framework router registrations into
+     * operations, following `include()` from one URL configuration to another.
+     */
+    private resolveDjangoRoutes(files: Map<string, PythonRouteFile>): CRUDOperation[] {
+        const urlFiles = Array.from(files.keys()).filter(filePath =>
+            path.basename(filePath) === 'urls.py' || path.basename(path.dirname(filePath)) === 'urls'
+        );
+
+        // Which URL configuration includes which, and under what prefix
+        const includedBy = new Map<string, { parent: string; prefix: string }>();
+        const routerPrefixes = new Map<string, string>();
+        for (const filePath of urlFiles) {
+            for (const pattern of files.get(filePath)!.urlPatterns) {
+                if (pattern.includeRouter) {
+                    // include(router.urls) mounts this file's REST Framework router
+                    routerPrefixes.set(filePath, pattern.path);
+                    continue;
+                }
+                if (!pattern.include) continue;
+
+                const suffix = path.join(...pattern.include.split('.'));
+                const target = urlFiles.find(f =>
+                    f === `${suffix}.py` || f.endsWith(path.sep + `${suffix}.py`) ||
+                    f === path.join(suffix, '__init__.py') || f.endsWith(path.sep + path.join(suffix, '__init__.py'))
+                );
+                if (target && target !== filePath && !includedBy.has(target)) {
+                    includedBy.set(target, { parent: filePath, prefix: pattern.path });
+                }
+            }
+        }
+
+        const prefixOf = (filePath: string, visited: Set<string>): string => {
+            const include = includedBy.get(filePath);
+            if (!include || visited.has(filePath)) return '';
+            visited.add(filePath);
+            return this.joinRoutePath(prefixOf(include.parent, visited), this.cleanDjangoPath(include.prefix));
+        };
+
+        const operations: CRUDOperation[] = [];
+        for (const filePath of urlFiles) {
+            const prefix = prefixOf(filePath, new Set());
+            for (const pattern of files.get(filePath)!.urlPatterns) {
+                if (!pattern.view) continue;
+
+                const view = this.findDjangoView(files, filePath, pattern.view);
+                const routePath = this.cleanDjangoPath(pattern.path);
+
+                if (pattern.viewSet) {
+                    const base = this.joinRoutePath(prefix, this.cleanDjangoPath(routerPrefixes.get(filePath) ?? ''), routePath);
+                    const methods = view && view.view.methods.length > 0 ? view.view.methods : VIEWSET_COLLECTION_METHODS;
+                    for (const method of methods) {
+                        if (VIEWSET_COLLECTION_METHODS.includes(method)) {
+                            operations.push(this.djangoOperation(method, base, view?.filePath ?? filePath, pattern.view));
+                        }
+                        if (VIEWSET_ITEM_METHODS.includes(method)) {
+                            operations.push(this.djangoOperation(method, this.joinRoutePath(base, '<pk>'), view?.filePath ?? filePath, pattern.view));
+                        }
+                    }
+                    continue;
+                }
+
+                // Views without decorators or verb methods are assumed to serve GET
+                const methods: HTTPMethod[] = view && view.view.methods.length > 0 ? view.view.methods : ['GET'];
+                for (const method of methods) {
+                    operations.push(this.djangoOperation(method, this.joinRoutePath(prefix, routePath), view?.filePath ?? filePath, pattern.view));
+                }
+            }
+        }
+
+        return operations;
+    }
+
+    /**
+     * Find a Django view by name, preferring views next to the URL configuration.
+     */
+    private findDjangoView(
+        files: Map<string, PythonRouteFile>,
+        urlFile: string,
+        name: string
+    ): { view: DjangoView; filePath: string } | null {
+        const urlDir = path.dirname(urlFile);
+        let fallback: { view: DjangoView; filePath: string } | null = null;
+
+        for (const [filePath, parsed] of files) {
+            const view = parsed.views.find(v => v.name === name);
+            if (!view) continue;
+            if (path.dirname(filePath) === urlDir || path.dirname(path.dirname(filePath)) === urlDir) {
+                return { view, filePath };
+            }
+            fallback = fallback ?? { view, filePath };
+        }
+
+        return fallback;
+    }
+
+    /**
+     * Build the operation for a Django route.
+     */
+    private djangoOperation(method: HTTPMethod, endpoint: string, filePath: string, handlerName: string): CRUDOperation {
+        return {
+            method,
+            operation: HTTP_TO_CRUD[method],
+            endpoint,
+            filePath,
+            handlerName
+        };
+    }
+
+    /**
+     * Strip the anchors of a `re_path()` pattern.
+     */
+    private cleanDjangoPath(routePath: string): string {
+        return routePath.replace(/^\^/, '').replace(/\$$/, '');
+    }
+
+    /**
+     * Join URL path segments with single slashes: ('/api', 'users/') -> /api/users
+     */
+    private joinRoutePath(...parts: string[]): string {
+        const joined = parts
+            .map(part => part.replace(/^\/+|\/+$/g, ''))
+            .filter(Boolean)
+            .join('/');
+        return '/' + joined;
     }
 
     /**
      * Parse a Next.js route file for HTTP method exports.
      */
-    private async parseRouteFile(
+    private parseRouteFile(
         filePath: string,
         relativePath: string,
         basePath: string,
         operations: CRUDOperation[]
-    ): Promise<void> {
+    ): void {
         try {
+            const cached = this.cache?.get<CRUDOperation[]>(relativePath, 'routes');
+            if (cached) {
+                operations.push(...cached);
+                return;
+            }
+
             const sourceFile = this.project.addSourceFileAtPath(filePath);
             const endpoint = this.extractEndpoint(relativePath, basePath);
+            const fileOperations: CRUDOperation[] = [];
 
             // Look for exported HTTP method functions
             for (const method of HTTP_METHODS) {
                 const hasExport = this.hasExportedFunction(sourceFile, method);
                 if (hasExport) {
-                    operations.push({
+                    fileOperations.push({
                         method,
                         operation: HTTP_TO_CRUD[method],
                         endpoint,
@@ -267,6 +692,9 @@ export class WorkflowDetector {
                     });
                 }
             }
+
+            this.cache?.set(relativePath, fileOperations, 'routes');
+            operations.push(...fileOperations);
         } catch {
             this.errorCount++;
         }
@@ -333,67 +761,49 @@ export class WorkflowDetector {
     /**
      * Extract named handlers and build call graph.
      */
-    private async extractHandlersAndCallGraph(): Promise<{
+    private async extractHandlersAndCallGraph(index: WorkspaceIndex): Promise<{
         handlers: NamedHandler[];
         callGraph: CallGraphEdge[];
     }> {
         const handlers: NamedHandler[] = [];
         const callGraph: CallGraphEdge[] = [];
 
-        await this.traverseForHandlers(this.workspacePath, 0, handlers, callGraph);
+        for (const file of index.files({ maxDepth: this.options.maxDepth })) {
+            if (!this.isCodeFile(file.name)) continue;
 
-        return { handlers, callGraph };
-    }
-
-    /**
-     * Recursively traverse directories for handlers and call graph.
-     */
-    private async traverseForHandlers(
-        dirPath: string,
-        depth: number,
-        handlers: NamedHandler[],
-        callGraph: CallGraphEdge[]
-    ): Promise<void> {
-        if (depth >= this.options.maxDepth) return;
-
-        let entries: string[];
-        try {
-            entries = await listDirectory(dirPath);
-        } catch {
-            return;
-        }
-
-        for (const entry of entries) {
-            const entryPath = path.join(dirPath, entry);
-            const relativePath = path.relative(this.workspacePath, entryPath);
-            const isDir = await isDirectory(entryPath);
-
-            // Check exclusions
-            if (this.options.excludePatterns.includes(entry)) continue;
-            if (isIgnored(relativePath, this.gitignorePatterns, isDir)) continue;
-
-            if (isDir) {
-                await this.traverseForHandlers(entryPath, depth + 1, handlers, callGraph);
-            } else if (this.isCodeFile(entry)) {
-                this.fileCount++;
-                // Log progress every 100 files
-                if (this.fileCount % 100 === 0) {
-                    console.log(`  [workflow] Analyzed ${this.fileCount} files...`);
-                }
-                await this.analyzeFileForHandlers(entryPath, relativePath, handlers, callGraph);
+            this.fileCount++;
+            // Log progress every 100 files
+            if (this.fileCount % 100 === 0) {
+                console.log(`  [workflow] Analyzed ${this.fileCount} files...`);
+            }
+            const parseFunctions = FUNCTION_PARSERS[path.extname(file.name)];
+            if (parseFunctions) {
+                await this.analyzeSourceFileForHandlers(file.absolutePath, file.relativePath, parseFunctions, handlers, callGraph);
+            } else {
+                this.analyzeFileForHandlers(file.absolutePath, file.relativePath, handlers, callGraph);
             }
         }
+
+        return { handlers, callGraph };
     }
 
     /**
      * Analyze a single file for handlers and call graph.
      */
-    private async analyzeFileForHandlers(
+    private analyzeFileForHandlers(
         filePath: string,
         relativePath: string,
         handlers: NamedHandler[],
         callGraph: CallGraphEdge[]
-    ): Promise<void> {
+    ): void {
+        const cached = this.cache?.get<FileHandlers>(relativePath);
+        if (cached) {
+            handlers.push(...cached.handlers);
+            callGraph.push(...cached.callGraph);
+            return;
+        }
+
+        const fileHandlers: FileHandlers = { handlers: [], callGraph: [] };
         try {
             const sourceFile = this.project.addSourceFileAtPath(filePath);
 
@@ -406,7 +816,7 @@ export class WorkflowDetector {
                 if (name) {
                     functionNames.add(name);
                     const match = matchWorkflowPattern(name);
-                    handlers.push({
+                    fileHandlers.handlers.push({
                         name,
                         filePath: relativePath,
                         type: match?.type || 'unknown',
@@ -415,7 +825,7 @@ export class WorkflowDetector {
                     });
 
                     // Build call graph for this function
-                    this.extractCallsFromFunction(func, name, relativePath, callGraph, functionNames);
+                    this.extractCallsFromFunction(func, name, relativePath, fileHandlers.callGraph, functionNames);
                 }
             }
 
@@ -428,7 +838,7 @@ export class WorkflowDetector {
                     if (initializer && initializer.getKind() === SyntaxKind.ArrowFunction) {
                         functionNames.add(name);
                         const match = matchWorkflowPattern(name);
-                        handlers.push({
+                        fileHandlers.handlers.push({
                             name,
                             filePath: relativePath,
                             type: match?.type || 'unknown',
@@ -438,13 +848,62 @@ export class WorkflowDetector {
 
                         // Build call graph for arrow function
                         const arrowFunc = initializer as ArrowFunction;
-                        this.extractCallsFromArrowFunction(arrowFunc, name, relativePath, callGraph, functionNames);
+                        this.extractCallsFromArrowFunction(arrowFunc, name, relativePath, fileHandlers.callGraph, functionNames);
                     }
                 }
             }
+
+            this.cache?.set(relativePath, fileHandlers);
         } catch {
             this.errorCount++;
         }
+
+        handlers.push(...fileHandlers.handlers);
+        callGraph.push(...fileHandlers.callGraph);
+    }
+
+    /**
+     * Analyze a single Python, Go or Rust file for functions and the calls between them.
+     */
+    private async analyzeSourceFileForHandlers(
+        filePath: string,
+        relativePath: string,
+        parseFunctions: (content: string) => DeclaredFunction[],
+        handlers: NamedHandler[],
+        callGraph: CallGraphEdge[]
+    ): Promise<void> {
+        let fileHandlers = this.cache?.get<FileHandlers>(relativePath);
+        if (!fileHandlers) {
+            const content = await readFileSafe(filePath, this.options.maxFileSize);
+            if (content === null) {
+                this.errorCount++;
+                return;
+            }
+
+            fileHandlers = { handlers: [], callGraph: [] };
+            for (const func of parseFunctions(content)) {
+                const match = matchWorkflowPattern(func.name);
+                fileHandlers.handlers.push({
+                    name: func.name,
+                    filePath: relativePath,
+                    type: match?.type || 'unknown',
+                    lineNumber: func.lineNumber,
+                    isExported: func.isExported
+                });
+                for (const call of func.calls) {
+                    fileHandlers.callGraph.push({
+                        caller: func.name,
+                        callee: call.callee,
+                        filePath: relativePath,
+                        lineNumber: call.lineNumber
+                    });
+                }
+            }
+            this.cache?.set(relativePath, fileHandlers);
+        }
+
+        handlers.push(...fileHandlers.handlers);
+        callGraph.push(...fileHandlers.callGraph);
     }
 
     /**
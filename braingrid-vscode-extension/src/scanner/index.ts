@@ -2,6 +2,10 @@
  * Scanner module barrel export
  */
 export { ScanOrchestrator } from './ScanOrchestrator';
+export { ScanWatcher } from './ScanWatcher';
+export type { WatchState, ScanWatcherOptions } from './ScanWatcher';
+export { GENERATORS, runGenerator } from './pipeline';
+export type { GeneratorConfig, GeneratorRun, GeneratorWorker } from './pipeline';
 export { DirectoryStructureGenerator } from './generators/DirectoryStructureGenerator';
 export { CodebaseSummaryGenerator } from './generators/CodebaseSummaryGenerator';
 export { DataModelExtractor } from './generators/DataModelExtractor';
@@ -13,5 +17,13 @@ export * from './utils/gitignoreParser';
 export * from './utils/dependencyParser';
 export * from './utils/typeScriptParser';
 export * from './utils/prismaParser';
+export * from './utils/pythonParser';
+export * from './utils/braceSyntax';
+export * from './utils/goParser';
+export * from './utils/rustParser';
 export * from './utils/importAnalyzer';
 export * from './utils/patternMatcher';
+export * from './utils/changeDetector';
+export * from './utils/analysisCache';
+export * from './utils/workspaceIndex';
+export * from './utils/scanContext';
@@ -0,0 +1,136 @@
+/**
+ * Generator pipeline
+ * Runs artifact generators, either on the current thread with a shared scan
+ * context or each in its own worker thread.
+ */
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ArtifactType, ArtifactResult, ScanOptions } from './types';
+import { CachedFileAnalysis } from '../storage/types';
+import { ScanContext } from './utils/scanContext';
+import { IndexedEntry } from './utils/workspaceIndex';
+import { DirectoryStructureGenerator } from './generators/DirectoryStructureGenerator';
+import { CodebaseSummaryGenerator } from './generators/CodebaseSummaryGenerator';
+import { DataModelExtractor } from './generators/DataModelExtractor';
+import { ArchitectureMapper } from './generators/ArchitectureMapper';
+import { WorkflowDetector } from './generators/WorkflowDetector';
+
+/**
+ * Generator configuration type
+ */
+export interface GeneratorConfig {
+    type: ArtifactType;
+    Generator: new (path: string, opts?: ScanOptions, context?: ScanContext) => { generate(): Promise<ArtifactResult> };
+    message: string;
+}
+
+/**
+ * Generators of a full scan. None reads another's output, so they run concurrently.
+ */
+export const GENERATORS: GeneratorConfig[] = [
+    { type: 'directory', Generator: DirectoryStructureGenerator, message: 'Scanning directory structure...' },
+    { type: 'summary', Generator: CodebaseSummaryGenerator, message: 'Analyzing codebase...' },
+    { type: 'dataModel', Generator: DataModelExtractor, message: 'Extracting data models...' },
+    { type: 'architecture', Generator: ArchitectureMapper, message: 'Mapping architecture...' },
+    { type: 'workflow', Generator: WorkflowDetector, message: 'Detecting workflows...' }
+];
+
+/**
+ * Outcome of running one generator
+ */
+export interface GeneratorRun {
+    result: ArtifactResult;
+    /** Analysis cache entries to save for the next scan */
+    cacheEntries: Record<string, CachedFileAnalysis>;
+    /** Files whose cached analysis was reused */
+    reusedFiles: number;
+}
+
+/**
+ * Everything a worker thread needs to run one generator
+ */
+export interface WorkerRequest {
+    type: ArtifactType;
+    workspacePath: string;
+    options: Required<ScanOptions>;
+    /** Entries of the scan's workspace index, in walk order */
+    entries: IndexedEntry[];
+    /** Current hashes by relative file path */
+    fileHashes: Record<string, string>;
+    /** Analysis cache entries saved by the last scan */
+    cacheEntries: Record<string, CachedFileAnalysis>;
+}
+
+/**
+ * Message a worker thread posts back
+ */
+export type WorkerResponse = { run: GeneratorRun } | { error: string };
+
+/**
+ * Run a generator on the current thread.
+ * @param config - Generator to run
+ * @param workspacePath - Root path of the workspace
+ * @param options - Scan configuration options
+ * @param context - Shared index and sources, with this generator's analysis cache
+ */
+export async function runGenerator(
+    config: GeneratorConfig,
+    workspacePath: string,
+    options: Required<ScanOptions>,
+    context: ScanContext
+): Promise<GeneratorRun> {
+    const generator = new config.Generator(workspacePath, options, context);
+    const result = await generator.generate();
+
+    return {
+        result,
+        cacheEntries: context.cache ? context.cache.entries() : {},
+        reusedFiles: context.cache ? context.cache.stats().hits : 0
+    };
+}
+
+/**
+ * Runs one generator in a worker thread. ts-morph projects cannot cross
+ * threads, so the worker rebuilds the index from the request and parses the
+ * sources it needs itself: more memory, but generators use separate cores.
+ */
+export class GeneratorWorker {
+    private readonly worker: Worker;
+    private readonly run: Promise<GeneratorRun>;
+
+    /**
+     * Start a worker for a generator.
+     * @param request - Generator, index entries and analysis cache to run with
+     */
+    constructor(request: WorkerRequest) {
+        this.worker = new Worker(path.join(__dirname, 'scanWorker.js'), { workerData: request });
+        this.run = new Promise<GeneratorRun>((resolve, reject) => {
+            this.worker.once('message', (response: WorkerResponse) => {
+                if ('error' in response) {
+                    reject(new Error(response.error));
+                } else {
+                    resolve(response.run);
+                }
+            });
+            this.worker.once('error', reject);
+            // Only settles the promise if the worker exits without answering
+            this.worker.once('exit', code => {
+                reject(new Error(`${request.type} worker stopped with exit code ${code}`));
+            });
+        });
+    }
+
+    /**
+     * Wait for the generator to finish.
+     */
+    result(): Promise<GeneratorRun> {
+        return this.run;
+    }
+
+    /**
+     * Stop the worker, e.g. on cancellation or timeout.
+     */
+    terminate(): void {
+        this.worker.terminate();
+    }
+}
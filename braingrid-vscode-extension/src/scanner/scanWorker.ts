@@ -0,0 +1,34 @@
+/**
+ * Worker thread entry point
+ * Runs one generator for ScanOrchestrator and posts the result back.
+ */
+import { parentPort, workerData } from 'worker_threads';
+import { GENERATORS, WorkerRequest, WorkerResponse, runGenerator } from './pipeline';
+import { AnalysisCache } from './utils/analysisCache';
+import { createSourceProject } from './utils/scanContext';
+import { WorkspaceIndex } from './utils/workspaceIndex';
+
+/**
+ * Run the requested generator with an index rebuilt from the request.
+ */
+async function handleRequest(request: WorkerRequest): Promise<WorkerResponse> {
+    const config = GENERATORS.find(g => g.type === request.type);
+    if (!config) {
+        return { error: `Unknown artifact type: ${request.type}` };
+    }
+
+    try {
+        const run = await runGenerator(config, request.workspacePath, request.options, {
+            index: new WorkspaceIndex(request.workspacePath, request.entries),
+            project: createSourceProject(),
+            cache: new AnalysisCache(request.fileHashes, request.cacheEntries)
+        });
+        return { run };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+handleRequest(workerData as WorkerRequest).then(response => {
+    parentPort?.postMessage(response);
+});
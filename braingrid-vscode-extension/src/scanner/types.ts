@@ -47,18 +47,24 @@ export interface ScanOptions {
     generateDocumentation?: boolean;
     /** API endpoint for documentation generation */
     documentationApiEndpoint?: string;
+    /** Re-analyse only files changed since the last scan */
+    incremental?: boolean;
+    /** Run each generator in its own worker thread */
+    workerThreads?: boolean;
 }
 
 /**
  * Default scan options
  */
 export const DEFAULT_SCAN_OPTIONS: Required<ScanOptions> = {
-    excludePatterns: ['node_modules', '.git', 'dist', 'build', '.next', 'out', 'coverage'],
+    excludePatterns: ['node_modules', '.git', 'dist', 'build', '.next', 'out', 'coverage', '__pycache__', '.venv', 'venv', 'vendor', 'target'],
     maxDepth: 3,
     skipLLMFallback: false,
     maxFileSize: 10 * 1024 * 1024, // 10MB
     generateDocumentation: false,
-    documentationApiEndpoint: 'http://localhost:3000/api/ai-documentation'
+    documentationApiEndpoint: 'http://localhost:3000/api/ai-documentation',
+    incremental: true,
+    workerThreads: false
 };
 
 /**
@@ -82,6 +88,15 @@ export interface ArtifactResult {
     incomplete?: boolean;
 }
 
+/**
+ * Files changed since the last scan, as paths relative to the workspace
+ */
+export interface FileChanges {
+    added: string[];
+    modified: string[];
+    deleted: string[];
+}
+
 /**
  * Full scan result with all artifacts
  */
@@ -90,6 +105,24 @@ export interface ScanResult {
     duration: number; // milliseconds
     errors: ScanError[];
     cancelled?: boolean;
+    /** Changes since the last scan; absent for a full scan */
+    changes?: FileChanges;
+    /** Artifacts whose content did not change; their documentation was kept */
+    unchanged?: ArtifactType[];
+    /** Time spent per scan stage */
+    timings?: ScanTimings;
+}
+
+/**
+ * Durations of the stages of a scan, in milliseconds
+ */
+export interface ScanTimings {
+    /** Walking and hashing the workspace */
+    index: number;
+    /** Each generator that ran, from start to finish */
+    generators: Partial<Record<ArtifactType, number>>;
+    /** AI documentation generation, if it ran */
+    documentation?: number;
 }
 
 /**
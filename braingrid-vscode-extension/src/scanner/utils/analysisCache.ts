@@ -0,0 +1,97 @@
+/**
+ * Per-file analysis cache
+ * Lets generators reuse what they extracted from a file while its hash, and
+ * the hashes of the files the result depends on, are unchanged.
+ */
+import * as crypto from 'crypto';
+import { CachedFileAnalysis } from '../../storage/types';
+
+/**
+ * Cached per-file results of one generator for one scan.
+ * Only entries read or written during the scan are kept, so results for
+ * deleted files drop out when the cache is saved.
+ */
+export class AnalysisCache {
+    private readonly fileHashes: Record<string, string>;
+    private readonly previous: Record<string, CachedFileAnalysis>;
+    private readonly current: Record<string, CachedFileAnalysis> = {};
+    private hitCount = 0;
+    private missCount = 0;
+
+    /**
+     * Create a cache for one scan.
+     * @param fileHashes - Current hashes by relative file path
+     * @param previous - Entries saved by the last scan
+     */
+    constructor(fileHashes: Record<string, string>, previous: Record<string, CachedFileAnalysis> = {}) {
+        this.fileHashes = fileHashes;
+        this.previous = previous;
+    }
+
+    /**
+     * Get the cached result for a file if the file is unchanged.
+     * @param relativePath - File path relative to the workspace
+     * @param part - Distinguishes several results a generator keeps per file
+     * @param dependencies - Other files the result depends on, e.g. resolved
+     * imports whose types it reads; a change to any of them invalidates it
+     */
+    get<T>(relativePath: string, part?: string, dependencies: string[] = []): T | undefined {
+        const key = this.key(relativePath, part);
+        const hash = this.hash(relativePath, dependencies);
+        const entry = this.previous[key];
+
+        if (hash && entry && entry.hash === hash) {
+            this.current[key] = entry;
+            this.hitCount++;
+            return entry.result as T;
+        }
+
+        this.missCount++;
+        return undefined;
+    }
+
+    /**
+     * Record the result of analysing a file. Files without a known hash
+     * (e.g. larger than the size limit) are not cached.
+     * @param dependencies - Other files the result depends on, as passed to get()
+     */
+    set<T>(relativePath: string, result: T, part?: string, dependencies: string[] = []): void {
+        const hash = this.hash(relativePath, dependencies);
+        if (hash) {
+            this.current[this.key(relativePath, part)] = { hash, result };
+        }
+    }
+
+    /**
+     * Entries to save for the next scan.
+     */
+    entries(): Record<string, CachedFileAnalysis> {
+        return this.current;
+    }
+
+    /**
+     * Number of files reused and re-analysed so far.
+     */
+    stats(): { hits: number; misses: number } {
+        return { hits: this.hitCount, misses: this.missCount };
+    }
+
+    private key(relativePath: string, part?: string): string {
+        return part ? `${part}:${relativePath}` : relativePath;
+    }
+
+    /**
+     * Hash of a file combined with those of its dependencies. Dependencies
+     * without a hash (outside the workspace, or not existing) count by name.
+     */
+    private hash(relativePath: string, dependencies: string[]): string | undefined {
+        const hash = this.fileHashes[relativePath];
+        if (!hash || dependencies.length === 0) return hash;
+
+        const combined = crypto.createHash('sha256').update(hash);
+        for (const dependency of Array.from(new Set(dependencies)).sort()) {
+            combined.update(`\n${dependency}:${this.fileHashes[dependency] ?? ''}`);
+        }
+        return combined.digest('hex');
+    }
+}
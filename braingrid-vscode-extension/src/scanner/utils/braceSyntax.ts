@@ -0,0 +1,310 @@
+/**
+ * Source text helpers for brace-delimited languages (Go and Rust)
+ * Blanks comments and string contents so declarations can be matched with
+ * regexes and blocks found by bracket matching, keeping offsets intact.
+ */
+import type { HTTPMethod } from '../generators/WorkflowDetector';
+
+/**
+ * Languages the masking understands
+ */
+export type BraceLanguage = 'go' | 'rust';
+
+/**
+ * Source with comments blanked, in two variants of the same length as the original
+ */
+export interface MaskedSource {
+    /** Comments blanked; string literals kept, for reading paths and tags */
+    text: string;
+    /** Comments and string contents blanked, for matching brackets */
+    structure: string;
+    /** Offset of the start of each line */
+    lineStarts: number[];
+}
+
+/**
+ * A route declared in a function; its path includes prefixes set in the same function
+ */
+export interface DeclaredRoute {
+    method: HTTPMethod;
+    path: string;
+    handlerName?: string;
+    lineNumber: number;
+    /** Function the route is declared in, whose mounts add a prefix; null outside functions */
+    owner: string | null;
+}
+
+/**
+ * Routes of one function mounted by another, e.g. a router group passed to a
+ * registration function or a router returned by a function and nested
+ */
+export interface RouteMount {
+    /** Function doing the mounting */
+    owner: string | null;
+    /** Function whose routes are mounted */
+    target: string;
+    /** Prefix at the mount, relative to the owner's own prefix */
+    prefix: string;
+}
+
+/**
+ * Routes and mounts found in one file
+ */
+export interface RouteFile {
+    routes: DeclaredRoute[];
+    mounts: RouteMount[];
+}
+
+/**
+ * A function with the calls it makes to other functions of its file
+ */
+export interface DeclaredFunction {
+    name: string;
+    lineNumber: number;
+    isExported: boolean;
+    calls: { callee: string; lineNumber: number }[];
+}
+
+/**
+ * Part of a source range, with its offset in the source
+ */
+export interface SourceSlice {
+    text: string;
+    start: number;
+}
+
+/**
+ * Opening and closing brackets
+ */
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Blank out comments, and string contents in the structure variant.
+ * @param content - Source text
+ * @param language - Language whose literal syntax applies
+ */
+export function maskSource(content: string, language: BraceLanguage): MaskedSource {
+    const text = content.split('');
+    const structure = content.split('');
+    const blank = (from: number, to: number, both: boolean) => {
+        for (let i = from; i < to; i++) {
+            if (content[i] === '\n') continue;
+            structure[i] = ' ';
+            if (both) text[i] = ' ';
+        }
+    };
+
+    let i = 0;
+    while (i < content.length) {
+        const ch = content[i];
+        const next = content[i + 1];
+
+        // Line comment
+        if (ch === '/' && next === '/') {
+            const end = content.indexOf('\n', i);
+            const stop = end < 0 ? content.length : end;
+            blank(i, stop, true);
+            i = stop;
+            continue;
+        }
+
+        // Block comment; Rust block comments nest
+        if (ch === '/' && next === '*') {
+            let depth = 1;
+            let j = i + 2;
+            while (j < content.length && depth > 0) {
+                if (language === 'rust' && content[j] === '/' && content[j + 1] === '*') {
+                    depth++;
+                    j += 2;
+                } else if (content[j] === '*' && content[j + 1] === '/') {
+                    depth--;
+                    j += 2;
+                } else {
+                    j++;
+                }
+            }
+            blank(i, j, true);
+            i = j;
+            continue;
+        }
+
+        // Rust raw strings: r"...", r#"..."#, br"..."
+        if (language === 'rust' && (ch === 'r' || (ch === 'b' && next === 'r')) && !/\w/.test(content[i - 1] ?? '')) {
+            const start = ch === 'b' ? i + 1 : i;
+            const rawMatch = content.slice(start + 1, start + 258).match(/^(#*)"/);
+            if (rawMatch) {
+                const closing = '"' + rawMatch[1];
+                const open = start + 1 + rawMatch[0].length;
+                const close = content.indexOf(closing, open);
+                const end = close < 0 ? content.length : close;
+                blank(open, end, false);
+                i = end + closing.length;
+                continue;
+            }
+        }
+
+        // Go raw strings
+        if (language === 'go' && ch === '`') {
+            const close = content.indexOf('`', i + 1);
+            const end = close < 0 ? content.length : close;
+            blank(i + 1, end, false);
+            i = end + 1;
+            continue;
+        }
+
+        // Interpreted strings, and Go runes and Rust chars (not Rust lifetimes such as 'a)
+        const isChar = ch === '\'' && (language === 'go' || next === '\\' || content[i + 2] === '\'');
+        if (ch === '"' || isChar) {
+            let j = i + 1;
+            while (j < content.length && content[j] !== ch && content[j] !== '\n') {
+                j += content[j] === '\\' ? 2 : 1;
+            }
+            // Rust strings may span lines
+            if (content[j] === '\n' && ch === '"' && language === 'rust') {
+                while (j < content.length && content[j] !== '"') {
+                    j += content[j] === '\\' ? 2 : 1;
+                }
+            }
+            blank(i + 1, Math.min(j, content.length), false);
+            i = j + 1;
+            continue;
+        }
+
+        i++;
+    }
+
+    const lineStarts = [0];
+    for (let k = 0; k < content.length; k++) {
+        if (content[k] === '\n') lineStarts.push(k + 1);
+    }
+
+    return { text: text.join(''), structure: structure.join(''), lineStarts };
+}
+
+/**
+ * Find the bracket closing the one at an offset.
+ * @param structure - Masked structure text
+ * @param openIndex - Offset of '(', '[' or '{'
+ * @returns Offset of the closing bracket, or -1 if it is missing
+ */
+export function findClosing(structure: string, openIndex: number): number {
+    const stack: string[] = [];
+    for (let i = openIndex; i < structure.length; i++) {
+        const ch = structure[i];
+        if (BRACKETS[ch]) {
+            stack.push(BRACKETS[ch]);
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            if (stack.pop() !== ch) return -1;
+            if (stack.length === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Find where the expression containing an offset ends: at the bracket that
+ * closes the enclosing group, or at the end of the argument or statement.
+ * @param structure - Masked structure text
+ * @param index - Offset inside the expression
+ */
+export function findExpressionEnd(structure: string, index: number): number {
+    let depth = 0;
+    for (let i = index; i < structure.length; i++) {
+        const ch = structure[i];
+        if (BRACKETS[ch]) {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            if (depth === 0) return i;
+            depth--;
+        } else if ((ch === ';' || ch === ',') && depth === 0) {
+            return i;
+        }
+    }
+    return structure.length;
+}
+
+/**
+ * Get the 1-based line number of an offset.
+ */
+export function lineNumberAt(source: MaskedSource, index: number): number {
+    let low = 0;
+    let high = source.lineStarts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (source.lineStarts[mid] <= index) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low + 1;
+}
+
+/**
+ * Split a range of source at separators outside brackets, including angle
+ * brackets of generics. Separators inside strings are ignored.
+ * @param source - Masked source
+ * @param start - Offset where the range starts, e.g. after an opening bracket
+ * @param end - Offset where the range ends, e.g. at the closing bracket
+ * @param separator - Separator character
+ * @returns Trimmed parts with comments blanked, and their offsets
+ */
+export function splitTopLevel(source: MaskedSource, start: number, end: number, separator = ','): SourceSlice[] {
+    const parts: SourceSlice[] = [];
+    const { structure } = source;
+    let depth = 0;
+    let partStart = start;
+
+    const push = (to: number) => {
+        const raw = source.text.slice(partStart, to);
+        const text = raw.trim();
+        if (text) parts.push({ text, start: partStart + raw.indexOf(text) });
+    };
+
+    for (let i = start; i < end; i++) {
+        const ch = structure[i];
+        if (ch === '(' || ch === '[' || ch === '{' || ch === '<') {
+            depth++;
+        } else if ((ch === ')' || ch === ']' || ch === '}' || (ch === '>' && structure[i - 1] !== '-' && structure[i - 1] !== '=')) && depth > 0) {
+            depth--;
+        } else if (ch === separator && depth === 0) {
+            push(i);
+            partStart = i + 1;
+        }
+    }
+    push(end);
+
+    return parts;
+}
+
+/**
+ * Get the value of a string literal at the start of some text: "a", `a` or r#"a"#.
+ * @returns The literal's contents, or null if the text does not start with a string
+ */
+export function stringLiteral(text: string): string | null {
+    const match = text.match(/^(?:b?r(#*))?"((?:[^"\\]|\\.)*)"/) ?? text.match(/^`([^`]*)`/);
+    if (!match) return null;
+    return match.length === 3 ? match[2] : match[1];
+}
+
+/**
+ * Join URL path segments with single slashes: ('/api', 'users/') -> /api/users
+ */
+export function joinRoutePath(...parts: string[]): string {
+    const joined = parts
+        .map(part => part.replace(/^\/+|\/+$/g, ''))
+        .filter(Boolean)
+        .join('/');
+    return '/' + joined;
+}
+
+/**
+ * Convert a snake_case or kebab-case name to PascalCase: 'order_item' -> 'OrderItem'.
+ */
+export function toPascalCase(name: string): string {
+    return name
+        .split(/[_-]/)
+        .filter(Boolean)
+        .map(part => part[0].toUpperCase() + part.slice(1))
+        .join('');
+}
@@ -0,0 +1,105 @@
+/**
+ * Change detection between scans
+ * Hashes the workspace's files and compares them with the last scan's hashes.
+ */
+import * as path from 'path';
+import { FileChanges, ScanOptions } from '../types';
+import { isBinaryFile } from './fileSystem';
+import { isIgnored } from './gitignoreParser';
+import { WorkspaceIndex } from './workspaceIndex';
+
+/**
+ * Folder holding BrainGrid's own artifacts, never part of a scan
+ */
+const BRAINGRID_FOLDER = '.braingrid';
+
+/**
+ * Hash every file a scan can analyse: not excluded, ignored, binary or too large.
+ * Unlike the generators, this has no depth limit, so changes anywhere are seen.
+ * @param index - Files of the workspace
+ * @param options - Scan options with the size limit
+ * @param hashFile - Computes the hash of a file from its absolute path
+ * @returns Map of relative file paths to hashes
+ */
+export async function collectFileHashes(
+    index: WorkspaceIndex,
+    options: Required<ScanOptions>,
+    hashFile: (filePath: string) => Promise<string>
+): Promise<Record<string, string>> {
+    const hashes: Record<string, string> = {};
+
+    for (const file of index.files()) {
+        if (file.relativePath.split(path.sep)[0] === BRAINGRID_FOLDER) continue;
+        if (isBinaryFile(file.name)) continue;
+        if (file.size < 0 || file.size > options.maxFileSize) continue;
+        try {
+            hashes[file.relativePath] = await hashFile(file.absolutePath);
+        } catch {
+            // Removed or unreadable since it was listed; treat as absent
+        }
+    }
+
+    return hashes;
+}
+
+/**
+ * Check whether a file is one that collectFileHashes would hash, without
+ * touching the file system (a deleted file still counts).
+ * @param relativePath - File path relative to the workspace root
+ * @param options - Scan options with exclusions
+ * @param gitignorePatterns - Patterns from the workspace's .gitignore
+ * @returns true if a change to the file can change scan results
+ */
+export function isScannedPath(
+    relativePath: string,
+    options: Required<ScanOptions>,
+    gitignorePatterns: string[]
+): boolean {
+    const segments = relativePath.split(path.sep);
+    if (segments[0] === BRAINGRID_FOLDER || segments[0] === '..' || path.isAbsolute(relativePath)) {
+        return false;
+    }
+
+    for (let i = 0; i < segments.length; i++) {
+        const isDir = i < segments.length - 1;
+        if (options.excludePatterns.includes(segments[i])) return false;
+        if (isIgnored(segments.slice(0, i + 1).join(path.sep), gitignorePatterns, isDir)) return false;
+    }
+
+    return !isBinaryFile(relativePath);
+}
+
+/**
+ * Compare the hashes of two scans.
+ * @param previous - Hashes from the last scan
+ * @param current - Hashes from this scan
+ * @returns Added, modified and deleted files
+ */
+export function diffFileHashes(
+    previous: Record<string, string>,
+    current: Record<string, string>
+): FileChanges {
+    const changes: FileChanges = { added: [], modified: [], deleted: [] };
+
+    for (const [filePath, hash] of Object.entries(current)) {
+        if (!(filePath in previous)) {
+            changes.added.push(filePath);
+        } else if (previous[filePath] !== hash) {
+            changes.modified.push(filePath);
+        }
+    }
+    for (const filePath of Object.keys(previous)) {
+        if (!(filePath in current)) {
+            changes.deleted.push(filePath);
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Count the files in a change set.
+ */
+export function countChanges(changes: FileChanges): number {
+    return changes.added.length + changes.modified.length + changes.deleted.length;
+}
@@ -0,0 +1,700 @@
+/**
+ * Go source parsing using regex patterns over masked source
+ * Reads structs, routes, imports and functions without a Go toolchain.
+ */
+import { EntityDefinition, FieldDefinition, EnumDefinition } from './typeScriptParser';
+import type { HTTPMethod } from '../generators/WorkflowDetector';
+import {
+    MaskedSource,
+    RouteFile,
+    DeclaredFunction,
+    maskSource,
+    findClosing,
+    lineNumberAt,
+    splitTopLevel,
+    stringLiteral,
+    joinRoutePath
+} from './braceSyntax';
+
+/**
+ * A top-level function or method declaration
+ */
+interface GoFunction {
+    name: string;
+    params: string;
+    /** Offset of the `func` keyword */
+    start: number;
+    /** Offsets of the body's braces */
+    bodyStart: number;
+    bodyEnd: number;
+}
+
+/**
+ * A type declared with `type Name ...`, alone or in a `type (...)` group
+ */
+interface GoTypeSpec {
+    name: string;
+    /** Underlying type text, e.g. 'string'; 'struct' for struct types */
+    underlying: string;
+    /** Offsets of the braces of a struct body */
+    bodyStart?: number;
+    bodyEnd?: number;
+}
+
+/**
+ * Web framework a router variable belongs to
+ */
+type GoFramework = 'gin' | 'echo' | 'chi' | 'unknown';
+
+/**
+ * A router, group or sub-router variable in scope
+ */
+interface GoRouter {
+    prefix: string;
+    framework: GoFramework;
+}
+
+/**
+ * Map Go types to TypeScript equivalents
+ */
+const GO_TYPE_MAP: Record<string, string> = {
+    'string': 'string', 'bool': 'boolean', 'byte': 'number', 'rune': 'number',
+    'int': 'number', 'int8': 'number', 'int16': 'number', 'int32': 'number', 'int64': 'number',
+    'uint': 'number', 'uint8': 'number', 'uint16': 'number', 'uint32': 'number', 'uint64': 'number',
+    'uintptr': 'number', 'float32': 'number', 'float64': 'number', 'any': 'object', 'interface{}': 'object',
+    'time.Time': 'Date', 'time.Duration': 'number', 'uuid.UUID': 'string', 'decimal.Decimal': 'number',
+    'json.RawMessage': 'object', 'datatypes.JSON': 'object', 'datatypes.Date': 'Date', 'gorm.DeletedAt': 'Date',
+    'sql.NullString': 'string', 'sql.NullBool': 'boolean', 'sql.NullTime': 'Date', 'sql.NullInt16': 'number',
+    'sql.NullInt32': 'number', 'sql.NullInt64': 'number', 'sql.NullFloat64': 'number', 'sql.NullByte': 'number',
+    'null.String': 'string', 'null.Bool': 'boolean', 'null.Time': 'Date', 'null.Int': 'number', 'null.Float': 'number'
+};
+
+/**
+ * Fields that embedding `gorm.Model` adds to a struct
+ */
+const GORM_MODEL_FIELDS: FieldDefinition[] = [
+    { name: 'ID', type: 'number', optional: false, isArray: false, isRelation: false },
+    { name: 'CreatedAt', type: 'Date', optional: false, isArray: false, isRelation: false },
+    { name: 'UpdatedAt', type: 'Date', optional: false, isArray: false, isRelation: false },
+    { name: 'DeletedAt', type: 'Date', optional: true, isArray: false, isRelation: false }
+];
+
+/**
+ * Underlying types of named types whose typed constants form an enum
+ */
+const ENUM_UNDERLYING_TYPES = new Set([
+    'string', 'int', 'int8', 'int16', 'int32', 'int64', 'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'byte', 'rune'
+]);
+
+/**
+ * Route registration methods and their HTTP methods: Gin and Echo use upper case, chi Pascal case
+ */
+const ROUTE_METHODS: Record<string, HTTPMethod> = {
+    'GET': 'GET', 'POST': 'POST', 'PUT': 'PUT', 'PATCH': 'PATCH', 'DELETE': 'DELETE',
+    'Get': 'GET', 'Post': 'POST', 'Put': 'PUT', 'Patch': 'PATCH', 'Delete': 'DELETE'
+};
+
+/**
+ * Methods taking the HTTP method as their first argument: Gin `Handle`, chi `Method` and `MethodFunc`
+ */
+const METHOD_ARGUMENT_METHODS = new Set(['Handle', 'Method', 'MethodFunc']);
+
+/**
+ * Calls that create a router, by framework
+ */
+const ROUTER_CONSTRUCTORS: Record<string, GoFramework> = {
+    'gin.Default': 'gin',
+    'gin.New': 'gin',
+    'echo.New': 'echo',
+    'chi.NewRouter': 'chi',
+    'chi.NewMux': 'chi'
+};
+
+/**
+ * Parameter types that make a parameter a router, by package
+ */
+const ROUTER_TYPE = /^\*?(gin|echo|chi)\.(Engine|RouterGroup|IRouter|IRoutes|Echo|Group|Router|Mux)$/;
+
+/**
+ * Parse Go structs, including GORM models, and enums declared as typed constants.
+ * @param content - Source of a Go file
+ * @param filePath - Path recorded on the entities
+ * @returns Extracted entities and enums
+ */
+export function parseGoModels(content: string, filePath: string): {
+    entities: EntityDefinition[];
+    enums: EnumDefinition[];
+} {
+    const source = maskSource(content, 'go');
+    const specs = findTypeSpecs(source);
+
+    // Fields of each struct, with embedded structs of the same file resolved afterwards
+    const structs = new Map<string, { fields: FieldDefinition[]; embedded: string[] }>();
+    for (const spec of specs) {
+        if (spec.bodyStart === undefined || spec.bodyEnd === undefined) continue;
+        structs.set(spec.name, parseStructFields(source, spec.bodyStart, spec.bodyEnd));
+    }
+
+    // A struct's own fields hide promoted fields of the same name
+    const resolveFields = (name: string, visited: Set<string>): FieldDefinition[] => {
+        if (name === 'gorm.Model') return GORM_MODEL_FIELDS.map(field => ({ ...field }));
+        const struct = structs.get(name);
+        if (!struct || visited.has(name)) return [];
+        visited.add(name);
+        const seen = new Set(struct.fields.map(field => field.name));
+        const inherited: FieldDefinition[] = [];
+        for (const field of struct.embedded.flatMap(embedded => resolveFields(embedded, visited))) {
+            if (seen.has(field.name)) continue;
+            seen.add(field.name);
+            inherited.push(field);
+        }
+        return [...inherited, ...struct.fields];
+    };
+
+    const entities: EntityDefinition[] = [];
+    for (const name of structs.keys()) {
+        const fields = resolveFields(name, new Set());
+        if (fields.length > 0) {
+            entities.push({ name, fields, source: 'go', filePath });
+        }
+    }
+
+    const enumTypes = new Set(
+        specs.filter(spec => ENUM_UNDERLYING_TYPES.has(spec.underlying)).map(spec => spec.name)
+    );
+    const enums = parseTypedConstants(source, enumTypes);
+
+    return { entities, enums };
+}
+
+/**
+ * Parse the import paths of a Go file.
+ * @param content - Source of a Go file
+ * @returns Import paths, e.g. 'github.com/gin-gonic/gin'
+ */
+export function parseGoImports(content: string): string[] {
+    const source = maskSource(content, 'go');
+    const imports: string[] = [];
+
+    const groupRegex = /^import\s*\(/gm;
+    let match;
+    while ((match = groupRegex.exec(source.structure)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(source.structure, open);
+        if (close < 0) continue;
+        for (const line of source.text.slice(open + 1, close).split('\n')) {
+            const lineMatch = line.match(/^\s*(?:[\w.]+\s+)?"([^"]+)"/);
+            if (lineMatch) imports.push(lineMatch[1]);
+        }
+    }
+
+    const singleRegex = /^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm;
+    while ((match = singleRegex.exec(source.text)) !== null) {
+        imports.push(match[1]);
+    }
+
+    return imports;
+}
+
+/**
+ * Parse Gin, Echo and chi routes, and the functions that mount other functions' routes.
+ * Routers are followed within each function: groups, chi sub-routers and
+ * router parameters add prefixes; a router passed to another function or a
+ * router returned by one and mounted becomes a mount.
+ * @param content - Source of a Go file
+ */
+export function parseGoRoutes(content: string): RouteFile {
+    const source = maskSource(content, 'go');
+    const result: RouteFile = { routes: [], mounts: [] };
+
+    for (const func of findFunctions(source)) {
+        const routers = new Map<string, GoRouter>();
+        for (const [name, framework] of routerParams(func.params)) {
+            routers.set(name, { prefix: '', framework });
+        }
+        parseRouteBlock(source, func.bodyStart + 1, func.bodyEnd, func.name, routers, result);
+    }
+
+    return result;
+}
+
+/**
+ * Parse the functions and methods of a Go file and the calls between them.
+ * Method calls such as `s.repo.Save()` are ignored, as for TypeScript.
+ * @param content - Source of a Go file
+ */
+export function parseGoFunctions(content: string): DeclaredFunction[] {
+    const source = maskSource(content, 'go');
+    const declarations = findFunctions(source);
+    const names = new Set(declarations.map(func => func.name));
+
+    return declarations.map(func => {
+        const calls: DeclaredFunction['calls'] = [];
+        const body = source.structure.slice(func.bodyStart, func.bodyEnd);
+        const callRegex = /(^|[^\w.])(\w+)\s*\(/g;
+        let match;
+        while ((match = callRegex.exec(body)) !== null) {
+            if (names.has(match[2])) {
+                const offset = func.bodyStart + match.index + match[1].length;
+                calls.push({ callee: match[2], lineNumber: lineNumberAt(source, offset) });
+            }
+        }
+
+        return {
+            name: func.name,
+            lineNumber: lineNumberAt(source, func.start),
+            isExported: /^[A-Z]/.test(func.name),
+            calls
+        };
+    });
+}
+
+/**
+ * Find the top-level functions and methods, which gofmt starts at column 0.
+ */
+function findFunctions(source: MaskedSource): GoFunction[] {
+    const { structure } = source;
+    const functions: GoFunction[] = [];
+    const funcRegex = /^func\s*(?:\([^)]*\)\s*)?(\w+)\s*(?:\[[^\]]*\])?\s*\(/gm;
+
+    let match;
+    while ((match = funcRegex.exec(structure)) !== null) {
+        const paramsOpen = match.index + match[0].length - 1;
+        const paramsClose = findClosing(structure, paramsOpen);
+        if (paramsClose < 0) continue;
+
+        // The body brace follows the results, which may mention interface{} or struct{}
+        let bodyStart = structure.indexOf('{', paramsClose);
+        while (bodyStart >= 0 && /\b(?:interface|struct)\s*$/.test(structure.slice(paramsClose, bodyStart))) {
+            bodyStart = structure.indexOf('{', findClosing(structure, bodyStart) + 1);
+        }
+        if (bodyStart < 0) continue;
+        const bodyEnd = findClosing(structure, bodyStart);
+        if (bodyEnd < 0) continue;
+
+        functions.push({
+            name: match[1],
+            params: source.text.slice(paramsOpen + 1, paramsClose),
+            start: match.index,
+            bodyStart,
+            bodyEnd
+        });
+        funcRegex.lastIndex = bodyEnd;
+    }
+
+    return functions;
+}
+
+/**
+ * Find the type declarations of a file, alone or grouped in `type (...)`.
+ */
+function findTypeSpecs(source: MaskedSource): GoTypeSpec[] {
+    const { structure } = source;
+    const specs: GoTypeSpec[] = [];
+
+    // Read one spec at an offset, e.g. `User struct {` or `Status string`
+    const readSpec = (offset: number, text: string): number => {
+        const structMatch = text.match(/^(\w+)(?:\[[^\]\n]*\])?\s+struct\s*\{/);
+        if (structMatch) {
+            const bodyStart = offset + structMatch[0].length - 1;
+            const bodyEnd = findClosing(structure, bodyStart);
+            if (bodyEnd < 0) return structure.length;
+            specs.push({ name: structMatch[1], underlying: 'struct', bodyStart, bodyEnd });
+            return bodyEnd + 1;
+        }
+        const namedMatch = text.match(/^(\w+)[ \t]+(?:=[ \t]*)?([\w.*[\]]+)[ \t]*(?:\n|$)/);
+        if (namedMatch) {
+            specs.push({ name: namedMatch[1], underlying: namedMatch[2] });
+        }
+        // Skip the body of an interface or other braced type
+        const lineEnd = text.indexOf('\n');
+        const braceIndex = text.slice(0, lineEnd < 0 ? text.length : lineEnd).indexOf('{');
+        if (braceIndex >= 0) {
+            const close = findClosing(structure, offset + braceIndex);
+            if (close >= 0) return close + 1;
+        }
+        return offset + 1;
+    };
+
+    const typeRegex = /^type\b\s*/gm;
+    let match;
+    while ((match = typeRegex.exec(structure)) !== null) {
+        const start = match.index + match[0].length;
+        if (structure[start] !== '(') {
+            typeRegex.lastIndex = readSpec(start, structure.slice(start));
+            continue;
+        }
+
+        const close = findClosing(structure, start);
+        if (close < 0) break;
+        const specRegex = /^[ \t]*(\w)/gm;
+        specRegex.lastIndex = start + 1;
+        let specMatch;
+        while ((specMatch = specRegex.exec(structure)) !== null && specMatch.index < close) {
+            const offset = specMatch.index + specMatch[0].length - 1;
+            specRegex.lastIndex = Math.max(readSpec(offset, structure.slice(offset, close)), specRegex.lastIndex);
+        }
+        typeRegex.lastIndex = close;
+    }
+
+    return specs;
+}
+
+/**
+ * Parse the fields of a struct body, one declaration per line.
+ * Nested anonymous structs are recorded as objects.
+ */
+function parseStructFields(source: MaskedSource, bodyStart: number, bodyEnd: number): {
+    fields: FieldDefinition[];
+    embedded: string[];
+} {
+    const fields: FieldDefinition[] = [];
+    const embedded: string[] = [];
+    const hasOneCandidates: { field: FieldDefinition; foreignKey?: string }[] = [];
+
+    let position = bodyStart + 1;
+    while (position < bodyEnd) {
+        const newline = source.structure.indexOf('\n', position);
+        const lineEnd = newline < 0 || newline > bodyEnd ? bodyEnd : newline;
+        const lineStructure = source.structure.slice(position, lineEnd);
+        const line = source.text.slice(position, lineEnd).trim();
+
+        // Anonymous struct spanning lines: Address struct { ... }
+        const braceIndex = lineStructure.indexOf('{');
+        if (braceIndex >= 0) {
+            const close = findClosing(source.structure, position + braceIndex);
+            const nameMatch = line.match(/^(\w+)\s+(\[\])?(?:\*)?struct\b/);
+            if (nameMatch) {
+                fields.push({ name: nameMatch[1], type: 'object', optional: false, isArray: !!nameMatch[2], isRelation: false });
+            }
+            if (close > lineEnd) {
+                position = close + 1;
+                continue;
+            }
+        }
+        position = lineEnd + 1;
+        if (!line || braceIndex >= 0) continue;
+
+        // Struct tag: `gorm:"many2many:user_roles" json:"roles"`
+        const tagMatch = line.match(/\s*`([^`]*)`\s*$/);
+        const tag = tagMatch ? tagMatch[1] : '';
+        const declaration = tagMatch ? line.slice(0, tagMatch.index).trim() : line;
+        const gormTag = tag.match(/gorm:"([^"]*)"/)?.[1] ?? '';
+        if (/^-(?:$|:)/.test(gormTag)) continue;
+
+        const fieldMatch = declaration.match(/^(\w+(?:\s*,\s*\w+)*)\s+(\S.*)$/);
+        if (!fieldMatch) {
+            // Embedded type: gorm.Model, *Base, Base
+            embedded.push(declaration === 'gorm.Model'
+                ? declaration
+                : declaration.replace(/^\*/, '').replace(/^\w+\./, ''));
+            continue;
+        }
+
+        const foreignKey = gormTag.match(/(?:^|;)\s*foreignKey:\s*(\w+)/i)?.[1];
+        for (const name of fieldMatch[1].split(',')) {
+            const field = goField(name.trim(), fieldMatch[2].trim());
+            if (/(?:^|;)\s*many2many:/.test(gormTag)) {
+                field.relationType = 'many-to-many';
+            } else if (field.isRelation && !field.isArray && /(?:^|;)\s*(?:foreignKey|references):/i.test(gormTag)) {
+                hasOneCandidates.push({ field, foreignKey });
+            }
+            fields.push(field);
+        }
+    }
+
+    // Has one: the foreign key is on the other struct. When it is a field of
+    // this struct the relation is belongs-to and stays many-to-one.
+    for (const { field, foreignKey } of hasOneCandidates) {
+        if (!foreignKey || !fields.some(other => other.name === foreignKey)) {
+            field.relationType = 'one-to-one';
+        }
+    }
+
+    return { fields, embedded };
+}
+
+/**
+ * Build a field from a Go type: pointers are optional, slices arrays, and
+ * struct types of other packages are named without their package.
+ */
+function goField(name: string, typeText: string): FieldDefinition {
+    let text = typeText;
+    let optional = false;
+    let isArray = false;
+
+    if (text === '[]byte') {
+        return { name, type: 'Buffer', optional: false, isArray: false, isRelation: false };
+    }
+    if (text.startsWith('*')) {
+        optional = true;
+        text = text.slice(1);
+    }
+    const sliceMatch = text.match(/^\[\d*\]\*?(.+)$/);
+    if (sliceMatch) {
+        isArray = true;
+        text = sliceMatch[1];
+    }
+    if (text.startsWith('map[')) {
+        return { name, type: 'object', optional, isArray, isRelation: false };
+    }
+    if (/^(?:sql\.Null|null\.)/.test(text) || text === 'gorm.DeletedAt') {
+        optional = true;
+    }
+
+    const mapped = GO_TYPE_MAP[text];
+    const baseType = text.replace(/\[.*\]$/, '').replace(/^\w+\./, '');
+    return {
+        name,
+        type: mapped ?? baseType,
+        optional,
+        isArray,
+        isRelation: !mapped && /^[A-Z]/.test(baseType)
+    };
+}
+
+/**
+ * Parse constants typed with one of the given types into enums:
+ * `const ( StatusActive Status = "active"; ... )` or iota sequences.
+ */
+function parseTypedConstants(source: MaskedSource, enumTypes: Set<string>): EnumDefinition[] {
+    const values = new Map<string, string[]>();
+    const addValue = (typeName: string | null, name: string) => {
+        if (!typeName || !enumTypes.has(typeName) || name === '_') return;
+        if (!values.has(typeName)) values.set(typeName, []);
+        values.get(typeName)!.push(name);
+    };
+
+    const constRegex = /^const\b\s*/gm;
+    let match;
+    while ((match = constRegex.exec(source.structure)) !== null) {
+        const start = match.index + match[0].length;
+        if (source.structure[start] !== '(') {
+            const singleMatch = source.structure.slice(start).match(/^(\w+)\s+(\w+)\s*=/);
+            if (singleMatch) addValue(singleMatch[2], singleMatch[1]);
+            continue;
+        }
+
+        const close = findClosing(source.structure, start);
+        if (close < 0) break;
+
+        // A constant without a value repeats the type and expression of the one before
+        let lastType: string | null = null;
+        for (const line of source.structure.slice(start + 1, close).split('\n')) {
+            const trimmed = line.trim();
+            const typedMatch = trimmed.match(/^(\w+)\s+(\w+)\s*=/);
+            if (typedMatch) {
+                lastType = typedMatch[2];
+                addValue(lastType, typedMatch[1]);
+            } else if (/^\w+\s*=/.test(trimmed)) {
+                lastType = null;
+            } else if (/^\w+$/.test(trimmed)) {
+                addValue(lastType, trimmed);
+            }
+        }
+        constRegex.lastIndex = close;
+    }
+
+    return Array.from(values, ([name, enumValues]) => ({ name, values: enumValues, source: 'go' as const }));
+}
+
+/**
+ * Find parameters typed as routers: `r *gin.Engine`, `g *echo.Group`, `r chi.Router`.
+ * @returns Framework of each router parameter, by name
+ */
+function routerParams(params: string): Map<string, GoFramework> {
+    const routers = new Map<string, GoFramework>();
+    // Names without a type share the type of the next parameter: a, b *gin.RouterGroup
+    let pending: string[] = [];
+
+    for (const param of params.split(',').map(part => part.trim())) {
+        const paramMatch = param.match(/^(\w+)\s+(.+)$/);
+        if (!paramMatch) {
+            if (/^\w+$/.test(param)) pending.push(param);
+            continue;
+        }
+        const typeMatch = paramMatch[2].trim().match(ROUTER_TYPE);
+        if (typeMatch) {
+            for (const name of [...pending, paramMatch[1]]) {
+                routers.set(name, typeMatch[1] as GoFramework);
+            }
+        }
+        pending = [];
+    }
+
+    return routers;
+}
+
+/**
+ * Parse the routes and mounts of a block, following router variables in order.
+ * @param source - Masked source of the file
+ * @param start - Offset after the block's opening brace
+ * @param end - Offset of the block's closing brace
+ * @param owner - Function the block belongs to
+ * @param routers - Router variables in scope, updated as the block declares more
+ * @param result - Routes and mounts found so far
+ */
+function parseRouteBlock(
+    source: MaskedSource,
+    start: number,
+    end: number,
+    owner: string,
+    routers: Map<string, GoRouter>,
+    result: RouteFile
+): void {
+    const { structure } = source;
+    const callRegex = /([\w.]*\w)\s*\(/g;
+    callRegex.lastIndex = start;
+
+    let match;
+    while ((match = callRegex.exec(structure)) !== null && match.index < end) {
+        const callee = match[1];
+        if (callee === 'func') continue;
+
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(structure, open);
+        if (close < 0) continue;
+        const args = splitTopLevel(source, open + 1, close);
+
+        const dot = callee.lastIndexOf('.');
+        const receiver = dot >= 0 ? callee.slice(0, dot) : '';
+        const method = callee.slice(dot + 1);
+        const router = routers.get(receiver);
+        const base = router?.prefix ?? '';
+        const lineStart = structure.lastIndexOf('\n', match.index) + 1;
+        const assigned = structure.slice(lineStart, match.index).match(/([\w.]+)\s*:?=\s*$/)?.[1];
+        const lineNumber = lineNumberAt(source, match.index);
+
+        // Router creation: r := gin.Default()
+        if (callee in ROUTER_CONSTRUCTORS) {
+            if (assigned) routers.set(assigned, { prefix: '', framework: ROUTER_CONSTRUCTORS[callee] });
+            continue;
+        }
+
+        const firstString = args.length > 0 ? stringLiteral(args[0].text) : null;
+
+        // Groups: v1 := r.Group("/v1"), or chi's r.Group(func(r chi.Router) { ... })
+        if (method === 'Group' && (router || firstString !== null)) {
+            if (firstString !== null && assigned) {
+                routers.set(assigned, { prefix: joinRoutePath(base, firstString), framework: router?.framework ?? 'unknown' });
+            } else if (args[0] && /^func\s*\(/.test(args[0].text)) {
+                parseClosure(source, args[0].start, owner, base, routers, result);
+                callRegex.lastIndex = close;
+            }
+            continue;
+        }
+
+        // chi sub-routers: r.Route("/users", func(r chi.Router) { ... }) or r.Route("/users", users.Routes)
+        if (method === 'Route' && firstString !== null && args[1]) {
+            const prefix = joinRoutePath(base, firstString);
+            if (/^func\s*\(/.test(args[1].text)) {
+                parseClosure(source, args[1].start, owner, prefix, routers, result);
+                callRegex.lastIndex = close;
+            } else {
+                result.mounts.push({ owner, target: calleeName(args[1].text), prefix });
+            }
+            continue;
+        }
+
+        // chi mounts: r.Mount("/admin", adminRouter())
+        if (method === 'Mount' && firstString !== null && args[1]) {
+            result.mounts.push({ owner, target: calleeName(args[1].text), prefix: joinRoutePath(base, firstString) });
+            continue;
+        }
+
+        // Routes: r.GET("/users", h.List), r.Get("/users", list), r.Handle("GET", "/users", h.List)
+        const route = routeCall(method, args, router);
+        if (route) {
+            result.routes.push({
+                method: route.method,
+                path: joinRoutePath(base, route.path),
+                handlerName: route.handler,
+                lineNumber,
+                owner
+            });
+            continue;
+        }
+
+        // A router passed to another function: users.RegisterRoutes(api) or orders.RegisterRoutes(api.Group("/orders"))
+        if (!router) {
+            for (const arg of args) {
+                const prefix = passedRouterPrefix(arg.text, routers);
+                if (prefix !== null) {
+                    result.mounts.push({ owner, target: callee, prefix });
+                    break;
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Get the prefix of a router passed as an argument: a router variable or a group of one.
+ * @returns The prefix, or null if the argument is not a router
+ */
+function passedRouterPrefix(text: string, routers: Map<string, GoRouter>): string | null {
+    const router = routers.get(text);
+    if (router) return router.prefix;
+
+    const groupMatch = text.match(/^([\w.]+)\.Group\(\s*("[^"]*"|`[^`]*`)/);
+    const parent = groupMatch ? routers.get(groupMatch[1]) : undefined;
+    return parent && groupMatch ? joinRoutePath(parent.prefix, stringLiteral(groupMatch[2]) ?? '') : null;
+}
+
+/**
+ * Parse a `func(r chi.Router) { ... }` argument, its router parameter set to a prefix.
+ */
+function parseClosure(
+    source: MaskedSource,
+    offset: number,
+    owner: string,
+    prefix: string,
+    routers: Map<string, GoRouter>,
+    result: RouteFile
+): void {
+    const paramsOpen = source.structure.indexOf('(', offset);
+    const paramsClose = findClosing(source.structure, paramsOpen);
+    if (paramsClose < 0) return;
+    const bodyStart = source.structure.indexOf('{', paramsClose);
+    const bodyEnd = bodyStart < 0 ? -1 : findClosing(source.structure, bodyStart);
+    if (bodyEnd < 0) return;
+
+    const scoped = new Map(routers);
+    for (const [name, framework] of routerParams(source.text.slice(paramsOpen + 1, paramsClose))) {
+        scoped.set(name, { prefix, framework });
+    }
+    parseRouteBlock(source, bodyStart + 1, bodyEnd, owner, scoped, result);
+}
+
+/**
+ * Read the method, path and handler of a route registration call.
+ * Gin takes middleware before the handler and Echo after it. Paths start
+ * with a slash, except for the root of a known group: `users.GET("", list)`.
+ */
+function routeCall(
+    method: string,
+    args: { text: string }[],
+    router: GoRouter | undefined
+): { method: HTTPMethod; path: string; handler?: string } | null {
+    let httpMethod: HTTPMethod | undefined = ROUTE_METHODS[method];
+    let rest = args;
+    if (!httpMethod && METHOD_ARGUMENT_METHODS.has(method) && args.length > 0) {
+        httpMethod = ROUTE_METHODS[stringLiteral(args[0].text) ?? ''];
+        rest = args.slice(1);
+    }
+    if (!httpMethod || rest.length < 2) return null;
+
+    const routePath = stringLiteral(rest[0].text);
+    if (routePath === null || !(routePath.startsWith('/') || (routePath === '' && router))) return null;
+
+    const handlerArg = router?.framework === 'echo' ? rest[1] : rest[rest.length - 1];
+    const handler = /^func\s*\(/.test(handlerArg.text) ? '' : calleeName(handlerArg.text).split('.').pop();
+    return { method: httpMethod, path: routePath, handler: handler || undefined };
+}
+
+/**
+ * Name the function an argument refers to: 'h.List' for `h.List`, 'adminRouter' for `adminRouter()`.
+ */
+function calleeName(text: string): string {
+    return text.match(/^&?([\w.]+)/)?.[1] ?? '';
+}
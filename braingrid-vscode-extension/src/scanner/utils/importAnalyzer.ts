@@ -2,6 +2,7 @@
  * Import statement analysis using ts-morph
  */
 import { Project, SourceFile, SyntaxKind, CallExpression } from 'ts-morph';
+import { createSourceProject } from './scanContext';
 
 /**
  * Information about a single import statement
@@ -34,11 +35,11 @@ export interface FileDependency {
 export class ImportAnalyzer {
     private project: Project;
 
-    constructor() {
-        this.project = new Project({
-            compilerOptions: { strict: true },
-            skipAddingFilesFromTsConfig: true
-        });
+    /**
+     * @param project - Project shared with other generators of a scan, so files are parsed once
+     */
+    constructor(project?: Project) {
+        this.project = project ?? createSourceProject();
     }
 
     /**
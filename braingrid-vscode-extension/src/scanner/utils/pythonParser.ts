@@ -0,0 +1,962 @@
+/**
+ * Python source parsing using line and regex patterns
+ * Reads models, routes, imports and functions without a Python toolchain.
+ */
+import { EntityDefinition, FieldDefinition, EnumDefinition } from './typeScriptParser';
+import type { HTTPMethod } from '../generators/WorkflowDetector';
+
+/**
+ * A statement with its continuation lines joined and comments removed
+ */
+interface LogicalLine {
+    text: string;
+    /** 1-based line number where the statement starts */
+    lineNumber: number;
+    /** Leading whitespace width */
+    indent: number;
+}
+
+/**
+ * A class statement with the statements directly in its body
+ */
+interface PythonClass {
+    name: string;
+    bases: string[];
+    body: LogicalLine[];
+}
+
+/**
+ * A name bound by an import statement
+ */
+export interface PythonImportedName {
+    name: string;
+    alias?: string;
+}
+
+/**
+ * A Python import statement
+ */
+export interface PythonImport {
+    /** Dotted module path without leading dots, e.g. 'app.models'; '' for `from . import x` */
+    module: string;
+    /** Number of leading dots of a relative import; 0 for absolute imports */
+    level: number;
+    /** Names imported by `from ... import`; empty for `import module` */
+    names: PythonImportedName[];
+    /** Alias of `import module as alias` */
+    alias?: string;
+}
+
+/**
+ * A route declared with a decorator such as `@router.get('/users')`
+ */
+export interface PythonRoute {
+    method: HTTPMethod;
+    path: string;
+    handlerName: string;
+    /** Variable of the app, router or blueprint the route is declared on */
+    router: string;
+    lineNumber: number;
+}
+
+/**
+ * Router or blueprint mounted on another, e.g. `app.include_router(users.router, prefix='/users')`
+ */
+export interface PythonRouterMount {
+    /** Variable the router is mounted on */
+    parent: string;
+    /** Expression naming the mounted router, e.g. 'users.router' */
+    target: string;
+    prefix: string;
+    /** The prefix replaces the router's own, as for Flask blueprints, instead of preceding it */
+    replacesPrefix: boolean;
+}
+
+/**
+ * An entry of a Django `urlpatterns` list or a Django REST Framework router
+ */
+export interface DjangoUrlPattern {
+    path: string;
+    /** View name, e.g. 'user_list' for `views.user_list` or 'UserView' for `UserView.as_view()` */
+    view?: string;
+    /** Module of `include('app.urls')` */
+    include?: string;
+    /** Expression of `include(router.urls)`, which mounts a router of the same file */
+    includeRouter?: string;
+    /** Registered on a Django REST Framework router */
+    viewSet?: boolean;
+    lineNumber: number;
+}
+
+/**
+ * A Django view and the HTTP methods it handles
+ */
+export interface DjangoView {
+    name: string;
+    /** Methods named by decorators or methods of a class-based view; empty if unknown */
+    methods: HTTPMethod[];
+}
+
+/**
+ * Everything route-related found in one Python file
+ */
+export interface PythonRouteFile {
+    routes: PythonRoute[];
+    /** Prefix of each router or blueprint created in the file, by variable */
+    routers: Record<string, string>;
+    mounts: PythonRouterMount[];
+    urlPatterns: DjangoUrlPattern[];
+    views: DjangoView[];
+    imports: PythonImport[];
+}
+
+/**
+ * A top-level function with the calls it makes to other top-level functions of its file
+ */
+export interface PythonFunction {
+    name: string;
+    lineNumber: number;
+    /** Public by convention: the name does not start with an underscore */
+    isExported: boolean;
+    calls: { callee: string; lineNumber: number }[];
+}
+
+/**
+ * ORM or validation library a model class is declared with
+ */
+type ModelKind = 'sqlalchemy' | 'django' | 'pydantic' | 'enum';
+
+/**
+ * Base classes that make a class a model, by kind
+ */
+const MODEL_BASES: Record<ModelKind, string[]> = {
+    'sqlalchemy': ['Base', 'DeclarativeBase', 'db.Model', 'Model'],
+    'django': ['models.Model', 'AbstractUser', 'AbstractBaseUser', 'PermissionsMixin'],
+    'pydantic': ['BaseModel', 'pydantic.BaseModel', 'SQLModel', 'RootModel'],
+    'enum': ['Enum', 'IntEnum', 'StrEnum', 'Flag', 'IntFlag', 'enum.Enum', 'models.TextChoices', 'models.IntegerChoices', 'models.Choices']
+};
+
+/**
+ * Map Python, SQLAlchemy and Django field types to TypeScript equivalents
+ */
+const PYTHON_TYPE_MAP: Record<string, string> = {
+    // Python and Pydantic
+    'str': 'string', 'int': 'number', 'float': 'number', 'Decimal': 'number', 'bool': 'boolean',
+    'datetime': 'Date', 'date': 'Date', 'time': 'Date', 'timedelta': 'number',
+    'dict': 'object', 'Dict': 'object', 'Any': 'object', 'Json': 'object', 'bytes': 'Buffer',
+    'UUID': 'string', 'EmailStr': 'string', 'HttpUrl': 'string', 'AnyUrl': 'string', 'SecretStr': 'string',
+    // SQLAlchemy
+    'String': 'string', 'Text': 'string', 'Unicode': 'string', 'UnicodeText': 'string', 'VARCHAR': 'string',
+    'CHAR': 'string', 'Uuid': 'string', 'Integer': 'number', 'BigInteger': 'number', 'SmallInteger': 'number',
+    'Float': 'number', 'Numeric': 'number', 'DECIMAL': 'number', 'Boolean': 'boolean', 'DateTime': 'Date',
+    'Date': 'Date', 'Time': 'Date', 'TIMESTAMP': 'Date', 'Interval': 'number', 'JSON': 'object',
+    'JSONB': 'object', 'ARRAY': 'object', 'LargeBinary': 'Buffer',
+    // Django
+    'CharField': 'string', 'TextField': 'string', 'EmailField': 'string', 'SlugField': 'string',
+    'URLField': 'string', 'UUIDField': 'string', 'GenericIPAddressField': 'string', 'FileField': 'string',
+    'ImageField': 'string', 'FilePathField': 'string', 'IntegerField': 'number', 'BigIntegerField': 'number',
+    'SmallIntegerField': 'number', 'PositiveIntegerField': 'number', 'PositiveBigIntegerField': 'number',
+    'PositiveSmallIntegerField': 'number', 'AutoField': 'number', 'BigAutoField': 'number',
+    'SmallAutoField': 'number', 'FloatField': 'number', 'DecimalField': 'number', 'DurationField': 'number',
+    'BooleanField': 'boolean', 'NullBooleanField': 'boolean', 'DateTimeField': 'Date', 'DateField': 'Date',
+    'TimeField': 'Date', 'JSONField': 'object', 'BinaryField': 'Buffer'
+};
+
+/**
+ * Generic wrappers whose argument is a collection element
+ */
+const COLLECTION_TYPES = new Set(['List', 'list', 'Set', 'set', 'FrozenSet', 'frozenset', 'Sequence', 'Tuple', 'tuple', 'Iterable']);
+
+/**
+ * Django relation fields and the relationship each declares
+ */
+const DJANGO_RELATIONS: Record<string, NonNullable<FieldDefinition['relationType']>> = {
+    'ForeignKey': 'many-to-one',
+    'OneToOneField': 'one-to-one',
+    'ManyToManyField': 'many-to-many'
+};
+
+/**
+ * HTTP methods a route decorator or view method can name
+ */
+const HTTP_METHODS: HTTPMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Methods of the Django REST Framework viewsets, by base class
+ */
+const VIEWSET_METHODS: Record<string, HTTPMethod[]> = {
+    'ModelViewSet': ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+    'ReadOnlyModelViewSet': ['GET'],
+    'ListCreateAPIView': ['GET', 'POST'],
+    'RetrieveUpdateDestroyAPIView': ['GET', 'PUT', 'PATCH', 'DELETE'],
+    'ListAPIView': ['GET'],
+    'RetrieveAPIView': ['GET'],
+    'CreateAPIView': ['POST'],
+    'UpdateAPIView': ['PUT', 'PATCH'],
+    'DestroyAPIView': ['DELETE'],
+    'ListView': ['GET'],
+    'DetailView': ['GET'],
+    'TemplateView': ['GET'],
+    'CreateView': ['GET', 'POST'],
+    'UpdateView': ['GET', 'POST'],
+    'DeleteView': ['GET', 'POST'],
+    'FormView': ['GET', 'POST']
+};
+
+/**
+ * Standard library modules, which are neither workspace modules nor external packages
+ */
+const STDLIB_MODULES = new Set([
+    '__future__', 'abc', 'argparse', 'array', 'ast', 'asyncio', 'base64', 'binascii', 'bisect', 'builtins',
+    'bz2', 'calendar', 'cgi', 'cmath', 'cmd', 'codecs', 'collections', 'colorsys', 'concurrent', 'configparser',
+    'contextlib', 'contextvars', 'copy', 'csv', 'ctypes', 'dataclasses', 'datetime', 'decimal', 'difflib',
+    'dis', 'email', 'enum', 'errno', 'fcntl', 'filecmp', 'fnmatch', 'fractions', 'functools', 'gc', 'getpass',
+    'gettext', 'glob', 'graphlib', 'gzip', 'hashlib', 'heapq', 'hmac', 'html', 'http', 'imaplib', 'importlib',
+    'inspect', 'io', 'ipaddress', 'itertools', 'json', 'keyword', 'linecache', 'locale', 'logging', 'lzma',
+    'mailbox', 'math', 'mimetypes', 'multiprocessing', 'numbers', 'operator', 'os', 'pathlib', 'pickle',
+    'pkgutil', 'platform', 'plistlib', 'pprint', 'profile', 'queue', 'random', 're', 'resource', 'sched',
+    'secrets', 'select', 'selectors', 'shelve', 'shlex', 'shutil', 'signal', 'smtplib', 'socket',
+    'socketserver', 'sqlite3', 'ssl', 'stat', 'statistics', 'string', 'struct', 'subprocess', 'sys',
+    'sysconfig', 'tarfile', 'tempfile', 'textwrap', 'threading', 'time', 'timeit', 'tkinter', 'token',
+    'tokenize', 'tomllib', 'traceback', 'types', 'typing', 'unicodedata', 'unittest', 'urllib', 'uuid',
+    'venv', 'warnings', 'weakref', 'webbrowser', 'wsgiref', 'xml', 'xmlrpc', 'zipfile', 'zlib', 'zoneinfo'
+]);
+
+/**
+ * Check if a top-level module name belongs to the Python standard library.
+ * @param moduleName - First segment of a dotted module path
+ */
+export function isPythonStdlibModule(moduleName: string): boolean {
+    return STDLIB_MODULES.has(moduleName);
+}
+
+/**
+ * Parse Python model classes: SQLAlchemy and Django models, Pydantic models and enums.
+ * @param content - Source of a Python file
+ * @param filePath - Path recorded on the entities
+ * @returns Extracted entities and enums
+ */
+export function parsePythonModels(content: string, filePath: string): {
+    entities: EntityDefinition[];
+    enums: EnumDefinition[];
+} {
+    const entities: EntityDefinition[] = [];
+    const enums: EnumDefinition[] = [];
+    const lines = toLogicalLines(content);
+
+    // Declarative bases created in this file, e.g. Base = declarative_base()
+    const bases = { ...MODEL_BASES, sqlalchemy: [...MODEL_BASES.sqlalchemy] };
+    for (const line of lines) {
+        const baseMatch = line.text.match(/^(\w+)\s*=\s*(?:[\w.]+\.)?declarative_base\(/);
+        if (baseMatch) bases.sqlalchemy.push(baseMatch[1]);
+    }
+
+    // Classes inherit the kind of a model class declared earlier in the file
+    const kinds = new Map<string, ModelKind>();
+    for (const cls of findClasses(lines)) {
+        const kind = classKind(cls, bases, kinds);
+        if (!kind) continue;
+        kinds.set(cls.name, kind);
+
+        if (kind === 'enum') {
+            enums.push({ name: cls.name, values: parseEnumValues(cls.body), source: 'python' });
+            continue;
+        }
+
+        // Abstract or configuration-only classes, such as a declarative base itself
+        const fields = parseModelFields(cls, kind);
+        if (fields.length === 0) {
+            if (kind === 'sqlalchemy') bases.sqlalchemy.push(cls.name);
+            continue;
+        }
+
+        entities.push({ name: cls.name, fields, source: 'python', filePath });
+    }
+
+    return { entities, enums };
+}
+
+/**
+ * Parse the import statements of a Python file, including imports inside functions.
+ * @param content - Source of a Python file
+ */
+export function parsePythonImports(content: string): PythonImport[] {
+    const imports: PythonImport[] = [];
+
+    for (const { text } of toLogicalLines(content)) {
+        const fromMatch = text.match(/^from\s+(\.*)([\w.]*)\s+import\s+(.+)$/);
+        if (fromMatch) {
+            const names = fromMatch[3]
+                .replace(/[()]/g, '')
+                .split(',')
+                .map(part => parseImportedName(part.trim()))
+                .filter((name): name is PythonImportedName => name !== null);
+            imports.push({ module: fromMatch[2], level: fromMatch[1].length, names });
+            continue;
+        }
+
+        const importMatch = text.match(/^import\s+(.+)$/);
+        if (importMatch) {
+            for (const part of importMatch[1].split(',')) {
+                const name = parseImportedName(part.trim());
+                if (name) {
+                    imports.push({ module: name.name, level: 0, names: [], alias: name.alias });
+                }
+            }
+        }
+    }
+
+    return imports;
+}
+
+/**
+ * Parse FastAPI and Flask route decorators, router mounts and Django URL patterns and views.
+ * @param content - Source of a Python file
+ */
+export function parsePythonRoutes(content: string): PythonRouteFile {
+    const lines = toLogicalLines(content);
+    const result: PythonRouteFile = {
+        routes: [],
+        routers: {},
+        mounts: [],
+        urlPatterns: [],
+        views: [],
+        imports: parsePythonImports(content)
+    };
+
+    let decorators: LogicalLine[] = [];
+    for (const line of lines) {
+        const { text } = line;
+        if (text.startsWith('@')) {
+            decorators.push(line);
+            continue;
+        }
+
+        const defMatch = text.match(/^(?:async\s+)?def\s+(\w+)/);
+        if (defMatch) {
+            if (line.indent === 0) {
+                parseRouteDecorators(decorators, defMatch[1], result);
+            }
+            decorators = [];
+            continue;
+        }
+        decorators = [];
+
+        // Routers and blueprints: router = APIRouter(prefix='/users'), bp = Blueprint('users', __name__, url_prefix='/users')
+        const routerMatch = text.match(/^(\w+)\s*=\s*(?:[\w.]+\.)?(APIRouter|FastAPI|Flask|Blueprint)\((.*)\)$/);
+        if (routerMatch) {
+            const prefixArg = routerMatch[2] === 'Blueprint' ? 'url_prefix' : 'prefix';
+            result.routers[routerMatch[1]] = keywordString(routerMatch[3], prefixArg) ?? '';
+            continue;
+        }
+
+        // Mounts: app.include_router(users.router, prefix='/users'), app.register_blueprint(bp, url_prefix='/users')
+        const mountMatch = text.match(/^(\w+)\.(include_router|register_blueprint)\(\s*([\w.]+)(.*)\)$/);
+        if (mountMatch) {
+            const isBlueprint = mountMatch[2] === 'register_blueprint';
+            const prefix = keywordString(mountMatch[4], isBlueprint ? 'url_prefix' : 'prefix');
+            result.mounts.push({
+                parent: mountMatch[1],
+                target: mountMatch[3],
+                prefix: prefix ?? '',
+                replacesPrefix: isBlueprint && prefix !== null
+            });
+            continue;
+        }
+
+        // Django REST Framework: router.register(r'users', UserViewSet)
+        const registerMatch = text.match(/^\w+\.register\(\s*r?(['"])(.*?)\1\s*,\s*([\w.]+)/);
+        if (registerMatch) {
+            result.urlPatterns.push({
+                path: registerMatch[2],
+                view: lastSegment(registerMatch[3]),
+                viewSet: true,
+                lineNumber: line.lineNumber
+            });
+            continue;
+        }
+
+        parseUrlPatterns(line, result.urlPatterns);
+    }
+
+    result.views = parseDjangoViews(lines);
+    return result;
+}
+
+/**
+ * Parse the top-level functions of a Python file and the calls between them.
+ * Method calls such as `self.save()` are ignored, as for TypeScript.
+ * @param content - Source of a Python file
+ */
+export function parsePythonFunctions(content: string): PythonFunction[] {
+    const lines = toLogicalLines(content);
+    const functions: PythonFunction[] = [];
+    const bodies: LogicalLine[][] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const defMatch = lines[i].indent === 0 ? lines[i].text.match(/^(?:async\s+)?def\s+(\w+)/) : null;
+        if (!defMatch) continue;
+
+        const body: LogicalLine[] = [];
+        while (i + 1 < lines.length && lines[i + 1].indent > 0) {
+            body.push(lines[++i]);
+        }
+        functions.push({
+            name: defMatch[1],
+            lineNumber: lines[i - body.length].lineNumber,
+            isExported: !defMatch[1].startsWith('_'),
+            calls: []
+        });
+        bodies.push(body);
+    }
+
+    const names = new Set(functions.map(f => f.name));
+    functions.forEach((func, i) => {
+        for (const line of bodies[i]) {
+            const callRegex = /(^|[^\w.])(\w+)\s*\(/g;
+            let match;
+            while ((match = callRegex.exec(line.text)) !== null) {
+                if (names.has(match[2])) {
+                    func.calls.push({ callee: match[2], lineNumber: line.lineNumber });
+                }
+            }
+        }
+    });
+
+    return functions;
+}
+
+/**
+ * Split source into logical lines: statements continued over several lines by
+ * brackets, backslashes or triple-quoted strings are joined, comments dropped.
+ */
+function toLogicalLines(content: string): LogicalLine[] {
+    const lines: LogicalLine[] = [];
+    let text = '';
+    let lineNumber = 1;
+    let startLine = 1;
+    let indent = 0;
+    let atLineStart = true;
+    let depth = 0;
+    let quote: string | null = null;
+
+    const flush = () => {
+        const trimmed = text.trim();
+        if (trimmed) {
+            lines.push({ text: trimmed, lineNumber: startLine, indent });
+        }
+        text = '';
+        depth = 0;
+        atLineStart = true;
+        indent = 0;
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const ch = content[i];
+
+        if (quote) {
+            if (ch === '\\' && i + 1 < content.length) {
+                if (content[i + 1] === '\n') lineNumber++;
+                text += ch + content[++i];
+            } else if (content.startsWith(quote, i)) {
+                text += quote;
+                i += quote.length - 1;
+                quote = null;
+            } else if (ch === '\n') {
+                lineNumber++;
+                if (quote.length === 1) {
+                    // Unterminated string; end it with the line
+                    quote = null;
+                    if (depth === 0) flush();
+                } else {
+                    text += ' ';
+                }
+            } else {
+                text += ch;
+            }
+            continue;
+        }
+
+        if (atLineStart) {
+            if (ch === ' ' || ch === '\t') {
+                indent++;
+                continue;
+            }
+            if (ch === '\n' || ch === '\r') {
+                if (ch === '\n') lineNumber++;
+                indent = 0;
+                continue;
+            }
+            atLineStart = false;
+            startLine = lineNumber;
+        }
+
+        if (ch === '#') {
+            while (i + 1 < content.length && content[i + 1] !== '\n') i++;
+        } else if (ch === '"' || ch === '\'') {
+            quote = content.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+            text += quote;
+            i += quote.length - 1;
+        } else if (ch === '\\' && content[i + 1] === '\n') {
+            lineNumber++;
+            text += ' ';
+            i++;
+        } else if (ch === '\n') {
+            lineNumber++;
+            if (depth > 0) {
+                text += ' ';
+            } else {
+                flush();
+            }
+        } else if (ch === '\r') {
+            continue;
+        } else {
+            if (ch === '(' || ch === '[' || ch === '{') depth++;
+            if ((ch === ')' || ch === ']' || ch === '}') && depth > 0) depth--;
+            text += ch;
+        }
+    }
+    flush();
+
+    return lines;
+}
+
+/**
+ * Find class statements and their direct body statements.
+ */
+function findClasses(lines: LogicalLine[]): PythonClass[] {
+    const classes: PythonClass[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const classMatch = lines[i].text.match(/^class\s+(\w+)\s*(?:\((.*)\))?\s*:/);
+        if (!classMatch) continue;
+
+        const classIndent = lines[i].indent;
+        const body: LogicalLine[] = [];
+        let bodyIndent = -1;
+        for (let j = i + 1; j < lines.length && lines[j].indent > classIndent; j++) {
+            if (bodyIndent < 0) bodyIndent = lines[j].indent;
+            if (lines[j].indent === bodyIndent) body.push(lines[j]);
+        }
+
+        classes.push({
+            name: classMatch[1],
+            bases: splitArguments(classMatch[2] ?? '')
+                .filter(base => !base.includes('='))
+                .map(base => base.replace(/\[.*\]$/, '').trim()),
+            body
+        });
+    }
+
+    return classes;
+}
+
+/**
+ * Determine which kind of model a class is from its bases.
+ */
+function classKind(
+    cls: PythonClass,
+    bases: Record<ModelKind, string[]>,
+    known: Map<string, ModelKind>
+): ModelKind | null {
+    // Enum bases win so that `class Status(str, Enum)` is not read as a model
+    const order: ModelKind[] = ['enum', 'django', 'pydantic', 'sqlalchemy'];
+    for (const kind of order) {
+        if (cls.bases.some(base => bases[kind].includes(base))) return kind;
+    }
+    for (const base of cls.bases) {
+        const inherited = known.get(base);
+        if (inherited) return inherited;
+    }
+    return null;
+}
+
+/**
+ * Parse enum members: `ACTIVE = 'active'`.
+ */
+function parseEnumValues(body: LogicalLine[]): string[] {
+    const values: string[] = [];
+    for (const line of body) {
+        const match = line.text.match(/^([A-Za-z]\w*)\s*=/);
+        if (match) values.push(match[1]);
+    }
+    return values;
+}
+
+/**
+ * Parse the fields of a model class body.
+ */
+function parseModelFields(cls: PythonClass, kind: Exclude<ModelKind, 'enum'>): FieldDefinition[] {
+    const fields: FieldDefinition[] = [];
+
+    for (const { text } of cls.body) {
+        const statement = splitStatement(text);
+        const name = statement?.target;
+        if (!statement || !name || name.startsWith('__') || name === 'model_config' || name === 'objects') continue;
+
+        let field: FieldDefinition | null = null;
+        if (statement.annotation !== undefined) {
+            // Annotated attribute: name: Type = value
+            field = parseAnnotatedField(name, statement.annotation, statement.value, cls.name);
+        } else if (statement.value !== undefined && kind !== 'pydantic') {
+            // Plain assignment: name = Column(...), name = models.CharField(...)
+            field = parseSqlAlchemyField(name, statement.value, cls.name) ??
+                parseDjangoField(name, statement.value, cls.name);
+        }
+        if (field) fields.push(field);
+    }
+
+    return fields;
+}
+
+/**
+ * Parse an annotated attribute of a Pydantic model, SQLModel or SQLAlchemy 2 `Mapped[...]` column.
+ */
+function parseAnnotatedField(name: string, annotation: string, value: string | undefined, className: string): FieldDefinition | null {
+    if (/^ClassVar\b/.test(annotation)) return null;
+
+    let typeText = annotation.replace(/^Mapped\[(.*)\]$/, '$1').replace(/['"]/g, '').trim();
+    let optional = false;
+
+    // Optional[X], X | None, Union[X, None]
+    const optionalMatch = typeText.match(/^Optional\[(.*)\]$/);
+    if (optionalMatch) {
+        typeText = optionalMatch[1];
+        optional = true;
+    } else if (/\|\s*None$|^None\s*\|/.test(typeText)) {
+        typeText = typeText.replace(/\s*\|\s*None$|^None\s*\|\s*/, '');
+        optional = true;
+    } else {
+        const unionMatch = typeText.match(/^Union\[(.*),\s*None\]$/);
+        if (unionMatch) {
+            typeText = unionMatch[1];
+            optional = true;
+        }
+    }
+    if (value && (/^None\b/.test(value) || /default\s*=\s*None\b/.test(value) || /nullable\s*=\s*True/.test(value))) {
+        optional = true;
+    }
+
+    // Annotated[X, Field(...)] is X with validation metadata
+    typeText = typeText.replace(/^Annotated\[(.*)\]$/, (_, args: string) => splitArguments(args)[0] ?? '');
+
+    let isArray = false;
+    const collectionMatch = typeText.match(/^([\w.]+)\[(.*)\]$/);
+    if (collectionMatch && COLLECTION_TYPES.has(lastSegment(collectionMatch[1]))) {
+        isArray = true;
+        typeText = collectionMatch[2].replace(/,\s*\.\.\.$/, '');
+    }
+
+    const baseType = lastSegment(typeText.replace(/\[.*\]$/, '').trim());
+    const resolvedType = baseType === 'Self' ? className : baseType;
+    const isRelationValue = value !== undefined && /^(?:[\w.]+\.)?(?:relationship|Relationship)\(/.test(value);
+    const mapped = PYTHON_TYPE_MAP[resolvedType];
+    const relationType = isRelationValue && value && /secondary\s*=/.test(value) ? 'many-to-many' : undefined;
+
+    return {
+        name,
+        type: mapped ?? resolvedType,
+        optional,
+        isArray,
+        isRelation: isRelationValue || (!mapped && /^[A-Z]/.test(resolvedType)),
+        relationType
+    };
+}
+
+/**
+ * Parse a Django model field: `author = models.ForeignKey(User, on_delete=models.CASCADE)`.
+ */
+function parseDjangoField(name: string, value: string, className: string): FieldDefinition | null {
+    const callMatch = value.match(/^(?:[\w.]+\.)?(\w+)\((.*)\)$/);
+    if (!callMatch) return null;
+
+    const [, fieldType, args] = callMatch;
+    const optional = /\bnull\s*=\s*True/.test(args);
+    const relationType = DJANGO_RELATIONS[fieldType];
+
+    if (relationType) {
+        const target = relationTarget(splitArguments(args)[0] ?? '', className) ??
+            relationTarget(keywordString(args, 'to') ?? '', className);
+        if (!target) return null;
+        return {
+            name,
+            type: target,
+            optional,
+            isArray: relationType === 'many-to-many',
+            isRelation: true,
+            relationType
+        };
+    }
+
+    const mapped = PYTHON_TYPE_MAP[fieldType];
+    if (!mapped) return null;
+    return { name, type: mapped, optional, isArray: false, isRelation: false };
+}
+
+/**
+ * Parse a classic SQLAlchemy attribute: `Column(String(80))` or `relationship('Post')`.
+ */
+function parseSqlAlchemyField(name: string, value: string, className: string): FieldDefinition | null {
+    const callMatch = value.match(/^(?:[\w.]+\.)?(\w+)\((.*)\)$/);
+    if (!callMatch) return null;
+
+    const [, callee, args] = callMatch;
+    const positional = splitArguments(args).filter(arg => !/^\w+\s*=/.test(arg));
+
+    if (callee === 'relationship') {
+        const target = relationTarget(positional[0] ?? '', className);
+        if (!target) return null;
+        const manyToMany = /secondary\s*=/.test(args);
+        // Without an annotation the direction is unknown; follow the naming convention
+        const isArray = manyToMany || /uselist\s*=\s*True/.test(args) ||
+            (!/uselist\s*=\s*False/.test(args) && /s$/.test(name));
+        return {
+            name,
+            type: target,
+            optional: !isArray,
+            isArray,
+            isRelation: true,
+            relationType: manyToMany ? 'many-to-many' : undefined
+        };
+    }
+
+    if (callee === 'Column' || callee === 'mapped_column') {
+        // Column('name', Type) takes the column name first
+        const typeArg = positional.find(arg => !/^['"]/.test(arg) && !/ForeignKey\(/.test(arg)) ?? '';
+        const typeName = lastSegment(typeArg.replace(/\(.*\)$/, '').trim());
+        const enumMatch = typeArg.match(/^(?:[\w.]+\.)?Enum\(\s*(\w+)/);
+        const optional = /nullable\s*=\s*True/.test(args) ||
+            (!/nullable\s*=\s*False/.test(args) && !/primary_key\s*=\s*True/.test(args));
+        return {
+            name,
+            type: enumMatch ? enumMatch[1] : PYTHON_TYPE_MAP[typeName] ?? (typeName || 'unknown'),
+            optional,
+            isArray: false,
+            isRelation: false
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Resolve the model named by a relation argument: `User`, `'User'`, `'auth.User'` or `'self'`.
+ */
+function relationTarget(arg: string, className: string): string | null {
+    const name = arg.replace(/^['"]|['"]$/g, '').trim();
+    if (!name) return null;
+    if (name === 'self') return className;
+    const target = lastSegment(name);
+    return /^[A-Z]\w*$/.test(target) ? target : null;
+}
+
+/**
+ * Read the routes declared by the decorators of a top-level function.
+ */
+function parseRouteDecorators(decorators: LogicalLine[], handlerName: string, result: PythonRouteFile): void {
+    for (const { text, lineNumber } of decorators) {
+        // @router.get('/users'), @app.route('/users', methods=['GET', 'POST']), @router.api_route(...)
+        const match = text.match(/^@(\w+)\.(get|post|put|patch|delete|route|api_route)\(\s*(?:path\s*=\s*)?(?:r?(['"])(.*?)\3)?(.*)\)$/);
+        if (!match) continue;
+
+        const [, router, verb, , routePath = '', rest] = match;
+        let methods: HTTPMethod[];
+        if (verb === 'route' || verb === 'api_route') {
+            methods = methodList(keywordList(rest, 'methods'));
+            if (methods.length === 0) methods = ['GET'];
+        } else {
+            methods = [verb.toUpperCase() as HTTPMethod];
+        }
+
+        for (const method of methods) {
+            result.routes.push({ method, path: routePath, handlerName, router, lineNumber });
+        }
+    }
+}
+
+/**
+ * Parse the Django `path()`, `re_path()` and `url()` entries of a statement.
+ */
+function parseUrlPatterns(line: LogicalLine, patterns: DjangoUrlPattern[]): void {
+    const pathRegex = /\b(?:re_path|path|url)\(\s*r?(['"])(.*?)\1\s*,\s*(include\(\s*(?:r?(['"])(.*?)\4|([\w.]+))|[\w.]+(?:\.as_view\()?)/g;
+    let match;
+
+    while ((match = pathRegex.exec(line.text)) !== null) {
+        const [, , routePath, target, , includeModule, includeExpr] = match;
+        if (includeModule) {
+            patterns.push({ path: routePath, include: includeModule, lineNumber: line.lineNumber });
+        } else if (includeExpr && /^\w+\.urls$/.test(includeExpr)) {
+            patterns.push({ path: routePath, includeRouter: includeExpr, lineNumber: line.lineNumber });
+        } else if (!target.startsWith('include(') && !target.endsWith('.urls')) {
+            // admin.site.urls and similar are URL configurations, not views
+            patterns.push({
+                path: routePath,
+                view: lastSegment(target.replace(/\.as_view\(?$/, '')),
+                lineNumber: line.lineNumber
+            });
+        }
+    }
+}
+
+/**
+ * Find Django views and the HTTP methods each handles.
+ */
+function parseDjangoViews(lines: LogicalLine[]): DjangoView[] {
+    const views: DjangoView[] = [];
+
+    // Function views: @api_view(['GET']), @require_http_methods(['POST']), @require_GET
+    let decorators: string[] = [];
+    for (const line of lines) {
+        if (line.text.startsWith('@')) {
+            decorators.push(line.text);
+            continue;
+        }
+        const defMatch = line.indent === 0 ? line.text.match(/^(?:async\s+)?def\s+(\w+)/) : null;
+        if (defMatch) {
+            const methods: HTTPMethod[] = [];
+            for (const decorator of decorators) {
+                const listMatch = decorator.match(/^@(?:[\w.]+\.)?(?:api_view|require_http_methods)\((.*)\)$/);
+                if (listMatch) {
+                    methods.push(...methodList(listMatch[1]));
+                } else if (/^@(?:[\w.]+\.)?require_(GET|safe)\b/.test(decorator)) {
+                    methods.push('GET');
+                } else if (/^@(?:[\w.]+\.)?require_POST\b/.test(decorator)) {
+                    methods.push('POST');
+                }
+            }
+            views.push({ name: defMatch[1], methods });
+        }
+        decorators = [];
+    }
+
+    // Class-based views and viewsets: methods named after HTTP verbs, or the base class
+    for (const cls of findClasses(lines)) {
+        const methods = new Set<HTTPMethod>();
+        for (const { text } of cls.body) {
+            const defMatch = text.match(/^(?:async\s+)?def\s+(get|post|put|patch|delete)\s*\(/);
+            if (defMatch) methods.add(defMatch[1].toUpperCase() as HTTPMethod);
+        }
+        for (const base of cls.bases) {
+            for (const method of VIEWSET_METHODS[lastSegment(base)] ?? []) {
+                methods.add(method);
+            }
+        }
+        if (methods.size > 0 || cls.bases.some(base => /View(Set)?$/.test(base))) {
+            views.push({ name: cls.name, methods: Array.from(methods) });
+        }
+    }
+
+    return views;
+}
+
+/**
+ * Parse one name of an import statement: `name` or `name as alias`.
+ */
+function parseImportedName(part: string): PythonImportedName | null {
+    const match = part.match(/^([\w.*]+)(?:\s+as\s+(\w+))?$/);
+    if (!match) return null;
+    return match[2] ? { name: match[1], alias: match[2] } : { name: match[1] };
+}
+
+/**
+ * Split an attribute statement into target, annotation and value.
+ * @returns null if the statement is not an assignment or annotation of a name
+ */
+function splitStatement(text: string): { target: string; annotation?: string; value?: string } | null {
+    const targetMatch = text.match(/^([A-Za-z_]\w*)\s*([:=])/);
+    if (!targetMatch || text.startsWith(`${targetMatch[1]} ==`)) return null;
+
+    const rest = text.slice(targetMatch[0].length);
+    if (targetMatch[2] === '=') {
+        return { target: targetMatch[1], value: rest.trim() };
+    }
+
+    // The value starts at the first '=' outside brackets and strings
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < rest.length; i++) {
+        const ch = rest[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+        } else if (ch === '=' && depth === 0) {
+            return { target: targetMatch[1], annotation: rest.slice(0, i).trim(), value: rest.slice(i + 1).trim() };
+        }
+    }
+    return { target: targetMatch[1], annotation: rest.trim() };
+}
+
+/**
+ * Split call arguments at top-level commas.
+ */
+function splitArguments(args: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const ch of args) {
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    if (current.trim()) parts.push(current.trim());
+
+    return parts;
+}
+
+/**
+ * Read a string keyword argument, e.g. `prefix='/users'`.
+ */
+function keywordString(args: string, keyword: string): string | null {
+    const match = args.match(new RegExp(`\\b${keyword}\\s*=\\s*r?(['"])(.*?)\\1`));
+    return match ? match[2] : null;
+}
+
+/**
+ * Read a list keyword argument, e.g. `methods=['GET', 'POST']`.
+ */
+function keywordList(args: string, keyword: string): string {
+    const match = args.match(new RegExp(`\\b${keyword}\\s*=\\s*[\\[(]([^\\])]*)[\\])]`));
+    return match ? match[1] : '';
+}
+
+/**
+ * Read the HTTP methods named in a list such as `['GET', 'post']`.
+ */
+function methodList(list: string): HTTPMethod[] {
+    const methods: HTTPMethod[] = [];
+    const regex = /['"](\w+)['"]/g;
+    let match;
+    while ((match = regex.exec(list)) !== null) {
+        const method = match[1].toUpperCase() as HTTPMethod;
+        if (HTTP_METHODS.includes(method) && !methods.includes(method)) {
+            methods.push(method);
+        }
+    }
+    return methods;
+}
+
+/**
+ * Last segment of a dotted name.
+ */
+function lastSegment(name: string): string {
+    const parts = name.split('.');
+    return parts[parts.length - 1];
+}
@@ -0,0 +1,639 @@
+/**
+ * Rust source parsing using regex patterns over masked source
+ * Reads structs, routes, imports and functions without a Rust toolchain.
+ */
+import * as path from 'path';
+import { EntityDefinition, FieldDefinition, EnumDefinition } from './typeScriptParser';
+import type { HTTPMethod } from '../generators/WorkflowDetector';
+import {
+    MaskedSource,
+    RouteFile,
+    DeclaredFunction,
+    SourceSlice,
+    maskSource,
+    findClosing,
+    findExpressionEnd,
+    lineNumberAt,
+    splitTopLevel,
+    stringLiteral,
+    joinRoutePath,
+    toPascalCase
+} from './braceSyntax';
+
+/**
+ * A function or method with a body
+ */
+interface RustFunction {
+    name: string;
+    isPublic: boolean;
+    /** Offset of the `fn` keyword */
+    start: number;
+    /** Offsets of the body's braces */
+    bodyStart: number;
+    bodyEnd: number;
+}
+
+/**
+ * A struct or enum with braces, and the attributes written before it
+ */
+interface RustItem {
+    kind: 'struct' | 'enum';
+    name: string;
+    attributes: string;
+    bodyStart: number;
+    bodyEnd: number;
+}
+
+/**
+ * Part of a file whose routes get a path prefix: an Axum `nest` or an Actix scope or resource
+ */
+interface PrefixRange {
+    start: number;
+    end: number;
+    prefix: string;
+    /** Actix resource: routes inside it without a path of their own take its path */
+    isResource: boolean;
+}
+
+/**
+ * Map Rust types to TypeScript equivalents
+ */
+const RUST_TYPE_MAP: Record<string, string> = {
+    'String': 'string', 'str': 'string', 'char': 'string', 'bool': 'boolean',
+    'i8': 'number', 'i16': 'number', 'i32': 'number', 'i64': 'number', 'i128': 'number', 'isize': 'number',
+    'u8': 'number', 'u16': 'number', 'u32': 'number', 'u64': 'number', 'u128': 'number', 'usize': 'number',
+    'f32': 'number', 'f64': 'number', 'Decimal': 'number', 'BigDecimal': 'number', 'Uuid': 'string',
+    'NaiveDateTime': 'Date', 'NaiveDate': 'Date', 'NaiveTime': 'Date', 'DateTime': 'Date', 'DateTimeUtc': 'Date',
+    'DateTimeWithTimeZone': 'Date', 'OffsetDateTime': 'Date', 'PrimitiveDateTime': 'Date', 'Date': 'Date',
+    'Time': 'Date', 'SystemTime': 'Date', 'Duration': 'number', 'Value': 'object', 'Json': 'object',
+    'JsonValue': 'object', 'HashMap': 'object', 'BTreeMap': 'object'
+};
+
+/**
+ * Generic wrappers whose argument is a collection element
+ */
+const COLLECTION_TYPES = new Set(['Vec', 'VecDeque', 'HashSet', 'BTreeSet', 'LinkedList']);
+
+/**
+ * Generic wrappers that are transparent for a field's type
+ */
+const WRAPPER_TYPES = new Set(['Box', 'Rc', 'Arc', 'Cow', 'RefCell', 'Cell', 'Mutex', 'RwLock']);
+
+/**
+ * SeaORM relation attributes and the relationship each declares
+ */
+const SEA_ORM_RELATIONS: Record<string, NonNullable<FieldDefinition['relationType']>> = {
+    'has_many': 'one-to-many',
+    'has_one': 'one-to-one',
+    'belongs_to': 'many-to-one'
+};
+
+/**
+ * Axum method routers and Actix route guards and attribute macros, by function name
+ */
+const ROUTE_FUNCTIONS: Record<string, HTTPMethod> = {
+    'get': 'GET', 'post': 'POST', 'put': 'PUT', 'patch': 'PATCH', 'delete': 'DELETE'
+};
+
+/**
+ * Crates of the Rust distribution, which are neither workspace nor external crates
+ */
+const STD_CRATES = new Set(['std', 'core', 'alloc', 'proc_macro', 'test']);
+
+/**
+ * Check if a crate name belongs to the Rust distribution.
+ * @param crateName - First segment of a `use` path
+ */
+export function isRustStdCrate(crateName: string): boolean {
+    return STD_CRATES.has(crateName);
+}
+
+/**
+ * Parse Rust structs with named fields, including Diesel and SeaORM models, and enums.
+ * A SeaORM `Model` is named after its module, e.g. `User` for `entities/user.rs`.
+ * @param content - Source of a Rust file
+ * @param filePath - Path recorded on the entities
+ * @returns Extracted entities and enums
+ */
+export function parseRustModels(content: string, filePath: string): {
+    entities: EntityDefinition[];
+    enums: EnumDefinition[];
+} {
+    const source = maskSource(content, 'rust');
+    const items = findItems(source);
+    const entities: EntityDefinition[] = [];
+    const enums: EnumDefinition[] = [];
+
+    const stem = path.basename(filePath, '.rs');
+    const moduleName = stem === 'mod' ? path.basename(path.dirname(filePath)) : stem;
+    const seaOrmRelations = items
+        .filter(item => item.kind === 'enum' && /\bDeriveRelation\b/.test(item.attributes))
+        .flatMap(item => parseSeaOrmRelations(source, item));
+
+    for (const item of items) {
+        const body = splitTopLevel(source, item.bodyStart + 1, item.bodyEnd);
+
+        if (item.kind === 'enum') {
+            if (/\bDeriveRelation\b/.test(item.attributes)) continue;
+            const values = body
+                .map(variant => stripAttributes(variant.text).rest.match(/^(\w+)/)?.[1])
+                .filter((value): value is string => !!value);
+            if (values.length > 0) enums.push({ name: item.name, values, source: 'rust' });
+            continue;
+        }
+
+        const fields = body
+            .map(field => rustField(stripAttributes(field.text).rest, item.name))
+            .filter((field): field is FieldDefinition => field !== null);
+        if (fields.length === 0) continue;
+
+        let name = item.name;
+        if (/\bDeriveEntityModel\b/.test(item.attributes)) {
+            name = toPascalCase(moduleName);
+            fields.push(...seaOrmRelations.filter(relation => !fields.some(f => f.name === relation.name)));
+        }
+
+        // Diesel associations: #[diesel(belongs_to(User))]
+        const belongsToRegex = /belongs_to\(\s*(?:[\w:]+::)?(\w+)/g;
+        let belongsTo;
+        while ((belongsTo = belongsToRegex.exec(item.attributes)) !== null) {
+            const fieldName = toSnakeCase(belongsTo[1]);
+            if (fields.some(f => f.name === fieldName)) continue;
+            fields.push({
+                name: fieldName,
+                type: belongsTo[1],
+                optional: false,
+                isArray: false,
+                isRelation: true,
+                relationType: 'many-to-one'
+            });
+        }
+
+        entities.push({ name, fields, source: 'rust', filePath });
+    }
+
+    return { entities, enums };
+}
+
+/**
+ * Parse the `use` paths of a Rust file, with `mod x;` declarations as `self::x`
+ * and `extern crate x;` as `x`. Groups are expanded one level:
+ * `use crate::{db, models::User};` gives 'crate::db' and 'crate::models::User'.
+ * @param content - Source of a Rust file
+ */
+export function parseRustImports(content: string): string[] {
+    const source = maskSource(content, 'rust');
+    const imports: string[] = [];
+
+    const useRegex = /\buse\s+(::)?([\w:]*)(\{)?/g;
+    let match;
+    while ((match = useRegex.exec(source.structure)) !== null) {
+        const prefix = match[2].replace(/::$/, '');
+        if (!match[3]) {
+            if (prefix) imports.push(prefix);
+            continue;
+        }
+
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(source.structure, open);
+        if (close < 0) continue;
+        for (const item of splitTopLevel(source, open + 1, close)) {
+            const itemPath = item.text.replace(/\s+as\s+\w+$/, '').replace(/::\{[\s\S]*$/, '').replace(/::\*$/, '');
+            if (itemPath === 'self' || itemPath === '*') {
+                imports.push(prefix);
+            } else if (/^[\w:]+$/.test(itemPath)) {
+                imports.push(prefix ? `${prefix}::${itemPath}` : itemPath);
+            }
+        }
+        useRegex.lastIndex = close;
+    }
+
+    const modRegex = /^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm;
+    while ((match = modRegex.exec(source.structure)) !== null) {
+        imports.push(`self::${match[1]}`);
+    }
+
+    const externRegex = /\bextern\s+crate\s+(\w+)/g;
+    while ((match = externRegex.exec(source.structure)) !== null) {
+        imports.push(match[1]);
+    }
+
+    return imports;
+}
+
+/**
+ * Parse Axum and Actix Web routes, and the functions that mount other functions' routes.
+ * Axum: `.route("/users", get(list).post(create))`, `.nest("/api", api_routes())` and `.merge(...)`.
+ * Actix: `#[get("/users")]` handlers, `web::scope("/api")`, `web::resource("/users")`,
+ * `.route("/users", web::get().to(list))`, and `.service(handler)` or `.configure(config)` as mounts.
+ * @param content - Source of a Rust file
+ */
+export function parseRustRoutes(content: string): RouteFile {
+    const source = maskSource(content, 'rust');
+    const { structure } = source;
+    const functions = findFunctions(source);
+    const result: RouteFile = { routes: [], mounts: [] };
+
+    // Innermost function containing an offset
+    const ownerAt = (offset: number): string | null => {
+        let owner: RustFunction | null = null;
+        for (const func of functions) {
+            if (func.bodyStart < offset && offset < func.bodyEnd &&
+                (!owner || func.bodyStart > owner.bodyStart)) {
+                owner = func;
+            }
+        }
+        return owner ? owner.name : null;
+    };
+
+    // Actix attribute macros: #[get("/users/{id}")] or #[route("/users", method = "GET", method = "HEAD")]
+    const macroRegex = /#\[\s*(?:actix_web::)?(get|post|put|patch|delete|route)\s*\(/g;
+    let match;
+    while ((match = macroRegex.exec(structure)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(structure, open);
+        if (close < 0) continue;
+        const fnMatch = structure.slice(close).match(/^\)\s*\][\s\S]*?\bfn\s+(\w+)/);
+        const args = splitTopLevel(source, open + 1, close);
+        const routePath = args.length > 0 ? stringLiteral(args[0].text) : null;
+        if (!fnMatch || routePath === null) continue;
+
+        const methods = match[1] === 'route'
+            ? args.slice(1)
+                .map(arg => ROUTE_FUNCTIONS[(arg.text.match(/^method\s*=\s*"(\w+)"/)?.[1] ?? '').toLowerCase()])
+                .filter((method): method is HTTPMethod => !!method)
+            : [ROUTE_FUNCTIONS[match[1]]];
+        for (const method of methods) {
+            result.routes.push({
+                method,
+                path: routePath,
+                handlerName: fnMatch[1],
+                lineNumber: lineNumberAt(source, match.index),
+                owner: fnMatch[1]
+            });
+        }
+    }
+
+    const ranges = findPrefixRanges(source);
+    const prefixAt = (offset: number): string => joinRoutePath(
+        ...ranges.filter(range => range.start <= offset && offset < range.end).map(range => range.prefix)
+    );
+    const resourceAt = (offset: number): PrefixRange | undefined => ranges
+        .filter(range => range.isResource && range.start <= offset && offset < range.end)
+        .pop();
+
+    const callRegex = /\.\s*(route|nest|merge|service|configure)\s*\(/g;
+    while ((match = callRegex.exec(structure)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(structure, open);
+        if (close < 0) continue;
+        const args = splitTopLevel(source, open + 1, close);
+        const owner = ownerAt(match.index);
+        const lineNumber = lineNumberAt(source, match.index);
+
+        switch (match[1]) {
+            case 'route': {
+                const routePath = args.length > 1 ? stringLiteral(args[0].text) : null;
+                const methodArg = routePath !== null ? args[1] : args[0];
+                // Actix resource routes take the resource's path, which its range already adds
+                if (!methodArg || (routePath === null && !resourceAt(match.index))) break;
+                const base = prefixAt(match.index);
+                for (const route of methodRoutes(methodArg.text)) {
+                    result.routes.push({
+                        method: route.method,
+                        path: joinRoutePath(base, routePath ?? ''),
+                        handlerName: route.handler,
+                        lineNumber,
+                        owner
+                    });
+                }
+                break;
+            }
+            case 'nest':
+            case 'merge':
+            case 'service':
+            case 'configure': {
+                // The mounted routes come from a function: .nest("/api", api::routes()), .service(list_users)
+                const target = args[args.length - 1];
+                if (!target || (match[1] === 'nest' && args.length < 2)) break;
+                const targetMatch = target.text.match(/^([\w:]+)(?:\s*\([^()]*\))?$/);
+                if (!targetMatch || /^web::/.test(targetMatch[1])) break;
+                const nestPrefix = match[1] === 'nest' ? stringLiteral(args[0].text) ?? '' : '';
+                result.mounts.push({
+                    owner,
+                    target: targetMatch[1],
+                    prefix: joinRoutePath(prefixAt(match.index), nestPrefix)
+                });
+                break;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Parse the functions and methods of a Rust file and the calls between them.
+ * Method calls such as `self.save()` and path calls such as `User::new()` are ignored.
+ * @param content - Source of a Rust file
+ */
+export function parseRustFunctions(content: string): DeclaredFunction[] {
+    const source = maskSource(content, 'rust');
+    const declarations = findFunctions(source);
+    const names = new Set(declarations.map(func => func.name));
+
+    return declarations.map(func => {
+        const calls: DeclaredFunction['calls'] = [];
+        const body = source.structure.slice(func.bodyStart, func.bodyEnd);
+        const callRegex = /(^|[^\w.:])(\w+)\s*\(/g;
+        let match;
+        while ((match = callRegex.exec(body)) !== null) {
+            if (names.has(match[2])) {
+                const offset = func.bodyStart + match.index + match[1].length;
+                calls.push({ callee: match[2], lineNumber: lineNumberAt(source, offset) });
+            }
+        }
+
+        return {
+            name: func.name,
+            lineNumber: lineNumberAt(source, func.start),
+            isExported: func.isPublic,
+            calls
+        };
+    });
+}
+
+/**
+ * Find the functions and methods with a body, including those in `impl` blocks.
+ */
+function findFunctions(source: MaskedSource): RustFunction[] {
+    const { structure } = source;
+    const functions: RustFunction[] = [];
+    const fnRegex = /\bfn\s+(\w+)\s*(?:<[^{;(]*>)?\s*\(/g;
+
+    let match;
+    while ((match = fnRegex.exec(structure)) !== null) {
+        const paramsOpen = match.index + match[0].length - 1;
+        const paramsClose = findClosing(structure, paramsOpen);
+        if (paramsClose < 0) continue;
+
+        // Trait methods without a default body end with a semicolon
+        const bodyMatch = structure.slice(paramsClose).match(/^[^{;]*/);
+        const bodyStart = paramsClose + (bodyMatch ? bodyMatch[0].length : 0);
+        if (structure[bodyStart] !== '{') continue;
+        const bodyEnd = findClosing(structure, bodyStart);
+        if (bodyEnd < 0) continue;
+
+        const lineStart = structure.lastIndexOf('\n', match.index) + 1;
+        functions.push({
+            name: match[1],
+            isPublic: /\bpub\b/.test(structure.slice(lineStart, match.index)),
+            start: match.index,
+            bodyStart,
+            bodyEnd
+        });
+    }
+
+    return functions;
+}
+
+/**
+ * Find the structs with named fields and the enums of a file, with their attributes.
+ */
+function findItems(source: MaskedSource): RustItem[] {
+    const { structure } = source;
+    const items: RustItem[] = [];
+    const itemRegex = /\b(struct|enum)\s+(\w+)\s*(?:<[^{;()]*>)?\s*(?:where\b[^{;]*)?\{/g;
+
+    let match;
+    while ((match = itemRegex.exec(structure)) !== null) {
+        const bodyStart = match.index + match[0].length - 1;
+        const bodyEnd = findClosing(structure, bodyStart);
+        if (bodyEnd < 0) continue;
+
+        // Attributes run back to the end of the previous item
+        const previous = Math.max(
+            structure.lastIndexOf(';', match.index),
+            structure.lastIndexOf('}', match.index),
+            structure.lastIndexOf('{', match.index)
+        );
+        items.push({
+            kind: match[1] as RustItem['kind'],
+            name: match[2],
+            attributes: source.text.slice(previous + 1, match.index),
+            bodyStart,
+            bodyEnd
+        });
+        itemRegex.lastIndex = bodyEnd;
+    }
+
+    return items;
+}
+
+/**
+ * Turn the variants of a SeaORM `Relation` enum into relation fields:
+ * `#[sea_orm(has_many = "super::post::Entity")] Post` gives a `post` field of type `Post`.
+ */
+function parseSeaOrmRelations(source: MaskedSource, item: RustItem): FieldDefinition[] {
+    const fields: FieldDefinition[] = [];
+
+    for (const variant of splitTopLevel(source, item.bodyStart + 1, item.bodyEnd)) {
+        const { attributes, rest } = stripAttributes(variant.text);
+        const name = rest.match(/^(\w+)/)?.[1];
+        const relationMatch = attributes.join(' ').match(/\b(has_many|has_one|belongs_to)\s*=\s*"(?:[\w:]*::)?(\w+)::Entity"/);
+        if (!name || !relationMatch) continue;
+
+        const relationType = SEA_ORM_RELATIONS[relationMatch[1]];
+        fields.push({
+            name: toSnakeCase(name),
+            type: toPascalCase(relationMatch[2]),
+            optional: relationType !== 'one-to-many',
+            isArray: relationType === 'one-to-many',
+            isRelation: true,
+            relationType
+        });
+    }
+
+    return fields;
+}
+
+/**
+ * Build a field from a `name: Type` declaration: `Option` is optional,
+ * collections are arrays, and smart pointers and paths are unwrapped.
+ */
+function rustField(declaration: string, structName: string): FieldDefinition | null {
+    const fieldMatch = declaration.match(/^(?:pub(?:\([^)]*\))?\s+)?(\w+)\s*:\s*([\s\S]+)$/);
+    if (!fieldMatch) return null;
+
+    let text = fieldMatch[2].replace(/^&(?:'\w+\s+)?(?:mut\s+)?/, '').replace(/\s+/g, '');
+    let optional = false;
+    let isArray = false;
+
+    for (;;) {
+        const genericMatch = text.match(/^(?:[\w]+::)*(\w+)<(.*)>$/);
+        if (!genericMatch) break;
+        const [, wrapper, args] = genericMatch;
+        if (wrapper === 'Option') {
+            optional = true;
+        } else if (COLLECTION_TYPES.has(wrapper)) {
+            if (args === 'u8') {
+                return { name: fieldMatch[1], type: 'Buffer', optional, isArray: false, isRelation: false };
+            }
+            isArray = true;
+        } else if (!WRAPPER_TYPES.has(wrapper)) {
+            // DateTime<Utc>, HashMap<K, V>: the wrapper is the type
+            text = wrapper;
+            break;
+        }
+        text = args.replace(/^'\w+,/, '');
+    }
+
+    const sliceMatch = text.match(/^\[(.+?)(?:;.*)?\]$/);
+    if (sliceMatch) {
+        isArray = true;
+        text = sliceMatch[1];
+    }
+
+    const baseType = text.replace(/^(?:[\w]+::)*/, '');
+    const resolvedType = baseType === 'Self' ? structName : baseType;
+    const mapped = RUST_TYPE_MAP[resolvedType];
+    return {
+        name: fieldMatch[1],
+        type: mapped ?? resolvedType,
+        optional,
+        isArray,
+        isRelation: !mapped && /^[A-Z]/.test(resolvedType)
+    };
+}
+
+/**
+ * Find the Axum nests and Actix scopes and resources of a file.
+ * A nest covers its router argument, a scope or resource the builder chain it starts.
+ */
+function findPrefixRanges(source: MaskedSource): PrefixRange[] {
+    const { structure } = source;
+    const ranges: PrefixRange[] = [];
+
+    const scopeRegex = /\bweb::(scope|resource)\s*\(/g;
+    let match;
+    while ((match = scopeRegex.exec(structure)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(structure, open);
+        if (close < 0) continue;
+        const prefix = stringLiteral(source.text.slice(open + 1, close).trim());
+        if (prefix === null) continue;
+        ranges.push({
+            start: match.index,
+            end: findExpressionEnd(structure, close + 1),
+            prefix,
+            isResource: match[1] === 'resource'
+        });
+    }
+
+    const nestRegex = /\.\s*nest\s*\(/g;
+    while ((match = nestRegex.exec(structure)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(structure, open);
+        if (close < 0) continue;
+        const args = splitTopLevel(source, open + 1, close);
+        const prefix = args.length === 2 ? stringLiteral(args[0].text) : null;
+        if (prefix === null) continue;
+
+        ranges.push({ start: args[1].start, end: close, prefix, isResource: false });
+
+        // A router built in a variable of the same function: let api = Router::new()...;
+        if (/^\w+$/.test(args[1].text)) {
+            const binding = findBinding(source, args[1].text, match.index);
+            if (binding) ranges.push({ ...binding, prefix, isResource: false });
+        }
+    }
+
+    return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find the initializer of the last `let` binding of a variable before an offset.
+ */
+function findBinding(source: MaskedSource, name: string, before: number): { start: number; end: number } | null {
+    const bindingRegex = new RegExp(`\\blet\\s+(?:mut\\s+)?${name}\\s*(?::[^=]*)?=`, 'g');
+    let binding: { start: number; end: number } | null = null;
+
+    let match;
+    while ((match = bindingRegex.exec(source.structure)) !== null && match.index < before) {
+        const start = match.index + match[0].length;
+        binding = { start, end: findExpressionEnd(source.structure, start) };
+    }
+
+    return binding;
+}
+
+/**
+ * Read the methods and handlers of an Axum method router, `get(list).post(create)`,
+ * or an Actix route, `web::get().to(list)`.
+ */
+function methodRoutes(text: string): { method: HTTPMethod; handler?: string }[] {
+    const actixMatch = text.match(/^web::(\w+)\s*\(\s*\)[\s\S]*?\.to\s*\(\s*([\w:]+)/);
+    if (actixMatch) {
+        const method = ROUTE_FUNCTIONS[actixMatch[1]];
+        return method ? [{ method, handler: lastSegment(actixMatch[2]) }] : [];
+    }
+
+    const routes: { method: HTTPMethod; handler?: string }[] = [];
+    const methodRegex = /(?:^|[.:\s])(get|post|put|patch|delete)\s*\(\s*([\w:]+)?/g;
+    let match;
+    while ((match = methodRegex.exec(text)) !== null) {
+        routes.push({
+            method: ROUTE_FUNCTIONS[match[1]],
+            handler: match[2] ? lastSegment(match[2]) : undefined
+        });
+    }
+    return routes;
+}
+
+/**
+ * Separate the leading `#[...]` attributes of a field or variant from its declaration.
+ */
+function stripAttributes(text: string): { attributes: string[]; rest: string } {
+    const attributes: string[] = [];
+    let rest = text.trim();
+
+    while (rest.startsWith('#[')) {
+        let depth = 0;
+        let end = -1;
+        let inString = false;
+        for (let i = 1; i < rest.length; i++) {
+            const ch = rest[i];
+            if (inString) {
+                if (ch === '\\') i++;
+                else if (ch === '"') inString = false;
+            } else if (ch === '"') {
+                inString = true;
+            } else if (ch === '[') {
+                depth++;
+            } else if (ch === ']' && --depth === 0) {
+                end = i;
+                break;
+            }
+        }
+        if (end < 0) break;
+        attributes.push(rest.slice(0, end + 1));
+        rest = rest.slice(end + 1).trim();
+    }
+
+    return { attributes, rest };
+}
+
+/**
+ * Convert a PascalCase name to snake_case: 'OrderItem' -> 'order_item'.
+ */
+function toSnakeCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Get the last segment of a path: 'handlers::users::list' -> 'list'.
+ */
+function lastSegment(name: string): string {
+    const parts = name.split('::');
+    return parts[parts.length - 1];
+}
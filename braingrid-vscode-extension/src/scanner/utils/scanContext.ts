@@ -0,0 +1,48 @@
+/**
+ * Shared scan context
+ * What generators of one scan share instead of building it each: the file
+ * listing and the parsed source files.
+ */
+import { Project } from 'ts-morph';
+import { ScanOptions } from '../types';
+import { WorkspaceIndex } from './workspaceIndex';
+import { AnalysisCache } from './analysisCache';
+
+/**
+ * State shared by the generators of one scan
+ */
+export interface ScanContext {
+    /** Files and directories of the workspace */
+    index: WorkspaceIndex;
+    /** Parsed TypeScript/JavaScript sources; each file is parsed once */
+    project: Project;
+    /** Results for files unchanged since the last scan; each generator has its own */
+    cache?: AnalysisCache;
+}
+
+/**
+ * Create a ts-morph project for parsing workspace sources.
+ */
+export function createSourceProject(): Project {
+    return new Project({
+        compilerOptions: { strict: true },
+        skipAddingFilesFromTsConfig: true
+    });
+}
+
+/**
+ * Build the context for a scan, or wrap an existing index.
+ * @param workspacePath - Root path of the workspace
+ * @param options - Scan options with exclusions
+ * @param index - Index already built for this scan
+ */
+export async function createScanContext(
+    workspacePath: string,
+    options: Required<ScanOptions>,
+    index?: WorkspaceIndex
+): Promise<ScanContext> {
+    return {
+        index: index ?? await WorkspaceIndex.build(workspacePath, options),
+        project: createSourceProject()
+    };
+}
@@ -2,6 +2,7 @@
  * TypeScript interface and type parsing using ts-morph
  */
 import { Project, InterfaceDeclaration, TypeAliasDeclaration, EnumDeclaration } from 'ts-morph';
+import { createSourceProject } from './scanContext';
 
 /**
  * Definition of a field within an entity
@@ -12,6 +13,8 @@ export interface FieldDefinition {
     optional: boolean;
     isArray: boolean;
     isRelation: boolean;
+    /** Relationship declared by an ORM, where the field types alone cannot tell */
+    relationType?: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
 }
 
 /**
@@ -20,7 +23,7 @@ export interface FieldDefinition {
 export interface EntityDefinition {
     name: string;
     fields: FieldDefinition[];
-    source: 'typescript' | 'prisma';
+    source: 'typescript' | 'prisma' | 'python' | 'go' | 'rust';
     filePath?: string;
 }
 
@@ -30,7 +33,7 @@ export interface EntityDefinition {
 export interface EnumDefinition {
     name: string;
     values: string[];
-    source: 'typescript' | 'prisma';
+    source: 'typescript' | 'prisma' | 'python' | 'go' | 'rust';
 }
 
 /**
@@ -48,11 +51,11 @@ export class TypeScriptParser {
     private project: Project;
     private knownEntities: Set<string> = new Set();
 
-    constructor() {
-        this.project = new Project({
-            compilerOptions: { strict: true },
-            skipAddingFilesFromTsConfig: true
-        });
+    /**
+     * @param project - Project shared with other generators of a scan, so files are parsed once
+     */
+    constructor(project?: Project) {
+        this.project = project ?? createSourceProject();
     }
 
     /**
@@ -95,6 +98,24 @@ export class TypeScriptParser {
         return { entities, enums };
     }
 
+    /**
+     * Get the files a TypeScript file imports or re-exports from, whose
+     * declarations the types read from it can depend on.
+     * @param filePath - Absolute path to the TypeScript file
+     * @returns Absolute paths of resolved modules; modules that do not resolve as written
+     */
+    getImportedFiles(filePath: string): string[] {
+        const sourceFile = this.project.addSourceFileAtPath(filePath);
+        const declarations = [...sourceFile.getImportDeclarations(), ...sourceFile.getExportDeclarations()];
+
+        return declarations.flatMap(declaration => {
+            const specifier = declaration.getModuleSpecifierValue();
+            if (specifier === undefined) return [];
+            const resolved = declaration.getModuleSpecifierSourceFile();
+            return [resolved ? resolved.getFilePath() : specifier];
+        });
+    }
+
     /**
      * Parse an interface declaration into an entity definition.
      */
@@ -0,0 +1,147 @@
+/**
+ * Workspace file index
+ * Walks the workspace once per scan so generators and change detection share one listing.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScanOptions } from '../types';
+import { listDirectory, isCircularSymlink } from './fileSystem';
+import { parseGitignore, isIgnored } from './gitignoreParser';
+
+/**
+ * A file or directory found by the walk
+ */
+export interface IndexedEntry {
+    /** Entry name */
+    name: string;
+    /** Path relative to the workspace root */
+    relativePath: string;
+    /** Absolute path */
+    absolutePath: string;
+    /** Number of path segments: 1 for entries in the workspace root */
+    depth: number;
+    isDirectory: boolean;
+    /** Size in bytes; 0 for directories, -1 if the entry could not be read */
+    size: number;
+    /** Directory that links back to a directory already walked; not descended into */
+    circular?: boolean;
+}
+
+/**
+ * Files and directories of a workspace that are not excluded or gitignored,
+ * in the order a depth-first walk visits them. The walk has no depth limit;
+ * generators apply their own.
+ */
+export class WorkspaceIndex {
+    private readonly entries: IndexedEntry[];
+    private readonly byPath = new Map<string, IndexedEntry>();
+    private readonly childrenByDir = new Map<string, IndexedEntry[]>();
+
+    /**
+     * Create an index from entries in walk order.
+     * @param workspacePath - Root path of the workspace
+     * @param entries - Entries in depth-first order
+     */
+    constructor(readonly workspacePath: string, entries: IndexedEntry[]) {
+        this.entries = entries;
+        for (const entry of entries) {
+            this.byPath.set(entry.relativePath, entry);
+            const parent = path.dirname(entry.relativePath);
+            const dir = parent === '.' ? '' : parent;
+            const siblings = this.childrenByDir.get(dir);
+            if (siblings) {
+                siblings.push(entry);
+            } else {
+                this.childrenByDir.set(dir, [entry]);
+            }
+        }
+    }
+
+    /**
+     * Walk a workspace, skipping excluded names and gitignored paths.
+     * @param workspacePath - Root path of the workspace
+     * @param options - Scan options with exclusions
+     * @returns The workspace index
+     */
+    static async build(workspacePath: string, options: Required<ScanOptions>): Promise<WorkspaceIndex> {
+        const gitignorePatterns = await parseGitignore(workspacePath);
+        const entries: IndexedEntry[] = [];
+        const visited = new Set<string>();
+
+        const traverse = async (dirPath: string, depth: number): Promise<void> => {
+            for (const name of await listDirectory(dirPath)) {
+                const absolutePath = path.join(dirPath, name);
+                const relativePath = path.relative(workspacePath, absolutePath);
+                let stats: fs.Stats | null = null;
+                try {
+                    stats = await fs.promises.stat(absolutePath);
+                } catch {
+                    // Broken symlink or removed since it was listed
+                }
+                const isDir = stats?.isDirectory() ?? false;
+
+                // Check exclusions
+                if (options.excludePatterns.includes(name)) continue;
+                if (isIgnored(relativePath, gitignorePatterns, isDir)) continue;
+
+                const entry: IndexedEntry = {
+                    name,
+                    relativePath,
+                    absolutePath,
+                    depth,
+                    isDirectory: isDir,
+                    size: isDir ? 0 : stats ? stats.size : -1
+                };
+                entries.push(entry);
+
+                if (isDir) {
+                    if (await isCircularSymlink(absolutePath, visited)) {
+                        entry.circular = true;
+                    } else {
+                        await traverse(absolutePath, depth + 1);
+                    }
+                }
+            }
+        };
+
+        await isCircularSymlink(workspacePath, visited);
+        await traverse(workspacePath, 1);
+        return new WorkspaceIndex(workspacePath, entries);
+    }
+
+    /**
+     * All entries in walk order, e.g. to pass the index to a worker thread.
+     */
+    toEntries(): IndexedEntry[] {
+        return this.entries;
+    }
+
+    /**
+     * Look up an entry by its relative path.
+     */
+    get(relativePath: string): IndexedEntry | undefined {
+        return this.byPath.get(relativePath);
+    }
+
+    /**
+     * Entries directly inside a directory, in listing order.
+     * @param relativeDir - Directory relative to the workspace root; '' for the root
+     */
+    children(relativeDir = ''): IndexedEntry[] {
+        return this.childrenByDir.get(relativeDir) ?? [];
+    }
+
+    /**
+     * Files in walk order.
+     * @param filter.under - Only files inside this directory (relative path)
+     * @param filter.maxDepth - Only files at most this many segments deep
+     */
+    files(filter: { under?: string; maxDepth?: number } = {}): IndexedEntry[] {
+        const prefix = filter.under ? path.join(filter.under) + path.sep : '';
+        return this.entries.filter(entry =>
+            !entry.isDirectory &&
+            (filter.maxDepth === undefined || entry.depth <= filter.maxDepth) &&
+            entry.relativePath.startsWith(prefix)
+        );
+    }
+}
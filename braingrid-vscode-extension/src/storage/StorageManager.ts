@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { InitResult, Task, Subtask, ResearchResults, ResearchSession, ResearchFinding, MAX_RESEARCH_SESSIONS, ScanMetadata, StoredArtifact, ArtifactMetadata, ARTIFACT_FILENAMES } from './types';
+import { InitResult, Task, Subtask, TaskEstimate, TaskPriority, TASK_ESTIMATES, TASK_PRIORITIES, ResearchResults, ResearchSession, ResearchFinding, ResearchCitation, MAX_RESEARCH_SESSIONS, ScanMetadata, CachedFileAnalysis, ANALYSIS_CACHE_VERSION, StoredArtifact, ArtifactMetadata, ARTIFACT_FILENAMES, Revision, RevisionSource, RevisionSubject, MAX_REVISIONS, REVISION_COALESCE_MS } from './types';
 import { ArtifactType, ArtifactResult } from '../scanner/types';
 
 /**
@@ -14,12 +14,14 @@ export class StorageManager {
 
     public readonly artifactsPath: string;
     public readonly cachePath: string;
+    public readonly historyPath: string;
 
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
         this.braingridPath = path.join(workspaceRoot, '.braingrid');
         this.artifactsPath = path.join(this.braingridPath, 'artifacts');
         this.cachePath = path.join(this.braingridPath, 'cache');
+        this.historyPath = path.join(this.braingridPath, 'history');
     }
 
     /**
@@ -177,8 +179,9 @@ export class StorageManager {
      * Store an artifact with full metadata, atomic writes, and versioning.
      * @param type - The artifact type
      * @param result - The ArtifactResult from a generator
+     * @param source - What produced the artifact, recorded in its revision history
      */
-    async storeArtifact(type: ArtifactType, result: ArtifactResult): Promise<void> {
+    async storeArtifact(type: ArtifactType, result: ArtifactResult, source: RevisionSource = 'scan'): Promise<void> {
         const filePath = this.getArtifactPath(type);
         const tmpPath = `${filePath}.tmp`;
         const previousPath = this.getPreviousArtifactPath(type);
@@ -236,6 +239,8 @@ export class StorageManager {
             }
             throw new Error(`Failed to store ${type} artifact: ${err.message}`);
         }
+
+        await this.appendRevision(type, result.content, source);
     }
 
     /**
@@ -480,8 +485,9 @@ export class StorageManager {
      * Save requirements markdown string with atomic writes.
      * Creates backup of existing file before overwriting.
      * @param requirements - The requirements markdown string
+     * @param source - What produced this version, recorded in the revision history
      */
-    async saveRequirements(requirements: string): Promise<void> {
+    async saveRequirements(requirements: string, source: RevisionSource = 'manual'): Promise<void> {
         const requirementsPath = path.join(this.braingridPath, 'requirements.json');
         const tmpPath = `${requirementsPath}.tmp`;
         const bakPath = `${requirementsPath}.bak`;
@@ -524,6 +530,8 @@ export class StorageManager {
             }
             throw new Error(`Failed to save requirements: ${err.message}`);
         }
+
+        await this.appendRevision('requirements', requirements, source);
     }
 
     /**
@@ -598,8 +606,9 @@ export class StorageManager {
      * Save tasks array with atomic writes.
      * Creates backup of existing file before overwriting.
      * @param tasks - The tasks array to save
+     * @param source - What produced this version, recorded in the revision history
      */
-    async saveTasks(tasks: Task[]): Promise<void> {
+    async saveTasks(tasks: Task[], source: RevisionSource = 'manual'): Promise<void> {
         const tasksPath = path.join(this.braingridPath, 'tasks.json');
         const tmpPath = `${tasksPath}.tmp`;
         const bakPath = `${tasksPath}.bak`;
@@ -641,6 +650,8 @@ export class StorageManager {
             }
             throw new Error(`Failed to save tasks: ${err.message}`);
         }
+
+        await this.appendRevision('tasks', JSON.stringify(tasks, null, 2), source);
     }
 
     /**
@@ -750,6 +761,22 @@ export class StorageManager {
             }
         }
 
+        // Optional planning fields (absent on tasks saved before they existed)
+        if (t.dependsOn !== undefined) {
+            if (!Array.isArray(t.dependsOn) || t.dependsOn.some(d => typeof d !== 'string')) {
+                return false;
+            }
+        }
+        if (t.estimate !== undefined && !TASK_ESTIMATES.includes(t.estimate as TaskEstimate)) {
+            return false;
+        }
+        if (t.priority !== undefined && !TASK_PRIORITIES.includes(t.priority as TaskPriority)) {
+            return false;
+        }
+        if (t.requirementId !== undefined && typeof t.requirementId !== 'string') {
+            return false;
+        }
+
         return true;
     }
 
@@ -788,7 +815,8 @@ export class StorageManager {
             findings: research.findings,
             summary: research.summary,
             suggestedQuestions: research.suggestedQuestions,
-            timestamp: research.timestamp.toISOString()
+            timestamp: research.timestamp.toISOString(),
+            citations: research.citations
         };
 
         try {
@@ -844,7 +872,8 @@ export class StorageManager {
                 findings: session.findings,
                 summary: session.summary,
                 suggestedQuestions: session.suggestedQuestions,
-                timestamp: new Date(session.timestamp)
+                timestamp: new Date(session.timestamp),
+                citations: session.citations
             }));
     }
 
@@ -943,9 +972,36 @@ export class StorageManager {
             }
         }
 
+        // citations is optional (absent on sessions saved before citations)
+        if (s.citations !== undefined) {
+            if (!Array.isArray(s.citations)) {
+                return false;
+            }
+            for (const citation of s.citations) {
+                if (!this.validateResearchCitation(citation)) {
+                    return false;
+                }
+            }
+        }
+
         return true;
     }
 
+    /**
+     * Validate a research citation has the required structure.
+     */
+    private validateResearchCitation(citation: unknown): citation is ResearchCitation {
+        if (typeof citation !== 'object' || citation === null) {
+            return false;
+        }
+
+        const c = citation as Record<string, unknown>;
+        if (typeof c.index !== 'number' || typeof c.title !== 'string') {
+            return false;
+        }
+        return c.url === undefined || typeof c.url === 'string';
+    }
+
     /**
      * Validate a research finding has the required structure.
      */
@@ -980,9 +1036,232 @@ export class StorageManager {
             return false;
         }
 
+        // citations is optional
+        if (f.citations !== undefined &&
+            (!Array.isArray(f.citations) || !f.citations.every(index => typeof index === 'number'))) {
+            return false;
+        }
+
         return true;
     }
 
+    // ==================== Revision History ====================
+
+    /**
+     * List the saved revisions of a subject, newest first.
+     * @param subject - requirements, tasks or an artifact type
+     * @returns The revisions, or an empty array if there is no history
+     */
+    async listRevisions(subject: RevisionSubject): Promise<Revision[]> {
+        const revisions = await this.loadRevisions(subject);
+        return revisions.slice().reverse();
+    }
+
+    /**
+     * Get a single revision by id.
+     * @param subject - The subject the revision belongs to
+     * @param id - The revision id
+     * @returns The revision, or null if not found
+     */
+    async getRevision(subject: RevisionSubject, id: string): Promise<Revision | null> {
+        const revisions = await this.loadRevisions(subject);
+        return revisions.find(revision => revision.id === id) || null;
+    }
+
+    /**
+     * Get the current content of a subject in the same text form its revisions use.
+     * @param subject - requirements, tasks or an artifact type
+     * @returns The current content, or null if nothing is stored
+     */
+    async getCurrentRevisionContent(subject: RevisionSubject): Promise<string | null> {
+        if (subject === 'requirements') {
+            return this.loadRequirements();
+        }
+        if (subject === 'tasks') {
+            if (!(await this.fileExists(path.join(this.braingridPath, 'tasks.json')))) {
+                return null;
+            }
+            return JSON.stringify(await this.loadTasks(), null, 2);
+        }
+        const artifact = await this.getStoredArtifact(subject);
+        return artifact ? artifact.content : null;
+    }
+
+    /**
+     * List the subjects that have at least one saved revision.
+     * @returns Subjects with history, in a stable order
+     */
+    async listRevisionSubjects(): Promise<RevisionSubject[]> {
+        const subjects: RevisionSubject[] = ['requirements', 'tasks'];
+        for (const type of Object.keys(ARTIFACT_FILENAMES) as ArtifactType[]) {
+            subjects.push(type);
+        }
+
+        const withHistory: RevisionSubject[] = [];
+        for (const subject of subjects) {
+            if (await this.fileExists(this.getHistoryPath(subject))) {
+                withHistory.push(subject);
+            }
+        }
+        return withHistory;
+    }
+
+    /**
+     * Restore a revision as the current content of its subject.
+     * The restore itself is recorded as a new revision, so it can be undone.
+     * @param subject - The subject to restore
+     * @param id - The revision id to restore
+     * @returns true if restored, false if the revision was not found
+     */
+    async restoreRevision(subject: RevisionSubject, id: string): Promise<boolean> {
+        const revision = await this.getRevision(subject, id);
+        if (!revision) {
+            return false;
+        }
+
+        if (subject === 'requirements') {
+            await this.saveRequirements(revision.content, 'restore');
+            return true;
+        }
+
+        if (subject === 'tasks') {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(revision.content);
+            } catch {
+                throw new Error('Cannot restore tasks. Revision content is not valid JSON');
+            }
+            if (!Array.isArray(parsed)) {
+                throw new Error('Cannot restore tasks. Revision content is not a task list');
+            }
+            const tasks = parsed.filter((task: unknown) => this.validateTask(task)) as Task[];
+            await this.saveTasks(tasks, 'restore');
+            return true;
+        }
+
+        const existing = await this.getStoredArtifact(subject);
+        await this.storeArtifact(subject, {
+            type: subject,
+            content: revision.content,
+            generatedAt: revision.timestamp,
+            fileCount: existing ? existing.metadata.fileCount : 0,
+            errorCount: existing ? existing.metadata.errorCount : 0
+        }, 'restore');
+        return true;
+    }
+
+    /**
+     * Append a revision to a subject's history.
+     * Identical content is skipped, consecutive manual saves within
+     * REVISION_COALESCE_MS replace each other, and the history is pruned to
+     * MAX_REVISIONS. Failures are logged but never fail the save itself.
+     */
+    private async appendRevision(subject: RevisionSubject, content: string, source: RevisionSource): Promise<void> {
+        const historyFile = this.getHistoryPath(subject);
+        const tmpPath = `${historyFile}.tmp`;
+        const now = new Date();
+
+        try {
+            const revisions = await this.loadRevisions(subject);
+            const last = revisions.length > 0 ? revisions[revisions.length - 1] : null;
+
+            if (last && last.content === content) {
+                return;
+            }
+
+            const revision: Revision = {
+                id: crypto.randomUUID(),
+                timestamp: now.toISOString(),
+                source,
+                content
+            };
+
+            if (
+                last &&
+                source === 'manual' &&
+                last.source === 'manual' &&
+                now.getTime() - new Date(last.timestamp).getTime() < REVISION_COALESCE_MS
+            ) {
+                revisions[revisions.length - 1] = revision;
+            } else {
+                revisions.push(revision);
+            }
+
+            // Prune if over limit (remove oldest)
+            while (revisions.length > MAX_REVISIONS) {
+                revisions.shift();
+            }
+
+            const data = {
+                revisions,
+                updatedAt: now.toISOString()
+            };
+
+            await fs.promises.mkdir(this.historyPath, { recursive: true });
+            await fs.promises.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+            await fs.promises.rename(tmpPath, historyFile);
+        } catch (error) {
+            try {
+                await fs.promises.unlink(tmpPath);
+            } catch {
+                // Ignore cleanup errors
+            }
+            console.warn(`Failed to record ${subject} revision:`, error);
+        }
+    }
+
+    /**
+     * Load raw revisions for a subject, oldest first.
+     */
+    private async loadRevisions(subject: RevisionSubject): Promise<Revision[]> {
+        try {
+            const content = await fs.promises.readFile(this.getHistoryPath(subject), 'utf-8');
+            const data = JSON.parse(content);
+
+            if (!Array.isArray(data.revisions)) {
+                console.warn(`Invalid ${subject} history structure: missing revisions array`);
+                return [];
+            }
+
+            return data.revisions.filter((revision: unknown) => this.validateRevision(revision));
+        } catch (error) {
+            const err = error as NodeJS.ErrnoException;
+            if (err.code === 'ENOENT') {
+                return [];
+            }
+            if (error instanceof SyntaxError) {
+                console.error(`Corrupted ${subject} history detected`);
+                return [];
+            }
+            console.warn(`Failed to load ${subject} history: ${err.message}`);
+            return [];
+        }
+    }
+
+    /**
+     * Get the history file path for a subject.
+     */
+    private getHistoryPath(subject: RevisionSubject): string {
+        return path.join(this.historyPath, `${subject}.json`);
+    }
+
+    /**
+     * Validate a revision has the required structure.
+     */
+    private validateRevision(revision: unknown): revision is Revision {
+        if (typeof revision !== 'object' || revision === null) {
+            return false;
+        }
+
+        const r = revision as Record<string, unknown>;
+        return (
+            typeof r.id === 'string' &&
+            typeof r.timestamp === 'string' &&
+            typeof r.source === 'string' &&
+            typeof r.content === 'string'
+        );
+    }
+
     // ==================== Scan Metadata Caching ====================
 
     /**
@@ -1016,7 +1295,8 @@ export class StorageManager {
         const cachePath = path.join(this.cachePath, 'last-scan.json');
 
         try {
-            await fs.promises.writeFile(cachePath, JSON.stringify(metadata, null, 2), 'utf-8');
+            const data: ScanMetadata = { ...metadata, analysisVersion: ANALYSIS_CACHE_VERSION };
+            await fs.promises.writeFile(cachePath, JSON.stringify(data, null, 2), 'utf-8');
         } catch (error) {
             const err = error as NodeJS.ErrnoException;
             if (err.code === 'ENOSPC') {
@@ -1047,6 +1327,11 @@ export class StorageManager {
                 return null;
             }
 
+            // Scanned by an older analyzer; its artifacts lack what this one extracts
+            if (data.analysisVersion !== ANALYSIS_CACHE_VERSION) {
+                return null;
+            }
+
             return data;
         } catch (error) {
             const err = error as NodeJS.ErrnoException;
@@ -1070,6 +1355,13 @@ export class StorageManager {
      * Clear the scan cache file.
      */
     async clearScanCache(): Promise<void> {
+        // Per-file results are only reused together with the metadata
+        for (const file of await this.listCacheFiles()) {
+            if (file.startsWith('analysis-')) {
+                await fs.promises.unlink(path.join(this.cachePath, file)).catch(() => undefined);
+            }
+        }
+
         const cachePath = path.join(this.cachePath, 'last-scan.json');
 
         try {
@@ -1088,6 +1380,55 @@ export class StorageManager {
         }
     }
 
+    /**
+     * Load a generator's per-file analysis cache.
+     * @param type - The artifact type the generator produces
+     * @returns Cached results by relative file path; empty if missing, invalid or outdated
+     */
+    async loadAnalysisCache(type: ArtifactType): Promise<Record<string, CachedFileAnalysis>> {
+        const cachePath = this.getAnalysisCachePath(type);
+
+        try {
+            const data = JSON.parse(await fs.promises.readFile(cachePath, 'utf-8'));
+            if (
+                typeof data !== 'object' || data === null ||
+                data.version !== ANALYSIS_CACHE_VERSION ||
+                typeof data.files !== 'object' || data.files === null
+            ) {
+                return {};
+            }
+            return data.files as Record<string, CachedFileAnalysis>;
+        } catch (error) {
+            const err = error as NodeJS.ErrnoException;
+            if (err.code !== 'ENOENT') {
+                console.warn(`Failed to load ${type} analysis cache: ${err.message}`);
+            }
+            return {};
+        }
+    }
+
+    /**
+     * Save a generator's per-file analysis cache.
+     * @param type - The artifact type the generator produces
+     * @param files - Cached results by relative file path
+     */
+    async saveAnalysisCache(type: ArtifactType, files: Record<string, CachedFileAnalysis>): Promise<void> {
+        const cachePath = this.getAnalysisCachePath(type);
+        const tmpPath = `${cachePath}.tmp`;
+
+        try {
+            await fs.promises.writeFile(
+                tmpPath,
+                JSON.stringify({ version: ANALYSIS_CACHE_VERSION, files }),
+                'utf-8'
+            );
+            await fs.promises.rename(tmpPath, cachePath);
+        } catch (error) {
+            const err = error as NodeJS.ErrnoException;
+            console.warn(`Cannot save ${type} analysis cache: ${err.message}`);
+        }
+    }
+
     /**
      * Check if file hashes have changed compared to cached metadata.
      * @param oldMetadata - The cached scan metadata
@@ -1165,6 +1506,24 @@ export class StorageManager {
 
     // ==================== Private Helpers ====================
 
+    /**
+     * Get the path of a generator's per-file analysis cache.
+     */
+    private getAnalysisCachePath(type: ArtifactType): string {
+        return path.join(this.cachePath, `analysis-${type}.json`);
+    }
+
+    /**
+     * List files in the cache folder.
+     */
+    private async listCacheFiles(): Promise<string[]> {
+        try {
+            return await fs.promises.readdir(this.cachePath);
+        } catch {
+            return [];
+        }
+    }
+
     /**
      * Check if a file exists at the given path.
      */
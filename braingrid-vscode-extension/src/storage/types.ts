@@ -1,7 +1,7 @@
-import { ArtifactType } from '../scanner/types';
+import type { ArtifactType } from '../scanner/types';
 
 // Re-export ArtifactType for use by other modules
-export { ArtifactType };
+export type { ArtifactType };
 
 /**
  * Configuration for the StorageManager
@@ -96,6 +96,22 @@ export interface Subtask {
     completed: boolean;
 }
 
+/**
+ * Task priority, aligned with requirement priorities (Must/Should/Nice-to-have)
+ */
+export type TaskPriority = 'must-have' | 'should-have' | 'nice-to-have';
+
+/**
+ * Relative task size
+ */
+export type TaskEstimate = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
+/**
+ * Valid values for runtime validation of stored tasks
+ */
+export const TASK_PRIORITIES: TaskPriority[] = ['must-have', 'should-have', 'nice-to-have'];
+export const TASK_ESTIMATES: TaskEstimate[] = ['XS', 'S', 'M', 'L', 'XL'];
+
 /**
  * Task with subtasks and acceptance criteria
  */
@@ -106,6 +122,10 @@ export interface Task {
     completed: boolean;
     subtasks: Subtask[];
     acceptanceCriteria: string[];
+    dependsOn?: string[];        // Ids of tasks that must be done first
+    estimate?: TaskEstimate;
+    priority?: TaskPriority;
+    requirementId?: string;      // Functional requirement implemented, e.g. "FR-2"
 }
 
 /**
@@ -126,10 +146,20 @@ export interface ResearchFinding {
     category: ResearchFindingCategory;
     title: string;
     content: string;
-    source?: string;
+    source?: string;            // Free-text source on research saved before citations
+    citations?: number[];       // Indices of the research citations supporting it
     relevance: ResearchRelevance;
 }
 
+/**
+ * A source the research was drawn from, referred to by index from findings
+ */
+export interface ResearchCitation {
+    index: number;
+    title: string;
+    url?: string;               // Absent for knowledge base excerpts and the codebase scan
+}
+
 /**
  * Research results with findings and summary (runtime type with Date)
  */
@@ -139,6 +169,7 @@ export interface ResearchResults {
     summary: string;
     suggestedQuestions: string[];
     timestamp: Date;
+    citations?: ResearchCitation[];
 }
 
 /**
@@ -151,6 +182,7 @@ export interface ResearchSession {
     summary: string;
     suggestedQuestions: string[];
     timestamp: string; // ISO8601 string for JSON storage
+    citations?: ResearchCitation[];
 }
 
 /**
@@ -165,4 +197,51 @@ export interface ScanMetadata {
     timestamp: string; // ISO8601 string when scan completed
     fileHashes: Record<string, string>; // Map of relative file paths to SHA-256 hashes
     fileCount: number; // Total files scanned
+    analysisVersion?: number; // ANALYSIS_CACHE_VERSION of the scan
+}
+
+/**
+ * Per-file result of a generator, reused while the file's hash is unchanged
+ */
+export interface CachedFileAnalysis {
+    hash: string;    // SHA-256 of the file when it was analysed
+    result: unknown; // Generator-specific
 }
+
+/**
+ * Version of the per-file analysis cache.
+ * Bump when a generator changes what it extracts from a file.
+ */
+export const ANALYSIS_CACHE_VERSION = 4;
+
+/**
+ * What produced a saved revision
+ */
+export type RevisionSource = 'generation' | 'manual' | 'refinement' | 'scan' | 'restore';
+
+/**
+ * Content with a revision history: requirements, tasks or a scan artifact
+ */
+export type RevisionSubject = 'requirements' | 'tasks' | ArtifactType;
+
+/**
+ * A saved version of a revision subject.
+ * Tasks are stored as a JSON string so every subject diffs as text.
+ */
+export interface Revision {
+    id: string;
+    timestamp: string; // ISO8601
+    source: RevisionSource;
+    content: string;
+}
+
+/**
+ * Maximum number of revisions kept per subject
+ */
+export const MAX_REVISIONS = 50;
+
+/**
+ * Consecutive manual saves within this window are kept as one revision,
+ * so toggling several tasks doesn't flood the history
+ */
+export const REVISION_COALESCE_MS = 60 * 1000;
@@ -15,15 +15,18 @@ import {
     SubtaskTreeItem,
     ResearchCategoryItem,
     ResearchSessionItem,
+    HistoryCategoryItem,
+    HistorySubjectItem,
+    RevisionTreeItem,
     EmptyStateItem
 } from './TreeItems';
-import { StoredArtifact, ARTIFACT_FILENAMES } from '../storage/types';
+import { StoredArtifact, ARTIFACT_FILENAMES, RevisionSubject } from '../storage/types';
 import { isDocumentationArtifact } from '../scanner/types';
 import * as path from 'path';
 
 /**
  * TreeDataProvider for BrainGrid artifacts.
- * Displays Requirements, Tasks, and Research in a hierarchical view.
+ * Displays Requirements, Tasks, Research and revision History in a hierarchical view.
  */
 export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridTreeItem>, vscode.Disposable {
     private _onDidChangeTreeData = new vscode.EventEmitter<BrainGridTreeItem | undefined | null>();
@@ -39,8 +42,12 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
     private cachedRequirements: string | null = null;
     private cachedTasks: Task[] = [];
     private cachedResearch: ResearchResults[] = [];
+    private cachedHistorySubjects: RevisionSubject[] = [];
     private isLoading = false;
 
+    // Watch mode has file changes that are not scanned yet
+    private artifactsStale = false;
+
     constructor(private storageManager: StorageManager | null) {
         this.setupFileWatcher();
     }
@@ -99,6 +106,18 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
         this.cachedRequirements = null;
         this.cachedTasks = [];
         this.cachedResearch = [];
+        this.cachedHistorySubjects = [];
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * Mark scan artifacts as out of date while watch mode updates are pending.
+     */
+    setArtifactsStale(stale: boolean): void {
+        if (this.artifactsStale === stale) {
+            return;
+        }
+        this.artifactsStale = stale;
         this._onDidChangeTreeData.fire(undefined);
     }
 
@@ -135,6 +154,10 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
                 return this.getSubtasksChildren(element as TaskTreeItem);
             case 'research':
                 return this.getResearchChildren();
+            case 'history':
+                return this.getHistoryChildren();
+            case 'historySubject':
+                return this.getRevisionChildren(element as HistorySubjectItem);
             default:
                 return [];
         }
@@ -152,11 +175,12 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
 
         try {
             // Load all data in parallel
-            const [artifacts, requirements, tasks, research] = await Promise.all([
+            const [artifacts, requirements, tasks, research, historySubjects] = await Promise.all([
                 this.storageManager!.listStoredArtifacts(),
                 this.storageManager!.loadRequirements(),
                 this.storageManager!.loadTasks(),
-                this.storageManager!.loadResearch()
+                this.storageManager!.loadResearch(),
+                this.storageManager!.listRevisionSubjects()
             ]);
 
             // Cache the results
@@ -164,6 +188,7 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
             this.cachedRequirements = requirements;
             this.cachedTasks = tasks;
             this.cachedResearch = research;
+            this.cachedHistorySubjects = historySubjects;
 
             // Check if any data exists
             const hasData = artifacts.length > 0 || requirements || tasks.length > 0 || research.length > 0;
@@ -177,7 +202,7 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
             const nodes: BrainGridTreeItem[] = [];
 
             if (artifacts.length > 0) {
-                nodes.push(new ArtifactsCategoryItem(artifacts.length));
+                nodes.push(new ArtifactsCategoryItem(artifacts.length, this.artifactsStale));
             }
 
             nodes.push(
@@ -186,6 +211,10 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
                 new ResearchCategoryItem(research.length)
             );
 
+            if (historySubjects.length > 0) {
+                nodes.push(new HistoryCategoryItem(historySubjects.length));
+            }
+
             return nodes;
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
@@ -256,6 +285,29 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
         return sorted.map(research => new ResearchSessionItem(research));
     }
 
+    /**
+     * Get subjects that have revision history.
+     */
+    private async getHistoryChildren(): Promise<BrainGridTreeItem[]> {
+        if (this.cachedHistorySubjects.length === 0) {
+            return [new EmptyStateItem('No revisions')];
+        }
+
+        return this.cachedHistorySubjects.map(subject => new HistorySubjectItem(subject));
+    }
+
+    /**
+     * Get revision items for a subject, newest first.
+     */
+    private async getRevisionChildren(subjectItem: HistorySubjectItem): Promise<BrainGridTreeItem[]> {
+        const revisions = await this.storageManager!.listRevisions(subjectItem.subject);
+        if (revisions.length === 0) {
+            return [new EmptyStateItem('No revisions')];
+        }
+
+        return revisions.map((revision, index) => new RevisionTreeItem(subjectItem.subject, revision, index === 0));
+    }
+
     /**
      * Get scan artifact items.
      */
@@ -274,7 +326,8 @@ export class BrainGridTreeProvider implements vscode.TreeDataProvider<BrainGridT
                 filename,
                 generatedAt: artifact.metadata.generatedAt,
                 isDocumentation: isDocumentationArtifact(artifact.type),
-                filePath
+                filePath,
+                stale: this.artifactsStale
             };
 
             return new ArtifactTreeItem(info);
@@ -0,0 +1,62 @@
+/**
+ * Read-only document provider for saved revisions, used by side-by-side diffs.
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { StorageManager } from '../storage/StorageManager';
+import { ARTIFACT_FILENAMES, RevisionSubject } from '../storage/types';
+
+/**
+ * Id used in revision URIs for the subject's current content.
+ */
+export const CURRENT_REVISION_ID = 'current';
+
+/**
+ * Serves `braingrid-revision:/<subject>/<revisionId>.<ext>` documents.
+ */
+export class RevisionContentProvider implements vscode.TextDocumentContentProvider {
+    static readonly scheme = 'braingrid-revision';
+
+    constructor(private readonly getStorageManager: () => StorageManager | null) {}
+
+    /**
+     * Build the URI for a revision, or for the current content.
+     * The file extension lets VS Code pick the right language for highlighting.
+     * Current content gets a fresh query each time so VS Code doesn't reuse a
+     * cached document after the content changed.
+     */
+    static getUri(subject: RevisionSubject, revisionId: string): vscode.Uri {
+        const query = revisionId === CURRENT_REVISION_ID ? `?t=${Date.now()}` : '';
+        return vscode.Uri.parse(`${RevisionContentProvider.scheme}:/${subject}/${revisionId}${getRevisionExtension(subject)}${query}`);
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const storageManager = this.getStorageManager();
+        if (!storageManager) {
+            return '';
+        }
+
+        const [subject, file] = uri.path.replace(/^\//, '').split('/') as [RevisionSubject, string];
+        const revisionId = file.replace(/\.[^.]+$/, '');
+
+        if (revisionId === CURRENT_REVISION_ID) {
+            return (await storageManager.getCurrentRevisionContent(subject)) || '';
+        }
+
+        const revision = await storageManager.getRevision(subject, revisionId);
+        return revision ? revision.content : '';
+    }
+}
+
+/**
+ * Get the file extension used to display a subject's content.
+ */
+function getRevisionExtension(subject: RevisionSubject): string {
+    if (subject === 'requirements') {
+        return '.md';
+    }
+    if (subject === 'tasks') {
+        return '.json';
+    }
+    return path.extname(ARTIFACT_FILENAMES[subject]);
+}
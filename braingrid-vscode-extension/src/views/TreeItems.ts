@@ -2,7 +2,7 @@
  * Tree item classes for BrainGrid TreeView.
  */
 import * as vscode from 'vscode';
-import { Task, Subtask, ResearchResults } from '../storage/types';
+import { Task, Subtask, ResearchResults, Revision, RevisionSource, RevisionSubject } from '../storage/types';
 
 /**
  * Item types for tree nodes.
@@ -16,6 +16,9 @@ export type TreeItemType =
     | 'subtask'
     | 'research'
     | 'researchSession'
+    | 'history'
+    | 'historySubject'
+    | 'revision'
     | 'empty';
 
 /**
@@ -89,10 +92,20 @@ export class TaskTreeItem extends BrainGridTreeItem {
             task.completed ? 'check' : 'circle-outline'
         );
 
-        // Show subtask progress in description
+        // Show subtask progress, requirement and size in description
+        const details: string[] = [];
         if (hasSubtasks) {
             const completedSubtasks = task.subtasks.filter(s => s.completed).length;
-            this.description = `${completedSubtasks}/${task.subtasks.length}`;
+            details.push(`${completedSubtasks}/${task.subtasks.length}`);
+        }
+        if (task.requirementId) {
+            details.push(task.requirementId);
+        }
+        if (task.estimate) {
+            details.push(task.estimate);
+        }
+        if (details.length > 0) {
+            this.description = details.join(' · ');
         }
 
         this.tooltip = this.buildTooltip(task);
@@ -111,6 +124,15 @@ export class TaskTreeItem extends BrainGridTreeItem {
         if (task.description) {
             lines.push('', task.description);
         }
+        const planning = [
+            task.priority && `Priority: ${task.priority}`,
+            task.estimate && `Estimate: ${task.estimate}`,
+            task.requirementId && `Implements: ${task.requirementId}`,
+            task.dependsOn && task.dependsOn.length > 0 && `Depends on: ${task.dependsOn.join(', ')}`
+        ].filter((line): line is string => !!line);
+        if (planning.length > 0) {
+            lines.push('', ...planning);
+        }
         if (task.acceptanceCriteria && task.acceptanceCriteria.length > 0) {
             lines.push('', 'Acceptance Criteria:');
             task.acceptanceCriteria.forEach(c => lines.push(`  - ${c}`));
@@ -223,7 +245,7 @@ export class ResearchSessionItem extends BrainGridTreeItem {
  * Artifacts category item (top-level node for scan artifacts).
  */
 export class ArtifactsCategoryItem extends BrainGridTreeItem {
-    constructor(artifactCount: number) {
+    constructor(artifactCount: number, stale = false) {
         super(
             artifactCount > 0 ? `Scan Artifacts (${artifactCount})` : 'Scan Artifacts',
             artifactCount > 0
@@ -234,6 +256,12 @@ export class ArtifactsCategoryItem extends BrainGridTreeItem {
         this.iconPath = new vscode.ThemeIcon('archive');
         this.description = artifactCount === 0 ? 'No artifacts' : '';
         this.tooltip = `${artifactCount} scan artifact${artifactCount !== 1 ? 's' : ''} generated`;
+
+        // Watch mode has changes that are not scanned yet
+        if (stale) {
+            this.description = 'Updating...';
+            this.tooltip += '\nOut of date: recent file changes are being scanned';
+        }
     }
 }
 
@@ -246,6 +274,8 @@ export interface ArtifactInfo {
     generatedAt: string;
     isDocumentation: boolean;
     filePath: string;
+    /** File changes since generation have not been scanned yet */
+    stale?: boolean;
 }
 
 /**
@@ -285,6 +315,11 @@ export class ArtifactTreeItem extends BrainGridTreeItem {
         this.tooltip = `${artifact.filename}\nGenerated: ${artifact.generatedAt}`;
         this.contextValue = 'artifact';
 
+        if (artifact.stale) {
+            this.description = `${this.description} · stale`;
+            this.tooltip += '\nOut of date: recent file changes are being scanned';
+        }
+
         // Click to open the file
         this.command = {
             command: 'vscode.open',
@@ -294,6 +329,106 @@ export class ArtifactTreeItem extends BrainGridTreeItem {
     }
 }
 
+/**
+ * Get a readable label for a revision subject.
+ */
+export function getRevisionSubjectLabel(subject: RevisionSubject): string {
+    if (subject === 'requirements') {
+        return 'Requirements';
+    }
+    if (subject === 'tasks') {
+        return 'Tasks';
+    }
+    const label = subject
+        .replace('-docs', ' (Doc)')
+        .replace(/([A-Z])/g, ' $1')
+        .trim();
+    return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Readable labels for revision sources.
+ */
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+    generation: 'AI generation',
+    manual: 'Manual edit',
+    refinement: 'Refinement',
+    scan: 'Scan',
+    restore: 'Restore'
+};
+
+/**
+ * History category item (top-level node for revision history).
+ */
+export class HistoryCategoryItem extends BrainGridTreeItem {
+    constructor(subjectCount: number) {
+        super(
+            'History',
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'history'
+        );
+        this.iconPath = new vscode.ThemeIcon('history');
+        this.tooltip = `Revision history for ${subjectCount} item${subjectCount !== 1 ? 's' : ''}`;
+    }
+}
+
+/**
+ * A subject with revision history (requirements, tasks or an artifact).
+ */
+export class HistorySubjectItem extends BrainGridTreeItem {
+    public readonly subject: RevisionSubject;
+
+    constructor(subject: RevisionSubject) {
+        super(
+            getRevisionSubjectLabel(subject),
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'historySubject'
+        );
+        this.subject = subject;
+        this.iconPath = new vscode.ThemeIcon(
+            subject === 'requirements' ? 'file' : subject === 'tasks' ? 'checklist' : 'archive'
+        );
+        this.contextValue = 'historySubject';
+    }
+}
+
+/**
+ * Individual saved revision of a subject.
+ */
+export class RevisionTreeItem extends BrainGridTreeItem {
+    public readonly subject: RevisionSubject;
+    public readonly revision: Revision;
+
+    constructor(subject: RevisionSubject, revision: Revision, isLatest: boolean) {
+        const date = new Date(revision.timestamp);
+        super(
+            date.toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit'
+            }),
+            vscode.TreeItemCollapsibleState.None,
+            'revision'
+        );
+        this.subject = subject;
+        this.revision = revision;
+        this.iconPath = new vscode.ThemeIcon(isLatest ? 'circle-filled' : 'git-commit');
+        this.description = isLatest
+            ? `${REVISION_SOURCE_LABELS[revision.source]} · latest`
+            : REVISION_SOURCE_LABELS[revision.source];
+        this.tooltip = `${getRevisionSubjectLabel(subject)}\n${REVISION_SOURCE_LABELS[revision.source]}\nSaved: ${revision.timestamp}`;
+        this.contextValue = 'revision';
+
+        // Click to compare with the current content
+        this.command = {
+            command: 'braingrid.compareRevision',
+            title: 'Compare with Current',
+            arguments: [this]
+        };
+    }
+}
+
 /**
  * Empty state item when no artifacts exist.
  */
@@ -3,3 +3,4 @@
  */
 export { BrainGridTreeProvider } from './BrainGridTreeProvider';
 export * from './TreeItems';
+export { RevisionContentProvider, CURRENT_REVISION_ID } from './RevisionContentProvider';
@@ -5,8 +5,8 @@
  * disposal, and message passing between the extension and the React UI.
  */
 import * as vscode from 'vscode';
-import { ExtensionMessage, WebviewMessage, ConversationPhase } from './types';
-import { BrainGridClient, ChatMessage, ResearchResults, ParsedArtifacts } from '../api';
+import { ExtensionMessage, WebviewMessage, ConversationPhase, QuestionView, ResearchSessionView } from './types';
+import { BrainGridClient, MAX_CONTINUATIONS, ChatMessage, ChatRequest, ClarifyingAnswer, ClarifyingQuestion, GenerationCheckpoint, ResearchResults, ParsedArtifacts } from '../api';
 import { StorageManager } from '../storage';
 
 /**
@@ -25,6 +25,15 @@ export class ChatPanel {
     private _conversationHistory: ChatMessage[] = [];
     private _currentPhase: ConversationPhase = 'initial';
     private _researchResults: ResearchResults | null = null;
+    // Questions of the latest assistant message, answerable through the form
+    private _pendingQuestions: { messageId: string; questions: ClarifyingQuestion[] } | null = null;
+    // Request in flight, stoppable from the webview
+    private _abortController: AbortController | null = null;
+    private _streamingMessageId: string | null = null;
+    // Stopped or failed reply, and the phase retrying it runs in
+    private _failed: { messageId: string; phase: ConversationPhase } | null = null;
+    // Generation progress, kept until it completes so a retry resumes it
+    private _generation: GenerationCheckpoint | null = null;
     private _storageManager: StorageManager | null = null;
 
     // Event emitter for session completion
@@ -102,6 +111,13 @@ export class ChatPanel {
         this._log('StorageManager attached');
     }
 
+    /**
+     * Reload the Codebase tab after scan artifacts were updated.
+     */
+    public async refreshCodebaseContext(): Promise<void> {
+        await this._loadAndSendContext();
+    }
+
     /**
      * Send a message to the webview.
      */
@@ -150,6 +166,15 @@ export class ChatPanel {
                     case 'sendMessage':
                         this._handleSendMessage(message.text);
                         break;
+                    case 'submitAnswers':
+                        this._handleSubmitAnswers(message.messageId, message.answers);
+                        break;
+                    case 'stopGeneration':
+                        this._abortController?.abort();
+                        break;
+                    case 'retry':
+                        this._handleRetry();
+                        break;
                     case 'newConversation':
                         this._handleNewConversation();
                         break;
@@ -159,6 +184,9 @@ export class ChatPanel {
                     case 'ready':
                         this._handleWebviewReady();
                         break;
+                    case 'loadContext':
+                        this._loadAndSendContext();
+                        break;
                 }
             },
             null,
@@ -169,9 +197,12 @@ export class ChatPanel {
     /**
      * Handle send message command from webview.
      */
-    private async _handleSendMessage(text: string): Promise<void> {
+    private async _handleSendMessage(text: string, answers?: ClarifyingAnswer[]): Promise<void> {
         this._log(`User message: ${text}`);
 
+        // A typed reply answers the pending questions in prose
+        this._pendingQuestions = null;
+
         // Add user message to chat
         const userMessageId = this._generateId();
         this.postMessage({
@@ -182,24 +213,111 @@ export class ChatPanel {
         });
 
         // Add to conversation history
-        this._conversationHistory.push({ role: 'user', content: text });
+        this._conversationHistory.push({ role: 'user', content: text, ...(answers && { answers }) });
 
-        // Show loading state
+        await this._runRequest(() =>
+            this._currentPhase === 'initial' ? this._handleInitialPhase(text) : this._handleChatPhase()
+        );
+    }
+
+    /**
+     * Run a request that can be stopped from the webview, showing the loading state.
+     */
+    private async _runRequest(request: () => Promise<void>): Promise<void> {
+        const controller = new AbortController();
+        this._abortController = controller;
+        this._failed = null;
         this.postMessage({ type: 'setLoading', isLoading: true });
 
         try {
-            if (this._currentPhase === 'initial') {
-                await this._handleInitialPhase(text);
-            } else {
-                await this._handleChatPhase();
-            }
+            await request();
         } catch (error) {
-            this._handleError(error);
+            // A new conversation discards whatever was in flight
+            if (this._abortController === controller) {
+                this._handleFailure(error, controller.signal.aborted);
+            }
         } finally {
+            if (this._abortController === controller) {
+                this._abortController = null;
+                this._streamingMessageId = null;
+            }
             this.postMessage({ type: 'setLoading', isLoading: false });
         }
     }
 
+    /**
+     * Mark the reply as stopped or failed so it can be retried, and roll the
+     * phase back to the last one the conversation is consistent in.
+     */
+    private _handleFailure(error: unknown, stopped: boolean): void {
+        if (stopped) {
+            this._log('Request stopped');
+        } else {
+            this._handleError(error);
+        }
+
+        let messageId = this._streamingMessageId;
+        if (!messageId) {
+            messageId = this._generateId();
+            this.postMessage({
+                type: 'addMessage',
+                role: 'assistant',
+                content: stopped ? 'Stopped.' : 'Something went wrong.',
+                id: messageId
+            });
+        }
+        this.postMessage({ type: 'messageFailed', id: messageId, reason: stopped ? 'stopped' : 'error' });
+        this._failed = { messageId, phase: this._currentPhase };
+
+        const phase: ConversationPhase = this._currentPhase === 'researching'
+            ? 'initial'
+            : this._currentPhase === 'generating' ? 'clarifying' : this._currentPhase;
+        if (phase !== this._currentPhase) {
+            this._currentPhase = phase;
+            this.postMessage({ type: 'updatePhase', phase });
+        }
+    }
+
+    /**
+     * Replace the stopped or failed reply with a fresh attempt.
+     */
+    private async _handleRetry(): Promise<void> {
+        const failed = this._failed;
+        if (!failed || this._abortController) {
+            return;
+        }
+
+        this.postMessage({ type: 'removeMessage', id: failed.messageId });
+
+        if (failed.phase === 'generating' && this._generation) {
+            await this._runRequest(() => this._resumeGeneration());
+            return;
+        }
+
+        if (failed.phase === 'researching') {
+            const description = [...this._conversationHistory].reverse().find(m => m.role === 'user')?.content ?? '';
+            await this._runRequest(() => this._handleInitialPhase(description));
+            return;
+        }
+
+        this._currentPhase = failed.phase;
+        this.postMessage({ type: 'updatePhase', phase: failed.phase });
+        await this._runRequest(() => this._handleChatPhase());
+    }
+
+    /**
+     * Handle answers submitted through the clarifying questions form.
+     */
+    private async _handleSubmitAnswers(messageId: string, answers: ClarifyingAnswer[]): Promise<void> {
+        const pending = this._pendingQuestions;
+        if (!pending || pending.messageId !== messageId) {
+            this._log(`Ignoring answers to questions that are no longer open: ${messageId}`);
+            return;
+        }
+
+        await this._handleSendMessage(this._client.formatAnswers(pending.questions, answers), answers);
+    }
+
     /**
      * Handle initial phase - triggers research.
      */
@@ -208,13 +326,17 @@ export class ChatPanel {
         this._currentPhase = 'researching';
         this.postMessage({ type: 'updatePhase', phase: 'researching' });
 
-        // Perform domain research
-        this._researchResults = await this._client.research(projectDescription);
+        // Perform domain research, with the scan summary for offline providers
+        const codebaseContext = this._storageManager
+            ? await this._client.formatCodebaseContext(this._storageManager)
+            : undefined;
+        this._researchResults = await this._client.research(projectDescription, codebaseContext, this._abortController?.signal);
 
         // Save research to storage
         if (this._storageManager) {
             await this._storageManager.saveResearch(this._researchResults);
             this._log('Research saved to storage');
+            await this._loadAndSendContext();
         }
 
         // Transition to clarifying phase
@@ -230,6 +352,7 @@ export class ChatPanel {
      */
     private async _handleChatPhase(): Promise<void> {
         const assistantMessageId = this._generateId();
+        this._streamingMessageId = assistantMessageId;
 
         // Add empty assistant message for streaming
         this.postMessage({
@@ -254,20 +377,36 @@ export class ChatPanel {
             // On chunk
             (chunk) => {
                 fullContent += chunk;
+                // The questions block is shown as a form once it is complete
                 this.postMessage({
                     type: 'updateMessage',
                     id: assistantMessageId,
-                    content: fullContent
+                    content: this._client.stripQuestionsBlock(fullContent)
                 });
             },
             // On complete
             async (finalContent) => {
-                // Add to conversation history
-                this._conversationHistory.push({ role: 'assistant', content: finalContent });
-
                 // Parse for artifacts and phase transitions
                 const artifacts = this._client.parseArtifacts(finalContent);
 
+                // Add to conversation history
+                if (artifacts.questions) {
+                    this._conversationHistory.push({
+                        role: 'assistant',
+                        content: artifacts.content,
+                        questions: artifacts.questions
+                    });
+                    this._pendingQuestions = { messageId: assistantMessageId, questions: artifacts.questions };
+                    this.postMessage({
+                        type: 'updateMessage',
+                        id: assistantMessageId,
+                        content: artifacts.content,
+                        questions: this._toQuestionViews(artifacts.questions)
+                    });
+                } else {
+                    this._conversationHistory.push({ role: 'assistant', content: finalContent });
+                }
+
                 // Handle ready to generate
                 if (artifacts.readyToGenerate && this._currentPhase === 'clarifying') {
                     this._currentPhase = 'generating';
@@ -278,23 +417,159 @@ export class ChatPanel {
                     return;
                 }
 
+                // The requirements document is completed and broken down in steps
+                if (this._currentPhase === 'generating' && finalContent.includes('[REQUIREMENTS_START]')) {
+                    this._generation = {
+                        content: finalContent,
+                        continuations: 0,
+                        taskGroups: [],
+                        completedGroups: 0,
+                        tasks: []
+                    };
+                    await this._runGeneration(assistantMessageId);
+                    return;
+                }
+
                 // Handle generated artifacts
                 if (artifacts.requirements || artifacts.tasks) {
-                    await this._saveArtifacts(artifacts);
+                    await this._completeSession(artifacts);
+                }
+            },
+            this._abortController?.signal
+        );
+    }
+
+    /**
+     * Continue the generation from its checkpoint: finish a requirements
+     * document cut off by the output limit, then break it down into tasks a few
+     * functional requirements at a time. Failures are retried from the checkpoint.
+     */
+    private async _runGeneration(messageId: string): Promise<void> {
+        const generation = this._generation!;
+        const signal = this._abortController?.signal;
+        const request: ChatRequest = {
+            messages: this._conversationHistory,
+            phase: 'generating',
+            researchContext: this._researchResults
+                ? this._client.formatResearchContext(this._researchResults)
+                : undefined
+        };
+
+        while (!generation.content.includes('[REQUIREMENTS_END]')) {
+            if (generation.continuations >= MAX_CONTINUATIONS) {
+                throw new Error('The requirements document is still incomplete');
+            }
+            this.postMessage({
+                type: 'updateMessage',
+                id: messageId,
+                content: `The requirements document is long, continuing it (part ${generation.continuations + 2})...`
+            });
+            generation.content += await this._client.continueRequirements(request, generation.content, signal);
+            generation.continuations++;
+        }
+
+        // The history keeps the whole document rather than the cut-off reply
+        const reply = this._conversationHistory[this._conversationHistory.length - 1];
+        if (reply?.role === 'assistant') {
+            reply.content = generation.content;
+        }
+
+        const artifacts = this._client.parseArtifacts(generation.content);
+        const requirements = artifacts.requirements ?? '';
+        if (generation.taskGroups.length === 0) {
+            generation.taskGroups = this._client.planTaskGroups(requirements);
+        }
 
-                    this._currentPhase = 'complete';
-                    this.postMessage({ type: 'updatePhase', phase: 'complete' });
+        const groups = generation.taskGroups;
+        for (let index = generation.completedGroups; index < groups.length; index++) {
+            const step = groups.length > 1
+                ? ` (step ${index + 1} of ${groups.length}: ${groups[index].join(', ')})`
+                : '';
+            this.postMessage({
+                type: 'updateMessage',
+                id: messageId,
+                content: `${generation.content}\n\nBreaking the requirements down into tasks${step}...`
+            });
+
+            try {
+                const tasks = await this._client.generateTasks({
+                    ...request,
+                    requirements,
+                    scope: {
+                        requirementIds: groups[index],
+                        step: index + 1,
+                        totalSteps: groups.length,
+                        existingTasks: generation.tasks
+                    }
+                }, signal);
+                generation.tasks.push(...tasks);
+                generation.completedGroups = index + 1;
+            } catch (error) {
+                if (!signal?.aborted) {
+                    const message = error instanceof Error ? error.message : String(error);
                     this.postMessage({
-                        type: 'artifactsReady',
-                        hasRequirements: !!artifacts.requirements,
-                        hasTasks: !!artifacts.tasks
+                        type: 'updateMessage',
+                        id: messageId,
+                        content: `${generation.content}\n\n${message}. The requirements were saved; retry to continue with the remaining tasks.`
                     });
-
-                    // Fire session complete event for external listeners
-                    this._onSessionComplete.fire();
+                    await this._saveArtifacts({ ...artifacts, tasks: undefined });
                 }
+                throw error;
             }
-        );
+        }
+
+        this.postMessage({ type: 'updateMessage', id: messageId, content: generation.content });
+        this._generation = null;
+        await this._completeSession({ ...artifacts, tasks: generation.tasks });
+    }
+
+    /**
+     * Resume a stopped or failed generation in a new reply.
+     */
+    private async _resumeGeneration(): Promise<void> {
+        this._currentPhase = 'generating';
+        this.postMessage({ type: 'updatePhase', phase: 'generating' });
+
+        const messageId = this._generateId();
+        this._streamingMessageId = messageId;
+        this.postMessage({
+            type: 'addMessage',
+            role: 'assistant',
+            content: 'Continuing generation...',
+            id: messageId
+        });
+
+        await this._runGeneration(messageId);
+    }
+
+    /**
+     * Save generated artifacts and mark the session complete.
+     */
+    private async _completeSession(artifacts: ParsedArtifacts): Promise<void> {
+        await this._saveArtifacts(artifacts);
+
+        this._currentPhase = 'complete';
+        this.postMessage({ type: 'updatePhase', phase: 'complete' });
+        this.postMessage({
+            type: 'artifactsReady',
+            hasRequirements: !!artifacts.requirements,
+            hasTasks: !!artifacts.tasks
+        });
+
+        // Fire session complete event for external listeners
+        this._onSessionComplete.fire();
+    }
+
+    /**
+     * Attach the title of the research finding behind each question.
+     */
+    private _toQuestionViews(questions: ClarifyingQuestion[]): QuestionView[] {
+        return questions.map(q => {
+            const finding = q.findingId
+                ? this._researchResults?.findings.find(f => f.id === q.findingId)
+                : undefined;
+            return finding ? { ...q, findingTitle: finding.title } : q;
+        });
     }
 
     /**
@@ -307,12 +582,12 @@ export class ChatPanel {
         }
 
         if (artifacts.requirements) {
-            await this._storageManager.saveRequirements(artifacts.requirements);
+            await this._storageManager.saveRequirements(artifacts.requirements, 'generation');
             this._log('Requirements saved');
         }
 
         if (artifacts.tasks) {
-            await this._storageManager.saveTasks(artifacts.tasks);
+            await this._storageManager.saveTasks(artifacts.tasks, 'generation');
             this._log(`Saved ${artifacts.tasks.length} tasks`);
         }
     }
@@ -342,12 +617,19 @@ export class ChatPanel {
         this._log('Starting new conversation');
 
         // Reset conversation state
+        this._abortController?.abort();
+        this._abortController = null;
+        this._failed = null;
+        this._generation = null;
         this._conversationHistory = [];
+        this._pendingQuestions = null;
         this._currentPhase = 'initial';
         this._researchResults = null;
 
         this.postMessage({ type: 'clearMessages' });
         this.postMessage({ type: 'updatePhase', phase: 'initial' });
+        // Load research and codebase context for their tabs
+        this._loadAndSendContext();
     }
 
     /**
@@ -358,6 +640,34 @@ export class ChatPanel {
         vscode.commands.executeCommand('braingrid.viewArtifacts');
     }
 
+    /**
+     * Send stored research sessions (newest first) and the scan artifacts used
+     * as codebase context, for the Research and Codebase tabs.
+     */
+    private async _loadAndSendContext(): Promise<void> {
+        if (!this._storageManager) {
+            return;
+        }
+
+        try {
+            const research = await this._storageManager.loadResearch();
+            const sessions: ResearchSessionView[] = research.reverse().map(r => ({
+                query: r.query,
+                summary: r.summary,
+                timestamp: r.timestamp.toISOString(),
+                findings: r.findings,
+                citations: r.citations
+            }));
+            this.postMessage({ type: 'setResearchSessions', sessions });
+            this.postMessage({
+                type: 'setCodebase',
+                sections: await this._client.getCodebaseSections(this._storageManager)
+            });
+        } catch (error) {
+            this._log(`Failed to load research and codebase context: ${error}`);
+        }
+    }
+
     /**
      * Handle webview ready event.
      */
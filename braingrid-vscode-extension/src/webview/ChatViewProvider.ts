@@ -5,8 +5,8 @@
  * allowing users to chat while viewing files (Copilot-style).
  */
 import * as vscode from 'vscode';
-import { ExtensionMessage, WebviewMessage, ConversationPhase, Task } from './types';
-import { BrainGridClient, ChatMessage, ResearchResults, ParsedArtifacts, CachedSuggestions } from '../api';
+import { ExtensionMessage, WebviewMessage, ConversationPhase, QuestionView, ResearchSessionView, Task, TaskPlanningChanges } from './types';
+import { BrainGridClient, MAX_CONTINUATIONS, ChatMessage, ChatRequest, ClarifyingAnswer, ClarifyingQuestion, GenerationCheckpoint, ResearchResults, ParsedArtifacts, CachedSuggestions } from '../api';
 import { StorageManager } from '../storage';
 import { formatTaskContext } from '../commands/taskCommands';
 
@@ -22,6 +22,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     private _conversationHistory: ChatMessage[] = [];
     private _currentPhase: ConversationPhase = 'initial';
     private _researchResults: ResearchResults | null = null;
+    // Questions of the latest assistant message, answerable through the form
+    private _pendingQuestions: { messageId: string; questions: ClarifyingQuestion[] } | null = null;
+    // Request in flight, stoppable from the webview
+    private _abortController: AbortController | null = null;
+    private _streamingMessageId: string | null = null;
+    // Stopped or failed reply, and the phase retrying it runs in
+    private _failed: { messageId: string; phase: ConversationPhase } | null = null;
+    // Generation progress, kept until it completes so a retry resumes it
+    private _generation: GenerationCheckpoint | null = null;
     private _storageManager: StorageManager | null = null;
     private _codebaseContext: string | undefined;
     private _cachedSuggestions: CachedSuggestions | null = null;
@@ -84,6 +93,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this._loadAndSendArtifacts();
     }
 
+    /**
+     * Reload the codebase context after scan artifacts were updated, so the
+     * conversation and the Codebase tab reflect the current code.
+     */
+    public async refreshCodebaseContext(): Promise<void> {
+        // A conversation that has not started loads the context when it does
+        if (this._codebaseContext !== undefined) {
+            await this._loadCodebaseContext();
+        }
+        await this._loadAndSendContext();
+    }
+
     /**
      * Load existing artifacts from storage and send to webview.
      */
@@ -158,6 +179,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     case 'sendMessage':
                         this._handleSendMessage(message.text);
                         break;
+                    case 'submitAnswers':
+                        this._handleSubmitAnswers(message.messageId, message.answers);
+                        break;
+                    case 'stopGeneration':
+                        this._abortController?.abort();
+                        break;
+                    case 'retry':
+                        this._handleRetry();
+                        break;
                     case 'newConversation':
                         this._handleNewConversation();
                         break;
@@ -167,6 +197,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     case 'ready':
                         this._handleWebviewReady();
                         break;
+                    case 'loadContext':
+                        this._loadAndSendContext();
+                        break;
                     case 'copyTaskPrompt':
                         this._handleCopyTaskPrompt(message.taskId);
                         break;
@@ -179,6 +212,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     case 'toggleSubtask':
                         this._handleToggleSubtask(message.taskId, message.subtaskId);
                         break;
+                    case 'updateTask':
+                        this._handleUpdateTask(message.taskId, message.changes);
+                        break;
                 }
             }
         );
@@ -188,9 +224,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     /**
      * Handle send message command from webview.
      */
-    private async _handleSendMessage(text: string): Promise<void> {
+    private async _handleSendMessage(text: string, answers?: ClarifyingAnswer[]): Promise<void> {
         this._log(`User message: ${text}`);
 
+        // A typed reply answers the pending questions in prose
+        this._pendingQuestions = null;
+
         // Add user message to chat
         const userMessageId = this._generateId();
         this.postMessage({
@@ -201,24 +240,98 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         });
 
         // Add to conversation history
-        this._conversationHistory.push({ role: 'user', content: text });
+        this._conversationHistory.push({ role: 'user', content: text, ...(answers && { answers }) });
 
-        // Show loading state
+        await this._runRequest(() =>
+            this._currentPhase === 'initial' ? this._handleInitialPhase(text) : this._handleChatPhase()
+        );
+    }
+
+    /**
+     * Run a request that can be stopped from the webview, showing the loading state.
+     */
+    private async _runRequest(request: () => Promise<void>): Promise<void> {
+        const controller = new AbortController();
+        this._abortController = controller;
+        this._failed = null;
         this.postMessage({ type: 'setLoading', isLoading: true });
 
         try {
-            if (this._currentPhase === 'initial') {
-                await this._handleInitialPhase(text);
-            } else {
-                await this._handleChatPhase();
-            }
+            await request();
         } catch (error) {
-            this._handleError(error);
+            // A new conversation discards whatever was in flight
+            if (this._abortController === controller) {
+                this._handleFailure(error, controller.signal.aborted);
+            }
         } finally {
+            if (this._abortController === controller) {
+                this._abortController = null;
+                this._streamingMessageId = null;
+            }
             this.postMessage({ type: 'setLoading', isLoading: false });
         }
     }
 
+    /**
+     * Mark the reply as stopped or failed so it can be retried, and roll the
+     * phase back to the last one the conversation is consistent in.
+     */
+    private _handleFailure(error: unknown, stopped: boolean): void {
+        if (stopped) {
+            this._log('Request stopped');
+        } else {
+            this._handleError(error);
+        }
+
+        let messageId = this._streamingMessageId;
+        if (!messageId) {
+            messageId = this._generateId();
+            this.postMessage({
+                type: 'addMessage',
+                role: 'assistant',
+                content: stopped ? 'Stopped.' : 'Something went wrong.',
+                id: messageId
+            });
+        }
+        this.postMessage({ type: 'messageFailed', id: messageId, reason: stopped ? 'stopped' : 'error' });
+        this._failed = { messageId, phase: this._currentPhase };
+
+        const phase: ConversationPhase = this._currentPhase === 'researching'
+            ? 'initial'
+            : this._currentPhase === 'generating' ? 'clarifying' : this._currentPhase;
+        if (phase !== this._currentPhase) {
+            this._currentPhase = phase;
+            this.postMessage({ type: 'updatePhase', phase });
+        }
+    }
+
+    /**
+     * Replace the stopped or failed reply with a fresh attempt.
+     */
+    private async _handleRetry(): Promise<void> {
+        const failed = this._failed;
+        if (!failed || this._abortController) {
+            return;
+        }
+
+        this.postMessage({ type: 'removeMessage', id: failed.messageId });
+
+        if (failed.phase === 'generating' && this._generation) {
+            await this._runRequest(() => this._resumeGeneration());
+            return;
+        }
+
+        if (failed.phase === 'researching') {
+            const description = [...this._conversationHistory].reverse().find(m => m.role === 'user')?.content ?? '';
+            await this._runRequest(() => this._handleInitialPhase(description));
+            return;
+        }
+
+        this._currentPhase = failed.phase;
+        this.postMessage({ type: 'updatePhase', phase: failed.phase });
+        await this._runRequest(() => this._handleChatPhase());
+    }
+
     /**
      * Load codebase context from scan artifacts.
      */
@@ -231,6 +344,19 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Handle answers submitted through the clarifying questions form.
+     */
+    private async _handleSubmitAnswers(messageId: string, answers: ClarifyingAnswer[]): Promise<void> {
+        const pending = this._pendingQuestions;
+        if (!pending || pending.messageId !== messageId) {
+            this._log(`Ignoring answers to questions that are no longer open: ${messageId}`);
+            return;
+        }
+
+        await this._handleSendMessage(this._client.formatAnswers(pending.questions, answers), answers);
+    }
+
     /**
      * Handle initial phase - triggers research.
      */
@@ -243,12 +369,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this.postMessage({ type: 'updatePhase', phase: 'researching' });
 
         // Perform domain research
-        this._researchResults = await this._client.research(projectDescription);
+        this._researchResults = await this._client.research(projectDescription, this._codebaseContext, this._abortController?.signal);
 
         // Save research to storage
         if (this._storageManager) {
             await this._storageManager.saveResearch(this._researchResults);
             this._log('Research saved to storage');
+            await this._loadAndSendContext();
         }
 
         // Transition to clarifying phase
@@ -264,6 +391,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
      */
     private async _handleChatPhase(): Promise<void> {
         const assistantMessageId = this._generateId();
+        this._streamingMessageId = assistantMessageId;
 
         // Add empty assistant message for streaming
         this.postMessage({
@@ -289,20 +417,36 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             // On chunk
             (chunk) => {
                 fullContent += chunk;
+                // The questions block is shown as a form once it is complete
                 this.postMessage({
                     type: 'updateMessage',
                     id: assistantMessageId,
-                    content: fullContent
+                    content: this._client.stripQuestionsBlock(fullContent)
                 });
             },
             // On complete
             async (finalContent) => {
-                // Add to conversation history
-                this._conversationHistory.push({ role: 'assistant', content: finalContent });
-
                 // Parse for artifacts and phase transitions
                 const artifacts = this._client.parseArtifacts(finalContent);
 
+                // Add to conversation history
+                if (artifacts.questions) {
+                    this._conversationHistory.push({
+                        role: 'assistant',
+                        content: artifacts.content,
+                        questions: artifacts.questions
+                    });
+                    this._pendingQuestions = { messageId: assistantMessageId, questions: artifacts.questions };
+                    this.postMessage({
+                        type: 'updateMessage',
+                        id: assistantMessageId,
+                        content: artifacts.content,
+                        questions: this._toQuestionViews(artifacts.questions)
+                    });
+                } else {
+                    this._conversationHistory.push({ role: 'assistant', content: finalContent });
+                }
+
                 // Handle ready to generate
                 if (artifacts.readyToGenerate && this._currentPhase === 'clarifying') {
                     this._currentPhase = 'generating';
@@ -313,23 +457,160 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     return;
                 }
 
+                // The requirements document is completed and broken down in steps
+                if (this._currentPhase === 'generating' && finalContent.includes('[REQUIREMENTS_START]')) {
+                    this._generation = {
+                        content: finalContent,
+                        continuations: 0,
+                        taskGroups: [],
+                        completedGroups: 0,
+                        tasks: []
+                    };
+                    await this._runGeneration(assistantMessageId);
+                    return;
+                }
+
                 // Handle generated artifacts
                 if (artifacts.requirements || artifacts.tasks) {
-                    await this._saveArtifacts(artifacts);
+                    await this._completeSession(artifacts);
+                }
+            },
+            this._abortController?.signal
+        );
+    }
+
+    /**
+     * Continue the generation from its checkpoint: finish a requirements
+     * document cut off by the output limit, then break it down into tasks a few
+     * functional requirements at a time. Failures are retried from the checkpoint.
+     */
+    private async _runGeneration(messageId: string): Promise<void> {
+        const generation = this._generation!;
+        const signal = this._abortController?.signal;
+        const request: ChatRequest = {
+            messages: this._conversationHistory,
+            phase: 'generating',
+            researchContext: this._researchResults
+                ? this._client.formatResearchContext(this._researchResults)
+                : undefined,
+            codebaseContext: this._codebaseContext
+        };
+
+        while (!generation.content.includes('[REQUIREMENTS_END]')) {
+            if (generation.continuations >= MAX_CONTINUATIONS) {
+                throw new Error('The requirements document is still incomplete');
+            }
+            this.postMessage({
+                type: 'updateMessage',
+                id: messageId,
+                content: `The requirements document is long, continuing it (part ${generation.continuations + 2})...`
+            });
+            generation.content += await this._client.continueRequirements(request, generation.content, signal);
+            generation.continuations++;
+        }
 
-                    this._currentPhase = 'complete';
-                    this.postMessage({ type: 'updatePhase', phase: 'complete' });
+        // The history keeps the whole document rather than the cut-off reply
+        const reply = this._conversationHistory[this._conversationHistory.length - 1];
+        if (reply?.role === 'assistant') {
+            reply.content = generation.content;
+        }
+
+        const artifacts = this._client.parseArtifacts(generation.content);
+        const requirements = artifacts.requirements ?? '';
+        if (generation.taskGroups.length === 0) {
+            generation.taskGroups = this._client.planTaskGroups(requirements);
+        }
+
+        const groups = generation.taskGroups;
+        for (let index = generation.completedGroups; index < groups.length; index++) {
+            const step = groups.length > 1
+                ? ` (step ${index + 1} of ${groups.length}: ${groups[index].join(', ')})`
+                : '';
+            this.postMessage({
+                type: 'updateMessage',
+                id: messageId,
+                content: `${generation.content}\n\nBreaking the requirements down into tasks${step}...`
+            });
+
+            try {
+                const tasks = await this._client.generateTasks({
+                    ...request,
+                    requirements,
+                    scope: {
+                        requirementIds: groups[index],
+                        step: index + 1,
+                        totalSteps: groups.length,
+                        existingTasks: generation.tasks
+                    }
+                }, signal);
+                generation.tasks.push(...tasks);
+                generation.completedGroups = index + 1;
+            } catch (error) {
+                if (!signal?.aborted) {
+                    const message = error instanceof Error ? error.message : String(error);
                     this.postMessage({
-                        type: 'artifactsReady',
-                        hasRequirements: !!artifacts.requirements,
-                        hasTasks: !!artifacts.tasks
+                        type: 'updateMessage',
+                        id: messageId,
+                        content: `${generation.content}\n\n${message}. The requirements were saved; retry to continue with the remaining tasks.`
                     });
-
-                    // Fire session complete event for external listeners
-                    this._onSessionComplete.fire();
+                    await this._saveArtifacts({ ...artifacts, tasks: undefined });
                 }
+                throw error;
             }
-        );
+        }
+
+        this.postMessage({ type: 'updateMessage', id: messageId, content: generation.content });
+        this._generation = null;
+        await this._completeSession({ ...artifacts, tasks: generation.tasks });
+    }
+
+    /**
+     * Resume a stopped or failed generation in a new reply.
+     */
+    private async _resumeGeneration(): Promise<void> {
+        this._currentPhase = 'generating';
+        this.postMessage({ type: 'updatePhase', phase: 'generating' });
+
+        const messageId = this._generateId();
+        this._streamingMessageId = messageId;
+        this.postMessage({
+            type: 'addMessage',
+            role: 'assistant',
+            content: 'Continuing generation...',
+            id: messageId
+        });
+
+        await this._runGeneration(messageId);
+    }
+
+    /**
+     * Save generated artifacts and mark the session complete.
+     */
+    private async _completeSession(artifacts: ParsedArtifacts): Promise<void> {
+        await this._saveArtifacts(artifacts);
+
+        this._currentPhase = 'complete';
+        this.postMessage({ type: 'updatePhase', phase: 'complete' });
+        this.postMessage({
+            type: 'artifactsReady',
+            hasRequirements: !!artifacts.requirements,
+            hasTasks: !!artifacts.tasks
+        });
+
+        // Fire session complete event for external listeners
+        this._onSessionComplete.fire();
+    }
+
+    /**
+     * Attach the title of the research finding behind each question.
+     */
+    private _toQuestionViews(questions: ClarifyingQuestion[]): QuestionView[] {
+        return questions.map(q => {
+            const finding = q.findingId
+                ? this._researchResults?.findings.find(f => f.id === q.findingId)
+                : undefined;
+            return finding ? { ...q, findingTitle: finding.title } : q;
+        });
     }
 
     /**
@@ -342,14 +623,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         if (artifacts.requirements) {
-            await this._storageManager.saveRequirements(artifacts.requirements);
+            await this._storageManager.saveRequirements(artifacts.requirements, 'generation');
             this._log('Requirements saved');
             // Send to webview for display in tabs
             this.postMessage({ type: 'setRequirements', requirements: artifacts.requirements });
         }
 
         if (artifacts.tasks) {
-            await this._storageManager.saveTasks(artifacts.tasks);
+            await this._storageManager.saveTasks(artifacts.tasks, 'generation');
             this._log(`Saved ${artifacts.tasks.length} tasks`);
             // Send to webview for display in tabs
             this.postMessage({ type: 'setTasks', tasks: this._formatTasksForWebview(artifacts.tasks) });
@@ -381,7 +662,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this._log('Starting new conversation');
 
         // Reset conversation state
+        this._abortController?.abort();
+        this._abortController = null;
+        this._failed = null;
+        this._generation = null;
         this._conversationHistory = [];
+        this._pendingQuestions = null;
         this._currentPhase = 'initial';
         this._researchResults = null;
         this._codebaseContext = undefined;
@@ -398,6 +684,34 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         vscode.commands.executeCommand('braingrid.viewArtifacts');
     }
 
+    /**
+     * Send stored research sessions (newest first) and the scan artifacts used
+     * as codebase context, for the Research and Codebase tabs.
+     */
+    private async _loadAndSendContext(): Promise<void> {
+        if (!this._storageManager) {
+            return;
+        }
+
+        try {
+            const research = await this._storageManager.loadResearch();
+            const sessions: ResearchSessionView[] = research.reverse().map(r => ({
+                query: r.query,
+                summary: r.summary,
+                timestamp: r.timestamp.toISOString(),
+                findings: r.findings,
+                citations: r.citations
+            }));
+            this.postMessage({ type: 'setResearchSessions', sessions });
+            this.postMessage({
+                type: 'setCodebase',
+                sections: await this._client.getCodebaseSections(this._storageManager)
+            });
+        } catch (error) {
+            this._log(`Failed to load research and codebase context: ${error}`);
+        }
+    }
+
     /**
      * Handle webview ready event.
      */
@@ -409,6 +723,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this._loadAndSendSuggestions();
         // Load existing artifacts from storage
         this._loadAndSendArtifacts();
+        // Load research and codebase context for their tabs
+        this._loadAndSendContext();
     }
 
     /**
@@ -716,6 +1032,48 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Handle edits to a task's planning fields (dependencies, estimate, priority, requirement).
+     */
+    private async _handleUpdateTask(taskId: string, changes: TaskPlanningChanges): Promise<void> {
+        if (!this._storageManager) {
+            this._log('No StorageManager available for update task');
+            return;
+        }
+
+        try {
+            const tasks = await this._storageManager.loadTasks();
+            const task = tasks?.find(t => t.id === taskId);
+            if (!task) {
+                this._log(`Task not found: ${taskId}`);
+                return;
+            }
+
+            if (changes.dependsOn !== undefined) {
+                // Drop self-references and ids that no longer exist
+                const taskIds = new Set(tasks.map(t => t.id));
+                task.dependsOn = changes.dependsOn.filter(id => id !== taskId && taskIds.has(id));
+            }
+            if (changes.estimate !== undefined) {
+                task.estimate = changes.estimate;
+            }
+            if (changes.priority !== undefined) {
+                task.priority = changes.priority;
+            }
+            if (changes.requirementId !== undefined) {
+                task.requirementId = changes.requirementId ?? undefined;
+            }
+
+            await this._storageManager.saveTasks(tasks);
+            this.postMessage({ type: 'setTasks', tasks: this._formatTasksForWebview(tasks) });
+
+            this._log(`Updated planning fields for task "${task.title}"`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this._log(`Error updating task: ${message}`);
+        }
+    }
+
     /**
      * Format codebase summary from artifact content.
      */
@@ -759,7 +1117,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 title: s.title,
                 completed: s.completed || false
             })),
-            acceptanceCriteria: task.acceptanceCriteria || []
+            acceptanceCriteria: task.acceptanceCriteria || [],
+            dependsOn: task.dependsOn || [],
+            estimate: task.estimate,
+            priority: task.priority,
+            requirementId: task.requirementId
         }));
     }
 
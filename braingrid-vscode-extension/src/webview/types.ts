@@ -1,6 +1,13 @@
 /**
  * Message protocol types for extension ↔ webview communication.
  */
+import type {
+    ClarifyingAnswer,
+    ClarifyingQuestion,
+    CodebaseSection,
+    ResearchCitation,
+    ResearchFinding
+} from '../api/types';
 
 /**
  * Conversation phases in the BrainGrid workflow.
@@ -12,6 +19,13 @@ export type ConversationPhase =
     | 'generating'
     | 'complete';
 
+/**
+ * Clarifying question as shown in the answer form.
+ */
+export interface QuestionView extends ClarifyingQuestion {
+    findingTitle?: string;   // Title of the research finding behind the question
+}
+
 /**
  * Chat message structure.
  */
@@ -20,6 +34,8 @@ export interface ChatMessage {
     role: 'user' | 'assistant';
     content: string;
     timestamp: Date;
+    questions?: QuestionView[];
+    failure?: 'stopped' | 'error';
 }
 
 /**
@@ -31,6 +47,16 @@ export interface Subtask {
     completed: boolean;
 }
 
+/**
+ * Editable planning fields of a task.
+ */
+export interface TaskPlanningChanges {
+    dependsOn?: string[];
+    estimate?: 'XS' | 'S' | 'M' | 'L' | 'XL';
+    priority?: 'must-have' | 'should-have' | 'nice-to-have';
+    requirementId?: string | null;   // null clears the link
+}
+
 /**
  * Task structure for the tasks tab.
  */
@@ -41,6 +67,21 @@ export interface Task {
     completed: boolean;
     subtasks: Subtask[];
     acceptanceCriteria: string[];
+    dependsOn?: string[];
+    estimate?: 'XS' | 'S' | 'M' | 'L' | 'XL';
+    priority?: 'must-have' | 'should-have' | 'nice-to-have';
+    requirementId?: string;
+}
+
+/**
+ * Stored research session for the research tab.
+ */
+export interface ResearchSessionView {
+    query: string;
+    summary: string;
+    timestamp: string;   // ISO8601
+    findings: ResearchFinding[];
+    citations?: ResearchCitation[];
 }
 
 /**
@@ -48,7 +89,9 @@ export interface Task {
  */
 export type ExtensionMessage =
     | { type: 'addMessage'; role: 'user' | 'assistant'; content: string; id: string }
-    | { type: 'updateMessage'; id: string; content: string }
+    | { type: 'updateMessage'; id: string; content: string; questions?: QuestionView[] }
+    | { type: 'messageFailed'; id: string; reason: 'stopped' | 'error' }
+    | { type: 'removeMessage'; id: string }
     | { type: 'updatePhase'; phase: ConversationPhase }
     | { type: 'setLoading'; isLoading: boolean }
     | { type: 'clearMessages' }
@@ -57,6 +100,8 @@ export type ExtensionMessage =
     | { type: 'setSuggestions'; suggestions: string[] }
     | { type: 'setRequirements'; requirements: string | null }
     | { type: 'setTasks'; tasks: Task[] }
+    | { type: 'setResearchSessions'; sessions: ResearchSessionView[] }
+    | { type: 'setCodebase'; sections: CodebaseSection[] }
     | { type: 'actionResult'; action: 'copy' | 'claudeCode'; success: boolean; message?: string };
 
 /**
@@ -64,10 +109,15 @@ export type ExtensionMessage =
  */
 export type WebviewMessage =
     | { command: 'sendMessage'; text: string }
+    | { command: 'submitAnswers'; messageId: string; answers: ClarifyingAnswer[] }
+    | { command: 'stopGeneration' }
+    | { command: 'retry' }
     | { command: 'newConversation' }
     | { command: 'viewArtifacts' }
     | { command: 'ready' }
+    | { command: 'loadContext' }
     | { command: 'copyTaskPrompt'; taskId: string }
     | { command: 'sendTaskToClaudeCode'; taskId: string }
     | { command: 'toggleTask'; taskId: string }
-    | { command: 'toggleSubtask'; taskId: string; subtaskId: string };
+    | { command: 'toggleSubtask'; taskId: string; subtaskId: string }
+    | { command: 'updateTask'; taskId: string; changes: TaskPlanningChanges };
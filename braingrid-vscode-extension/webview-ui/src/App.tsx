@@ -5,6 +5,10 @@ import PhaseIndicator from './components/PhaseIndicator';
 import TabNavigation, { TabType } from './components/TabNavigation';
 import RequirementsTab from './components/RequirementsTab';
 import TasksTab from './components/TasksTab';
+import ResearchTab, { ResearchSession } from './components/ResearchTab';
+import CodebaseTab, { CodebaseSection } from './components/CodebaseTab';
+import { TaskPlanningChanges } from './components/TaskCard';
+import { ClarifyingQuestion, ClarifyingAnswer } from './components/ClarifyingQuestions';
 
 /**
  * Conversation phases in the BrainGrid workflow.
@@ -24,6 +28,8 @@ interface Message {
     role: 'user' | 'assistant';
     content: string;
     timestamp: Date;
+    questions?: ClarifyingQuestion[];
+    failure?: 'stopped' | 'error';
 }
 
 /**
@@ -45,6 +51,10 @@ interface Task {
     completed: boolean;
     subtasks: Subtask[];
     acceptanceCriteria: string[];
+    dependsOn?: string[];
+    estimate?: 'XS' | 'S' | 'M' | 'L' | 'XL';
+    priority?: 'must-have' | 'should-have' | 'nice-to-have';
+    requirementId?: string;
 }
 
 /**
@@ -52,7 +62,9 @@ interface Task {
  */
 type ExtensionMessage =
     | { type: 'addMessage'; role: 'user' | 'assistant'; content: string; id: string }
-    | { type: 'updateMessage'; id: string; content: string }
+    | { type: 'updateMessage'; id: string; content: string; questions?: ClarifyingQuestion[] }
+    | { type: 'messageFailed'; id: string; reason: 'stopped' | 'error' }
+    | { type: 'removeMessage'; id: string }
     | { type: 'updatePhase'; phase: ConversationPhase }
     | { type: 'setLoading'; isLoading: boolean }
     | { type: 'clearMessages' }
@@ -61,6 +73,8 @@ type ExtensionMessage =
     | { type: 'setSuggestions'; suggestions: string[] }
     | { type: 'setRequirements'; requirements: string | null }
     | { type: 'setTasks'; tasks: Task[] }
+    | { type: 'setResearchSessions'; sessions: ResearchSession[] }
+    | { type: 'setCodebase'; sections: CodebaseSection[] }
     | { type: 'actionResult'; action: 'copy' | 'claudeCode'; success: boolean; message?: string };
 
 // Get VS Code API
@@ -83,6 +97,8 @@ function App() {
     const [activeTab, setActiveTab] = useState<TabType>('chat');
     const [requirements, setRequirements] = useState<string | null>(null);
     const [tasks, setTasks] = useState<Task[]>([]);
+    const [researchSessions, setResearchSessions] = useState<ResearchSession[]>([]);
+    const [codebase, setCodebase] = useState<CodebaseSection[]>([]);
 
     // Toast notification state
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'info' } | null>(null);
@@ -128,11 +144,22 @@ function App() {
                     // Update existing message content (streaming)
                     setMessages(prev => prev.map(msg =>
                         msg.id === message.id
-                            ? { ...msg, content: message.content }
+                            ? { ...msg, content: message.content, ...(message.questions && { questions: message.questions }) }
                             : msg
                     ));
                     break;
 
+                case 'messageFailed':
+                    setMessages(prev => prev.map(msg =>
+                        msg.id === message.id ? { ...msg, failure: message.reason } : msg
+                    ));
+                    setStreamingMessageId(null);
+                    break;
+
+                case 'removeMessage':
+                    setMessages(prev => prev.filter(msg => msg.id !== message.id));
+                    break;
+
                 case 'updatePhase':
                     setPhase(message.phase);
                     // Clear streaming when phase changes
@@ -183,6 +210,14 @@ function App() {
                     }
                     break;
 
+                case 'setResearchSessions':
+                    setResearchSessions(message.sessions);
+                    break;
+
+                case 'setCodebase':
+                    setCodebase(message.sections);
+                    break;
+
                 case 'actionResult':
                     // Show toast notification with message from extension
                     if (message.action === 'copy') {
@@ -214,6 +249,29 @@ function App() {
         vscode.postMessage({ command: 'sendMessage', text: text.trim() });
     };
 
+    /**
+     * Send answers to the open clarifying questions.
+     */
+    const handleSubmitAnswers = (messageId: string, answers: ClarifyingAnswer[]) => {
+        if (isLoading) return;
+        vscode.postMessage({ command: 'submitAnswers', messageId, answers });
+    };
+
+    /**
+     * Stop the request in flight; the extension marks the reply as stopped.
+     */
+    const handleStop = () => {
+        vscode.postMessage({ command: 'stopGeneration' });
+    };
+
+    /**
+     * Retry the stopped or failed reply.
+     */
+    const handleRetry = () => {
+        if (isLoading) return;
+        vscode.postMessage({ command: 'retry' });
+    };
+
     /**
      * Start a new conversation.
      */
@@ -235,6 +293,17 @@ function App() {
         handleSendMessage(prompt);
     };
 
+    /**
+     * Switch tabs; research and scans can change outside the webview, so
+     * their tabs are reloaded when opened.
+     */
+    const handleTabChange = (tab: TabType) => {
+        setActiveTab(tab);
+        if (tab === 'research' || tab === 'codebase') {
+            vscode.postMessage({ command: 'loadContext' });
+        }
+    };
+
     /**
      * Toggle task completion.
      */
@@ -264,6 +333,14 @@ function App() {
         ));
     };
 
+    /**
+     * Update a task's planning fields.
+     */
+    const handleUpdateTask = (taskId: string, changes: TaskPlanningChanges) => {
+        // The extension validates the change and replies with setTasks once saved
+        vscode.postMessage({ command: 'updateTask', taskId, changes });
+    };
+
     /**
      * Copy task prompt to clipboard.
      */
@@ -279,6 +356,11 @@ function App() {
     };
 
     const showWelcome = messages.length === 0 && !isLoading;
+    // Only the latest questions can be answered through the form
+    const lastMessage = messages[messages.length - 1];
+    const openQuestionsId = phase === 'clarifying' && lastMessage?.role === 'assistant' && lastMessage.questions
+        ? lastMessage.id
+        : null;
     const completedTasks = tasks.filter(t => t.completed).length;
 
     return (
@@ -311,10 +393,12 @@ function App() {
             {/* Tab Navigation */}
             <TabNavigation
                 activeTab={activeTab}
-                onTabChange={(tab) => setActiveTab(tab as TabType)}
+                onTabChange={handleTabChange}
                 hasRequirements={!!requirements}
                 hasTasks={tasks.length > 0}
                 taskProgress={tasks.length > 0 ? { completed: completedTasks, total: tasks.length } : undefined}
+                researchCount={researchSessions.length}
+                hasCodebase={codebase.length > 0}
             />
 
             {/* Error banner */}
@@ -363,6 +447,13 @@ function App() {
                                 key={message.id}
                                 message={message}
                                 isStreaming={message.id === streamingMessageId}
+                                onSubmitAnswers={message.id === openQuestionsId
+                                    ? (answers) => handleSubmitAnswers(message.id, answers)
+                                    : undefined}
+                                answersDisabled={isLoading}
+                                onRetry={message.failure && message.id === lastMessage?.id && !isLoading
+                                    ? handleRetry
+                                    : undefined}
                             />
                         ))}
                         {isLoading && (
@@ -390,13 +481,23 @@ function App() {
             {activeTab === 'tasks' && (
                 <TasksTab
                     tasks={tasks}
+                    requirements={requirements}
                     onToggleTask={handleToggleTask}
                     onToggleSubtask={handleToggleSubtask}
+                    onUpdateTask={handleUpdateTask}
                     onCopyPrompt={handleCopyPrompt}
                     onSendToClaudeCode={handleSendToClaudeCode}
                 />
             )}
 
+            {activeTab === 'research' && (
+                <ResearchTab sessions={researchSessions} />
+            )}
+
+            {activeTab === 'codebase' && (
+                <CodebaseTab sections={codebase} />
+            )}
+
             {/* Artifacts ready banner - only show in chat tab */}
             {activeTab === 'chat' && artifactsAvailable && (
                 <div className="artifacts-ready-banner">
@@ -409,6 +510,7 @@ function App() {
             {activeTab === 'chat' && (
                 <ChatInput
                     onSend={handleSendMessage}
+                    onStop={isLoading ? handleStop : undefined}
                     disabled={isLoading}
                     placeholder={
                         showWelcome
@@ -2,6 +2,8 @@ import { useState, useRef, useEffect, KeyboardEvent, ChangeEvent } from 'react';
 
 interface ChatInputProps {
     onSend: (message: string) => void;
+    // Shown instead of Send while a request is in flight
+    onStop?: () => void;
     disabled?: boolean;
     placeholder?: string;
 }
@@ -9,8 +11,9 @@ interface ChatInputProps {
 /**
  * ChatInput component provides a textarea with auto-resize and send button.
  * Enter sends the message, Shift+Enter creates a new line.
+ * While a request is in flight the send button becomes a stop button.
  */
-function ChatInput({ onSend, disabled = false, placeholder = 'Type your message...' }: ChatInputProps) {
+function ChatInput({ onSend, onStop, disabled = false, placeholder = 'Type your message...' }: ChatInputProps) {
     const [value, setValue] = useState('');
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -68,13 +71,19 @@ function ChatInput({ onSend, disabled = false, placeholder = 'Type your message.
                     disabled={disabled}
                     rows={1}
                 />
-                <button
-                    className="send-button"
-                    onClick={handleSend}
-                    disabled={disabled || !value.trim()}
-                >
-                    Send
-                </button>
+                {onStop ? (
+                    <button className="send-button stop-button" onClick={onStop}>
+                        Stop
+                    </button>
+                ) : (
+                    <button
+                        className="send-button"
+                        onClick={handleSend}
+                        disabled={disabled || !value.trim()}
+                    >
+                        Send
+                    </button>
+                )}
             </div>
         </div>
     );
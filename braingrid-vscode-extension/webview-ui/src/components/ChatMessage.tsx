@@ -1,4 +1,5 @@
 import ReactMarkdown from 'react-markdown';
+import ClarifyingQuestions, { ClarifyingQuestion, ClarifyingAnswer } from './ClarifyingQuestions';
 
 /**
  * Chat message structure.
@@ -8,19 +9,33 @@ interface Message {
     role: 'user' | 'assistant';
     content: string;
     timestamp: Date;
+    questions?: ClarifyingQuestion[];
+    failure?: 'stopped' | 'error';
 }
 
 interface ChatMessageProps {
     message: Message;
     isStreaming?: boolean;
+    // Set when the message's questions are still open
+    onSubmitAnswers?: (answers: ClarifyingAnswer[]) => void;
+    answersDisabled?: boolean;
+    // Set when the message can be retried
+    onRetry?: () => void;
 }
 
 /**
  * ChatMessage component displays a single chat message.
  * User messages are right-aligned, assistant messages are left-aligned.
- * Assistant messages render markdown content.
+ * Assistant messages render markdown content, followed by an answer form
+ * while their clarifying questions are open.
  */
-function ChatMessage({ message, isStreaming = false }: ChatMessageProps) {
+function ChatMessage({
+    message,
+    isStreaming = false,
+    onSubmitAnswers,
+    answersDisabled = false,
+    onRetry
+}: ChatMessageProps) {
     const isUser = message.role === 'user';
 
     return (
@@ -35,6 +50,21 @@ function ChatMessage({ message, isStreaming = false }: ChatMessageProps) {
                     </>
                 )}
             </div>
+            {message.failure && (
+                <div className="message-failure">
+                    <span>{message.failure === 'stopped' ? 'Stopped' : 'Failed'}</span>
+                    {onRetry && (
+                        <button className="retry-button" onClick={onRetry}>Retry</button>
+                    )}
+                </div>
+            )}
+            {onSubmitAnswers && message.questions && (
+                <ClarifyingQuestions
+                    questions={message.questions}
+                    disabled={answersDisabled}
+                    onSubmit={onSubmitAnswers}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,166 @@
+/**
+ * ClarifyingQuestions - Answer form for the assistant's structured clarifying questions.
+ */
+import { useState } from 'react';
+
+/**
+ * Clarifying question with the research finding that motivated it.
+ */
+export interface ClarifyingQuestion {
+    id: string;
+    type: 'single_choice' | 'multi_choice' | 'free_text' | 'numeric';
+    prompt: string;
+    options?: string[];
+    unit?: string;
+    min?: number;
+    max?: number;
+    findingTitle?: string;
+}
+
+/**
+ * Answer to a question; null when skipped.
+ */
+export interface ClarifyingAnswer {
+    questionId: string;
+    value: string | string[] | number | null;
+}
+
+type AnswerValue = ClarifyingAnswer['value'];
+
+interface ClarifyingQuestionsProps {
+    questions: ClarifyingQuestion[];
+    disabled?: boolean;
+    onSubmit: (answers: ClarifyingAnswer[]) => void;
+}
+
+/**
+ * Whether a value counts as answered; empty input counts as skipped.
+ */
+function hasAnswer(value: AnswerValue | undefined): boolean {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'number') return Number.isFinite(value);
+    if (typeof value === 'string') return value.trim().length > 0;
+    return value.length > 0;
+}
+
+/**
+ * ClarifyingQuestions renders one widget per question.
+ * Unanswered questions are sent as skipped.
+ */
+function ClarifyingQuestions({ questions, disabled = false, onSubmit }: ClarifyingQuestionsProps) {
+    const [values, setValues] = useState<Record<string, AnswerValue>>({});
+
+    const answered = questions.filter(q => hasAnswer(values[q.id])).length;
+
+    const setValue = (id: string, value: AnswerValue) => {
+        setValues(prev => ({ ...prev, [id]: value }));
+    };
+
+    /**
+     * Toggle an option of a multiple choice question, keeping option order.
+     */
+    const toggleOption = (question: ClarifyingQuestion, option: string) => {
+        const selected = Array.isArray(values[question.id]) ? values[question.id] as string[] : [];
+        setValue(
+            question.id,
+            selected.includes(option)
+                ? selected.filter(o => o !== option)
+                : (question.options ?? []).filter(o => o === option || selected.includes(o))
+        );
+    };
+
+    /**
+     * Send all answers, skipped ones as null.
+     */
+    const handleSubmit = () => {
+        if (disabled || answered === 0) return;
+        onSubmit(questions.map(q => ({
+            questionId: q.id,
+            value: hasAnswer(values[q.id]) ? values[q.id] : null
+        })));
+    };
+
+    return (
+        <div className="questions-form">
+            {questions.map((question, index) => {
+                const value = values[question.id];
+                return (
+                    <div key={question.id} className="question">
+                        <div className="question-prompt">
+                            {index + 1}. {question.prompt}
+                        </div>
+                        {question.findingTitle && (
+                            <div className="question-finding">From research: {question.findingTitle}</div>
+                        )}
+
+                        {question.type === 'single_choice' && question.options?.map(option => (
+                            <label key={option} className="question-option">
+                                <input
+                                    type="radio"
+                                    name={question.id}
+                                    checked={value === option}
+                                    disabled={disabled}
+                                    onChange={() => setValue(question.id, option)}
+                                />
+                                {option}
+                            </label>
+                        ))}
+
+                        {question.type === 'multi_choice' && question.options?.map(option => (
+                            <label key={option} className="question-option">
+                                <input
+                                    type="checkbox"
+                                    checked={Array.isArray(value) && value.includes(option)}
+                                    disabled={disabled}
+                                    onChange={() => toggleOption(question, option)}
+                                />
+                                {option}
+                            </label>
+                        ))}
+
+                        {question.type === 'numeric' && (
+                            <div className="question-numeric">
+                                <input
+                                    type="number"
+                                    className="question-input"
+                                    min={question.min}
+                                    max={question.max}
+                                    value={typeof value === 'number' ? value : ''}
+                                    disabled={disabled}
+                                    onChange={(e) => setValue(
+                                        question.id,
+                                        e.target.value === '' ? null : e.target.valueAsNumber
+                                    )}
+                                />
+                                {question.unit && <span>{question.unit}</span>}
+                            </div>
+                        )}
+
+                        {question.type === 'free_text' && (
+                            <textarea
+                                className="question-input"
+                                rows={2}
+                                value={typeof value === 'string' ? value : ''}
+                                disabled={disabled}
+                                onChange={(e) => setValue(question.id, e.target.value)}
+                            />
+                        )}
+                    </div>
+                );
+            })}
+
+            <div className="questions-footer">
+                <span>{answered} of {questions.length} answered</span>
+                <button
+                    className="send-button"
+                    onClick={handleSubmit}
+                    disabled={disabled || answered === 0}
+                >
+                    {answered < questions.length ? 'Send, skip the rest' : 'Send answers'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default ClarifyingQuestions;
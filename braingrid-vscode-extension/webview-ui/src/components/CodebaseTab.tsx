@@ -0,0 +1,68 @@
+/**
+ * CodebaseTab - Shows the scan artifacts sent to the model as codebase context.
+ */
+import ReactMarkdown from 'react-markdown';
+import { markdownComponents } from './RequirementsTab';
+
+/**
+ * One part of the codebase context: generated documentation or a JSON summary.
+ */
+export interface CodebaseSection {
+    type: 'summary' | 'architecture' | 'dataModel' | 'workflow';
+    title: string;
+    content: string;
+    source: 'docs' | 'summary';
+    generatedAt: string;
+    incomplete?: boolean;
+}
+
+interface CodebaseTabProps {
+    sections: CodebaseSection[];
+}
+
+function CodebaseTab({ sections }: CodebaseTabProps) {
+    if (sections.length === 0) {
+        return (
+            <div className="tab-empty-state">
+                <div className="empty-icon">
+                    <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                        <polyline points="16 18 22 12 16 6" />
+                        <polyline points="8 6 2 12 8 18" />
+                    </svg>
+                </div>
+                <h3 className="empty-title">No Codebase Scan</h3>
+                <p className="empty-description">
+                    Run "BrainGrid: Scan Project" to analyze this workspace and use it as context.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="requirements-tab">
+            <div className="requirements-header">
+                <span className="requirements-title">Codebase Context</span>
+            </div>
+            <div className="requirements-content">
+                {sections.map(section => (
+                    <div key={section.type} className="codebase-section">
+                        <div className="codebase-section-meta">
+                            <span className="task-meta-badge">
+                                {section.source === 'docs' ? 'Documentation' : 'Scan summary'}
+                            </span>
+                            {section.incomplete && (
+                                <span className="task-meta-badge priority-should-have">Incomplete scan</span>
+                            )}
+                            <span>{new Date(section.generatedAt).toLocaleString()}</span>
+                        </div>
+                        <ReactMarkdown components={markdownComponents}>
+                            {section.content}
+                        </ReactMarkdown>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default CodebaseTab;
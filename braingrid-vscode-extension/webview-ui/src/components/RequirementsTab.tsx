@@ -1,7 +1,24 @@
 /**
  * RequirementsTab - Displays generated requirements as formatted markdown.
  */
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { type Components } from 'react-markdown';
+
+/**
+ * Markdown elements styled for the webview, shared with the Codebase tab.
+ */
+export const markdownComponents: Components = {
+    h1: ({ children }) => <h1 className="md-h1">{children}</h1>,
+    h2: ({ children }) => <h2 className="md-h2">{children}</h2>,
+    h3: ({ children }) => <h3 className="md-h3">{children}</h3>,
+    p: ({ children }) => <p className="md-p">{children}</p>,
+    ul: ({ children }) => <ul className="md-ul">{children}</ul>,
+    ol: ({ children }) => <ol className="md-ol">{children}</ol>,
+    li: ({ children }) => <li className="md-li">{children}</li>,
+    code: ({ children }) => <code className="md-code">{children}</code>,
+    pre: ({ children }) => <pre className="md-pre">{children}</pre>,
+    blockquote: ({ children }) => <blockquote className="md-blockquote">{children}</blockquote>,
+    strong: ({ children }) => <strong className="md-strong">{children}</strong>,
+};
 
 interface RequirementsTabProps {
     requirements: string | null;
@@ -34,21 +51,7 @@ function RequirementsTab({ requirements }: RequirementsTabProps) {
                 <span className="requirements-title">Project Requirements</span>
             </div>
             <div className="requirements-content">
-                <ReactMarkdown
-                    components={{
-                        h1: ({ children }) => <h1 className="md-h1">{children}</h1>,
-                        h2: ({ children }) => <h2 className="md-h2">{children}</h2>,
-                        h3: ({ children }) => <h3 className="md-h3">{children}</h3>,
-                        p: ({ children }) => <p className="md-p">{children}</p>,
-                        ul: ({ children }) => <ul className="md-ul">{children}</ul>,
-                        ol: ({ children }) => <ol className="md-ol">{children}</ol>,
-                        li: ({ children }) => <li className="md-li">{children}</li>,
-                        code: ({ children }) => <code className="md-code">{children}</code>,
-                        pre: ({ children }) => <pre className="md-pre">{children}</pre>,
-                        blockquote: ({ children }) => <blockquote className="md-blockquote">{children}</blockquote>,
-                        strong: ({ children }) => <strong className="md-strong">{children}</strong>,
-                    }}
-                >
+                <ReactMarkdown components={markdownComponents}>
                     {requirements}
                 </ReactMarkdown>
             </div>
@@ -0,0 +1,150 @@
+/**
+ * ResearchTab - Browses the stored research sessions with category filtering.
+ */
+import { useState } from 'react';
+
+/**
+ * Research finding.
+ */
+export interface ResearchFinding {
+    id: string;
+    category: 'concept' | 'best_practice' | 'pitfall' | 'edge_case' | 'technical';
+    title: string;
+    content: string;
+    citations?: number[];
+    relevance: 'high' | 'medium' | 'low';
+}
+
+/**
+ * Stored research session, newest first.
+ */
+export interface ResearchSession {
+    query: string;
+    summary: string;
+    timestamp: string;
+    findings: ResearchFinding[];
+    citations?: { index: number; title: string; url?: string }[];
+}
+
+type Category = ResearchFinding['category'];
+
+const CATEGORY_LABELS: Record<Category, string> = {
+    concept: 'Concepts',
+    best_practice: 'Best Practices',
+    pitfall: 'Pitfalls',
+    edge_case: 'Edge Cases',
+    technical: 'Technical'
+};
+
+const RELEVANCE_ORDER = { high: 0, medium: 1, low: 2 };
+
+interface ResearchTabProps {
+    sessions: ResearchSession[];
+}
+
+function ResearchTab({ sessions }: ResearchTabProps) {
+    const [sessionIndex, setSessionIndex] = useState(0);
+    const [category, setCategory] = useState<Category | 'all'>('all');
+
+    if (sessions.length === 0) {
+        return (
+            <div className="tab-empty-state">
+                <div className="empty-icon">
+                    <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                        <circle cx="11" cy="11" r="8" />
+                        <line x1="21" y1="21" x2="16.65" y2="16.65" />
+                    </svg>
+                </div>
+                <h3 className="empty-title">No Research Yet</h3>
+                <p className="empty-description">
+                    Describe your project in the Chat tab and BrainGrid researches its domain first.
+                </p>
+            </div>
+        );
+    }
+
+    // A new session arriving can shorten the list under the current selection
+    const session = sessions[Math.min(sessionIndex, sessions.length - 1)];
+    const counts = session.findings.reduce((acc, f) => {
+        acc[f.category] = (acc[f.category] ?? 0) + 1;
+        return acc;
+    }, {} as Partial<Record<Category, number>>);
+    const findings = session.findings
+        .filter(f => category === 'all' || f.category === category)
+        .sort((a, b) => RELEVANCE_ORDER[a.relevance] - RELEVANCE_ORDER[b.relevance]);
+    const citations = new Map((session.citations ?? []).map(c => [c.index, c]));
+
+    return (
+        <div className="research-tab">
+            <div className="research-header">
+                <select
+                    className="research-session-select"
+                    value={sessionIndex}
+                    onChange={(e) => {
+                        setSessionIndex(Number(e.target.value));
+                        setCategory('all');
+                    }}
+                >
+                    {sessions.map((s, index) => (
+                        <option key={`${s.timestamp}-${index}`} value={index}>
+                            {new Date(s.timestamp).toLocaleString()} — {s.query.slice(0, 60)}
+                        </option>
+                    ))}
+                </select>
+                <div className="research-filters">
+                    <button
+                        className={`research-filter ${category === 'all' ? 'active' : ''}`}
+                        onClick={() => setCategory('all')}
+                    >
+                        All ({session.findings.length})
+                    </button>
+                    {(Object.keys(CATEGORY_LABELS) as Category[])
+                        .filter(c => counts[c])
+                        .map(c => (
+                            <button
+                                key={c}
+                                className={`research-filter ${category === c ? 'active' : ''}`}
+                                onClick={() => setCategory(c)}
+                            >
+                                {CATEGORY_LABELS[c]} ({counts[c]})
+                            </button>
+                        ))}
+                </div>
+            </div>
+
+            <div className="research-content">
+                {session.summary && <p className="research-summary">{session.summary}</p>}
+
+                {findings.map(finding => (
+                    <div key={finding.id} className="research-finding">
+                        <div className="research-finding-header">
+                            <span className="research-finding-title">{finding.title}</span>
+                            <span className={`task-meta-badge relevance-${finding.relevance}`}>
+                                {finding.relevance}
+                            </span>
+                        </div>
+                        <div className="research-finding-category">{CATEGORY_LABELS[finding.category]}</div>
+                        <p className="research-finding-content">{finding.content}</p>
+                        {finding.citations && finding.citations.length > 0 && (
+                            <div className="research-citations">
+                                {finding.citations.map(index => {
+                                    const citation = citations.get(index);
+                                    if (!citation) return null;
+                                    return citation.url ? (
+                                        <a key={index} href={citation.url} title={citation.url}>
+                                            [{index}] {citation.title}
+                                        </a>
+                                    ) : (
+                                        <span key={index}>[{index}] {citation.title}</span>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default ResearchTab;
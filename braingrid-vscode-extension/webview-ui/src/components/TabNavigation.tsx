@@ -1,8 +1,8 @@
 /**
- * TabNavigation - Tab header for switching between Chat, Requirements, and Tasks views.
+ * TabNavigation - Tab header for switching between Chat, Requirements, Tasks, Research and Codebase views.
  */
 
-export type TabType = 'chat' | 'requirements' | 'tasks';
+export type TabType = 'chat' | 'requirements' | 'tasks' | 'research' | 'codebase';
 
 interface TabNavigationProps {
     activeTab: TabType;
@@ -10,6 +10,8 @@ interface TabNavigationProps {
     hasRequirements: boolean;
     hasTasks: boolean;
     taskProgress?: { completed: number; total: number };
+    researchCount: number;       // Stored research sessions
+    hasCodebase: boolean;
 }
 
 function TabNavigation({
@@ -17,7 +19,9 @@ function TabNavigation({
     onTabChange,
     hasRequirements,
     hasTasks,
-    taskProgress
+    taskProgress,
+    researchCount,
+    hasCodebase
 }: TabNavigationProps) {
     return (
         <div className="tab-navigation">
@@ -46,6 +50,20 @@ function TabNavigation({
                 )}
                 {hasTasks && !taskProgress && <span className="tab-indicator" />}
             </button>
+            <button
+                className={`tab-button ${activeTab === 'research' ? 'active' : ''}`}
+                onClick={() => onTabChange('research')}
+            >
+                Research
+                {researchCount > 0 && <span className="tab-progress">{researchCount}</span>}
+            </button>
+            <button
+                className={`tab-button ${activeTab === 'codebase' ? 'active' : ''}`}
+                onClick={() => onTabChange('codebase')}
+            >
+                Codebase
+                {hasCodebase && <span className="tab-indicator" />}
+            </button>
         </div>
     );
 }
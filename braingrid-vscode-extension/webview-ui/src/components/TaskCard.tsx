@@ -2,6 +2,27 @@
  * TaskCard - Expandable card for a single task with subtasks, criteria, and actions.
  */
 
+type TaskPriority = 'must-have' | 'should-have' | 'nice-to-have';
+type TaskEstimate = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
+/**
+ * Editable planning fields; requirementId null clears the link.
+ */
+export interface TaskPlanningChanges {
+    dependsOn?: string[];
+    estimate?: TaskEstimate;
+    priority?: TaskPriority;
+    requirementId?: string | null;
+}
+
+const PRIORITY_LABELS: Record<TaskPriority, string> = {
+    'must-have': 'Must-have',
+    'should-have': 'Should-have',
+    'nice-to-have': 'Nice-to-have'
+};
+
+const ESTIMATES: TaskEstimate[] = ['XS', 'S', 'M', 'L', 'XL'];
+
 interface Subtask {
     id: string;
     title: string;
@@ -15,46 +36,68 @@ interface Task {
     completed: boolean;
     subtasks: Subtask[];
     acceptanceCriteria: string[];
+    dependsOn?: string[];
+    estimate?: TaskEstimate;
+    priority?: TaskPriority;
+    requirementId?: string;
 }
 
 interface TaskCardProps {
     task: Task;
+    allTasks: Task[];
+    requirementIds: string[];
     isExpanded: boolean;
     onToggleExpand: () => void;
     onToggleComplete: () => void;
     onToggleSubtask: (subtaskId: string) => void;
+    onUpdate: (changes: TaskPlanningChanges) => void;
     onCopyPrompt: () => void;
     onSendToClaudeCode: () => void;
 }
 
 function TaskCard({
     task,
+    allTasks,
+    requirementIds,
     isExpanded,
     onToggleExpand,
     onToggleComplete,
     onToggleSubtask,
+    onUpdate,
     onCopyPrompt,
     onSendToClaudeCode
 }: TaskCardProps) {
-    const hasContent = task.description || task.subtasks.length > 0 || task.acceptanceCriteria.length > 0;
     const completedSubtasks = task.subtasks.filter(s => s.completed).length;
+    const dependsOn = task.dependsOn ?? [];
+    const otherTasks = allTasks.filter(t => t.id !== task.id);
+
+    // Keep an unknown requirement id selectable so editing doesn't drop it
+    const requirementOptions = task.requirementId && !requirementIds.includes(task.requirementId)
+        ? [...requirementIds, task.requirementId]
+        : requirementIds;
+
+    const toggleDependency = (id: string) => {
+        onUpdate({
+            dependsOn: dependsOn.includes(id)
+                ? dependsOn.filter(d => d !== id)
+                : [...dependsOn, id]
+        });
+    };
 
     return (
         <div className={`task-card ${task.completed ? 'completed' : ''}`}>
-            {/* Header */}
+            {/* Header (every task expands, at least to edit its planning fields) */}
             <div
                 className="task-card-header"
-                onClick={hasContent ? onToggleExpand : undefined}
-                style={{ cursor: hasContent ? 'pointer' : 'default' }}
+                onClick={onToggleExpand}
+                style={{ cursor: 'pointer' }}
             >
                 {/* Expand chevron */}
-                {hasContent && (
-                    <span className={`task-chevron ${isExpanded ? 'expanded' : ''}`}>
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                            <polyline points="9 18 15 12 9 6" />
-                        </svg>
-                    </span>
-                )}
+                <span className={`task-chevron ${isExpanded ? 'expanded' : ''}`}>
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="9 18 15 12 9 6" />
+                    </svg>
+                </span>
 
                 {/* Checkbox */}
                 <label className="task-checkbox" onClick={e => e.stopPropagation()}>
@@ -71,6 +114,19 @@ function TaskCard({
                     {task.title}
                 </span>
 
+                {/* Planning badges */}
+                {task.requirementId && (
+                    <span className="task-meta-badge">{task.requirementId}</span>
+                )}
+                {task.priority && (
+                    <span className={`task-meta-badge priority-${task.priority}`}>
+                        {PRIORITY_LABELS[task.priority]}
+                    </span>
+                )}
+                {task.estimate && (
+                    <span className="task-meta-badge">{task.estimate}</span>
+                )}
+
                 {/* Subtask progress */}
                 {task.subtasks.length > 0 && (
                     <span className="task-subtask-count">
@@ -94,7 +150,7 @@ function TaskCard({
             </div>
 
             {/* Expanded content */}
-            {isExpanded && hasContent && (
+            {isExpanded && (
                 <div className="task-card-content">
                     {/* Description */}
                     {task.description && (
@@ -103,6 +159,60 @@ function TaskCard({
                         </div>
                     )}
 
+                    {/* Planning fields */}
+                    <div className="task-section">
+                        <div className="task-planning-fields">
+                            <select
+                                value={task.priority ?? ''}
+                                onChange={e => onUpdate({ priority: e.target.value as TaskPriority })}
+                            >
+                                {!task.priority && <option value="" disabled>Priority</option>}
+                                {(Object.keys(PRIORITY_LABELS) as TaskPriority[]).map(priority => (
+                                    <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={task.estimate ?? ''}
+                                onChange={e => onUpdate({ estimate: e.target.value as TaskEstimate })}
+                            >
+                                {!task.estimate && <option value="" disabled>Estimate</option>}
+                                {ESTIMATES.map(estimate => (
+                                    <option key={estimate} value={estimate}>{estimate}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={task.requirementId ?? ''}
+                                onChange={e => onUpdate({ requirementId: e.target.value || null })}
+                            >
+                                <option value="">No requirement</option>
+                                {requirementOptions.map(id => (
+                                    <option key={id} value={id}>{id}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {otherTasks.length > 0 && (
+                            <>
+                                <div className="task-section-header task-planning-header">
+                                    <span>Depends On</span>
+                                </div>
+                                <div className="subtask-list">
+                                    {otherTasks.map(other => (
+                                        <label key={other.id} className="subtask-item">
+                                            <input
+                                                type="checkbox"
+                                                checked={dependsOn.includes(other.id)}
+                                                onChange={() => toggleDependency(other.id)}
+                                            />
+                                            <span className="checkbox-custom small" />
+                                            <span className="subtask-title">{other.title}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </div>
+
                     {/* Subtasks */}
                     {task.subtasks.length > 0 && (
                         <div className="task-section">
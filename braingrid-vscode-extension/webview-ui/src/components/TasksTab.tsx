@@ -1,8 +1,8 @@
 /**
  * TasksTab - Displays generated tasks with progress tracking and actions.
  */
-import { useState } from 'react';
-import TaskCard from './TaskCard';
+import { useMemo, useState } from 'react';
+import TaskCard, { TaskPlanningChanges } from './TaskCard';
 
 interface Subtask {
     id: string;
@@ -17,24 +17,44 @@ interface Task {
     completed: boolean;
     subtasks: Subtask[];
     acceptanceCriteria: string[];
+    dependsOn?: string[];
+    estimate?: 'XS' | 'S' | 'M' | 'L' | 'XL';
+    priority?: 'must-have' | 'should-have' | 'nice-to-have';
+    requirementId?: string;
 }
 
 interface TasksTabProps {
     tasks: Task[];
+    requirements: string | null;
     onToggleTask: (taskId: string) => void;
     onToggleSubtask: (taskId: string, subtaskId: string) => void;
+    onUpdateTask: (taskId: string, changes: TaskPlanningChanges) => void;
     onCopyPrompt: (taskId: string) => void;
     onSendToClaudeCode: (taskId: string) => void;
 }
 
+/**
+ * Extract functional requirement ids ("### FR-1: ...") from the requirements document.
+ */
+function parseRequirementIds(requirements: string | null): string[] {
+    if (!requirements) {
+        return [];
+    }
+    const ids = [...requirements.matchAll(/^#{2,4}\s*(FR-\d+)\b/gm)].map(match => match[1]);
+    return [...new Set(ids)];
+}
+
 function TasksTab({
     tasks,
+    requirements,
     onToggleTask,
     onToggleSubtask,
+    onUpdateTask,
     onCopyPrompt,
     onSendToClaudeCode
 }: TasksTabProps) {
     const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+    const requirementIds = useMemo(() => parseRequirementIds(requirements), [requirements]);
 
     const toggleExpanded = (taskId: string) => {
         setExpandedTasks(prev => {
@@ -92,10 +112,13 @@ function TasksTab({
                     <TaskCard
                         key={task.id}
                         task={task}
+                        allTasks={tasks}
+                        requirementIds={requirementIds}
                         isExpanded={expandedTasks.has(task.id)}
                         onToggleExpand={() => toggleExpanded(task.id)}
                         onToggleComplete={() => onToggleTask(task.id)}
                         onToggleSubtask={(subtaskId) => onToggleSubtask(task.id, subtaskId)}
+                        onUpdate={(changes) => onUpdateTask(task.id, changes)}
                         onCopyPrompt={() => onCopyPrompt(task.id)}
                         onSendToClaudeCode={() => onSendToClaudeCode(task.id)}
                     />
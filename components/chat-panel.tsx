@@ -2,11 +2,21 @@
 
 import type React from 'react';
 import { useEffect, useRef, useState } from 'react';
-import { Send, Loader2, RotateCcw } from 'lucide-react';
+import {
+  Send,
+  Loader2,
+  RotateCcw,
+  RefreshCw,
+  AlertCircle,
+  FileUp,
+  Search,
+  Square,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,7 +31,39 @@ import {
 import { useBrainGrid } from '@/context/braingrid-context';
 import { parseAIResponse } from '@/lib/ai-utils';
 import { WelcomeDialog } from '@/components/welcome-dialog';
-import type { ConversationPhase } from '@/types';
+import { SessionLibrary } from '@/components/session-library';
+import { ImportDocumentDialog } from '@/components/import-document-dialog';
+import { ClarifyingQuestionsForm } from '@/components/clarifying-questions-form';
+import {
+  formatAnswers,
+  parseClarifyingQuestions,
+  stripQuestionsBlock,
+} from '@/lib/clarifying-questions';
+import {
+  checkpointFromRequirements,
+  continueCheckpoint,
+  describeProgress,
+  MAX_CONTINUATIONS,
+  planTaskGroups,
+  startCheckpoint,
+} from '@/lib/generation';
+import { getResearchBrief } from '@/lib/requirements';
+import { fetchResearch } from '@/lib/research-client';
+import { buildResearchContext } from '@/lib/research-context';
+import type {
+  ChatRequestMessage,
+  ClarifyingAnswer,
+  ClarifyingQuestion,
+  ConversationPhase,
+  GenerationCheckpoint,
+  Message,
+  MessageFailure,
+  ProjectTemplate,
+  SourceDocument,
+  Task,
+  TaskGenerationFailure,
+  TaskGenerationScope,
+} from '@/types';
 
 const phaseLabels: Record<ConversationPhase, string> = {
   initial: 'Getting Started',
@@ -31,6 +73,12 @@ const phaseLabels: Record<ConversationPhase, string> = {
   complete: 'Complete',
 };
 
+// "/research <topic>" runs follow-up research instead of sending a message
+const RESEARCH_COMMAND = /^\/research(?:\s+([\s\S]*))?$/;
+
+// Longest clarifying answer used as a research topic
+const MAX_TOPIC_LENGTH = 200;
+
 const phaseVariants: Record<ConversationPhase, 'default' | 'secondary' | 'outline'> = {
   initial: 'secondary',
   researching: 'outline',
@@ -39,22 +87,87 @@ const phaseVariants: Record<ConversationPhase, 'default' | 'secondary' | 'outlin
   complete: 'secondary',
 };
 
+// Questions and answers are sent as-is; the server turns them into text.
+// Stopped and failed replies and local messages are left out.
+function toRequestMessages(messages: Message[]): ChatRequestMessage[] {
+  return messages.filter((m) => !m.failure && !m.local).map((m) => ({
+    role: m.role,
+    content: m.content,
+    ...(m.questions && { questions: m.questions }),
+    ...(m.answers && { answers: m.answers }),
+  }));
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
 export function ChatPanel() {
-  const { state, dispatch } = useBrainGrid();
-  const [messages, setMessages] = useState<Array<{ id: string; role: 'user' | 'assistant'; content: string }>>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: "Hello! I'm BrainGrid, your AI assistant for project planning. Tell me about the project or feature you'd like to work on, and I'll help you create detailed requirements and actionable tasks.",
-    },
-  ]);
+  const {
+    state,
+    dispatch,
+    isHydrated,
+    newSession,
+    followUpResearch,
+    researchingTopic,
+    codebaseContext,
+  } = useBrainGrid();
+  const messages = state.messages;
+  // Latest messages for callbacks that run after a dispatch (e.g. runGeneration)
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const sourceDocumentRef = useRef(state.sourceDocument);
+  sourceDocumentRef.current = state.sourceDocument;
+  const templateRef = useRef(state.template);
+  templateRef.current = state.template;
+  const researchRef = useRef(state.research);
+  researchRef.current = state.research;
+  const researchSelectionRef = useRef(state.researchSelection);
+  researchSelectionRef.current = state.researchSelection;
+  const codebaseContextRef = useRef(codebaseContext);
+  codebaseContextRef.current = codebaseContext;
+  const tasksRef = useRef(state.tasks);
+  tasksRef.current = state.tasks;
+  // Aborts the chat or generation request in flight
+  const abortRef = useRef<AbortController | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isResearching, setIsResearching] = useState(false);
   const [showWelcomeDialog, setShowWelcomeDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [localInput, setLocalInput] = useState('');
+  const [taskError, setTaskError] = useState<TaskGenerationFailure | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const startRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  const finishRequest = (signal: AbortSignal) => {
+    if (abortRef.current?.signal === signal) abortRef.current = null;
+  };
+
+  // Phase to fall back to when a request fails or is stopped, so the session
+  // is never left in 'generating'
+  const settledPhase = (): ConversationPhase =>
+    tasksRef.current.length > 0 ? 'complete' : 'clarifying';
+
+  // Mark the streamed reply (or a new message if nothing streamed yet) as
+  // stopped or failed so it can be retried
+  const showFailure = (id: string | null, content: string, failure: MessageFailure) => {
+    const text = content || (failure.reason === 'stopped' ? 'Stopped.' : 'Something went wrong.');
+    if (id) {
+      dispatch({ type: 'UPDATE_MESSAGE', payload: { id, content: text, failure } });
+    } else {
+      dispatch({
+        type: 'ADD_MESSAGE',
+        payload: { id: `error_${Date.now()}`, role: 'assistant', content: text, failure },
+      });
+    }
+  };
+
   const handleAIResponse = (content: string, skipGeneration = false) => {
     const parsed = parseAIResponse(content);
 
@@ -65,18 +178,22 @@ export function ChatPanel() {
 
       // Trigger generation with a slight delay to update the phase
       setTimeout(() => {
-        triggerGeneration();
+        runGeneration(null);
       }, 100);
     }
 
     // Check if requirements were generated
     if (parsed.requirements) {
-      dispatch({ type: 'SET_REQUIREMENTS', payload: parsed.requirements });
+      dispatch({ type: 'SET_REQUIREMENTS', payload: parsed.requirements, source: 'generation' });
+    }
+
+    if (parsed.tasksError) {
+      setTaskError(parsed.tasksError);
     }
 
     // Check if tasks were generated
     if (parsed.tasks) {
-      dispatch({ type: 'SET_TASKS', payload: parsed.tasks });
+      dispatch({ type: 'SET_TASKS', payload: parsed.tasks, source: 'generation' });
       dispatch({ type: 'SET_PHASE', payload: 'complete' });
       dispatch({ type: 'SET_ACTIVE_TAB', payload: 'tasks' });
       setIsGenerating(false);
@@ -90,46 +207,39 @@ export function ChatPanel() {
 
     // Add research status message
     const researchMsgId = `research_${Date.now()}`;
-    setMessages((prev) => [
-      ...prev,
-      {
+    dispatch({
+      type: 'ADD_MESSAGE',
+      payload: {
         id: researchMsgId,
         role: 'assistant',
         content: 'Researching your project domain to provide informed guidance...',
+        local: true,
       },
-    ]);
+    });
 
     try {
-      const response = await fetch('/api/research', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ projectDescription }),
+      // A template's research query focuses the initial research on its domain
+      const template = templateRef.current;
+      const researchResults = await fetchResearch({
+        projectDescription: template
+          ? `${projectDescription}\n\nResearch focus: ${template.researchQuery}`
+          : projectDescription,
+        codebaseContext: codebaseContextRef.current,
       });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Research API error:', errorText);
-        throw new Error('Research failed');
-      }
-
-      const researchResults = await response.json();
       console.log('Research complete:', researchResults);
 
       // Store research in context
-      dispatch({ type: 'SET_RESEARCH', payload: researchResults });
+      dispatch({ type: 'ADD_RESEARCH', payload: researchResults });
       dispatch({ type: 'SET_ACTIVE_TAB', payload: 'research' });
 
       // Update message with research summary
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === researchMsgId
-            ? {
-                ...m,
-                content: `I've researched your project domain and found ${researchResults.findings?.length || 0} relevant insights. Check the Research tab for details.\n\nBased on my research, let me ask you some informed questions to better understand your needs...`,
-              }
-            : m
-        )
-      );
+      dispatch({
+        type: 'UPDATE_MESSAGE',
+        payload: {
+          id: researchMsgId,
+          content: `I've researched your project domain and found ${researchResults.findings?.length || 0} relevant insights. Check the Research tab for details.\n\nBased on my research, let me ask you some informed questions to better understand your needs...`,
+        },
+      });
 
       // Transition to clarifying phase
       dispatch({ type: 'SET_PHASE', payload: 'clarifying' });
@@ -137,16 +247,13 @@ export function ChatPanel() {
       return researchResults;
     } catch (error) {
       console.error('Research error:', error);
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === researchMsgId
-            ? {
-                ...m,
-                content: 'Research step skipped. Let me ask you some questions to understand your project better...',
-              }
-            : m
-        )
-      );
+      dispatch({
+        type: 'UPDATE_MESSAGE',
+        payload: {
+          id: researchMsgId,
+          content: 'Research step skipped. Let me ask you some questions to understand your project better...',
+        },
+      });
       // Continue to clarifying even if research fails
       dispatch({ type: 'SET_PHASE', payload: 'clarifying' });
       return null;
@@ -155,10 +262,66 @@ export function ChatPanel() {
     }
   };
 
+  const runResearchCommand = (topic: string) => {
+    dispatch({
+      type: 'ADD_MESSAGE',
+      payload: {
+        id: `user_${Date.now()}`,
+        role: 'user',
+        content: `/research ${topic}`.trim(),
+        local: true,
+      },
+    });
+
+    if (state.conversationPhase === 'initial') {
+      dispatch({
+        type: 'ADD_MESSAGE',
+        payload: {
+          id: `assistant_${Date.now()}`,
+          role: 'assistant',
+          content: 'Describe your project first. Follow-up research builds on the initial research.',
+          local: true,
+        },
+      });
+      return;
+    }
+    if (researchingTopic) {
+      dispatch({
+        type: 'ADD_MESSAGE',
+        payload: {
+          id: `assistant_${Date.now()}`,
+          role: 'assistant',
+          content: `Still researching "${researchingTopic}". Try again when it finishes.`,
+          local: true,
+        },
+      });
+      return;
+    }
+    if (!topic) {
+      dispatch({
+        type: 'ADD_MESSAGE',
+        payload: {
+          id: `assistant_${Date.now()}`,
+          role: 'assistant',
+          content: 'Add a topic to research, e.g. "/research offline sync conflicts".',
+          local: true,
+        },
+      });
+      return;
+    }
+    followUpResearch(topic);
+  };
+
   const sendMessage = async (content: string) => {
-    const userMessage = { id: `user_${Date.now()}`, role: 'user' as const, content };
+    const command = content.trim().match(RESEARCH_COMMAND);
+    if (command) {
+      runResearchCommand(command[1]?.trim() ?? '');
+      return;
+    }
+
+    const userMessage: Message = { id: `user_${Date.now()}`, role: 'user', content };
     const newMessages = [...messages, userMessage];
-    setMessages(newMessages);
+    dispatch({ type: 'ADD_MESSAGE', payload: userMessage });
 
     // If in initial phase, trigger research first
     if (state.conversationPhase === 'initial') {
@@ -172,28 +335,71 @@ export function ChatPanel() {
     await sendChatMessage(newMessages, state.conversationPhase);
   };
 
+  const sendAnswers = async (questions: ClarifyingQuestion[], answers: ClarifyingAnswer[]) => {
+    const userMessage: Message = {
+      id: `user_${Date.now()}`,
+      role: 'user',
+      content: formatAnswers(questions, answers),
+      answers,
+    };
+    dispatch({ type: 'ADD_MESSAGE', payload: userMessage });
+    await sendChatMessage([...messages, userMessage], state.conversationPhase);
+  };
+
+  // Seed the session with an existing PRD: research its domain, then go
+  // straight to clarifying questions about the document's gaps
+  const importDocument = async (document: SourceDocument, focus: string) => {
+    dispatch({ type: 'IMPORT_DOCUMENT', payload: document });
+
+    const wordCount = document.content.split(/\s+/).filter(Boolean).length;
+    const userMessage: Message = {
+      id: `user_${Date.now()}`,
+      role: 'user',
+      content: `I imported an existing requirements document (${document.name}, ${wordCount} words). ${
+        focus || 'Review it for gaps and help me extend it.'
+      }`,
+    };
+    const newMessages = [...messages, userMessage];
+    dispatch({ type: 'ADD_MESSAGE', payload: userMessage });
+
+    const researchResults = await triggerResearch(getResearchBrief(document.content));
+    await sendChatMessage(newMessages, 'clarifying', researchResults, document);
+  };
+
   const sendChatMessage = async (
-    chatMessages: Array<{ id: string; role: 'user' | 'assistant'; content: string }>,
+    chatMessages: Message[],
     phase: ConversationPhase,
-    researchOverride?: typeof state.research
+    researchOverride?: typeof state.research,
+    sourceDocumentOverride?: SourceDocument
   ) => {
     setIsLoading(true);
+    const signal = startRequest();
+    let assistantId: string | null = null;
+    let fullContent = '';
 
     try {
       // Include research context if available (use override or state)
       const research = researchOverride ?? state.research;
       const researchContext = research
-        ? `\n\n[RESEARCH_CONTEXT]\nResearch Summary: ${research.summary}\nKey Findings: ${research.findings.slice(0, 5).map((f) => `- ${f.title}: ${f.content.substring(0, 200)}`).join('\n')}\nSuggested Questions: ${research.suggestedQuestions?.join(', ') || 'None'}\n[/RESEARCH_CONTEXT]`
+        ? buildResearchContext(
+            research,
+            phase === 'generating' ? 'generating' : 'clarifying',
+            state.researchSelection
+          ).text
         : '';
 
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          messages: chatMessages.map((m) => ({ role: m.role, content: m.content })),
+          messages: toRequestMessages(chatMessages),
           phase,
           researchContext,
+          codebaseContext: codebaseContextRef.current,
+          sourceDocument: (sourceDocumentOverride ?? state.sourceDocument)?.content,
+          template: templateRef.current ?? undefined,
         }),
+        signal,
       });
 
       if (!response.ok) {
@@ -204,11 +410,10 @@ export function ChatPanel() {
 
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
-      let fullContent = '';
-      const assistantId = `assistant_${Date.now()}`;
+      assistantId = `assistant_${Date.now()}`;
 
       // Add placeholder message
-      setMessages((prev) => [...prev, { id: assistantId, role: 'assistant', content: '' }]);
+      dispatch({ type: 'ADD_MESSAGE', payload: { id: assistantId, role: 'assistant', content: '' } });
 
       while (reader) {
         const { done, value } = await reader.read();
@@ -216,26 +421,46 @@ export function ChatPanel() {
 
         const chunk = decoder.decode(value);
         fullContent += chunk;
-        setMessages((prev) =>
-          prev.map((m) => (m.id === assistantId ? { ...m, content: fullContent } : m))
-        );
+        // The questions block is shown as a form once it is complete
+        dispatch({
+          type: 'UPDATE_MESSAGE',
+          payload: { id: assistantId, content: stripQuestionsBlock(fullContent) },
+        });
+      }
+
+      const asked = parseClarifyingQuestions(fullContent);
+      if (asked.questions) {
+        dispatch({
+          type: 'UPDATE_MESSAGE',
+          payload: { id: assistantId, content: asked.content, questions: asked.questions },
+        });
       }
 
       handleAIResponse(fullContent);
     } catch (error) {
-      console.error('Chat error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      setMessages((prev) => [
-        ...prev,
-        { id: `error_${Date.now()}`, role: 'assistant', content: `Sorry, there was an error: ${errorMessage}. Check that ANTHROPIC_API_KEY is set in .env.local` },
-      ]);
+      if (isAbortError(error)) {
+        showFailure(assistantId, stripQuestionsBlock(fullContent), { reason: 'stopped', retry: 'chat' });
+      } else {
+        console.error('Chat error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        showFailure(
+          assistantId,
+          `Sorry, there was an error: ${errorMessage}. Check that ANTHROPIC_API_KEY is set in .env.local`,
+          { reason: 'error', retry: 'chat' }
+        );
+      }
+      dispatch({ type: 'SET_PHASE', payload: settledPhase() });
     } finally {
+      finishRequest(signal);
       setIsLoading(false);
     }
   };
 
   // Check if we should show welcome dialog on mount (empty state)
   useEffect(() => {
+    // Wait until a saved session has had a chance to load
+    if (!isHydrated) return;
+
     const hasNoContent = !state.requirements && state.tasks.length === 0;
     const isInitialPhase = state.conversationPhase === 'initial';
     const hasOnlyWelcomeMessage = messages.length === 1 && messages[0].role === 'assistant';
@@ -247,7 +472,7 @@ export function ChatPanel() {
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [messages.length, state.requirements, state.tasks.length, state.conversationPhase]);
+  }, [isHydrated, messages.length, state.requirements, state.tasks.length, state.conversationPhase]);
 
   // Phase transitions are now handled in sendMessage and triggerResearch
 
@@ -258,115 +483,241 @@ export function ChatPanel() {
     }
   }, [messages]);
 
-  const triggerGeneration = async () => {
-    // Create a synthetic message to trigger generation
-    const currentMessages = messages.map((m) => ({
-      role: m.role as 'user' | 'assistant',
-      content: m.content,
-    }));
-
-    try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: currentMessages,
-          phase: 'generating' as ConversationPhase,
-        }),
-      });
-
-      if (!response.ok) throw new Error('Generation failed');
+  const researchContextFor = (phase: 'generating' | 'tasks') =>
+    researchRef.current
+      ? buildResearchContext(researchRef.current, phase, researchSelectionRef.current).text
+      : undefined;
+
+  // Stream one requirements step, reporting the text received so far
+  const streamRequirements = async (
+    history: ChatRequestMessage[],
+    partialRequirements: string | undefined,
+    signal: AbortSignal,
+    onText: (text: string) => void
+  ): Promise<string> => {
+    const response = await fetch('/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: history,
+        phase: 'generating' as ConversationPhase,
+        researchContext: researchContextFor('generating'),
+        codebaseContext: codebaseContextRef.current,
+        sourceDocument: sourceDocumentRef.current?.content,
+        template: templateRef.current ?? undefined,
+        partialRequirements,
+      }),
+      signal,
+    });
+
+    if (!response.ok) throw new Error('Generation failed');
+
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    let fullContent = '';
+
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      fullContent += decoder.decode(value);
+      onText(fullContent);
+    }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = '';
+    return fullContent;
+  };
 
-      // Add placeholder message
-      const placeholderId = `gen_${Date.now()}`;
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: placeholderId,
-          role: 'assistant',
-          content: 'Generating requirements and tasks...',
-        },
-      ]);
+  // Run generation from a checkpoint, or from the start when there is none.
+  // The checkpoint is saved after every step so a stopped, failed or reloaded
+  // generation continues where it left off.
+  const runGeneration = async (resumeFrom: GenerationCheckpoint | null) => {
+    setTaskError(null);
+    setIsGenerating(true);
+    dispatch({ type: 'SET_PHASE', payload: 'generating' });
+
+    const signal = startRequest();
+    // The conversation so far, without the progress message added below
+    const history = toRequestMessages(messagesRef.current);
+    const placeholderId = `gen_${Date.now()}`;
+    let checkpoint = resumeFrom;
+
+    const show = (content: string) =>
+      dispatch({ type: 'UPDATE_MESSAGE', payload: { id: placeholderId, content } });
+
+    dispatch({
+      type: 'ADD_MESSAGE',
+      payload: {
+        id: placeholderId,
+        role: 'assistant',
+        content: resumeFrom
+          ? `Continuing generation (${describeProgress(resumeFrom)})...`
+          : 'Generating requirements...',
+      },
+    });
 
-      while (reader) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    try {
+      if (!checkpoint) {
+        const content = await streamRequirements(history, undefined, signal, show);
+        console.log('Generation complete, full content length:', content.length);
+        checkpoint = startCheckpoint(content);
+        if (!checkpoint) throw new Error('No requirements document in response');
+        dispatch({ type: 'SET_GENERATION', payload: checkpoint });
+      }
 
-        const chunk = decoder.decode(value);
-        fullContent += chunk;
-        setMessages((prev) =>
-          prev.map((m) =>
-            m.id === placeholderId ? { ...m, content: fullContent } : m
-          )
+      // A document cut off by the output limit is continued where it stopped
+      while (!checkpoint.requirementsComplete) {
+        if (checkpoint.continuations >= MAX_CONTINUATIONS) {
+          throw new Error('Requirements document is still incomplete');
+        }
+        const part = checkpoint.continuations + 2;
+        show(`The requirements document is long, continuing it (part ${part})...`);
+        const continuation = await streamRequirements(
+          history,
+          checkpoint.requirements,
+          signal,
+          () => {}
         );
+        checkpoint = continueCheckpoint(checkpoint, continuation);
+        dispatch({ type: 'SET_GENERATION', payload: checkpoint });
       }
 
-      // Parse the complete response
-      console.log('Generation complete, full content length:', fullContent.length);
-      console.log('Full content preview:', fullContent.substring(0, 500));
-      const parsed = parseAIResponse(fullContent);
+      if (checkpoint.taskGroups.length === 0) {
+        dispatch({ type: 'SET_REQUIREMENTS', payload: checkpoint.requirements, source: 'generation' });
+        checkpoint = { ...checkpoint, taskGroups: planTaskGroups(checkpoint.requirements) };
+        dispatch({ type: 'SET_GENERATION', payload: checkpoint });
+      }
 
-      console.log('Parsed result:', {
-        hasRequirements: !!parsed.requirements,
-        hasTasks: !!parsed.tasks,
-        tasksCount: parsed.tasks?.length,
-      });
+      const intro = checkpoint.message || 'Requirements have been generated!';
+      const groups = checkpoint.taskGroups;
 
-      if (parsed.requirements) {
-        console.log('Dispatching SET_REQUIREMENTS');
-        dispatch({ type: 'SET_REQUIREMENTS', payload: parsed.requirements });
-      }
+      // Tasks are generated a few functional requirements at a time
+      for (let index = checkpoint.completedGroups; index < groups.length; index++) {
+        const requirementIds = groups[index];
+        show(
+          groups.length > 1
+            ? `${intro}\n\nBreaking the requirements down into tasks (step ${index + 1} of ${groups.length}: ${requirementIds.join(', ')})...`
+            : `${intro}\n\nBreaking the requirements down into tasks...`
+        );
 
-      if (parsed.tasks) {
-        console.log('Dispatching SET_TASKS with', parsed.tasks.length, 'tasks');
-        dispatch({ type: 'SET_TASKS', payload: parsed.tasks });
-        dispatch({ type: 'SET_PHASE', payload: 'complete' });
-        dispatch({ type: 'SET_ACTIVE_TAB', payload: 'tasks' });
+        const response = await fetch('/api/chat', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            messages: history,
+            phase: 'generating' as ConversationPhase,
+            output: 'tasks',
+            requirements: checkpoint.requirements,
+            scope: {
+              requirementIds,
+              step: index + 1,
+              totalSteps: groups.length,
+              existingTasks: checkpoint.tasks,
+            } satisfies TaskGenerationScope,
+            researchContext: researchContextFor('tasks'),
+            codebaseContext: codebaseContextRef.current,
+          }),
+          signal,
+        });
+
+        const data = (await response.json()) as {
+          tasks?: Task[];
+          error?: string;
+          failure?: TaskGenerationFailure;
+        };
+
+        if (!response.ok || !data.tasks) {
+          console.error('Task generation failed:', data);
+          setTaskError(
+            data.failure ?? {
+              code: 'NO_OUTPUT',
+              message: data.error || `Request failed: ${response.status}`,
+              issues: [],
+            }
+          );
+          show(
+            `${intro}\n\nI couldn't produce a valid task list${
+              groups.length > 1 ? ` for step ${index + 1} of ${groups.length}` : ''
+            }. You can continue generation below.`
+          );
+          // Requirements and finished steps are kept; the user can continue or keep refining
+          dispatch({ type: 'SET_PHASE', payload: 'clarifying' });
+          return;
+        }
+
+        checkpoint = {
+          ...checkpoint,
+          tasks: [...checkpoint.tasks, ...data.tasks],
+          completedGroups: index + 1,
+        };
+        dispatch({ type: 'SET_GENERATION', payload: checkpoint });
       }
 
-      // Update the message with clean content
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === placeholderId
-            ? { ...m, content: parsed.cleanContent || 'Requirements and tasks have been generated! Check the tabs on the right.' }
-            : m
-        )
-      );
+      dispatch({ type: 'SET_TASKS', payload: checkpoint.tasks, source: 'generation' });
+      dispatch({ type: 'SET_PHASE', payload: 'complete' });
+      dispatch({ type: 'SET_ACTIVE_TAB', payload: 'tasks' });
+      dispatch({ type: 'SET_GENERATION', payload: null });
+      show(checkpoint.message || 'Requirements and tasks have been generated! Check the tabs on the right.');
     } catch (error) {
-      console.error('Generation error:', error);
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: `error_${Date.now()}`,
-          role: 'assistant',
-          content: 'Sorry, there was an error generating the requirements. Please try again.',
-        },
-      ]);
+      const progress = checkpoint ? ` ${describeProgress(checkpoint)}; retrying continues from there.` : '';
+      if (isAbortError(error)) {
+        showFailure(placeholderId, `Generation stopped.${progress}`, {
+          reason: 'stopped',
+          retry: 'generation',
+        });
+      } else {
+        console.error('Generation error:', error);
+        showFailure(placeholderId, `Sorry, there was an error generating the requirements.${progress}`, {
+          reason: 'error',
+          retry: 'generation',
+        });
+      }
+      dispatch({ type: 'SET_PHASE', payload: settledPhase() });
     } finally {
+      finishRequest(signal);
       setIsGenerating(false);
     }
   };
 
+  // Continue a saved generation, or break existing requirements down again
+  const handleContinueGeneration = () => {
+    if (isGenerating) return;
+    if (state.generation) {
+      runGeneration(state.generation);
+    } else if (state.requirements) {
+      runGeneration(checkpointFromRequirements(state.requirements));
+    }
+  };
+
+  // Aborts the request on the server too: it stops generating once the
+  // connection closes
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Replace a stopped or failed reply with a fresh attempt
+  const handleRetry = (message: Message) => {
+    if (isLoading || isGenerating || isResearching) return;
+
+    const previous = messages.slice(0, messages.findIndex((m) => m.id === message.id));
+    dispatch({ type: 'REMOVE_MESSAGE', payload: message.id });
+
+    if (message.failure?.retry === 'generation') {
+      runGeneration(state.generation);
+    } else {
+      sendChatMessage(previous, state.conversationPhase);
+    }
+  };
+
   const handleReset = () => {
-    // Reset context state
-    dispatch({ type: 'RESET' });
+    // Nothing in flight should land in the new session
+    abortRef.current?.abort();
 
-    // Reset chat messages to initial welcome
-    setMessages([
-      {
-        id: 'welcome',
-        role: 'assistant',
-        content:
-          "Hello! I'm BrainGrid, your AI assistant for project planning. Tell me about the project or feature you'd like to work on, and I'll help you create detailed requirements and actionable tasks.",
-      },
-    ]);
+    // Start a new session; the current one stays in the session library
+    newSession();
 
     // Clear input
     setLocalInput('');
+    setTaskError(null);
 
     // Show welcome dialog after reset
     setTimeout(() => {
@@ -374,7 +725,10 @@ export function ChatPanel() {
     }, 100);
   };
 
-  const handleWelcomeSubmit = (description: string) => {
+  const handleWelcomeSubmit = (description: string, template: ProjectTemplate | null) => {
+    dispatch({ type: 'SET_TEMPLATE', payload: template });
+    // Research and the first reply run before the state update renders
+    templateRef.current = template;
     sendMessage(description);
   };
 
@@ -398,6 +752,24 @@ export function ChatPanel() {
   };
 
   const hasContent = state.requirements || state.tasks.length > 0 || state.research;
+  const isBusy = isLoading || isGenerating || isResearching;
+
+  // Only the latest questions can be answered through the form
+  const lastMessage = messages[messages.length - 1];
+  const pendingQuestions =
+    state.conversationPhase === 'clarifying' &&
+    lastMessage?.role === 'assistant' &&
+    lastMessage.questions?.length
+      ? lastMessage
+      : null;
+
+  // Answers given after the initial description can seed follow-up research
+  const firstUserMessageId = messages.find((m) => m.role === 'user')?.id;
+  const canResearchAnswer = (message: Message) =>
+    message.role === 'user' &&
+    message.id !== firstUserMessageId &&
+    !RESEARCH_COMMAND.test(message.content.trim()) &&
+    (state.conversationPhase === 'clarifying' || state.conversationPhase === 'complete');
 
   return (
     <>
@@ -405,6 +777,13 @@ export function ChatPanel() {
         open={showWelcomeDialog}
         onOpenChange={setShowWelcomeDialog}
         onSubmit={handleWelcomeSubmit}
+        onImport={() => setShowImportDialog(true)}
+      />
+
+      <ImportDocumentDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImport={importDocument}
       />
 
       <div className="flex h-full w-[420px] flex-col overflow-hidden border-r border-border bg-card">
@@ -421,6 +800,8 @@ export function ChatPanel() {
               {phaseLabels[state.conversationPhase]}
             </Badge>
 
+            <SessionLibrary onNewSession={handleReset} />
+
             {hasContent && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
@@ -432,8 +813,8 @@ export function ChatPanel() {
                   <AlertDialogHeader>
                     <AlertDialogTitle>Start fresh?</AlertDialogTitle>
                     <AlertDialogDescription>
-                      This will clear all generated requirements and tasks. This action cannot be
-                      undone.
+                      This will start a new session with empty requirements and tasks. The current
+                      session stays available in the session library.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
@@ -454,7 +835,7 @@ export function ChatPanel() {
             {messages.map((message) => (
               <div
                 key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                className={`group flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
               >
                 <div
                   className={`max-w-[85%] rounded-lg px-4 py-3 text-sm whitespace-pre-wrap ${
@@ -465,6 +846,46 @@ export function ChatPanel() {
                 >
                   {message.content}
                 </div>
+                {message.failure && (
+                  <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                    <AlertCircle className="h-3 w-3" />
+                    {message.failure.reason === 'stopped' ? 'Stopped' : 'Failed'}
+                    {message.id === lastMessage?.id && !isBusy && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 gap-1 px-2 text-xs"
+                        onClick={() => handleRetry(message)}
+                      >
+                        <RefreshCw className="h-3 w-3" />
+                        Retry
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {message.id === pendingQuestions?.id && (
+                  <div className="mt-2 w-full">
+                    <ClarifyingQuestionsForm
+                      key={message.id}
+                      questions={message.questions!}
+                      findings={state.research?.findings ?? []}
+                      disabled={isLoading || isGenerating || isResearching}
+                      onSubmit={(answers) => sendAnswers(message.questions!, answers)}
+                    />
+                  </div>
+                )}
+                {canResearchAnswer(message) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="mt-1 h-6 gap-1 px-2 text-xs text-muted-foreground opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100"
+                    disabled={!!researchingTopic}
+                    onClick={() => followUpResearch(message.content.slice(0, MAX_TOPIC_LENGTH))}
+                  >
+                    <Search className="h-3 w-3" />
+                    Research this
+                  </Button>
+                )}
               </div>
             ))}
             {(isLoading || isGenerating || isResearching) && (
@@ -484,6 +905,34 @@ export function ChatPanel() {
 
         {/* Input */}
         <div className="border-t border-border p-4">
+          {(taskError || state.generation) && !isGenerating && (
+            <Alert variant="destructive" className="mb-3">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{taskError ? 'Task generation failed' : 'Generation incomplete'}</AlertTitle>
+              <AlertDescription>
+                {taskError && <p>{taskError.message}</p>}
+                {taskError && taskError.issues.length > 0 && (
+                  <ul className="list-disc pl-4 text-xs">
+                    {taskError.issues.slice(0, 5).map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+                {state.generation && <p>{describeProgress(state.generation)}.</p>}
+                {(state.generation || state.requirements) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    disabled={isBusy}
+                    onClick={handleContinueGeneration}
+                  >
+                    {state.generation ? 'Continue generation' : 'Retry task generation'}
+                  </Button>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
           <form onSubmit={handleSubmit} className="space-y-3">
             <Textarea
               value={localInput}
@@ -491,27 +940,48 @@ export function ChatPanel() {
               onKeyDown={handleKeyDown}
               placeholder={
                 state.conversationPhase === 'complete'
-                  ? 'Ask follow-up questions...'
-                  : 'Describe your project...'
+                  ? 'Ask follow-up questions, or /research <topic>...'
+                  : pendingQuestions
+                    ? 'Or answer in your own words, or /research <topic>...'
+                    : state.conversationPhase === 'clarifying'
+                      ? 'Answer the questions, or /research <topic>...'
+                      : 'Describe your project...'
               }
               className="min-h-[80px] resize-none bg-background"
               disabled={isLoading || isGenerating || isResearching}
             />
             <div className="flex items-center justify-between">
-              <span className="text-xs text-muted-foreground">
-                {'\u2318'} + Enter to submit
-              </span>
-              <Button
-                type="submit"
-                size="sm"
-                disabled={!localInput.trim() || isLoading || isGenerating || isResearching}
-              >
-                {isLoading || isGenerating || isResearching ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Send className="h-4 w-4" />
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {'\u2318'} + Enter to submit
+                </span>
+                {state.conversationPhase === 'initial' && !isResearching && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1.5 text-xs"
+                    onClick={() => setShowImportDialog(true)}
+                  >
+                    <FileUp className="h-3.5 w-3.5" />
+                    Import PRD
+                  </Button>
                 )}
-              </Button>
+              </div>
+              {isLoading || isGenerating ? (
+                <Button type="button" size="sm" variant="outline" className="gap-1.5" onClick={handleStop}>
+                  <Square className="h-3.5 w-3.5 fill-current" />
+                  Stop
+                </Button>
+              ) : (
+                <Button type="submit" size="sm" disabled={!localInput.trim() || isResearching}>
+                  {isResearching ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
             </div>
           </form>
         </div>
@@ -0,0 +1,179 @@
+'use client';
+
+import type React from 'react';
+import { useState } from 'react';
+import { Lightbulb, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { hasAnswer } from '@/lib/clarifying-questions';
+import type { ClarifyingAnswer, ClarifyingQuestion, ResearchFinding } from '@/types';
+
+interface ClarifyingQuestionsFormProps {
+  questions: ClarifyingQuestion[];
+  findings: ResearchFinding[];   // To show the finding behind a question
+  disabled?: boolean;
+  onSubmit: (answers: ClarifyingAnswer[]) => void;
+}
+
+type Values = Record<string, ClarifyingAnswer['value']>;
+
+/**
+ * One widget per clarifying question. Every question can be left blank; the
+ * unanswered ones are sent as skipped so the assistant knows they are open.
+ */
+export function ClarifyingQuestionsForm({
+  questions,
+  findings,
+  disabled = false,
+  onSubmit,
+}: ClarifyingQuestionsFormProps) {
+  const [values, setValues] = useState<Values>({});
+
+  const setValue = (id: string, value: ClarifyingAnswer['value']) =>
+    setValues((prev) => ({ ...prev, [id]: value }));
+
+  const answered = questions.filter((q) => hasAnswer(values[q.id])).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (disabled || answered === 0) return;
+    onSubmit(
+      questions.map((q) => ({
+        questionId: q.id,
+        value: hasAnswer(values[q.id]) ? values[q.id] : null,
+      }))
+    );
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full space-y-4 rounded-lg border border-border bg-background p-4"
+    >
+      {questions.map((question, index) => {
+        const finding = question.findingId
+          ? findings.find((f) => f.id === question.findingId)
+          : undefined;
+
+        return (
+          <div key={question.id} className="space-y-2">
+            <Label className="text-sm leading-snug">
+              {index + 1}. {question.prompt}
+            </Label>
+            {finding && (
+              <p className="flex items-start gap-1 text-xs text-muted-foreground">
+                <Lightbulb className="mt-0.5 h-3 w-3 shrink-0" />
+                From research: {finding.title}
+              </p>
+            )}
+            <QuestionInput
+              question={question}
+              value={values[question.id]}
+              disabled={disabled}
+              onChange={(value) => setValue(question.id, value)}
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {answered} of {questions.length} answered
+        </span>
+        <Button type="submit" size="sm" className="gap-1.5" disabled={disabled || answered === 0}>
+          <Send className="h-3.5 w-3.5" />
+          {answered < questions.length ? 'Send, skip the rest' : 'Send answers'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function QuestionInput({
+  question,
+  value,
+  disabled,
+  onChange,
+}: {
+  question: ClarifyingQuestion;
+  value: ClarifyingAnswer['value'] | undefined;
+  disabled: boolean;
+  onChange: (value: ClarifyingAnswer['value']) => void;
+}) {
+  switch (question.type) {
+    case 'single_choice':
+      return (
+        <RadioGroup
+          value={typeof value === 'string' ? value : ''}
+          onValueChange={onChange}
+          disabled={disabled}
+        >
+          {question.options?.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+              <Label htmlFor={`${question.id}-${option}`} className="text-sm font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case 'multi_choice': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-2">
+          {question.options?.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <Checkbox
+                id={`${question.id}-${option}`}
+                checked={selected.includes(option)}
+                disabled={disabled}
+                onCheckedChange={(checked) =>
+                  onChange(
+                    checked
+                      ? question.options!.filter((o) => o === option || selected.includes(o))
+                      : selected.filter((o) => o !== option)
+                  )
+                }
+              />
+              <Label htmlFor={`${question.id}-${option}`} className="text-sm font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'numeric':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            className="h-8 w-32"
+            min={question.min}
+            max={question.max}
+            value={typeof value === 'number' ? value : ''}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.value === '' ? null : e.target.valueAsNumber)}
+          />
+          {question.unit && <span className="text-sm text-muted-foreground">{question.unit}</span>}
+        </div>
+      );
+
+    case 'free_text':
+      return (
+        <Textarea
+          className="min-h-[60px] resize-none text-sm"
+          value={typeof value === 'string' ? value : ''}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
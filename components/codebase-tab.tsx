@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AlertTriangle, FolderTree, Loader2, RefreshCw } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useBrainGrid } from '@/context/braingrid-context';
+import type { CodebaseSection } from '@/types';
+
+function SectionCard({ section }: { section: CodebaseSection }) {
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-foreground">{section.title}</h3>
+        <div className="flex items-center gap-2">
+          {section.incomplete && (
+            <Badge variant="outline" className="gap-1 text-xs">
+              <AlertTriangle className="h-3 w-3" />
+              Incomplete scan
+            </Badge>
+          )}
+          <Badge variant="secondary" className="text-xs">
+            {section.source === 'docs' ? 'Documentation' : 'Scan summary'}
+          </Badge>
+          <span className="text-xs text-muted-foreground">
+            {new Date(section.generatedAt).toLocaleString()}
+          </span>
+        </div>
+      </div>
+      <div className="prose prose-sm prose-invert max-w-none">
+        <ReactMarkdown
+          components={{
+            h1: ({ node, ...props }) => (
+              <h1 className="mb-3 text-lg font-semibold text-foreground" {...props} />
+            ),
+            h2: ({ node, ...props }) => (
+              <h2 className="mb-2 mt-4 text-base font-semibold text-foreground" {...props} />
+            ),
+            h3: ({ node, ...props }) => (
+              <h3 className="mb-2 mt-3 text-sm font-medium text-foreground" {...props} />
+            ),
+            p: ({ node, ...props }) => (
+              <p className="mb-3 text-sm leading-relaxed text-muted-foreground" {...props} />
+            ),
+            ul: ({ node, ...props }) => (
+              <ul className="mb-3 ml-6 list-disc space-y-1 text-sm text-muted-foreground" {...props} />
+            ),
+            ol: ({ node, ...props }) => (
+              <ol className="mb-3 ml-6 list-decimal space-y-1 text-sm text-muted-foreground" {...props} />
+            ),
+            strong: ({ node, ...props }) => (
+              <strong className="font-semibold text-foreground" {...props} />
+            ),
+            code: ({ node, ...props }) => (
+              <code
+                className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs text-foreground"
+                {...props}
+              />
+            ),
+          }}
+        >
+          {section.content}
+        </ReactMarkdown>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The VS Code extension's scan artifacts, exactly as they are sent to the
+ * model as codebase context.
+ */
+export function CodebaseTab() {
+  const { codebase, refreshCodebase } = useBrainGrid();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refreshCodebase();
+    setIsRefreshing(false);
+  };
+
+  const sections = codebase?.sections ?? [];
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b border-border px-6 py-3">
+        <span className="text-sm font-medium text-muted-foreground">Codebase Context</span>
+        <div className="flex items-center gap-2">
+          {sections.length > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {sections.length} {sections.length === 1 ? 'artifact' : 'artifacts'}
+            </Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            disabled={isRefreshing}
+            onClick={handleRefresh}
+          >
+            {isRefreshing ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <RefreshCw className="h-3.5 w-3.5" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {sections.length === 0 ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 p-6 text-center">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+            <FolderTree className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium text-foreground">No codebase scan</h3>
+            <p className="max-w-sm text-sm text-muted-foreground">
+              Run &quot;BrainGrid: Scan Project&quot; in the VS Code extension to analyze
+              {codebase ? ` ${codebase.workspace}` : ' the workspace'}. Its scan artifacts are then
+              used as context for research, questions and generation. Set BRAINGRID_WORKSPACE_DIR to
+              use another workspace.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="space-y-4 p-6">
+            <p className="text-xs text-muted-foreground">
+              Scan of {codebase?.workspace}, sent with every chat and research request.
+            </p>
+            {sections.map((section) => (
+              <SectionCard key={section.type} section={section} />
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
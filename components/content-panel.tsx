@@ -1,18 +1,22 @@
 'use client';
 
-import { FileText, ListTodo, Sparkles, Search } from 'lucide-react';
+import { FileText, ListTodo, Sparkles, Search, GitCompareArrows, FolderTree } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { RequirementsTab } from '@/components/requirements-tab';
 import { TasksTab } from '@/components/tasks-tab';
 import { ResearchTab } from '@/components/research-tab';
+import { TraceabilityTab } from '@/components/traceability-tab';
+import { CodebaseTab } from '@/components/codebase-tab';
+import { ExportMenu } from '@/components/export-menu';
 import { useBrainGrid } from '@/context/braingrid-context';
+import type { ContentTab } from '@/types';
 
 export function ContentPanel() {
-  const { state, dispatch } = useBrainGrid();
+  const { state, dispatch, codebase } = useBrainGrid();
 
   const handleTabChange = (value: string) => {
-    dispatch({ type: 'SET_ACTIVE_TAB', payload: value as 'requirements' | 'tasks' | 'research' });
+    dispatch({ type: 'SET_ACTIVE_TAB', payload: value as ContentTab });
   };
 
   const hasGeneratedContent = state.requirements || state.tasks.length > 0;
@@ -31,8 +35,11 @@ export function ContentPanel() {
           )}
         </div>
         {hasGeneratedContent && (
-          <div className="text-xs text-muted-foreground">
-            {state.tasks.length} tasks generated
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground">
+              {state.tasks.length} tasks generated
+            </span>
+            <ExportMenu />
           </div>
         )}
       </div>
@@ -65,6 +72,13 @@ export function ContentPanel() {
                 <span className="ml-2 h-2 w-2 rounded-full bg-primary" />
               )}
             </TabsTrigger>
+            <TabsTrigger
+              value="traceability"
+              className="relative h-12 rounded-none border-b-2 border-transparent bg-transparent px-4 data-[state=active]:border-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none"
+            >
+              <GitCompareArrows className="mr-2 h-4 w-4" />
+              Traceability
+            </TabsTrigger>
             <TabsTrigger
               value="research"
               className="relative h-12 rounded-none border-b-2 border-transparent bg-transparent px-4 data-[state=active]:border-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none"
@@ -75,6 +89,16 @@ export function ContentPanel() {
                 <span className="ml-2 h-2 w-2 rounded-full bg-primary" />
               )}
             </TabsTrigger>
+            <TabsTrigger
+              value="codebase"
+              className="relative h-12 rounded-none border-b-2 border-transparent bg-transparent px-4 data-[state=active]:border-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none"
+            >
+              <FolderTree className="mr-2 h-4 w-4" />
+              Codebase
+              {!!codebase?.sections.length && (
+                <span className="ml-2 h-2 w-2 rounded-full bg-primary" />
+              )}
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -85,9 +109,15 @@ export function ContentPanel() {
           <TabsContent value="tasks" className="m-0 h-full">
             <TasksTab />
           </TabsContent>
+          <TabsContent value="traceability" className="m-0 h-full">
+            <TraceabilityTab />
+          </TabsContent>
           <TabsContent value="research" className="m-0 h-full">
             <ResearchTab />
           </TabsContent>
+          <TabsContent value="codebase" className="m-0 h-full">
+            <CodebaseTab />
+          </TabsContent>
         </div>
       </Tabs>
     </div>
@@ -0,0 +1,96 @@
+'use client';
+
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { diffLines, pairDiffLines, type DiffLine } from '@/lib/diff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  mode?: 'unified' | 'split';
+  beforeLabel?: string;
+  afterLabel?: string;
+  className?: string;
+}
+
+const linePrefix = { same: ' ', added: '+', removed: '-' } as const;
+
+const lineStyles = (type: DiffLine['type']) =>
+  cn(
+    type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+    type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400',
+    type === 'same' && 'text-muted-foreground'
+  );
+
+export function DiffView({
+  before,
+  after,
+  mode = 'unified',
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+  className,
+}: DiffViewProps) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const rows = useMemo(() => (mode === 'split' ? pairDiffLines(lines) : []), [mode, lines]);
+  const changed = lines.some((line) => line.type !== 'same');
+
+  if (!changed) {
+    return <p className="text-sm text-muted-foreground">No changes.</p>;
+  }
+
+  if (mode === 'split') {
+    return (
+      <div
+        className={cn(
+          'overflow-x-auto rounded-md border border-border bg-muted/30 font-mono text-xs leading-relaxed',
+          className
+        )}
+      >
+        <div className="grid grid-cols-2 border-b border-border font-sans text-xs font-medium text-muted-foreground">
+          <div className="px-3 py-1.5">{beforeLabel}</div>
+          <div className="border-l border-border px-3 py-1.5">{afterLabel}</div>
+        </div>
+        <div className="grid grid-cols-2 py-2">
+          {rows.map((row, index) => (
+            <div key={index} className="contents">
+              <div className={cn('whitespace-pre-wrap break-words px-3', row.left && lineStyles(row.left.type))}>
+                {row.left ? row.left.text || ' ' : ' '}
+              </div>
+              <div
+                className={cn(
+                  'whitespace-pre-wrap break-words border-l border-border px-3',
+                  row.right && lineStyles(row.right.type)
+                )}
+              >
+                {row.right ? row.right.text || ' ' : ' '}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <pre
+      className={cn(
+        'overflow-x-auto rounded-md border border-border bg-muted/30 py-2 font-mono text-xs leading-relaxed',
+        className
+      )}
+    >
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'whitespace-pre-wrap px-3',
+            lineStyles(line.type),
+            line.type === 'removed' && 'line-through'
+          )}
+        >
+          <span className="mr-2 select-none opacity-60">{linePrefix[line.type]}</span>
+          {line.text || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { Download, FileText, FileJson, Sheet, Github } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useBrainGrid } from '@/context/braingrid-context';
+import {
+  buildExportDocument,
+  exportFiles,
+  slugify,
+  MULTI_FILE_FORMATS,
+  TASK_FORMATS,
+  type ExportFormat,
+} from '@/lib/export';
+import { createZip } from '@/lib/zip';
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportMenu() {
+  const { state } = useBrainGrid();
+  const hasContent = !!state.requirements || state.tasks.length > 0;
+
+  // Task-only formats are disabled until there are tasks to export
+  const isDisabled = (format: ExportFormat) => TASK_FORMATS.has(format) && state.tasks.length === 0;
+
+  const handleExport = (format: ExportFormat) => {
+    if (isDisabled(format)) return;
+    const doc = buildExportDocument(state.requirements, state.tasks, state.research);
+    const files = exportFiles(doc, format);
+
+    // Multi-file formats are bundled into a zip, even when there is one file
+    if (MULTI_FILE_FORMATS.has(format)) {
+      download(createZip(files), `${slugify(doc.title)}-${format}.zip`);
+    } else {
+      download(new Blob([files[0].content], { type: files[0].mimeType }), files[0].path);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 gap-1.5 text-xs" disabled={!hasContent}>
+          <Download className="h-3.5 w-3.5" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">Export as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => handleExport('markdown')}>
+          <FileText className="h-4 w-4" />
+          Markdown bundle
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport('json')}>
+          <FileJson className="h-4 w-4" />
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport('csv')} disabled={isDisabled('csv')}>
+          <Sheet className="h-4 w-4" />
+          Tasks CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => handleExport('github-issues')}
+          disabled={isDisabled('github-issues')}
+        >
+          <Github className="h-4 w-4" />
+          GitHub issues (.zip)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
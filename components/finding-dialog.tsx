@@ -0,0 +1,184 @@
+'use client';
+
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { PencilLine, Plus } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { FindingDraft, ResearchFinding } from '@/types';
+
+interface FindingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  finding?: ResearchFinding;   // Edited finding; absent when adding one
+  onSave: (draft: FindingDraft) => void;
+}
+
+const categoryOptions: Record<ResearchFinding['category'], string> = {
+  concept: 'Concept',
+  best_practice: 'Best practice',
+  pitfall: 'Pitfall',
+  edge_case: 'Edge case',
+  technical: 'Technical / constraint',
+};
+
+const relevanceOptions: Record<ResearchFinding['relevance'], string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+const emptyDraft: FindingDraft = {
+  category: 'technical',
+  title: '',
+  content: '',
+  relevance: 'high',
+};
+
+/**
+ * Add a finding of your own (e.g. an internal constraint) or edit the text of
+ * a research finding.
+ */
+export function FindingDialog({ open, onOpenChange, finding, onSave }: FindingDialogProps) {
+  const [draft, setDraft] = useState<FindingDraft>(emptyDraft);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(
+        finding
+          ? {
+              category: finding.category,
+              title: finding.title,
+              content: finding.content,
+              relevance: finding.relevance,
+            }
+          : emptyDraft
+      );
+    }
+  }, [open, finding]);
+
+  const canSave = draft.title.trim().length > 0 && draft.content.trim().length > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({ ...draft, title: draft.title.trim(), content: draft.content.trim() });
+    onOpenChange(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Allow native shortcuts like Cmd+A, Cmd+C, Cmd+V
+    if ((e.metaKey || e.ctrlKey) && ['a', 'c', 'v', 'x', 'z'].includes(e.key.toLowerCase())) {
+      e.stopPropagation();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {finding ? <PencilLine className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+            {finding ? 'Edit finding' : 'Add a finding'}
+          </DialogTitle>
+          <DialogDescription>
+            {finding
+              ? 'Your wording replaces the researched text in every prompt.'
+              : 'Add something research cannot know, such as an internal constraint or a decision already made. It is treated as accepted.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="finding-title">Title</Label>
+            <Input
+              id="finding-title"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="e.g. All data must stay in the EU region"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={draft.category}
+                onValueChange={(value) =>
+                  setDraft({ ...draft, category: value as ResearchFinding['category'] })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(categoryOptions) as ResearchFinding['category'][]).map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {categoryOptions[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Relevance</Label>
+              <Select
+                value={draft.relevance}
+                onValueChange={(value) =>
+                  setDraft({ ...draft, relevance: value as ResearchFinding['relevance'] })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(relevanceOptions) as ResearchFinding['relevance'][]).map((relevance) => (
+                    <SelectItem key={relevance} value={relevance}>
+                      {relevanceOptions[relevance]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="finding-content">Details</Label>
+            <Textarea
+              id="finding-content"
+              value={draft.content}
+              onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+              onKeyDown={handleKeyDown}
+              placeholder="What the requirements need to respect, and why"
+              className="min-h-[140px] resize-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {finding ? 'Save changes' : 'Add finding'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
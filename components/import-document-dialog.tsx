@@ -0,0 +1,169 @@
+'use client';
+
+import type React from 'react';
+import { useRef, useState } from 'react';
+import { FileUp, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { MAX_IMPORT_LENGTH, normalizeImportedDocument } from '@/lib/requirements';
+import type { SourceDocument } from '@/types';
+
+interface ImportDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (document: SourceDocument, focus: string) => void;
+}
+
+const ACCEPTED_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+export function ImportDocumentDialog({ open, onOpenChange, onImport }: ImportDocumentDialogProps) {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [focus, setFocus] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setContent('');
+    setFileName(null);
+    setFocus('');
+    setError(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!ACCEPTED_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext))) {
+      setError('Only Markdown (.md) and plain text (.txt) files can be imported.');
+      return;
+    }
+
+    try {
+      setContent(await file.text());
+      setFileName(file.name);
+      setError(null);
+    } catch (readError) {
+      console.error('Failed to read imported file:', readError);
+      setError('The file could not be read.');
+    }
+  };
+
+  const handleImport = () => {
+    if (!content.trim()) return;
+    if (content.length > MAX_IMPORT_LENGTH) {
+      setError(
+        `The document is too long (${content.length.toLocaleString()} characters). The limit is ${MAX_IMPORT_LENGTH.toLocaleString()}.`
+      );
+      return;
+    }
+
+    const name = fileName ?? 'Pasted document';
+    onImport(
+      {
+        name,
+        content: normalizeImportedDocument(content, name),
+        importedAt: new Date().toISOString(),
+      },
+      focus.trim()
+    );
+    handleOpenChange(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Allow native shortcuts like Cmd+A, Cmd+C, Cmd+V
+    if ((e.metaKey || e.ctrlKey) && ['a', 'c', 'v', 'x', 'z'].includes(e.key.toLowerCase())) {
+      e.stopPropagation();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import existing requirements
+          </DialogTitle>
+          <DialogDescription>
+            Start from a PRD you already have. BrainGrid researches the domain, asks only about
+            gaps in the document, and produces a revised requirements document with tasks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="import-content">Document</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_EXTENSIONS.join(',')}
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 gap-1.5 text-xs"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Upload className="h-3.5 w-3.5" />
+                Choose file
+              </Button>
+            </div>
+            <Textarea
+              id="import-content"
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setError(null);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="Paste Markdown or plain text, or choose a file..."
+              className="h-[240px] resize-none font-mono text-xs"
+            />
+            {fileName && <p className="text-xs text-muted-foreground">Loaded {fileName}</p>}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="import-focus">What are you changing or adding? (optional)</Label>
+            <Textarea
+              id="import-focus"
+              value={focus}
+              onChange={(e) => setFocus(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="e.g. Add team workspaces and role-based permissions"
+              className="min-h-[60px] resize-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!content.trim()}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Import and review
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
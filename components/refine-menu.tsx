@@ -0,0 +1,118 @@
+'use client';
+
+import { Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { refinementLabels } from '@/components/refinement-dialog';
+import type { RequirementSection } from '@/lib/refinement';
+import type { RefinementRequest, SectionRefinementAction, Task } from '@/types';
+
+const sectionActions: SectionRefinementAction[] = ['expand-edge-cases', 'clarify', 'custom'];
+
+interface TaskRefineMenuProps {
+  task: Task;
+  tasks: Task[];
+  onRefine: (request: RefinementRequest) => void;
+}
+
+export function TaskRefineMenu({ task, tasks, onRefine }: TaskRefineMenuProps) {
+  const others = tasks.filter((t) => t.id !== task.id);
+  const refine = (action: 'split' | 'rewrite-criteria' | 'custom') =>
+    onRefine({ target: 'tasks', action, taskIds: [task.id] });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          className="h-6 w-6 shrink-0"
+          title="Refine with AI"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Wand2 className="h-3.5 w-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel className="text-xs">Refine with AI</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => refine('split')}>{refinementLabels.split}</DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => refine('rewrite-criteria')}
+          disabled={task.acceptanceCriteria.length === 0}
+        >
+          {refinementLabels['rewrite-criteria']}
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={others.length === 0}>Merge with</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-72 max-w-72 overflow-y-auto">
+            {others.map((other) => (
+              <DropdownMenuItem
+                key={other.id}
+                onSelect={() =>
+                  onRefine({ target: 'tasks', action: 'merge', taskIds: [task.id, other.id] })
+                }
+              >
+                <span className="truncate">{other.title}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => refine('custom')}>
+          {refinementLabels.custom}...
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface SectionRefineMenuProps {
+  sections: RequirementSection[];
+  onRefine: (request: RefinementRequest) => void;
+}
+
+export function SectionRefineMenu({ sections, onRefine }: SectionRefineMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={sections.length === 0}>
+          <Wand2 className="mr-2 h-4 w-4" />
+          Refine
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-96 w-64 overflow-y-auto">
+        <DropdownMenuLabel className="text-xs">Refine a section with AI</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {sections.map((section) => (
+          <DropdownMenuSub key={section.id}>
+            <DropdownMenuSubTrigger className={section.level > 2 ? 'pl-5' : undefined}>
+              <span className="truncate">{section.heading}</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {sectionActions.map((action) => (
+                <DropdownMenuItem
+                  key={action}
+                  onSelect={() => onRefine({ target: 'section', action, sectionId: section.id })}
+                >
+                  {refinementLabels[action]}
+                  {action === 'custom' && '...'}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
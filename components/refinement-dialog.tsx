@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Check, Loader2, Wand2, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { DiffView } from '@/components/diff-view';
+import { useBrainGrid } from '@/context/braingrid-context';
+import {
+  applySectionPatch,
+  applyTaskPatch,
+  getRequirementSections,
+  getSectionContent,
+  taskToMarkdown,
+} from '@/lib/refinement';
+import type { RefinementPatch, RefinementRequest } from '@/types';
+
+export const refinementLabels: Record<RefinementRequest['action'], string> = {
+  split: 'Split task',
+  merge: 'Merge tasks',
+  'rewrite-criteria': 'Rewrite acceptance criteria as Given/When/Then',
+  'expand-edge-cases': 'Expand edge cases',
+  clarify: 'Make specific and testable',
+  custom: 'Custom instruction',
+};
+
+interface RefinementDialogProps {
+  request: RefinementRequest | null;
+  onClose: () => void;
+}
+
+type RefinementStatus =
+  | { step: 'instructions' }
+  | { step: 'loading' }
+  | { step: 'review'; patch: RefinementPatch }
+  | { step: 'error'; message: string; issues: string[] };
+
+/**
+ * Runs a refinement request and shows the resulting change as a diff. The
+ * change is only dispatched to the plan when the user accepts it.
+ */
+export function RefinementDialog({ request, onClose }: RefinementDialogProps) {
+  const { state, dispatch } = useBrainGrid();
+  const [status, setStatus] = useState<RefinementStatus>({ step: 'loading' });
+  const [instructions, setInstructions] = useState('');
+  // Id of the latest run, so a slow response can't overwrite a newer one
+  const runIdRef = useRef(0);
+
+  const run = async (current: RefinementRequest) => {
+    const runId = ++runIdRef.current;
+    setStatus({ step: 'loading' });
+    try {
+      const response = await fetch('/api/refine', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          request: current,
+          requirements: state.requirements,
+          tasks: state.tasks,
+        }),
+      });
+      const data = (await response.json()) as {
+        patch?: RefinementPatch;
+        error?: string;
+        issues?: string[];
+      };
+      if (runId !== runIdRef.current) return;
+
+      if (!response.ok || !data.patch) {
+        setStatus({
+          step: 'error',
+          message: data.error || `Request failed: ${response.status}`,
+          issues: data.issues ?? [],
+        });
+        return;
+      }
+      setStatus({ step: 'review', patch: data.patch });
+    } catch (error) {
+      console.error('Refinement error:', error);
+      if (runId !== runIdRef.current) return;
+      setStatus({
+        step: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        issues: [],
+      });
+    }
+  };
+
+  // Custom actions ask for instructions first; the rest run immediately
+  useEffect(() => {
+    if (!request) return;
+    setInstructions('');
+    if (request.action === 'custom' && !request.instructions) {
+      setStatus({ step: 'instructions' });
+    } else {
+      run(request);
+    }
+    // Only a new request starts a run, not later state changes
+  }, [request]);
+
+  const getDiff = (patch: RefinementPatch): { before: string; after: string } => {
+    if (patch.target === 'tasks') {
+      return {
+        before: state.tasks
+          .filter((t) => patch.replaceIds.includes(t.id))
+          .map(taskToMarkdown)
+          .join('\n\n'),
+        after: patch.tasks.map(taskToMarkdown).join('\n\n'),
+      };
+    }
+    const section = getRequirementSections(state.requirements).find(
+      (s) => s.id === patch.sectionId
+    );
+    return {
+      before: section && state.requirements ? getSectionContent(state.requirements, section) : '',
+      after: patch.content,
+    };
+  };
+
+  const handleAccept = (patch: RefinementPatch) => {
+    if (patch.target === 'tasks') {
+      dispatch({
+        type: 'SET_TASKS',
+        payload: applyTaskPatch(state.tasks, patch),
+        source: 'refinement',
+      });
+    } else {
+      const requirements = state.requirements && applySectionPatch(state.requirements, patch);
+      if (!requirements) {
+        setStatus({
+          step: 'error',
+          message: 'The section changed since the request was made. Try again.',
+          issues: [],
+        });
+        return;
+      }
+      dispatch({ type: 'SET_REQUIREMENTS', payload: requirements, source: 'refinement' });
+    }
+    onClose();
+  };
+
+  const target =
+    request?.target === 'tasks'
+      ? request.taskIds.join(', ')
+      : request
+        ? getRequirementSections(state.requirements).find((s) => s.id === request.sectionId)
+            ?.heading ?? request.sectionId
+        : '';
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            {request ? refinementLabels[request.action] : 'Refine'}
+          </DialogTitle>
+          <DialogDescription>{target}</DialogDescription>
+        </DialogHeader>
+
+        {status.step === 'instructions' && request && (
+          <div className="space-y-3">
+            <Textarea
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="Describe the change, e.g. 'Add offline support to this requirement'"
+              className="min-h-[100px] resize-none"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                disabled={!instructions.trim()}
+                onClick={() => run({ ...request, instructions: instructions.trim() })}
+              >
+                <Wand2 className="mr-2 h-4 w-4" />
+                Refine
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status.step === 'loading' && (
+          <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Preparing changes...
+          </div>
+        )}
+
+        {status.step === 'error' && (
+          <div className="space-y-3">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Refinement failed</AlertTitle>
+              <AlertDescription>
+                <p>{status.message}</p>
+                {status.issues.length > 0 && (
+                  <ul className="list-disc pl-4 text-xs">
+                    {status.issues.slice(0, 5).map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={onClose}>
+                Close
+              </Button>
+              {request && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    run(instructions.trim() ? { ...request, instructions: instructions.trim() } : request)
+                  }
+                >
+                  Try again
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {status.step === 'review' && (
+          <div className="space-y-3">
+            <p className="text-sm text-foreground">{status.patch.summary}</p>
+            <ScrollArea className="h-[420px]">
+              <DiffView {...getDiff(status.patch)} />
+            </ScrollArea>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={onClose}>
+                <X className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+              <Button onClick={() => handleAccept(status.patch)}>
+                <Check className="mr-2 h-4 w-4" />
+                Accept changes
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
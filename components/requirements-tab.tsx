@@ -1,17 +1,26 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import ReactMarkdown from 'react-markdown';
 import { Button } from '@/components/ui/button';
-import { Edit2, Save, FileText } from 'lucide-react';
+import { Edit2, Save, FileText, History } from 'lucide-react';
 import { useBrainGrid } from '@/context/braingrid-context';
+import { SectionRefineMenu } from '@/components/refine-menu';
+import { RefinementDialog } from '@/components/refinement-dialog';
+import { RevisionHistoryDialog } from '@/components/revision-history-dialog';
+import { getRequirementSections } from '@/lib/refinement';
+import { formatTemplateSkeleton } from '@/lib/templates';
+import type { RefinementRequest } from '@/types';
 
 export function RequirementsTab() {
   const { state, dispatch } = useBrainGrid();
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState('');
+  const [refinement, setRefinement] = useState<RefinementRequest | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const sections = useMemo(() => getRequirementSections(state.requirements), [state.requirements]);
 
   const hasGeneratedContent = !!state.requirements;
 
@@ -24,7 +33,7 @@ export function RequirementsTab() {
 
   const handleSave = () => {
     if (editContent !== state.requirements) {
-      dispatch({ type: 'SET_REQUIREMENTS', payload: editContent });
+      dispatch({ type: 'SET_REQUIREMENTS', payload: editContent, source: 'manual' });
     }
     setIsEditing(false);
   };
@@ -34,6 +43,27 @@ export function RequirementsTab() {
     setIsEditing(false);
   };
 
+  // Preview of the template's skeleton until the document is generated
+  if (!hasGeneratedContent && state.template) {
+    return (
+      <div className="flex h-full flex-col">
+        <div className="flex items-center justify-between border-b border-border px-6 py-3">
+          <span className="text-sm font-medium text-muted-foreground">
+            Requirements Document
+          </span>
+          <span className="text-xs text-muted-foreground">
+            Outline from the {state.template.name} template
+          </span>
+        </div>
+        <ScrollArea className="flex-1">
+          <div className="prose prose-sm prose-invert max-w-none p-6 opacity-70">
+            <ReactMarkdown>{formatTemplateSkeleton(state.template)}</ReactMarkdown>
+          </div>
+        </ScrollArea>
+      </div>
+    );
+  }
+
   // Empty state when no requirements
   if (!hasGeneratedContent) {
     return (
@@ -77,10 +107,17 @@ export function RequirementsTab() {
               </Button>
             </>
           ) : (
-            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
-              <Edit2 className="mr-2 h-4 w-4" />
-              Edit
-            </Button>
+            <>
+              <SectionRefineMenu sections={sections} onRefine={setRefinement} />
+              <Button variant="ghost" size="sm" onClick={() => setHistoryOpen(true)}>
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+                <Edit2 className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            </>
           )}
         </div>
       </div>
@@ -154,6 +191,13 @@ export function RequirementsTab() {
           </div>
         )}
       </ScrollArea>
+
+      <RefinementDialog request={refinement} onClose={() => setRefinement(null)} />
+      <RevisionHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        initialSubject="requirements"
+      />
     </div>
   );
 }
@@ -2,16 +2,51 @@
 
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Search, Lightbulb, AlertTriangle, Code, Bookmark, ExternalLink } from 'lucide-react';
+import { Search, Lightbulb, AlertTriangle, Code, Bookmark, ExternalLink, FileText, Link2, History, Loader2, Pin, EyeOff, Gauge, Check, X, Flag, PencilLine, Trash2, Plus } from 'lucide-react';
+import { FindingDialog } from '@/components/finding-dialog';
+import { Button } from '@/components/ui/button';
 import { useBrainGrid } from '@/context/braingrid-context';
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { ChevronDown } from 'lucide-react';
-import type { ResearchFinding } from '@/types';
+import { cn } from '@/lib/utils';
+import { buildResearchContext, researchContextPhaseLabels } from '@/lib/research-context';
+import type {
+  FindingInclusion,
+  FindingReview,
+  ResearchCitation,
+  ResearchContextPhase,
+  ResearchContextReport,
+  ResearchFinding,
+  ResearchProviderId,
+} from '@/types';
+
+type ContextStatus = 'included' | 'trimmed' | 'omitted' | 'excluded' | 'rejected';
+
+// Rejected findings show their review badge instead
+const contextStatusLabels: Record<Exclude<ContextStatus, 'included' | 'rejected'>, string> = {
+  trimmed: 'Cut short',
+  omitted: 'Not in context',
+  excluded: 'Excluded',
+};
+
+const reviewOptions: Record<FindingReview, { icon: typeof Check; label: string; color: string }> = {
+  accepted: { icon: Check, label: 'Accepted', color: 'bg-green-500/10 text-green-400 border-green-500/20' },
+  must_address: { icon: Flag, label: 'Must address', color: 'bg-red-500/10 text-red-400 border-red-500/20' },
+  rejected: { icon: X, label: 'Rejected', color: 'bg-gray-500/10 text-gray-400 border-gray-500/20' },
+};
+
+function getContextStatus(report: ResearchContextReport, id: string): ContextStatus {
+  if (report.excluded.includes(id)) return 'excluded';
+  if (report.rejected.includes(id)) return 'rejected';
+  if (report.omitted.includes(id)) return 'omitted';
+  if (report.trimmed.includes(id)) return 'trimmed';
+  return 'included';
+}
 
 const categoryConfig: Record<ResearchFinding['category'], { icon: typeof Search; label: string; color: string }> = {
   concept: { icon: Lightbulb, label: 'Concept', color: 'bg-blue-500/10 text-blue-400 border-blue-500/20' },
@@ -21,34 +56,146 @@ const categoryConfig: Record<ResearchFinding['category'], { icon: typeof Search;
   technical: { icon: Code, label: 'Technical', color: 'bg-purple-500/10 text-purple-400 border-purple-500/20' },
 };
 
+const providerLabels: Record<ResearchProviderId, string> = {
+  perplexity: 'Web research',
+  local: 'Knowledge base',
+  none: 'Codebase only',
+};
+
 const relevanceColors: Record<ResearchFinding['relevance'], string> = {
   high: 'bg-red-500/10 text-red-400 border-red-500/20',
   medium: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
   low: 'bg-gray-500/10 text-gray-400 border-gray-500/20',
 };
 
-function FindingCard({ finding }: { finding: ResearchFinding }) {
+function CitationLink({ citation }: { citation: ResearchCitation }) {
+  if (!citation.url) {
+    return (
+      <span className="flex min-w-0 items-center gap-1">
+        <FileText className="h-3 w-3 shrink-0" />
+        <span className="truncate">[{citation.index}] {citation.title}</span>
+      </span>
+    );
+  }
+  return (
+    <a
+      href={citation.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={citation.url}
+      className="flex min-w-0 items-center gap-1 hover:text-foreground hover:underline"
+    >
+      <ExternalLink className="h-3 w-3 shrink-0" />
+      <span className="truncate">[{citation.index}] {citation.title}</span>
+    </a>
+  );
+}
+
+function FindingCard({
+  finding,
+  citations,
+  contextStatus,
+  inclusion,
+}: {
+  finding: ResearchFinding;
+  citations: Map<number, ResearchCitation>;
+  contextStatus: ContextStatus;
+  inclusion?: FindingInclusion;
+}) {
+  const { dispatch, followUpResearch, researchingTopic } = useBrainGrid();
   const [isOpen, setIsOpen] = useState(finding.relevance === 'high');
+  const [isEditing, setIsEditing] = useState(false);
   const config = categoryConfig[finding.category];
   const Icon = config.icon;
+  const sources = (finding.citations ?? [])
+    .map((index) => citations.get(index))
+    .filter((c): c is ResearchCitation => !!c);
+  const unsupported = sources.length === 0 && !finding.source;
+
+  const toggleInclusion = (value: FindingInclusion) => {
+    dispatch({
+      type: 'SET_FINDING_INCLUSION',
+      payload: { id: finding.id, inclusion: inclusion === value ? null : value },
+    });
+  };
+
+  const toggleReview = (value: FindingReview) => {
+    dispatch({
+      type: 'REVIEW_FINDING',
+      payload: { id: finding.id, review: finding.review === value ? null : value },
+    });
+  };
 
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen}>
-      <div className="rounded-lg border border-border bg-card/50">
+      <FindingDialog
+        open={isEditing}
+        onOpenChange={setIsEditing}
+        finding={finding}
+        onSave={(changes) => dispatch({ type: 'UPDATE_FINDING', payload: { id: finding.id, changes } })}
+      />
+      <div
+        className={cn(
+          'rounded-lg border border-border bg-card/50',
+          finding.review === 'rejected' && 'opacity-60'
+        )}
+      >
         <CollapsibleTrigger className="flex w-full items-center justify-between p-4 text-left hover:bg-muted/50 transition-colors">
           <div className="flex items-center gap-3">
             <div className={`flex h-8 w-8 items-center justify-center rounded-md ${config.color}`}>
               <Icon className="h-4 w-4" />
             </div>
             <div className="flex flex-col gap-1">
-              <span className="font-medium text-foreground">{finding.title}</span>
-              <div className="flex items-center gap-2">
+              <span
+                className={cn(
+                  'font-medium text-foreground',
+                  finding.review === 'rejected' && 'line-through'
+                )}
+              >
+                {finding.title}
+              </span>
+              <div className="flex flex-wrap items-center gap-2">
                 <Badge variant="outline" className={`text-xs ${config.color}`}>
                   {config.label}
                 </Badge>
                 <Badge variant="outline" className={`text-xs ${relevanceColors[finding.relevance]}`}>
                   {finding.relevance} relevance
                 </Badge>
+                {finding.review && (
+                  <Badge variant="outline" className={`text-xs ${reviewOptions[finding.review].color}`}>
+                    {reviewOptions[finding.review].label}
+                  </Badge>
+                )}
+                {finding.origin === 'user' && (
+                  <Badge variant="outline" className="text-xs">
+                    Added by you
+                  </Badge>
+                )}
+                {finding.edited && (
+                  <Badge variant="outline" className="text-xs">
+                    Edited
+                  </Badge>
+                )}
+                {unsupported && finding.origin !== 'user' && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs border-dashed text-muted-foreground"
+                    title="No gathered source supports this finding"
+                  >
+                    No source
+                  </Badge>
+                )}
+                {inclusion === 'pinned' && (
+                  <Badge variant="outline" className="gap-1 text-xs">
+                    <Pin className="h-3 w-3" />
+                    Pinned
+                  </Badge>
+                )}
+                {contextStatus !== 'included' && contextStatus !== 'rejected' && (
+                  <Badge variant="outline" className="text-xs text-muted-foreground">
+                    {contextStatusLabels[contextStatus]}
+                  </Badge>
+                )}
               </div>
             </div>
           </div>
@@ -59,12 +206,94 @@ function FindingCard({ finding }: { finding: ResearchFinding }) {
             <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
               {finding.content}
             </p>
-            {finding.source && (
+            {sources.length > 0 && (
+              <div className="mt-3 flex flex-col gap-1 text-xs text-muted-foreground">
+                {sources.map((citation) => (
+                  <CitationLink key={citation.index} citation={citation} />
+                ))}
+              </div>
+            )}
+            {sources.length === 0 && finding.source && (
               <div className="mt-3 flex items-center gap-1 text-xs text-muted-foreground">
                 <ExternalLink className="h-3 w-3" />
                 <span className="truncate">{finding.source}</span>
               </div>
             )}
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-1">
+              <div className="flex items-center rounded-md border border-border p-0.5">
+                {(Object.keys(reviewOptions) as FindingReview[]).map((value) => {
+                  const ReviewIcon = reviewOptions[value].icon;
+                  return (
+                    <Button
+                      key={value}
+                      variant={finding.review === value ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-6 gap-1 px-2 text-xs"
+                      onClick={() => toggleReview(value)}
+                    >
+                      <ReviewIcon className="h-3.5 w-3.5" />
+                      {value === 'accepted' ? 'Accept' : value === 'rejected' ? 'Reject' : 'Must address'}
+                    </Button>
+                  );
+                })}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1.5 text-xs"
+                  onClick={() => setIsEditing(true)}
+                >
+                  <PencilLine className="h-3.5 w-3.5" />
+                  Edit
+                </Button>
+                {finding.origin === 'user' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1.5 text-xs"
+                    onClick={() => dispatch({ type: 'REMOVE_FINDING', payload: finding.id })}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    Remove
+                  </Button>
+                )}
+                <Button
+                  variant={inclusion === 'pinned' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 gap-1.5 text-xs"
+                  title="Always include in prompt context"
+                  onClick={() => toggleInclusion('pinned')}
+                >
+                  <Pin className="h-3.5 w-3.5" />
+                  {inclusion === 'pinned' ? 'Unpin' : 'Pin'}
+                </Button>
+                <Button
+                  variant={inclusion === 'excluded' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 gap-1.5 text-xs"
+                  title="Never include in prompt context"
+                  onClick={() => toggleInclusion('excluded')}
+                >
+                  <EyeOff className="h-3.5 w-3.5" />
+                  {inclusion === 'excluded' ? 'Include' : 'Exclude'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1.5 text-xs"
+                  disabled={!!researchingTopic}
+                  onClick={() => followUpResearch(finding.title)}
+                >
+                  {researchingTopic === finding.title ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Search className="h-3.5 w-3.5" />
+                  )}
+                  Research further
+                </Button>
+              </div>
+            </div>
           </div>
         </CollapsibleContent>
       </div>
@@ -73,11 +302,26 @@ function FindingCard({ finding }: { finding: ResearchFinding }) {
 }
 
 export function ResearchTab() {
-  const { state } = useBrainGrid();
+  const { state, dispatch, researchingTopic } = useBrainGrid();
   const research = state.research;
+  const [contextPhase, setContextPhase] = useState<ResearchContextPhase>('generating');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const addFindingDialog = (
+    <FindingDialog
+      open={isAdding}
+      onOpenChange={setIsAdding}
+      onSave={(draft) => dispatch({ type: 'ADD_FINDING', payload: draft })}
+    />
+  );
+  const report = useMemo(
+    () =>
+      research ? buildResearchContext(research, contextPhase, state.researchSelection).report : null,
+    [research, contextPhase, state.researchSelection]
+  );
 
   // Empty state when no research
-  if (!research) {
+  if (!research || !report) {
     return (
       <div className="flex h-full flex-col">
         <div className="flex items-center justify-between border-b border-border px-6 py-3">
@@ -85,6 +329,7 @@ export function ResearchTab() {
             Domain Research
           </span>
         </div>
+        {addFindingDialog}
         <div className="flex flex-1 flex-col items-center justify-center gap-4 p-6 text-center">
           <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
             <Search className="h-8 w-8 text-muted-foreground" />
@@ -95,6 +340,10 @@ export function ResearchTab() {
               Research will be automatically conducted when you describe your project. The AI will gather domain knowledge, best practices, and common pitfalls.
             </p>
           </div>
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setIsAdding(true)}>
+            <Plus className="h-4 w-4" />
+            Add your own finding
+          </Button>
         </div>
       </div>
     );
@@ -109,33 +358,98 @@ export function ResearchTab() {
     return acc;
   }, {} as Record<string, ResearchFinding[]>);
 
+  const citations = new Map((research.citations ?? []).map((c) => [c.index, c] as const));
+
   // Sort findings within each category by relevance
   const relevanceOrder = { high: 0, medium: 1, low: 2 };
   Object.keys(groupedFindings).forEach((category) => {
     groupedFindings[category].sort((a, b) => relevanceOrder[a.relevance] - relevanceOrder[b.relevance]);
   });
 
+  const reviewed = research.findings.filter((f) => f.review).length;
+
   return (
     <div className="flex h-full flex-col">
       <div className="flex items-center justify-between border-b border-border px-6 py-3">
         <span className="text-sm font-medium text-muted-foreground">
           Domain Research
         </span>
-        <Badge variant="secondary" className="text-xs">
-          {research.findings.length} findings
-        </Badge>
+        <div className="flex items-center gap-2">
+          {researchingTopic && (
+            <Badge variant="outline" className="gap-1 text-xs">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Researching
+            </Badge>
+          )}
+          {research.provider && (
+            <Badge variant="outline" className="text-xs">
+              {providerLabels[research.provider]}
+            </Badge>
+          )}
+          <Badge variant="secondary" className="text-xs">
+            {reviewed} of {research.findings.length} reviewed
+          </Badge>
+          <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" onClick={() => setIsAdding(true)}>
+            <Plus className="h-3.5 w-3.5" />
+            Add finding
+          </Button>
+        </div>
       </div>
+      {addFindingDialog}
 
       <ScrollArea className="flex-1">
         <div className="space-y-6 p-6">
           {/* Summary Section */}
+          {research.summary && (
+            <div className="rounded-lg border border-border bg-card p-4">
+              <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
+                <Search className="h-4 w-4 text-primary" />
+                Research Summary
+              </h3>
+              <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
+                {research.summary}
+              </p>
+            </div>
+          )}
+
+          {/* Prompt context */}
           <div className="rounded-lg border border-border bg-card p-4">
-            <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
-              <Search className="h-4 w-4 text-primary" />
-              Research Summary
-            </h3>
-            <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
-              {research.summary}
+            <div className="mb-3 flex items-center justify-between gap-2">
+              <h3 className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <Gauge className="h-4 w-4 text-primary" />
+                Prompt Context
+              </h3>
+              <div className="flex items-center rounded-md border border-border p-0.5">
+                {(Object.keys(researchContextPhaseLabels) as ResearchContextPhase[]).map((phase) => (
+                  <Button
+                    key={phase}
+                    variant={contextPhase === phase ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setContextPhase(phase)}
+                  >
+                    {researchContextPhaseLabels[phase]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {report.included.length + report.trimmed.length} of {research.findings.length} findings
+              {report.trimmed.length > 0 && ` (${report.trimmed.length} cut short)`} fit in the{' '}
+              {researchContextPhaseLabels[contextPhase].toLowerCase()} context, using ~
+              {report.tokens.toLocaleString()} of {report.budget.toLocaleString()} tokens.
+            </p>
+            <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-muted">
+              <div
+                className={cn('h-full', report.tokens > report.budget ? 'bg-amber-500' : 'bg-primary')}
+                style={{ width: `${Math.min(100, (report.tokens / report.budget) * 100)}%` }}
+              />
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Accept, reject or mark findings as must address before answering questions; rejected
+              findings are never turned into requirements. Pin a finding to always include it, or
+              exclude it to leave it out.
+              {contextPhase !== 'clarifying' && ' Pitfalls and edge cases are always included when generating.'}
             </p>
           </div>
 
@@ -167,13 +481,55 @@ export function ResearchTab() {
                 </h3>
                 <div className="space-y-3">
                   {findings.map((finding) => (
-                    <FindingCard key={finding.id} finding={finding} />
+                    <FindingCard
+                      key={finding.id}
+                      finding={finding}
+                      citations={citations}
+                      contextStatus={getContextStatus(report, finding.id)}
+                      inclusion={state.researchSelection[finding.id]}
+                    />
                   ))}
                 </div>
               </div>
             );
           })}
 
+          {/* Sources */}
+          {research.citations && research.citations.length > 0 && (
+            <div className="rounded-lg border border-border bg-card p-4">
+              <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
+                <Link2 className="h-4 w-4 text-primary" />
+                Sources ({research.citations.length})
+              </h3>
+              <div className="flex flex-col gap-1.5 text-xs text-muted-foreground">
+                {research.citations.map((citation) => (
+                  <CitationLink key={citation.index} citation={citation} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Research runs, when follow-up research has been done */}
+          {state.researchSessions.length > 1 && (
+            <div className="rounded-lg border border-border bg-card p-4">
+              <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-foreground">
+                <History className="h-4 w-4 text-primary" />
+                Research Runs ({state.researchSessions.length})
+              </h3>
+              <ul className="space-y-1.5 text-xs text-muted-foreground">
+                {[...state.researchSessions].reverse().map((session) => (
+                  <li key={session.id} className="flex items-center justify-between gap-3">
+                    <span className="truncate">{session.topic ?? 'Initial research'}</span>
+                    <span className="shrink-0">
+                      {session.findings.length} findings ·{' '}
+                      {new Date(session.timestamp).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Research timestamp */}
           <div className="text-center text-xs text-muted-foreground">
             Researched: {new Date(research.timestamp).toLocaleString()}
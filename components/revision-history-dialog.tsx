@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DiffView } from '@/components/diff-view';
+import { useBrainGrid } from '@/context/braingrid-context';
+import { cn } from '@/lib/utils';
+import { getRevisionText, revisionSourceLabels, serializeTasks } from '@/lib/history';
+import type { Revision, RevisionSubject } from '@/types';
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialSubject: RevisionSubject;
+}
+
+const subjectLabels: Record<RevisionSubject, string> = {
+  requirements: 'Requirements',
+  tasks: 'Tasks',
+};
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Lists saved revisions of the requirements and task list, shows a
+ * side-by-side diff against the current version or the previous revision,
+ * and restores a revision in one click.
+ */
+export function RevisionHistoryDialog({
+  open,
+  onOpenChange,
+  initialSubject,
+}: RevisionHistoryDialogProps) {
+  const { state, dispatch } = useBrainGrid();
+  const [subject, setSubject] = useState<RevisionSubject>(initialSubject);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<'current' | 'previous'>('current');
+
+  useEffect(() => {
+    if (open) {
+      setSubject(initialSubject);
+      setSelectedId(null);
+      setCompareTo('current');
+    }
+  }, [open, initialSubject]);
+
+  // Newest first
+  const revisions = useMemo(() => [...state.history[subject]].reverse(), [state.history, subject]);
+  const selectedIndex = revisions.findIndex((r) => r.id === selectedId);
+  const selected: Revision | undefined = revisions[selectedIndex] ?? revisions[0];
+  const previous = selected ? revisions[revisions.indexOf(selected) + 1] : undefined;
+
+  const currentContent =
+    subject === 'requirements' ? state.requirements : serializeTasks(state.tasks);
+  const isCurrent = !!selected && selected.content === currentContent;
+
+  const diff =
+    compareTo === 'previous'
+      ? {
+          before: getRevisionText(subject, previous?.content ?? null),
+          after: getRevisionText(subject, selected?.content ?? null),
+          beforeLabel: previous ? formatTimestamp(previous.timestamp) : 'Nothing',
+          afterLabel: selected ? formatTimestamp(selected.timestamp) : '',
+        }
+      : {
+          before: getRevisionText(subject, selected?.content ?? null),
+          after: getRevisionText(subject, currentContent),
+          beforeLabel: selected ? formatTimestamp(selected.timestamp) : '',
+          afterLabel: 'Current',
+        };
+
+  const handleRestore = (revision: Revision) => {
+    dispatch({ type: 'RESTORE_REVISION', payload: { subject, id: revision.id } });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </DialogTitle>
+          <DialogDescription>
+            Every generation, edit, refinement and restore is saved with the session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center rounded-md border border-border p-0.5">
+            {(['requirements', 'tasks'] as const).map((s) => (
+              <Button
+                key={s}
+                variant={subject === s ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7"
+                onClick={() => {
+                  setSubject(s);
+                  setSelectedId(null);
+                }}
+              >
+                {subjectLabels[s]} ({state.history[s].length})
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center rounded-md border border-border p-0.5">
+            <Button
+              variant={compareTo === 'current' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7"
+              onClick={() => setCompareTo('current')}
+            >
+              Compare with current
+            </Button>
+            <Button
+              variant={compareTo === 'previous' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7"
+              onClick={() => setCompareTo('previous')}
+            >
+              Compare with previous
+            </Button>
+          </div>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            No saved versions of the {subjectLabels[subject].toLowerCase()} yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-[220px_1fr] gap-3">
+            <ScrollArea className="h-[480px] rounded-md border border-border">
+              <div className="space-y-1 p-1">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      'flex w-full flex-col items-start gap-1 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted/50',
+                      revision === selected && 'bg-muted'
+                    )}
+                  >
+                    <span className="text-foreground">{formatTimestamp(revision.timestamp)}</span>
+                    <span className="flex items-center gap-1">
+                      <Badge variant="outline">{revisionSourceLabels[revision.source]}</Badge>
+                      {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex min-w-0 flex-col gap-3">
+              <ScrollArea className="h-[432px]">
+                <DiffView {...diff} mode="split" />
+              </ScrollArea>
+              <div className="flex justify-end">
+                {selected && (
+                  <Button disabled={isCurrent} onClick={() => handleRestore(selected)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    {isCurrent ? 'This is the current version' : 'Restore this version'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, MoreHorizontal, Pencil, Copy, Trash2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { useBrainGrid } from '@/context/braingrid-context';
+import type { ConversationPhase, SessionSummary } from '@/types';
+
+const phaseLabels: Record<ConversationPhase, string> = {
+  initial: 'Getting Started',
+  researching: 'Researching',
+  clarifying: 'Gathering Info',
+  generating: 'Generating',
+  complete: 'Complete',
+};
+
+interface SessionLibraryProps {
+  onNewSession: () => void;
+}
+
+function SessionRow({
+  session,
+  isActive,
+  onOpen,
+}: {
+  session: SessionSummary;
+  isActive: boolean;
+  onOpen: () => void;
+}) {
+  const { renameSession, duplicateSession, deleteSession } = useBrainGrid();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState(session.title);
+
+  const handleRename = async () => {
+    const trimmed = title.trim();
+    setIsRenaming(false);
+    if (trimmed && trimmed !== session.title) {
+      try {
+        await renameSession(session.id, trimmed);
+      } catch (error) {
+        console.error('Rename session error:', error);
+        setTitle(session.title);
+      }
+    } else {
+      setTitle(session.title);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleRename();
+    } else if (e.key === 'Escape') {
+      setTitle(session.title);
+      setIsRenaming(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        'group flex items-start gap-2 rounded-lg border border-border p-3 transition-colors',
+        isActive ? 'border-primary/50 bg-primary/5' : 'cursor-pointer hover:bg-muted/50'
+      )}
+      onClick={() => !isRenaming && !isActive && onOpen()}
+    >
+      <div className="min-w-0 flex-1 space-y-1.5">
+        {isRenaming ? (
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={handleRename}
+            onClick={(e) => e.stopPropagation()}
+            className="h-7 text-sm"
+            autoFocus
+          />
+        ) : (
+          <p className="truncate text-sm font-medium text-foreground">{session.title}</p>
+        )}
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="outline" className="text-xs">
+            {phaseLabels[session.conversationPhase]}
+          </Badge>
+          {session.taskCount > 0 && <span>{session.taskCount} tasks</span>}
+          <span className="truncate">{new Date(session.updatedAt).toLocaleString()}</span>
+        </div>
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+          <Button variant="ghost" size="icon-sm" className="h-7 w-7 shrink-0">
+            <MoreHorizontal className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuItem onSelect={() => setIsRenaming(true)}>
+            <Pencil className="h-4 w-4" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() =>
+              duplicateSession(session.id).catch((error) =>
+                console.error('Duplicate session error:', error)
+              )
+            }
+          >
+            <Copy className="h-4 w-4" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            variant="destructive"
+            onSelect={() =>
+              deleteSession(session.id).catch((error) =>
+                console.error('Delete session error:', error)
+              )
+            }
+          >
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+export function SessionLibrary({ onNewSession }: SessionLibraryProps) {
+  const { state, sessions, refreshSessions, openSession } = useBrainGrid();
+  const [open, setOpen] = useState(false);
+
+  // Refresh the list whenever the library is opened
+  useEffect(() => {
+    if (open) {
+      refreshSessions();
+    }
+  }, [open, refreshSessions]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      await openSession(id);
+      setOpen(false);
+    } catch (error) {
+      console.error('Open session error:', error);
+    }
+  };
+
+  const handleNewSession = () => {
+    onNewSession();
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon-sm" className="h-7 w-7" title="Session library">
+          <History className="h-3.5 w-3.5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="w-[380px] sm:max-w-[380px]">
+        <SheetHeader>
+          <SheetTitle>Sessions</SheetTitle>
+          <SheetDescription>
+            Planning sessions are saved automatically. Reopen one to continue where you left off.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4">
+          <Button variant="outline" size="sm" className="w-full" onClick={handleNewSession}>
+            <Plus className="mr-2 h-4 w-4" />
+            New session
+          </Button>
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1 px-4 pb-4">
+          {sessions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No saved sessions yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <SessionRow
+                  key={`${session.id}:${session.title}`}
+                  session={session}
+                  isActive={session.id === state.sessionId}
+                  onOpen={() => handleOpen(session.id)}
+                />
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useMemo } from 'react';
+import { AlertTriangle, CheckCircle2, Circle, PlayCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { analyzeTaskGraph } from '@/lib/task-graph';
+import type { Task } from '@/types';
+
+const NODE_WIDTH = 208;
+const NODE_HEIGHT = 72;
+const COLUMN_GAP = 56;
+const ROW_GAP = 16;
+const PADDING = 24;
+
+interface TaskGraphViewProps {
+  tasks: Task[];
+}
+
+/**
+ * Tasks laid out as a DAG, one column per dependency level, with the critical
+ * path and currently unblocked tasks highlighted.
+ */
+export function TaskGraphView({ tasks }: TaskGraphViewProps) {
+  const graph = useMemo(() => analyzeTaskGraph(tasks), [tasks]);
+  const byId = useMemo(() => new Map(tasks.map((t) => [t.id, t])), [tasks]);
+
+  const positions = useMemo(() => {
+    const result = new Map<string, { x: number; y: number }>();
+    graph.levels.forEach((column, columnIndex) => {
+      column.forEach((id, rowIndex) => {
+        result.set(id, {
+          x: PADDING + columnIndex * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + rowIndex * (NODE_HEIGHT + ROW_GAP),
+        });
+      });
+    });
+    return result;
+  }, [graph.levels]);
+
+  const critical = new Set(graph.criticalPath);
+  const criticalEdges = new Set(
+    graph.criticalPath.slice(1).map((id, i) => `${graph.criticalPath[i]}->${id}`)
+  );
+  const unblocked = new Set(graph.unblocked);
+  const inCycle = new Set(graph.cycles.flat());
+
+  const width = PADDING * 2 + graph.levels.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height =
+    PADDING * 2 +
+    Math.max(0, ...graph.levels.map((c) => c.length)) * (NODE_HEIGHT + ROW_GAP) -
+    ROW_GAP;
+
+  const title = (id: string) => byId.get(id)?.title ?? id;
+
+  return (
+    <div className="space-y-4">
+      {graph.cycles.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Circular dependencies detected</AlertTitle>
+          <AlertDescription>
+            <p>These tasks depend on each other, so none of them can start. Edit their dependencies to break the cycle:</p>
+            <ul className="list-disc pl-4">
+              {graph.cycles.map((cycle) => (
+                <li key={cycle.join('>')}>{cycle.map(title).join(' → ')}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {graph.missingDependencies.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Unknown dependencies</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {graph.missingDependencies.map(({ taskId, dependencyId }) => (
+                <li key={`${taskId}:${dependencyId}`}>
+                  {title(taskId)} depends on missing task &quot;{dependencyId}&quot;
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="h-3 w-3 rounded-sm border-2 border-primary" />
+          Critical path ({graph.criticalPath.length} tasks)
+        </span>
+        <span className="flex items-center gap-1.5">
+          <PlayCircle className="h-3.5 w-3.5 text-emerald-600" />
+          Ready to start ({graph.unblocked.length})
+        </span>
+        <span className="flex items-center gap-1.5">
+          <CheckCircle2 className="h-3.5 w-3.5 text-primary" />
+          Done
+        </span>
+      </div>
+
+      <div className="overflow-auto rounded-lg border border-border bg-muted/20">
+        <div className="relative" style={{ width, height }}>
+          <svg className="pointer-events-none absolute inset-0" width={width} height={height}>
+            <defs>
+              <marker
+                id="task-graph-arrow"
+                viewBox="0 0 10 10"
+                refX="10"
+                refY="5"
+                markerWidth="6"
+                markerHeight="6"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+              </marker>
+            </defs>
+            {graph.edges.map((edge) => {
+              const from = positions.get(edge.from);
+              const to = positions.get(edge.to);
+              if (!from || !to) return null;
+
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const midX = (x1 + x2) / 2;
+              const isCritical = criticalEdges.has(`${edge.from}->${edge.to}`);
+
+              return (
+                <path
+                  key={`${edge.from}->${edge.to}`}
+                  d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  strokeWidth={isCritical ? 2 : 1.25}
+                  markerEnd="url(#task-graph-arrow)"
+                  className={isCritical ? 'text-primary' : 'text-muted-foreground/50'}
+                  stroke="currentColor"
+                />
+              );
+            })}
+          </svg>
+
+          {tasks.map((task) => {
+            const position = positions.get(task.id);
+            if (!position) return null;
+            const isReady = unblocked.has(task.id);
+
+            return (
+              <div
+                key={task.id}
+                className={cn(
+                  'absolute flex flex-col justify-between rounded-md border bg-card p-2.5 shadow-xs',
+                  critical.has(task.id) ? 'border-2 border-primary' : 'border-border',
+                  inCycle.has(task.id) && 'border-destructive',
+                  task.completed && 'opacity-60'
+                )}
+                style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                title={task.description}
+              >
+                <div className="flex items-start gap-1.5">
+                  {task.completed ? (
+                    <CheckCircle2 className="mt-0.5 h-3.5 w-3.5 shrink-0 text-primary" />
+                  ) : isReady ? (
+                    <PlayCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-emerald-600" />
+                  ) : (
+                    <Circle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                  )}
+                  <p
+                    className={cn(
+                      'line-clamp-2 text-xs font-medium',
+                      task.completed ? 'text-muted-foreground line-through' : 'text-foreground'
+                    )}
+                  >
+                    {task.title}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {task.requirementId && (
+                    <Badge variant="outline" className="px-1.5 py-0 font-mono text-[10px]">
+                      {task.requirementId}
+                    </Badge>
+                  )}
+                  {task.estimate && (
+                    <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">
+                      {task.estimate}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { Link2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import type { FunctionalRequirement } from '@/lib/requirements';
+import type { Task, TaskEstimate, TaskPriority } from '@/types';
+
+export const priorityLabels: Record<TaskPriority, string> = {
+  'must-have': 'Must-have',
+  'should-have': 'Should-have',
+  'nice-to-have': 'Nice-to-have',
+};
+
+const priorityStyles: Record<TaskPriority, string> = {
+  'must-have': 'border-red-500/40 text-red-600 dark:text-red-400',
+  'should-have': 'border-amber-500/40 text-amber-600 dark:text-amber-400',
+  'nice-to-have': 'border-border text-muted-foreground',
+};
+
+export const estimateOptions: TaskEstimate[] = ['XS', 'S', 'M', 'L', 'XL'];
+
+// Sentinel for "no requirement" since Select items cannot have an empty value
+const NO_REQUIREMENT = '__none__';
+
+/**
+ * Compact priority / estimate / requirement badges for a task header.
+ */
+export function TaskMetaBadges({ task }: { task: Task }) {
+  if (!task.priority && !task.estimate && !task.requirementId) return null;
+
+  return (
+    <div className="flex shrink-0 items-center gap-1.5">
+      {task.requirementId && (
+        <Badge variant="outline" className="font-mono text-xs">
+          {task.requirementId}
+        </Badge>
+      )}
+      {task.priority && (
+        <Badge variant="outline" className={cn('text-xs', priorityStyles[task.priority])}>
+          {priorityLabels[task.priority]}
+        </Badge>
+      )}
+      {task.estimate && (
+        <Badge variant="secondary" className="text-xs">
+          {task.estimate}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+interface TaskPlanningEditorProps {
+  task: Task;
+  tasks: Task[];
+  requirements: FunctionalRequirement[];
+  onChange: (changes: Partial<Omit<Task, 'id'>>) => void;
+}
+
+/**
+ * Inline editors for a task's dependencies, estimate, priority and requirement.
+ */
+export function TaskPlanningEditor({ task, tasks, requirements, onChange }: TaskPlanningEditorProps) {
+  const dependsOn = task.dependsOn ?? [];
+  const otherTasks = tasks.filter((t) => t.id !== task.id);
+  const titleById = new Map(tasks.map((t) => [t.id, t.title]));
+
+  const toggleDependency = (id: string, checked: boolean) => {
+    onChange({
+      dependsOn: checked ? [...dependsOn, id] : dependsOn.filter((d) => d !== id),
+    });
+  };
+
+  // Keep an unknown requirement id selectable so editing doesn't silently drop it
+  const requirementOptions =
+    task.requirementId && !requirements.some((r) => r.id === task.requirementId)
+      ? [...requirements, { id: task.requirementId, title: '(not in requirements)', priority: null }]
+      : requirements;
+
+  return (
+    <div className="mb-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={task.priority}
+          onValueChange={(value) => onChange({ priority: value as TaskPriority })}
+        >
+          <SelectTrigger size="sm" className="h-7 text-xs">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(priorityLabels) as TaskPriority[]).map((priority) => (
+              <SelectItem key={priority} value={priority} className="text-xs">
+                {priorityLabels[priority]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={task.estimate}
+          onValueChange={(value) => onChange({ estimate: value as TaskEstimate })}
+        >
+          <SelectTrigger size="sm" className="h-7 text-xs">
+            <SelectValue placeholder="Estimate" />
+          </SelectTrigger>
+          <SelectContent>
+            {estimateOptions.map((estimate) => (
+              <SelectItem key={estimate} value={estimate} className="text-xs">
+                {estimate}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={task.requirementId ?? NO_REQUIREMENT}
+          onValueChange={(value) =>
+            onChange({ requirementId: value === NO_REQUIREMENT ? undefined : value })
+          }
+        >
+          <SelectTrigger size="sm" className="h-7 max-w-[220px] text-xs">
+            <SelectValue placeholder="Requirement" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_REQUIREMENT} className="text-xs">
+              No requirement
+            </SelectItem>
+            {requirementOptions.map((requirement) => (
+              <SelectItem key={requirement.id} value={requirement.id} className="text-xs">
+                {requirement.id}: {requirement.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 text-xs">
+              <Link2 className="mr-1 h-3 w-3" />
+              Depends on ({dependsOn.length})
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-w-[320px]">
+            <DropdownMenuLabel className="text-xs">Must be done first</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {otherTasks.map((other) => (
+              <DropdownMenuCheckboxItem
+                key={other.id}
+                checked={dependsOn.includes(other.id)}
+                onCheckedChange={(checked) => toggleDependency(other.id, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+                className="text-xs"
+              >
+                <span className="truncate">{other.title}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {dependsOn.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Depends on: {dependsOn.map((id) => titleById.get(id) ?? id).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
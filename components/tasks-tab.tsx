@@ -1,18 +1,46 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Checkbox } from '@/components/ui/checkbox';
-import { ChevronRight, Circle, CheckCircle2, Target, ListChecks } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  ChevronRight,
+  Circle,
+  CheckCircle2,
+  Target,
+  ListChecks,
+  List,
+  Network,
+  History,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useBrainGrid } from '@/context/braingrid-context';
+import { parseFunctionalRequirements } from '@/lib/requirements';
+import { TaskMetaBadges, TaskPlanningEditor } from '@/components/task-meta';
+import { TaskGraphView } from '@/components/task-graph-view';
+import { TaskRefineMenu } from '@/components/refine-menu';
+import { RefinementDialog } from '@/components/refinement-dialog';
+import { RevisionHistoryDialog } from '@/components/revision-history-dialog';
+import type { RefinementRequest, Task } from '@/types';
 
 export function TasksTab() {
   const { state, dispatch } = useBrainGrid();
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+  const [view, setView] = useState<'list' | 'graph'>('list');
+  const [refinement, setRefinement] = useState<RefinementRequest | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   const tasks = state.tasks;
   const hasGeneratedTasks = tasks.length > 0;
+  const functionalRequirements = useMemo(
+    () => parseFunctionalRequirements(state.requirements),
+    [state.requirements]
+  );
+
+  const updateTask = (taskId: string, changes: Partial<Omit<Task, 'id'>>) => {
+    dispatch({ type: 'UPDATE_TASK', payload: { id: taskId, changes } });
+  };
 
   const toggleTask = (taskId: string) => {
     if (hasGeneratedTasks) {
@@ -69,151 +97,189 @@ export function TasksTab() {
         <span className="text-sm font-medium text-muted-foreground">
           Task List ({completedCount}/{tasks.length})
         </span>
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-3">
           <div className="h-2 w-32 rounded-full bg-secondary">
             <div
               className="h-full rounded-full bg-primary transition-all"
               style={{ width: `${(completedCount / tasks.length) * 100}%` }}
             />
           </div>
+          <div className="flex items-center rounded-md border border-border p-0.5">
+            <Button
+              variant={view === 'list' ? 'secondary' : 'ghost'}
+              size="icon-sm"
+              className="h-6 w-6"
+              title="List view"
+              onClick={() => setView('list')}
+            >
+              <List className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant={view === 'graph' ? 'secondary' : 'ghost'}
+              size="icon-sm"
+              className="h-6 w-6"
+              title="Dependency graph"
+              onClick={() => setView('graph')}
+            >
+              <Network className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            className="h-7 w-7"
+            title="Version history"
+            onClick={() => setHistoryOpen(true)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
         </div>
       </div>
 
       <ScrollArea className="flex-1">
         <div className="p-6">
-          <div className="space-y-2">
-            {tasks.map((task) => {
-              const isExpanded = expandedTasks.has(task.id);
-              const hasContent =
-                task.description ||
-                (task.subtasks && task.subtasks.length > 0) ||
-                (task.acceptanceCriteria && task.acceptanceCriteria.length > 0);
-
-              return (
-                <div key={task.id} className="rounded-lg border border-border bg-card">
-                  <div
-                    className={cn(
-                      'flex items-start gap-3 p-4 transition-colors',
-                      hasContent && 'cursor-pointer hover:bg-muted/50'
-                    )}
-                    onClick={() => hasContent && toggleExpanded(task.id)}
-                  >
-                    {hasContent && (
+          {view === 'graph' ? (
+            <TaskGraphView tasks={tasks} />
+          ) : (
+            <div className="space-y-2">
+              {tasks.map((task) => {
+                // Every task can expand, at least to edit its planning fields
+                const isExpanded = expandedTasks.has(task.id);
+
+                return (
+                  <div key={task.id} className="rounded-lg border border-border bg-card">
+                    <div
+                      className="flex cursor-pointer items-start gap-3 p-4 transition-colors hover:bg-muted/50"
+                      onClick={() => toggleExpanded(task.id)}
+                    >
                       <ChevronRight
                         className={cn(
                           'mt-0.5 h-4 w-4 shrink-0 text-muted-foreground transition-transform',
                           isExpanded && 'rotate-90'
                         )}
                       />
-                    )}
-                    {!hasContent && <div className="w-4 shrink-0" />}
 
-                    <div
-                      className="flex flex-1 items-start gap-3"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleTask(task.id);
-                      }}
-                    >
-                      <Checkbox
-                        checked={task.completed}
-                        className="mt-0.5"
-                        disabled={!hasGeneratedTasks}
-                      />
-                      <div className="flex-1">
-                        <p
-                          className={cn(
-                            'text-sm font-medium',
-                            task.completed
-                              ? 'text-muted-foreground line-through'
-                              : 'text-foreground'
-                          )}
-                        >
-                          {task.title}
-                        </p>
+                      <div
+                        className="flex flex-1 items-start gap-3"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleTask(task.id);
+                        }}
+                      >
+                        <Checkbox
+                          checked={task.completed}
+                          className="mt-0.5"
+                          disabled={!hasGeneratedTasks}
+                        />
+                        <div className="flex-1">
+                          <p
+                            className={cn(
+                              'text-sm font-medium',
+                              task.completed
+                                ? 'text-muted-foreground line-through'
+                                : 'text-foreground'
+                            )}
+                          >
+                            {task.title}
+                          </p>
+                        </div>
                       </div>
-                    </div>
 
-                    {task.completed ? (
-                      <CheckCircle2 className="h-4 w-4 shrink-0 text-primary" />
-                    ) : (
-                      <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />
-                    )}
-                  </div>
+                      <TaskMetaBadges task={task} />
+
+                      <TaskRefineMenu task={task} tasks={tasks} onRefine={setRefinement} />
 
-                  {isExpanded && hasContent && (
-                    <div className="border-t border-border px-4 pb-4 pt-3">
-                      {task.description && (
-                        <p className="mb-3 text-sm leading-relaxed text-muted-foreground">
-                          {task.description}
-                        </p>
+                      {task.completed ? (
+                        <CheckCircle2 className="h-4 w-4 shrink-0 text-primary" />
+                      ) : (
+                        <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />
                       )}
+                    </div>
 
-                      {task.subtasks && task.subtasks.length > 0 && (
-                        <div className="mb-3 space-y-2">
-                          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
-                            <ListChecks className="h-3 w-3" />
-                            Subtasks
-                          </div>
-                          {task.subtasks.map((subtask) => (
-                            <div
-                              key={subtask.id}
-                              className={cn(
-                                'flex items-center gap-3 rounded-md px-2 py-1.5',
-                                hasGeneratedTasks && 'cursor-pointer hover:bg-muted/50'
-                              )}
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                toggleSubtask(task.id, subtask.id);
-                              }}
-                            >
-                              <Checkbox
-                                checked={subtask.completed}
-                                className="h-3.5 w-3.5"
-                                disabled={!hasGeneratedTasks}
-                              />
-                              <span
+                    {isExpanded && (
+                      <div className="border-t border-border px-4 pb-4 pt-3">
+                        <TaskPlanningEditor
+                          task={task}
+                          tasks={tasks}
+                          requirements={functionalRequirements}
+                          onChange={(changes) => updateTask(task.id, changes)}
+                        />
+
+                        {task.description && (
+                          <p className="mb-3 text-sm leading-relaxed text-muted-foreground">
+                            {task.description}
+                          </p>
+                        )}
+
+                        {task.subtasks && task.subtasks.length > 0 && (
+                          <div className="mb-3 space-y-2">
+                            <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                              <ListChecks className="h-3 w-3" />
+                              Subtasks
+                            </div>
+                            {task.subtasks.map((subtask) => (
+                              <div
+                                key={subtask.id}
                                 className={cn(
-                                  'flex-1 text-sm',
-                                  subtask.completed
-                                    ? 'text-muted-foreground line-through'
-                                    : 'text-foreground'
+                                  'flex items-center gap-3 rounded-md px-2 py-1.5',
+                                  hasGeneratedTasks && 'cursor-pointer hover:bg-muted/50'
                                 )}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  toggleSubtask(task.id, subtask.id);
+                                }}
                               >
-                                {subtask.title}
-                              </span>
-                            </div>
-                          ))}
-                        </div>
-                      )}
+                                <Checkbox
+                                  checked={subtask.completed}
+                                  className="h-3.5 w-3.5"
+                                  disabled={!hasGeneratedTasks}
+                                />
+                                <span
+                                  className={cn(
+                                    'flex-1 text-sm',
+                                    subtask.completed
+                                      ? 'text-muted-foreground line-through'
+                                      : 'text-foreground'
+                                  )}
+                                >
+                                  {subtask.title}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
 
-                      {task.acceptanceCriteria && task.acceptanceCriteria.length > 0 && (
-                        <div className="space-y-2">
-                          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
-                            <Target className="h-3 w-3" />
-                            Acceptance Criteria
+                        {task.acceptanceCriteria && task.acceptanceCriteria.length > 0 && (
+                          <div className="space-y-2">
+                            <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                              <Target className="h-3 w-3" />
+                              Acceptance Criteria
+                            </div>
+                            <ul className="space-y-1.5 pl-2">
+                              {task.acceptanceCriteria.map((criterion, index) => (
+                                <li
+                                  key={index}
+                                  className="flex items-start gap-2 text-sm text-muted-foreground"
+                                >
+                                  <span className="mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full bg-primary/60" />
+                                  <span>{criterion}</span>
+                                </li>
+                              ))}
+                            </ul>
                           </div>
-                          <ul className="space-y-1.5 pl-2">
-                            {task.acceptanceCriteria.map((criterion, index) => (
-                              <li
-                                key={index}
-                                className="flex items-start gap-2 text-sm text-muted-foreground"
-                              >
-                                <span className="mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full bg-primary/60" />
-                                <span>{criterion}</span>
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
-              );
-            })}
-          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       </ScrollArea>
+
+      <RefinementDialog request={refinement} onClose={() => setRefinement(null)} />
+      <RevisionHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} initialSubject="tasks" />
     </div>
   );
 }
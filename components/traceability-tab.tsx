@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo } from 'react';
+import { AlertTriangle, GitCompareArrows } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { useBrainGrid } from '@/context/braingrid-context';
+import { parseFunctionalRequirements } from '@/lib/requirements';
+import { buildTraceability } from '@/lib/traceability';
+import { priorityLabels } from '@/components/task-meta';
+
+export function TraceabilityTab() {
+  const { state } = useBrainGrid();
+  const tasks = state.tasks;
+
+  const requirements = useMemo(
+    () => parseFunctionalRequirements(state.requirements),
+    [state.requirements]
+  );
+  const report = useMemo(() => buildTraceability(requirements, tasks), [requirements, tasks]);
+
+  const coveredCount = report.rows.length - report.uncoveredRequirements.length;
+
+  // Empty state until there is something to trace
+  if (requirements.length === 0 || tasks.length === 0) {
+    return (
+      <div className="flex h-full flex-col">
+        <div className="flex items-center justify-between border-b border-border px-6 py-3">
+          <span className="text-sm font-medium text-muted-foreground">Traceability Matrix</span>
+        </div>
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 p-6 text-center">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+            <GitCompareArrows className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium text-foreground">Nothing to trace yet</h3>
+            <p className="max-w-sm text-sm text-muted-foreground">
+              {state.requirements && requirements.length === 0
+                ? 'The requirements document has no numbered functional requirements (### FR-1: ...).'
+                : 'Generate requirements and tasks to see which tasks cover each functional requirement.'}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b border-border px-6 py-3">
+        <span className="text-sm font-medium text-muted-foreground">
+          Traceability Matrix ({coveredCount}/{report.rows.length} requirements covered)
+        </span>
+        <span className="text-xs text-muted-foreground">
+          ● linked &nbsp; ○ mentioned
+        </span>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-6 p-6">
+          <div className="rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">ID</TableHead>
+                  <TableHead>Requirement</TableHead>
+                  {tasks.map((task, index) => (
+                    <TableHead key={task.id} className="w-10 text-center" title={task.title}>
+                      T{index + 1}
+                    </TableHead>
+                  ))}
+                  <TableHead className="w-24 text-right">Criteria</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map(({ requirement, links }) => {
+                  const criteria = links.flatMap((l) => l.criteria);
+                  return (
+                    <TableRow
+                      key={requirement.id}
+                      className={cn(links.length === 0 && 'bg-destructive/5')}
+                    >
+                      <TableCell className="font-mono text-xs">{requirement.id}</TableCell>
+                      <TableCell className="max-w-[280px] whitespace-normal">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm">{requirement.title}</span>
+                          {requirement.priority && (
+                            <Badge variant="outline" className="text-xs">
+                              {priorityLabels[requirement.priority]}
+                            </Badge>
+                          )}
+                          {links.length === 0 && (
+                            <Badge variant="destructive" className="text-xs">
+                              No covering task
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      {tasks.map((task) => {
+                        const link = links.find((l) => l.task.id === task.id);
+                        return (
+                          <TableCell
+                            key={task.id}
+                            className="text-center text-primary"
+                            title={link ? `${task.title} (${link.via === 'link' ? 'linked' : 'mentioned'})` : undefined}
+                          >
+                            {link ? (link.via === 'link' ? '●' : '○') : ''}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell
+                        className="text-right text-xs text-muted-foreground"
+                        title={criteria.join('\n')}
+                      >
+                        {criteria.length}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-foreground">Tasks</h3>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {tasks.map((task, index) => (
+                <li key={task.id} className="flex gap-2">
+                  <span className="w-8 shrink-0 font-mono text-xs leading-5">T{index + 1}</span>
+                  <span>{task.title}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {(report.untracedTasks.length > 0 || report.unknownReferences.length > 0) && (
+            <div className="space-y-2 rounded-lg border border-amber-500/40 bg-amber-500/5 p-4">
+              <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <AlertTriangle className="h-4 w-4 text-amber-600" />
+                Tasks without a requirement
+              </div>
+              <ul className="list-disc space-y-1 pl-6 text-sm text-muted-foreground">
+                {report.untracedTasks.map((task) => (
+                  <li key={task.id}>{task.title}</li>
+                ))}
+                {report.unknownReferences.map(({ task, requirementId }) => (
+                  <li key={`${task.id}:${requirementId}`}>
+                    {task.title} links to {requirementId}, which is not in the requirements
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
 'use client';
 
-import { useState } from 'react';
-import { Sparkles, Lightbulb, Code, Palette, Rocket } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import {
+  Sparkles,
+  FileUp,
+  LayoutTemplate,
+  Puzzle,
+  Server,
+  Smartphone,
+  Table,
+  Terminal,
+  Workflow,
+  type LucideIcon,
+} from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -11,49 +22,64 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { BUILTIN_TEMPLATES, fetchTemplates } from '@/lib/templates';
+import { cn } from '@/lib/utils';
+import type { ProjectTemplate } from '@/types';
 
 interface WelcomeDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (description: string) => void;
+  onSubmit: (description: string, template: ProjectTemplate | null) => void;
+  onImport: () => void;
 }
 
-const examplePrompts = [
-  {
-    icon: Code,
-    label: 'Developer Tool',
-    prompt: 'I want to build a CLI tool that helps developers manage their environment variables across projects',
-  },
-  {
-    icon: Palette,
-    label: 'Design System',
-    prompt: 'I need a design system with reusable React components, theming support, and documentation',
-  },
-  {
-    icon: Rocket,
-    label: 'SaaS Feature',
-    prompt: 'I want to add a subscription billing system with multiple tiers and usage tracking',
-  },
-  {
-    icon: Lightbulb,
-    label: 'Productivity App',
-    prompt: 'I want to create a focus timer with Pomodoro technique, session tracking, and statistics',
-  },
-];
+// Icons templates can name; unknown names fall back to a generic one
+const templateIcons: Record<string, LucideIcon> = {
+  server: Server,
+  table: Table,
+  smartphone: Smartphone,
+  terminal: Terminal,
+  puzzle: Puzzle,
+  workflow: Workflow,
+};
 
-export function WelcomeDialog({ open, onOpenChange, onSubmit }: WelcomeDialogProps) {
+export function WelcomeDialog({ open, onOpenChange, onSubmit, onImport }: WelcomeDialogProps) {
   const [input, setInput] = useState('');
+  const [templates, setTemplates] = useState<ProjectTemplate[]>(BUILTIN_TEMPLATES);
+  const [selected, setSelected] = useState<ProjectTemplate | null>(null);
+
+  // Pick up the workspace's own templates each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetchTemplates()
+      .then((loaded) => {
+        if (!cancelled) setTemplates(loaded);
+      })
+      .catch((error) => console.error('Failed to load templates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
 
   const handleSubmit = () => {
     if (input.trim()) {
-      onSubmit(input.trim());
+      onSubmit(input.trim(), selected);
       setInput('');
+      setSelected(null);
       onOpenChange(false);
     }
   };
 
-  const handleExampleClick = (prompt: string) => {
-    setInput(prompt);
+  // Selecting a template again clears it and its description
+  const handleTemplateClick = (template: ProjectTemplate) => {
+    if (selected?.id === template.id) {
+      setSelected(null);
+      setInput('');
+      return;
+    }
+    setSelected(template);
+    setInput(template.projectDescription);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -93,30 +119,65 @@ export function WelcomeDialog({ open, onOpenChange, onSubmit }: WelcomeDialogPro
           />
 
           <div className="space-y-2">
-            <p className="text-xs font-medium text-muted-foreground">Or try an example:</p>
-            <div className="grid grid-cols-2 gap-2">
-              {examplePrompts.map((example) => (
-                <button
-                  key={example.label}
-                  onClick={() => handleExampleClick(example.prompt)}
-                  className="flex items-center gap-2 rounded-lg border border-border bg-card p-3 text-left text-sm transition-colors hover:bg-muted/50"
-                >
-                  <example.icon className="h-4 w-4 shrink-0 text-muted-foreground" />
-                  <span className="truncate">{example.label}</span>
-                </button>
-              ))}
+            <p className="text-xs font-medium text-muted-foreground">Or start from a template:</p>
+            <div className="grid max-h-[220px] grid-cols-2 gap-2 overflow-y-auto">
+              {templates.map((template) => {
+                const Icon = (template.icon && templateIcons[template.icon]) || LayoutTemplate;
+                return (
+                  <button
+                    key={template.id}
+                    onClick={() => handleTemplateClick(template)}
+                    className={cn(
+                      'flex items-start gap-2 rounded-lg border border-border bg-card p-3 text-left text-sm transition-colors hover:bg-muted/50',
+                      selected?.id === template.id && 'border-primary bg-primary/5'
+                    )}
+                  >
+                    <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="min-w-0">
+                      <span className="block truncate">
+                        {template.name}
+                        {template.source === 'custom' && (
+                          <span className="ml-1 text-xs text-muted-foreground">(team)</span>
+                        )}
+                      </span>
+                      <span className="line-clamp-2 text-xs text-muted-foreground">
+                        {template.summary}
+                      </span>
+                    </span>
+                  </button>
+                );
+              })}
             </div>
+            {selected && (
+              <p className="text-xs text-muted-foreground">
+                Adds {selected.sections.length} sections and{' '}
+                {selected.nonFunctionalRequirements.length} default non-functional requirements.
+                Replace the bracketed parts of the description.
+              </p>
+            )}
           </div>
         </div>
 
-        <div className="flex justify-end gap-2">
-          <Button variant="ghost" onClick={() => onOpenChange(false)}>
-            Cancel
-          </Button>
-          <Button onClick={handleSubmit} disabled={!input.trim()}>
-            <Sparkles className="mr-2 h-4 w-4" />
-            Start Planning
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              onOpenChange(false);
+              onImport();
+            }}
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            Import existing document
           </Button>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!input.trim()}>
+              <Sparkles className="mr-2 h-4 w-4" />
+              Start Planning
+            </Button>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -1,9 +1,45 @@
 'use client';
 
-import { createContext, useContext, useReducer, type ReactNode } from 'react';
-import type { BrainGridState, BrainGridAction, Message, Task } from '@/types';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useReducer,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import type {
+  BrainGridState,
+  BrainGridAction,
+  CodebaseSnapshot,
+  Message,
+  SessionState,
+  SessionSummary,
+  StoredSession,
+} from '@/types';
+import * as sessionClient from '@/lib/session-client';
+import { emptyHistory, parseTaskRevision, recordRevision, serializeTasks } from '@/lib/history';
+import {
+  addResearch,
+  addUserFinding,
+  countNewFindings,
+  editFinding,
+  removeUserFinding,
+  reviewFinding,
+} from '@/lib/research';
+import { fetchResearch } from '@/lib/research-client';
+import { fetchCodebase, formatCodebaseContext } from '@/lib/codebase-client';
+
+// localStorage key for the session to reopen after a reload
+const LAST_SESSION_KEY = 'braingrid:lastSessionId';
+
+// Delay before persisting state changes (streaming updates arrive rapidly)
+const AUTOSAVE_DEBOUNCE_MS = 1000;
 
 const initialState: BrainGridState = {
+  sessionId: null,
   conversationPhase: 'initial',
   messages: [
     {
@@ -16,6 +52,12 @@ const initialState: BrainGridState = {
   requirements: null,
   tasks: [],
   research: null,
+  researchSessions: [],
+  researchSelection: {},
+  sourceDocument: null,
+  template: null,
+  history: emptyHistory,
+  generation: null,
   isLoading: false,
   activeTab: 'requirements',
 };
@@ -36,17 +78,90 @@ function reducer(state: BrainGridState, action: BrainGridAction): BrainGridState
       return { ...state, messages };
     }
 
+    case 'UPDATE_MESSAGE':
+      return {
+        ...state,
+        messages: state.messages.map((m) =>
+          m.id === action.payload.id
+            ? {
+                ...m,
+                content: action.payload.content,
+                ...(action.payload.questions && { questions: action.payload.questions }),
+                ...(action.payload.failure && { failure: action.payload.failure }),
+              }
+            : m
+        ),
+      };
+
+    case 'REMOVE_MESSAGE':
+      return { ...state, messages: state.messages.filter((m) => m.id !== action.payload) };
+
     case 'SET_PHASE':
       return { ...state, conversationPhase: action.payload };
 
     case 'SET_REQUIREMENTS':
-      return { ...state, requirements: action.payload };
+      return {
+        ...state,
+        requirements: action.payload,
+        history: recordRevision(state.history, 'requirements', action.payload, action.source),
+      };
 
     case 'SET_TASKS':
-      return { ...state, tasks: action.payload };
+      return {
+        ...state,
+        tasks: action.payload,
+        history: recordRevision(state.history, 'tasks', serializeTasks(action.payload), action.source),
+      };
+
+    case 'ADD_RESEARCH':
+      return { ...state, ...addResearch(state.research, state.researchSessions, action.payload) };
 
-    case 'SET_RESEARCH':
-      return { ...state, research: action.payload };
+    case 'REVIEW_FINDING':
+      if (!state.research) return state;
+      return {
+        ...state,
+        research: reviewFinding(state.research, action.payload.id, action.payload.review),
+      };
+
+    case 'UPDATE_FINDING':
+      if (!state.research) return state;
+      return {
+        ...state,
+        research: editFinding(state.research, action.payload.id, action.payload.changes),
+      };
+
+    case 'ADD_FINDING': {
+      const query = state.messages.find((m) => m.role === 'user')?.content ?? '';
+      return { ...state, research: addUserFinding(state.research, action.payload, query) };
+    }
+
+    case 'REMOVE_FINDING':
+      if (!state.research) return state;
+      return { ...state, research: removeUserFinding(state.research, action.payload) };
+
+    case 'SET_FINDING_INCLUSION': {
+      const { id, inclusion } = action.payload;
+      const researchSelection = { ...state.researchSelection };
+      if (inclusion) {
+        researchSelection[id] = inclusion;
+      } else {
+        delete researchSelection[id];
+      }
+      return { ...state, researchSelection };
+    }
+
+    case 'IMPORT_DOCUMENT':
+      // The imported document is the starting point for the revised requirements
+      return {
+        ...state,
+        sourceDocument: action.payload,
+        requirements: action.payload.content,
+        history: recordRevision(state.history, 'requirements', action.payload.content, 'import'),
+        activeTab: 'requirements',
+      };
+
+    case 'SET_TEMPLATE':
+      return { ...state, template: action.payload };
 
     case 'TOGGLE_TASK':
       return {
@@ -56,6 +171,17 @@ function reducer(state: BrainGridState, action: BrainGridAction): BrainGridState
         ),
       };
 
+    case 'UPDATE_TASK': {
+      const tasks = state.tasks.map((t) =>
+        t.id === action.payload.id ? { ...t, ...action.payload.changes } : t
+      );
+      return {
+        ...state,
+        tasks,
+        history: recordRevision(state.history, 'tasks', serializeTasks(tasks), 'manual'),
+      };
+    }
+
     case 'TOGGLE_SUBTASK':
       return {
         ...state,
@@ -73,12 +199,47 @@ function reducer(state: BrainGridState, action: BrainGridAction): BrainGridState
         ),
       };
 
+    case 'RESTORE_REVISION': {
+      const { subject, id } = action.payload;
+      const revision = state.history[subject].find((r) => r.id === id);
+      if (!revision) return state;
+
+      if (subject === 'requirements') {
+        return {
+          ...state,
+          requirements: revision.content,
+          history: recordRevision(state.history, subject, revision.content, 'restore'),
+        };
+      }
+
+      const tasks = parseTaskRevision(revision.content);
+      if (!tasks) return state;
+      return {
+        ...state,
+        tasks,
+        history: recordRevision(state.history, subject, revision.content, 'restore'),
+      };
+    }
+
     case 'SET_LOADING':
       return { ...state, isLoading: action.payload };
 
+    case 'SET_GENERATION':
+      return { ...state, generation: action.payload };
+
     case 'SET_ACTIVE_TAB':
       return { ...state, activeTab: action.payload };
 
+    case 'SET_SESSION_ID':
+      return { ...state, sessionId: action.payload };
+
+    case 'LOAD_SESSION':
+      return {
+        ...initialState,
+        ...action.payload.state,
+        sessionId: action.payload.sessionId,
+      };
+
     case 'RESET':
       return initialState;
 
@@ -87,17 +248,327 @@ function reducer(state: BrainGridState, action: BrainGridAction): BrainGridState
   }
 }
 
+/**
+ * Extract the persisted portion of the state.
+ */
+function toSessionState(state: SessionState): SessionState {
+  return {
+    conversationPhase: state.conversationPhase,
+    messages: state.messages,
+    requirements: state.requirements,
+    tasks: state.tasks,
+    research: state.research,
+    // Sessions saved before follow-up research lack this field
+    researchSessions: state.researchSessions ?? [],
+    // Sessions saved before research context budgeting lack this field
+    researchSelection: state.researchSelection ?? {},
+    // Sessions saved before document import lack this field
+    sourceDocument: state.sourceDocument ?? null,
+    // Sessions saved before project templates lack this field
+    template: state.template ?? null,
+    // Sessions saved before revision history lack this field
+    history: state.history ?? emptyHistory,
+    // Sessions saved before staged generation lack this field
+    generation: state.generation ?? null,
+    activeTab: state.activeTab,
+  };
+}
+
+/**
+ * Prepare a stored session for hydration. A session saved while research or
+ * generation was in flight cannot resume that request, so it is reopened in
+ * the phase the request started from; unfinished generation keeps its
+ * checkpoint and can be continued from the chat.
+ */
+function normalizeSessionState(state: SessionState): SessionState {
+  const normalized = toSessionState(state);
+  if (normalized.conversationPhase === 'researching') {
+    normalized.conversationPhase = 'initial';
+  } else if (normalized.conversationPhase === 'generating') {
+    normalized.conversationPhase = 'clarifying';
+  }
+  return normalized;
+}
+
+function hasUserMessages(state: SessionState): boolean {
+  return state.messages.some((m) => m.role === 'user');
+}
+
 interface BrainGridContextType {
   state: BrainGridState;
   dispatch: React.Dispatch<BrainGridAction>;
   addUserMessage: (content: string) => Message;
   addAssistantMessage: (content: string) => Message;
+  sessions: SessionSummary[];
+  isHydrated: boolean;
+  refreshSessions: () => Promise<void>;
+  openSession: (id: string) => Promise<void>;
+  newSession: () => void;
+  renameSession: (id: string, title: string) => Promise<void>;
+  duplicateSession: (id: string) => Promise<StoredSession>;
+  deleteSession: (id: string) => Promise<void>;
+  followUpResearch: (topic: string) => Promise<void>;
+  researchingTopic: string | null;
+  codebase: CodebaseSnapshot | null;
+  codebaseContext: string | undefined;  // Sent with chat and research requests
+  refreshCodebase: () => Promise<void>;
 }
 
 const BrainGridContext = createContext<BrainGridContextType | null>(null);
 
 export function BrainGridProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(reducer, initialState);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [researchingTopic, setResearchingTopic] = useState<string | null>(null);
+  const [codebase, setCodebase] = useState<CodebaseSnapshot | null>(null);
+  const codebaseContext = codebase ? formatCodebaseContext(codebase.sections) : undefined;
+  const codebaseContextRef = useRef(codebaseContext);
+  codebaseContextRef.current = codebaseContext;
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Serialized snapshot of the last persisted state, used to skip no-op saves
+  const lastSavedRef = useRef<string | null>(null);
+  // In-flight session creation, so concurrent saves don't create duplicates
+  const pendingCreateRef = useRef<Promise<string> | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped when another session is loaded, so late responses are dropped
+  const sessionEpochRef = useRef(0);
+  const researchingRef = useRef(false);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await sessionClient.fetchSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  }, []);
+
+  const loadStoredSession = useCallback((session: StoredSession) => {
+    const sessionState = normalizeSessionState(session.state);
+    sessionEpochRef.current++;
+    lastSavedRef.current = JSON.stringify(sessionState);
+    dispatch({ type: 'LOAD_SESSION', payload: { sessionId: session.id, state: sessionState } });
+    localStorage.setItem(LAST_SESSION_KEY, session.id);
+  }, []);
+
+  const persist = useCallback(async () => {
+    const current = stateRef.current;
+    const sessionState = toSessionState(current);
+    const snapshot = JSON.stringify(sessionState);
+    if (snapshot === lastSavedRef.current) return;
+    const epoch = sessionEpochRef.current;
+
+    try {
+      let sessionId = current.sessionId;
+      if (!sessionId && pendingCreateRef.current) {
+        sessionId = await pendingCreateRef.current;
+      }
+
+      if (sessionId) {
+        await sessionClient.saveSession(sessionId, sessionState);
+      } else {
+        const pending = sessionClient
+          .createSession(sessionClient.deriveSessionTitle(sessionState), sessionState)
+          .then((session) => session.id);
+        pendingCreateRef.current = pending;
+        try {
+          sessionId = await pending;
+        } finally {
+          if (pendingCreateRef.current === pending) pendingCreateRef.current = null;
+        }
+        refreshSessions();
+        // A new or different session was opened while this one was being created
+        if (epoch !== sessionEpochRef.current) return;
+        dispatch({ type: 'SET_SESSION_ID', payload: sessionId });
+        localStorage.setItem(LAST_SESSION_KEY, sessionId);
+      }
+      if (epoch === sessionEpochRef.current) lastSavedRef.current = snapshot;
+    } catch (error) {
+      console.error('Failed to save session:', error);
+    }
+  }, [refreshSessions]);
+
+  // Hydrate the last open session on mount
+  useEffect(() => {
+    const lastSessionId = localStorage.getItem(LAST_SESSION_KEY);
+    const hydrate = lastSessionId
+      ? sessionClient.fetchSession(lastSessionId).then(loadStoredSession)
+      : Promise.resolve();
+
+    hydrate
+      .catch((error) => {
+        console.error('Failed to restore session:', error);
+        localStorage.removeItem(LAST_SESSION_KEY);
+      })
+      .finally(() => {
+        setIsHydrated(true);
+        refreshSessions();
+      });
+  }, [loadStoredSession, refreshSessions]);
+
+  // Scan artifacts belong to the workspace rather than the session, so they
+  // are loaded on mount and on request instead of being saved
+  const refreshCodebase = useCallback(async () => {
+    try {
+      setCodebase(await fetchCodebase());
+    } catch (error) {
+      console.error('Failed to load codebase context:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCodebase();
+  }, [refreshCodebase]);
+
+  // Autosave persisted state once the session has user input
+  useEffect(() => {
+    if (!isHydrated || !hasUserMessages(state)) return;
+
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      persist();
+    }, AUTOSAVE_DEBOUNCE_MS);
+  }, [
+    isHydrated,
+    persist,
+    state.messages,
+    state.conversationPhase,
+    state.requirements,
+    state.tasks,
+    state.research,
+    state.researchSessions,
+    state.researchSelection,
+    state.sourceDocument,
+    state.template,
+    state.history,
+    state.generation,
+    state.activeTab,
+  ]);
+
+  // Flush a pending save when the page is closed or reloaded
+  useEffect(() => {
+    const handleBeforeUnload = () => {
+      const current = stateRef.current;
+      if (!saveTimerRef.current || !current.sessionId) return;
+      fetch(`/api/sessions/${encodeURIComponent(current.sessionId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ state: toSessionState(current) }),
+        keepalive: true,
+      });
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, []);
+
+  const openSession = useCallback(
+    async (id: string) => {
+      loadStoredSession(await sessionClient.fetchSession(id));
+    },
+    [loadStoredSession]
+  );
+
+  const newSession = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    lastSavedRef.current = null;
+    sessionEpochRef.current++;
+    localStorage.removeItem(LAST_SESSION_KEY);
+    dispatch({ type: 'RESET' });
+  }, []);
+
+  const renameSession = useCallback(
+    async (id: string, title: string) => {
+      await sessionClient.renameSession(id, title);
+      await refreshSessions();
+    },
+    [refreshSessions]
+  );
+
+  const duplicateSession = useCallback(
+    async (id: string) => {
+      const session = await sessionClient.duplicateSession(id);
+      await refreshSessions();
+      return session;
+    },
+    [refreshSessions]
+  );
+
+  const deleteSession = useCallback(
+    async (id: string) => {
+      await sessionClient.deleteSession(id);
+      if (stateRef.current.sessionId === id) {
+        newSession();
+      }
+      await refreshSessions();
+    },
+    [newSession, refreshSessions]
+  );
+
+  // Focused research into one topic, merged into the session's research.
+  // Progress is reported in the chat so every entry point behaves the same.
+  const followUpResearch = useCallback(async (topic: string) => {
+    const focus = topic.trim();
+    const current = stateRef.current;
+    const projectDescription =
+      current.research?.query ?? current.messages.find((m) => m.role === 'user')?.content;
+    if (!focus || !projectDescription || researchingRef.current) return;
+
+    researchingRef.current = true;
+    setResearchingTopic(focus);
+    const epoch = sessionEpochRef.current;
+    const messageId = `research_${Date.now()}`;
+    dispatch({
+      type: 'ADD_MESSAGE',
+      payload: {
+        id: messageId,
+        role: 'assistant',
+        content: `Researching "${focus}"...`,
+        local: true,
+      },
+    });
+
+    try {
+      const results = await fetchResearch({
+        projectDescription,
+        topic: focus,
+        knownFindings: stateRef.current.research?.findings.map((f) => f.title),
+        codebaseContext: codebaseContextRef.current,
+      });
+      if (epoch !== sessionEpochRef.current) return;
+
+      const added = countNewFindings(stateRef.current.research, results);
+      dispatch({ type: 'ADD_RESEARCH', payload: results });
+      dispatch({
+        type: 'UPDATE_MESSAGE',
+        payload: {
+          id: messageId,
+          content:
+            added > 0
+              ? `Follow-up research on "${focus}" found ${added} new ${added === 1 ? 'finding' : 'findings'}. Check the Research tab for details.`
+              : `Follow-up research on "${focus}" found nothing new.`,
+        },
+      });
+    } catch (error) {
+      console.error('Follow-up research error:', error);
+      if (epoch !== sessionEpochRef.current) return;
+      dispatch({
+        type: 'UPDATE_MESSAGE',
+        payload: {
+          id: messageId,
+          content: `Follow-up research on "${focus}" failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      });
+    } finally {
+      researchingRef.current = false;
+      setResearchingTopic(null);
+    }
+  }, []);
 
   const addUserMessage = (content: string): Message => {
     const message: Message = {
@@ -121,7 +592,25 @@ export function BrainGridProvider({ children }: { children: ReactNode }) {
 
   return (
     <BrainGridContext.Provider
-      value={{ state, dispatch, addUserMessage, addAssistantMessage }}
+      value={{
+        state,
+        dispatch,
+        addUserMessage,
+        addAssistantMessage,
+        sessions,
+        isHydrated,
+        refreshSessions,
+        openSession,
+        newSession,
+        renameSession,
+        duplicateSession,
+        deleteSession,
+        followUpResearch,
+        researchingTopic,
+        codebase,
+        codebaseContext,
+        refreshCodebase,
+      }}
     >
       {children}
     </BrainGridContext.Provider>
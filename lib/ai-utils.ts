@@ -1,4 +1,5 @@
-import type { ParsedAIResponse, Task } from '@/types';
+import { parseTasksJson } from '@/lib/task-schema';
+import type { ParsedAIResponse } from '@/types';
 
 export function parseAIResponse(content: string): ParsedAIResponse {
   const result: ParsedAIResponse = {
@@ -6,6 +7,7 @@ export function parseAIResponse(content: string): ParsedAIResponse {
     shouldGenerate: false,
     requirements: null,
     tasks: null,
+    tasksError: null,
   };
 
   // Debug: Log content being parsed
@@ -31,27 +33,17 @@ export function parseAIResponse(content: string): ParsedAIResponse {
       .trim();
   }
 
-  // Extract tasks JSON
+  // Extract tasks JSON (validated; a list with any invalid task is rejected)
   const tasksMatch = content.match(/\[TASKS_START\]([\s\S]*?)\[TASKS_END\]/);
   if (tasksMatch) {
-    console.log('Found tasks block, attempting to parse...');
-    try {
-      const tasksJson = tasksMatch[1].trim();
-      result.tasks = JSON.parse(tasksJson) as Task[];
+    console.log('Found tasks block, validating...');
+    const parsedTasks = parseTasksJson(tasksMatch[1].trim());
+    if (parsedTasks.success) {
+      result.tasks = parsedTasks.tasks;
       console.log('Parsed tasks count:', result.tasks.length);
-    } catch (e) {
-      console.error('Failed to parse tasks JSON:', e);
-      console.error('Tasks JSON was:', tasksMatch[1].substring(0, 500));
-      // Try to extract and fix common JSON issues
-      try {
-        const fixedJson = tasksMatch[1]
-          .trim()
-          .replace(/,\s*}/g, '}')
-          .replace(/,\s*]/g, ']');
-        result.tasks = JSON.parse(fixedJson) as Task[];
-      } catch {
-        console.error('Failed to parse tasks even after fixing');
-      }
+    } else {
+      result.tasksError = parsedTasks.error;
+      console.error('Invalid tasks block:', parsedTasks.error);
     }
     result.cleanContent = result.cleanContent
       .replace(/\[TASKS_START\][\s\S]*?\[TASKS_END\]/, '')
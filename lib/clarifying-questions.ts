@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import type {
+  ChatRequestMessage,
+  ClarifyingAnswer,
+  ClarifyingQuestion,
+} from '@/types';
+
+// Questions are asked in a [QUESTIONS_START] ... [QUESTIONS_END] block of JSON
+// after the assistant's message, and answered through a form. The server turns
+// answers back into text for the model, so both clients send the same payload.
+
+// Most questions shown in one form
+export const MAX_QUESTIONS = 5;
+
+const QUESTIONS_BLOCK = /\[QUESTIONS_START\]([\s\S]*?)\[QUESTIONS_END\]/;
+// A block still streaming in, or one the model never closed
+const OPEN_QUESTIONS_BLOCK = /\[QUESTIONS_START\][\s\S]*$/;
+
+export const clarifyingQuestionSchema = z
+  .object({
+    id: z.string().min(1),
+    type: z.enum(['single_choice', 'multi_choice', 'free_text', 'numeric']),
+    prompt: z.string().min(1),
+    options: z.array(z.string().min(1)).optional(),
+    unit: z.string().min(1).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    findingId: z.string().min(1).optional(),
+  })
+  .superRefine((question, ctx) => {
+    const isChoice = question.type === 'single_choice' || question.type === 'multi_choice';
+    if (isChoice && (question.options?.length ?? 0) < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'Choice questions need at least two options',
+      });
+    }
+  });
+
+export const clarifyingAnswerSchema = z.object({
+  questionId: z.string().min(1),
+  value: z.union([z.string(), z.array(z.string()), z.number(), z.null()]),
+});
+
+/**
+ * Parse the questions block of an assistant message. Questions that don't
+ * match the schema are dropped rather than failing the whole block; questions
+ * is null when the message has no usable block, so it reads as plain prose.
+ */
+export function parseClarifyingQuestions(content: string): {
+  content: string;
+  questions: ClarifyingQuestion[] | null;
+} {
+  const match = content.match(QUESTIONS_BLOCK);
+  if (!match) return { content, questions: null };
+
+  const rest = content.replace(QUESTIONS_BLOCK, '').trim();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(match[1].trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    console.error('Invalid questions block: not JSON');
+    return { content: rest, questions: null };
+  }
+
+  const items = Array.isArray(raw) ? raw : (raw as { questions?: unknown })?.questions;
+  if (!Array.isArray(items)) return { content: rest, questions: null };
+
+  const ids = new Set<string>();
+  const questions: ClarifyingQuestion[] = [];
+  for (const item of items) {
+    const parsed = clarifyingQuestionSchema.safeParse(item);
+    if (!parsed.success) continue;
+
+    let id = parsed.data.id;
+    for (let n = 2; ids.has(id); n++) id = `${parsed.data.id}-${n}`;
+    ids.add(id);
+
+    const { options, unit, min, max, ...question } = parsed.data;
+    const isChoice = question.type === 'single_choice' || question.type === 'multi_choice';
+    questions.push({
+      ...question,
+      id,
+      ...(isChoice && { options }),
+      ...(question.type === 'numeric' && { unit, min, max }),
+    });
+  }
+
+  return {
+    content: rest,
+    questions: questions.length > 0 ? questions.slice(0, MAX_QUESTIONS) : null,
+  };
+}
+
+/**
+ * Message text without the questions block, including one still streaming.
+ */
+export function stripQuestionsBlock(content: string): string {
+  return content.replace(QUESTIONS_BLOCK, '').replace(OPEN_QUESTIONS_BLOCK, '').trim();
+}
+
+export function serializeQuestions(questions: ClarifyingQuestion[]): string {
+  return `[QUESTIONS_START]\n${JSON.stringify({ questions })}\n[QUESTIONS_END]`;
+}
+
+/**
+ * Whether an answer value counts as answered (empty input counts as skipped).
+ */
+export function hasAnswer(value: ClarifyingAnswer['value'] | undefined): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (typeof value === 'string') return value.trim().length > 0;
+  return value.length > 0;
+}
+
+function formatValue(question: ClarifyingQuestion, value: ClarifyingAnswer['value'] | undefined): string {
+  if (!hasAnswer(value)) return 'Skipped';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'number') return question.unit ? `${value} ${question.unit}` : String(value);
+  return String(value).trim();
+}
+
+/**
+ * Answers as text, in question order. Used for the model and as the text of
+ * the user's message.
+ */
+export function formatAnswers(questions: ClarifyingQuestion[], answers: ClarifyingAnswer[]): string {
+  const byId = new Map(answers.map((a) => [a.questionId, a.value] as const));
+  const lines = questions.map(
+    (q, index) => `${index + 1}. ${q.prompt}\n   ${formatValue(q, byId.get(q.id))}`
+  );
+  const skipped = questions.filter((q) => !hasAnswer(byId.get(q.id))).length;
+
+  return `My answers:\n${lines.join('\n')}${
+    skipped > 0 ? `\n\n(Skipped questions are open; use your judgement or ask again if they matter.)` : ''
+  }`;
+}
+
+/**
+ * Flatten chat messages for the model: questions go back into the assistant
+ * message as the block it was asked with, and structured answers become text
+ * paired with the questions they answer.
+ */
+export function toModelMessages(
+  messages: ChatRequestMessage[]
+): Array<{ role: 'user' | 'assistant'; content: string }> {
+  let asked: ClarifyingQuestion[] | null = null;
+
+  return messages.map((message) => {
+    if (message.role === 'assistant') {
+      asked = message.questions?.length ? message.questions : null;
+      return {
+        role: 'assistant',
+        content: asked ? `${message.content}\n\n${serializeQuestions(asked)}` : message.content,
+      };
+    }
+
+    const answers = z.array(clarifyingAnswerSchema).safeParse(message.answers);
+    const content =
+      asked && message.answers && answers.success
+        ? formatAnswers(asked, answers.data)
+        : message.content;
+    asked = null;
+    return { role: 'user', content };
+  });
+}
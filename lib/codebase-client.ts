@@ -0,0 +1,21 @@
+import type { CodebaseSection, CodebaseSnapshot } from '@/types';
+
+/**
+ * Load the workspace's scan artifacts through /api/codebase.
+ */
+export async function fetchCodebase(): Promise<CodebaseSnapshot> {
+  const response = await fetch('/api/codebase');
+  if (!response.ok) {
+    throw new Error(`Loading codebase context failed: ${response.status}`);
+  }
+  return (await response.json()) as CodebaseSnapshot;
+}
+
+/**
+ * Codebase context as sent to the chat and research APIs; undefined when the
+ * workspace has not been scanned.
+ */
+export function formatCodebaseContext(sections: CodebaseSection[]): string | undefined {
+  if (sections.length === 0) return undefined;
+  return sections.map((s) => s.content).join('\n\n---\n\n');
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CodebaseArtifactType, CodebaseSection, CodebaseSnapshot } from '@/types';
+import type { CodebaseSummary } from '@/braingrid-vscode-extension/src/scanner/generators/CodebaseSummaryGenerator';
+import type { ArchitectureModel } from '@/braingrid-vscode-extension/src/scanner/generators/ArchitectureMapper';
+import type { DataModel } from '@/braingrid-vscode-extension/src/scanner/generators/DataModelExtractor';
+import type { WorkflowModel } from '@/braingrid-vscode-extension/src/scanner/generators/WorkflowDetector';
+
+// Workspace scanned by the VS Code extension. Its scan artifacts are read from
+// .braingrid/artifacts and used as codebase context.
+export const WORKSPACE_DIR = process.env.BRAINGRID_WORKSPACE_DIR || process.cwd();
+
+const ARTIFACTS_DIR = path.join(WORKSPACE_DIR, '.braingrid', 'artifacts');
+
+// Same order and file names as the extension; documentation wins over raw JSON
+const SECTIONS: { type: CodebaseArtifactType; title: string; docs: string; json: string }[] = [
+  { type: 'summary', title: 'Codebase Summary', docs: 'codebase-summary.md', json: 'codebase-summary.json' },
+  { type: 'architecture', title: 'Architecture', docs: 'architecture.md', json: 'architecture.json' },
+  { type: 'dataModel', title: 'Data Model', docs: 'data-model.md', json: 'data-model.json' },
+  { type: 'workflow', title: 'Workflows', docs: 'workflows.md', json: 'workflows.json' },
+];
+
+// Artifact file as stored by the extension
+interface StoredArtifact {
+  content: string;
+  metadata: { generatedAt: string; incomplete?: boolean };
+}
+
+async function readArtifact(file: string): Promise<StoredArtifact | null> {
+  try {
+    const data = JSON.parse(await fs.readFile(path.join(ARTIFACTS_DIR, file), 'utf-8'));
+    if (typeof data?.content !== 'string' || typeof data?.metadata?.generatedAt !== 'string') {
+      console.warn(`Ignoring invalid scan artifact: ${file}`);
+      return null;
+    }
+    return data as StoredArtifact;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Failed to read scan artifact ${file}:`, error);
+    }
+    return null;
+  }
+}
+
+const count = (value: unknown) => (Array.isArray(value) ? value.length : 0);
+
+/**
+ * Short Markdown summary of a raw JSON artifact, read with the types of the
+ * extension's generators. Fields may be missing in artifacts of older scans.
+ */
+function summarizeJson(type: CodebaseArtifactType, title: string, json: string): string {
+  try {
+    switch (type) {
+      case 'summary': {
+        const data: Partial<CodebaseSummary> = JSON.parse(json);
+        return `## ${title}
+- **Project**: ${data.projectName || 'Unknown'}
+- **Primary Language**: ${data.primaryLanguage || 'Unknown'}
+- **Frameworks**: ${Array.isArray(data.frameworks) && data.frameworks.length > 0 ? data.frameworks.join(', ') : 'None detected'}
+- **Dependencies**: ${data.dependencyCount || 0} packages`;
+      }
+      case 'architecture': {
+        const data: Partial<ArchitectureModel> = JSON.parse(json);
+        return `## ${title}
+- **Layers**: ${
+          Array.isArray(data.layers) && data.layers.length > 0
+            ? data.layers.map((l) => `${l.layer} (${l.fileCount} files)`).join(', ')
+            : 'Not analyzed'
+        }
+- **Entry Points**: ${count(data.entryPoints)}
+- **External Dependencies**: ${count(data.externalDependencies)}`;
+      }
+      case 'dataModel': {
+        const data: Partial<DataModel> = JSON.parse(json);
+        return `## ${title}
+- **Entities**: ${count(data.entities)}
+- **Relationships**: ${count(data.relationships)}
+- **Enums**: ${count(data.enums)}`;
+      }
+      case 'workflow': {
+        const data: Partial<WorkflowModel> = JSON.parse(json);
+        return `## ${title}
+- **Workflows**: ${count(data.workflows)}
+- **API Operations**: ${count(data.crudOperations)}
+- **Handlers**: ${count(data.handlers)}`;
+      }
+    }
+  } catch {
+    return `## ${title}\n(Artifact content available)`;
+  }
+}
+
+/**
+ * Load the scan artifacts that make up the codebase context. Returns no
+ * sections when the workspace has not been scanned.
+ */
+export async function loadCodebase(): Promise<CodebaseSnapshot> {
+  const sections: CodebaseSection[] = [];
+
+  for (const { type, title, docs, json } of SECTIONS) {
+    const documentation = await readArtifact(docs);
+    const artifact = documentation ?? (await readArtifact(json));
+    if (!artifact) continue;
+
+    sections.push({
+      type,
+      title,
+      content: documentation ? artifact.content : summarizeJson(type, title, artifact.content),
+      source: documentation ? 'docs' : 'summary',
+      generatedAt: artifact.metadata.generatedAt,
+      ...(artifact.metadata.incomplete && { incomplete: true }),
+    });
+  }
+
+  return { workspace: WORKSPACE_DIR, sections };
+}
@@ -0,0 +1,94 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line-based diff of two texts (longest common subsequence). Unchanged
+ * leading and trailing lines are matched first so typical edits stay cheap.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      lines.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // Removals first, so a changed line reads as "-old" then "+new"
+      lines.push({ type: 'removed', text: midA[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: midB[j] });
+      j++;
+    }
+  }
+
+  for (const text of a.slice(endA)) lines.push({ type: 'same', text });
+  return lines;
+}
+
+export interface DiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/**
+ * Arrange a line diff as side-by-side rows. Runs of removed and added lines
+ * are paired up, so a changed line sits next to its replacement.
+ */
+export function pairDiffLines(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
@@ -0,0 +1,220 @@
+import { getProjectTitle } from '@/lib/requirements';
+import type { ResearchResults, Task } from '@/types';
+
+// Bump when the JSON export shape changes so importers can migrate
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'json' | 'csv' | 'github-issues';
+
+// Formats made of one file per task: always downloaded as a zip
+export const MULTI_FILE_FORMATS: ReadonlySet<ExportFormat> = new Set(['github-issues']);
+
+// Formats that contain only tasks and are empty without them
+export const TASK_FORMATS: ReadonlySet<ExportFormat> = new Set(['csv', 'github-issues']);
+
+export interface ExportFile {
+  path: string;
+  content: string;
+  mimeType: string;
+}
+
+// Versioned JSON export document
+export interface BrainGridExport {
+  format: 'braingrid-export';
+  version: number;
+  exportedAt: string;
+  title: string;
+  requirements: string | null;
+  tasks: Task[];
+  research: ResearchResults | null;
+}
+
+export function buildExportDocument(
+  requirements: string | null,
+  tasks: Task[],
+  research: ResearchResults | null
+): BrainGridExport {
+  return {
+    format: 'braingrid-export',
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: getProjectTitle(requirements),
+    requirements,
+    tasks,
+    research,
+  };
+}
+
+export function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 60) || 'untitled'
+  );
+}
+
+function checkbox(completed: boolean): string {
+  return completed ? '[x]' : '[ ]';
+}
+
+function taskDetails(task: Task, tasks: Task[]): string[] {
+  const details: string[] = [];
+  if (task.requirementId) details.push(`**Implements:** ${task.requirementId}`);
+  if (task.priority) details.push(`**Priority:** ${task.priority}`);
+  if (task.estimate) details.push(`**Estimate:** ${task.estimate}`);
+  if (task.dependsOn && task.dependsOn.length > 0) {
+    const titles = task.dependsOn.map((id) => tasks.find((t) => t.id === id)?.title ?? id);
+    details.push(`**Depends on:** ${titles.join(', ')}`);
+  }
+  return details;
+}
+
+/**
+ * Single Markdown document: requirements followed by the task list.
+ */
+export function toMarkdownBundle(doc: BrainGridExport): string {
+  const lines: string[] = [];
+
+  if (doc.requirements) {
+    lines.push(doc.requirements.trim(), '');
+  } else {
+    lines.push(`# ${doc.title}`, '');
+  }
+
+  if (doc.tasks.length > 0) {
+    lines.push('## Tasks', '');
+    doc.tasks.forEach((task, index) => {
+      lines.push(`### ${index + 1}. ${checkbox(task.completed)} ${task.title}`, '');
+      if (task.description) lines.push(task.description, '');
+
+      const details = taskDetails(task, doc.tasks);
+      if (details.length > 0) lines.push(details.join('  \n'), '');
+
+      if (task.subtasks.length > 0) {
+        lines.push('**Subtasks:**', '');
+        task.subtasks.forEach((s) => lines.push(`- ${checkbox(s.completed)} ${s.title}`));
+        lines.push('');
+      }
+      if (task.acceptanceCriteria.length > 0) {
+        lines.push('**Acceptance Criteria:**', '');
+        task.acceptanceCriteria.forEach((c) => lines.push(`- ${c}`));
+        lines.push('');
+      }
+    });
+  }
+
+  lines.push('---', `Exported from BrainGrid on ${doc.exportedAt}`, '');
+  return lines.join('\n');
+}
+
+export function toJson(doc: BrainGridExport): string {
+  return JSON.stringify(doc, null, 2);
+}
+
+function csvCell(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per task, subtask and acceptance criterion, linked by task id.
+ */
+export function toTasksCsv(tasks: Task[]): string {
+  const header = [
+    'type',
+    'task_id',
+    'id',
+    'title',
+    'completed',
+    'priority',
+    'estimate',
+    'requirement_id',
+    'depends_on',
+    'description',
+  ];
+  const rows: Array<Array<string | number | boolean | undefined>> = [header];
+
+  for (const task of tasks) {
+    rows.push([
+      'task',
+      task.id,
+      task.id,
+      task.title,
+      task.completed,
+      task.priority,
+      task.estimate,
+      task.requirementId,
+      (task.dependsOn ?? []).join(' '),
+      task.description,
+    ]);
+    for (const subtask of task.subtasks) {
+      rows.push(['subtask', task.id, subtask.id, subtask.title, subtask.completed]);
+    }
+    task.acceptanceCriteria.forEach((criterion, index) => {
+      rows.push(['criterion', task.id, `${task.id}-ac-${index + 1}`, criterion]);
+    });
+  }
+
+  return rows.map((row) => header.map((_, i) => csvCell(row[i])).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * One GitHub-issue-style Markdown file per task. Front matter carries the
+ * title and labels; the body has checklists for subtasks and criteria.
+ */
+export function toGitHubIssues(doc: BrainGridExport): ExportFile[] {
+  const width = String(doc.tasks.length).length;
+
+  return doc.tasks.map((task, index) => {
+    const labels = [task.priority, task.estimate && `size:${task.estimate}`, task.requirementId]
+      .filter(Boolean)
+      .map((label) => JSON.stringify(label));
+
+    const lines = ['---', `title: ${JSON.stringify(task.title)}`];
+    if (labels.length > 0) lines.push(`labels: [${labels.join(', ')}]`);
+    lines.push('---', '');
+
+    if (task.description) lines.push(task.description, '');
+
+    const details = taskDetails(task, doc.tasks);
+    if (details.length > 0) lines.push(details.join('  \n'), '');
+
+    if (task.subtasks.length > 0) {
+      lines.push('## Tasks', '');
+      task.subtasks.forEach((s) => lines.push(`- ${checkbox(s.completed)} ${s.title}`));
+      lines.push('');
+    }
+    if (task.acceptanceCriteria.length > 0) {
+      lines.push('## Acceptance criteria', '');
+      task.acceptanceCriteria.forEach((c) => lines.push(`- [ ] ${c}`));
+      lines.push('');
+    }
+
+    const number = String(index + 1).padStart(width, '0');
+    return {
+      path: `issues/${number}-${slugify(task.title)}.md`,
+      content: lines.join('\n'),
+      mimeType: 'text/markdown',
+    };
+  });
+}
+
+/**
+ * Files produced for an export format.
+ */
+export function exportFiles(doc: BrainGridExport, format: ExportFormat): ExportFile[] {
+  const base = slugify(doc.title);
+
+  switch (format) {
+    case 'markdown':
+      return [{ path: `${base}.md`, content: toMarkdownBundle(doc), mimeType: 'text/markdown' }];
+    case 'json':
+      return [{ path: `${base}.json`, content: toJson(doc), mimeType: 'application/json' }];
+    case 'csv':
+      return [{ path: `${base}-tasks.csv`, content: toTasksCsv(doc.tasks), mimeType: 'text/csv' }];
+    case 'github-issues':
+      return toGitHubIssues(doc);
+  }
+}
@@ -0,0 +1,109 @@
+import { parseFunctionalRequirements } from '@/lib/requirements';
+import type { GenerationCheckpoint } from '@/types';
+
+// Staged generation: the requirements document streams first and is continued
+// while it is cut off by the output limit, then tasks are generated for a few
+// functional requirements at a time. The checkpoint is saved after every step.
+
+// Functional requirements broken down into tasks per step
+export const REQUIREMENTS_PER_TASK_STEP = 3;
+
+// Continuations of a cut-off requirements document before giving up
+export const MAX_CONTINUATIONS = 3;
+
+const REQUIREMENTS_START = '[REQUIREMENTS_START]';
+const REQUIREMENTS_END = '[REQUIREMENTS_END]';
+
+/**
+ * Start a checkpoint from the streamed requirements step. Returns null when
+ * the response has no requirements document at all; a document without the
+ * end marker was cut off and needs to be continued.
+ */
+export function startCheckpoint(content: string): GenerationCheckpoint | null {
+  const start = content.indexOf(REQUIREMENTS_START);
+  if (start === -1) return null;
+
+  const message = content.slice(0, start).replace('[READY_TO_GENERATE]', '').trim();
+  const body = content.slice(start + REQUIREMENTS_START.length);
+  const end = body.indexOf(REQUIREMENTS_END);
+
+  return {
+    message,
+    // A cut-off document keeps its trailing whitespace for the continuation
+    requirements: end === -1 ? body.trimStart() : body.slice(0, end).trim(),
+    requirementsComplete: end !== -1,
+    continuations: 0,
+    taskGroups: [],
+    completedGroups: 0,
+    tasks: [],
+  };
+}
+
+/**
+ * Append a continuation of a cut-off document.
+ */
+export function continueCheckpoint(
+  checkpoint: GenerationCheckpoint,
+  continuation: string
+): GenerationCheckpoint {
+  const body = continuation.replace(REQUIREMENTS_START, '');
+  const end = body.indexOf(REQUIREMENTS_END);
+  // The model picks up exactly where the previous part stopped
+  const requirements = `${checkpoint.requirements}${end === -1 ? body : body.slice(0, end)}`;
+
+  return {
+    ...checkpoint,
+    requirements: end === -1 ? requirements : requirements.trim(),
+    requirementsComplete: end !== -1,
+    continuations: checkpoint.continuations + 1,
+  };
+}
+
+/**
+ * Checkpoint for a complete requirements document, e.g. to retry tasks for
+ * requirements that were generated before staged generation.
+ */
+export function checkpointFromRequirements(requirements: string): GenerationCheckpoint {
+  return {
+    message: '',
+    requirements,
+    requirementsComplete: true,
+    continuations: 0,
+    taskGroups: planTaskGroups(requirements),
+    completedGroups: 0,
+    tasks: [],
+  };
+}
+
+/**
+ * Group the document's functional requirements into task steps. A document
+ * without numbered requirements is broken down in a single step.
+ */
+export function planTaskGroups(requirements: string): string[][] {
+  const ids = parseFunctionalRequirements(requirements).map((r) => r.id);
+  if (ids.length === 0) return [[]];
+
+  const groups: string[][] = [];
+  for (let i = 0; i < ids.length; i += REQUIREMENTS_PER_TASK_STEP) {
+    groups.push(ids.slice(i, i + REQUIREMENTS_PER_TASK_STEP));
+  }
+  return groups;
+}
+
+/**
+ * Where generation stands, for progress and resume messages.
+ */
+export function describeProgress(checkpoint: GenerationCheckpoint): string {
+  if (!checkpoint.requirementsComplete) {
+    return checkpoint.continuations > 0
+      ? `Requirements document incomplete after ${checkpoint.continuations} ${
+          checkpoint.continuations === 1 ? 'continuation' : 'continuations'
+        }`
+      : 'Requirements document cut off';
+  }
+
+  const total = checkpoint.taskGroups.length;
+  return `Requirements done, tasks for ${checkpoint.completedGroups} of ${total} ${
+    total === 1 ? 'step' : 'steps'
+  } done (${checkpoint.tasks.length} ${checkpoint.tasks.length === 1 ? 'task' : 'tasks'})`;
+}
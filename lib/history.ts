@@ -0,0 +1,88 @@
+import type { Revision, RevisionHistory, RevisionSource, RevisionSubject, Task } from '@/types';
+import { taskToMarkdown } from '@/lib/refinement';
+
+// Revisions kept per subject; older ones are dropped first
+export const MAX_REVISIONS = 50;
+
+// Consecutive manual edits within this window are kept as one revision
+export const REVISION_COALESCE_MS = 60 * 1000;
+
+export const emptyHistory: RevisionHistory = { requirements: [], tasks: [] };
+
+export const revisionSourceLabels: Record<RevisionSource, string> = {
+  generation: 'AI generation',
+  manual: 'Manual edit',
+  refinement: 'Refinement',
+  import: 'Import',
+  restore: 'Restore',
+};
+
+export function serializeTasks(tasks: Task[]): string {
+  return JSON.stringify(tasks, null, 2);
+}
+
+/**
+ * Parse a task list revision. Returns null when the content is not a task array.
+ */
+export function parseTaskRevision(content: string): Task[] | null {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return Array.isArray(parsed) ? (parsed as Task[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append a revision, oldest first. Content identical to the latest revision is
+ * skipped, and a manual edit shortly after another manual edit replaces it.
+ */
+export function appendRevision(
+  revisions: Revision[],
+  content: string,
+  source: RevisionSource,
+  now: Date = new Date()
+): Revision[] {
+  const last = revisions[revisions.length - 1];
+  if (last && last.content === content) return revisions;
+
+  const revision: Revision = {
+    id: `rev_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now.toISOString(),
+    source,
+    content,
+  };
+
+  const coalesce =
+    last &&
+    source === 'manual' &&
+    last.source === 'manual' &&
+    now.getTime() - new Date(last.timestamp).getTime() < REVISION_COALESCE_MS;
+
+  const next = coalesce ? [...revisions.slice(0, -1), revision] : [...revisions, revision];
+  return next.slice(-MAX_REVISIONS);
+}
+
+/**
+ * Record a new version of one subject in the history.
+ */
+export function recordRevision(
+  history: RevisionHistory,
+  subject: RevisionSubject,
+  content: string,
+  source: RevisionSource
+): RevisionHistory {
+  const revisions = appendRevision(history[subject], content, source);
+  return revisions === history[subject] ? history : { ...history, [subject]: revisions };
+}
+
+/**
+ * Readable text for diffing a revision. Task lists are shown as Markdown
+ * rather than raw JSON.
+ */
+export function getRevisionText(subject: RevisionSubject, content: string | null): string {
+  if (!content) return '';
+  if (subject === 'requirements') return content;
+  const tasks = parseTaskRevision(content);
+  return tasks ? tasks.map(taskToMarkdown).join('\n\n') : content;
+}
@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { extractText } from 'unpdf';
+
+// Team knowledge folder searched by the local research provider. Markdown,
+// plain text and the text of PDFs are indexed.
+export const KNOWLEDGE_DIR =
+  process.env.BRAINGRID_KNOWLEDGE_DIR || path.join(process.cwd(), 'knowledge');
+
+const INDEXED_EXTENSIONS = new Set(['.md', '.markdown', '.txt', '.pdf']);
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+// PDFs carry fonts and images besides their text
+const MAX_PDF_SIZE = 20 * 1024 * 1024;
+const MAX_CHUNK_LENGTH = 1500;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by can do for from has have how i if in into is it its of on or ' +
+    'our should so than that the their them then there these they this to was we what when ' +
+    'where which while who will with would you your'
+  ).split(' ')
+);
+
+export interface CorpusChunk {
+  file: string;      // Path relative to the knowledge folder
+  heading: string;   // Nearest Markdown heading, or the file name
+  text: string;
+}
+
+export interface CorpusIndex {
+  chunks: CorpusChunk[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface CorpusMatch {
+  chunk: CorpusChunk;
+  score: number;
+}
+
+/**
+ * Lowercase word tokens without stopwords. Plurals are folded ("timers" ->
+ * "timer") so queries match either form.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) =>
+      token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token
+    );
+}
+
+const isPdf = (file: string) => path.extname(file).toLowerCase() === '.pdf';
+
+/**
+ * Text of a knowledge file. PDF pages become paragraphs so chunks break
+ * between pages.
+ */
+async function readDocument(file: string): Promise<string> {
+  if (!isPdf(file)) return fs.readFile(file, 'utf-8');
+  const { text } = await extractText(new Uint8Array(await fs.readFile(file)));
+  return text.map((page) => page.trim()).join('\n\n');
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(fullPath)));
+    } else if (INDEXED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Split a document into chunks at Markdown headings, then at paragraph
+ * boundaries so no chunk grows far beyond MAX_CHUNK_LENGTH.
+ */
+export function chunkDocument(file: string, content: string): CorpusChunk[] {
+  const chunks: CorpusChunk[] = [];
+  let heading = path.basename(file);
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    let text = '';
+    for (const paragraph of paragraphs) {
+      if (text && text.length + paragraph.length > MAX_CHUNK_LENGTH) {
+        chunks.push({ file, heading, text });
+        text = '';
+      }
+      text = text ? `${text}\n\n${paragraph}` : paragraph;
+    }
+    if (text) chunks.push({ file, heading, text });
+    paragraphs = [];
+  };
+
+  const blocks = content.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+  for (const block of blocks) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    const [firstLine, ...rest] = trimmed.split('\n');
+    const match = firstLine.match(/^#{1,6}\s+(.+)$/);
+    if (match) {
+      flush();
+      heading = match[1].trim();
+      const body = rest.join('\n').trim();
+      if (body) paragraphs.push(body);
+    } else {
+      paragraphs.push(trimmed);
+    }
+  }
+  flush();
+  return chunks;
+}
+
+export function buildCorpusIndex(chunks: CorpusChunk[]): CorpusIndex {
+  const termFrequencies: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(`${chunk.heading} ${chunk.text}`);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    frequencies.forEach((_, token) => {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    });
+    termFrequencies.push(frequencies);
+    lengths.push(tokens.length);
+  }
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    chunks,
+    termFrequencies,
+    lengths,
+    documentFrequency,
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+  };
+}
+
+/**
+ * Rank chunks against a query with BM25. Only chunks sharing at least one
+ * term with the query are returned.
+ */
+export function searchCorpus(index: CorpusIndex, query: string, limit: number): CorpusMatch[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  const count = index.chunks.length;
+  const matches: CorpusMatch[] = [];
+
+  index.termFrequencies.forEach((frequencies, i) => {
+    let score = 0;
+    for (const term of terms) {
+      const frequency = frequencies.get(term);
+      if (!frequency) continue;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+      const norm = 1 - B + (B * index.lengths[i]) / (index.averageLength || 1);
+      score += (idf * frequency * (K1 + 1)) / (frequency + K1 * norm);
+    }
+    if (score > 0) matches.push({ chunk: index.chunks[i], score });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// The index is rebuilt only when files are added, removed or modified
+let cached: { dir: string; signature: string; index: CorpusIndex } | null = null;
+
+/**
+ * Load the index for a knowledge folder. Returns null when the folder does
+ * not exist.
+ */
+export async function loadCorpusIndex(dir: string = KNOWLEDGE_DIR): Promise<CorpusIndex | null> {
+  let files: string[];
+  try {
+    files = await listFiles(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const stats = await Promise.all(files.map((file) => fs.stat(file)));
+  const signature = files
+    .map((file, i) => `${file}:${stats[i].mtimeMs}:${stats[i].size}`)
+    .sort()
+    .join('\n');
+  if (cached && cached.dir === dir && cached.signature === signature) {
+    return cached.index;
+  }
+
+  const chunks: CorpusChunk[] = [];
+  for (let i = 0; i < files.length; i++) {
+    if (stats[i].size > (isPdf(files[i]) ? MAX_PDF_SIZE : MAX_FILE_SIZE)) {
+      console.warn(`Skipping large knowledge file: ${files[i]}`);
+      continue;
+    }
+    let content: string;
+    try {
+      content = await readDocument(files[i]);
+    } catch (error) {
+      console.warn(`Skipping unreadable knowledge file ${files[i]}:`, error);
+      continue;
+    }
+    chunks.push(...chunkDocument(path.relative(dir, files[i]), content));
+  }
+
+  const index = buildCorpusIndex(chunks);
+  cached = { dir, signature, index };
+  return index;
+}
@@ -0,0 +1,219 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+import { z } from 'zod';
+import type { ConversationPhase } from '@/types';
+
+// Model registry. Every AI call asks for the settings of a role instead of
+// naming a model, so the whole flow can run against another provider, e.g. a
+// local OpenAI-compatible server for air-gapped demos or a stub server in CI.
+//
+// Resolution order for a role's model, most specific first:
+//   BRAINGRID_MODEL_<ROLE> env, settings file role, BRAINGRID_MODEL env,
+//   settings file default, built-in role default
+// Models are written "provider:model", e.g. "local:llama3.1".
+
+export type ModelRole =
+  | 'clarifying'     // Chat in the initial and clarifying phases
+  | 'generating'     // Requirements document
+  | 'complete'       // Follow-up chat after generation
+  | 'tasks'          // Structured task list
+  | 'research'       // Research analysis
+  | 'suggestions'
+  | 'refine'
+  | 'documentation'; // Scan artifact documentation for the extension
+
+export const MODEL_ROLES: ModelRole[] = [
+  'clarifying',
+  'generating',
+  'complete',
+  'tasks',
+  'research',
+  'suggestions',
+  'refine',
+  'documentation',
+];
+
+const MODELS_FILE =
+  process.env.BRAINGRID_MODELS_FILE || path.join(process.cwd(), 'braingrid.models.json');
+
+const DEFAULT_MODEL = 'anthropic:claude-sonnet-4-20250514';
+const DEFAULT_MAX_RETRIES = 5;
+
+const roleDefaults: Record<ModelRole, { model?: string; maxOutputTokens: number }> = {
+  clarifying: { maxOutputTokens: 8000 },
+  generating: { maxOutputTokens: 8000 },
+  complete: { maxOutputTokens: 8000 },
+  tasks: { maxOutputTokens: 8000 },
+  research: { maxOutputTokens: 8000 },
+  suggestions: { model: 'anthropic:claude-3-5-haiku-20241022', maxOutputTokens: 200 },
+  refine: { maxOutputTokens: 6000 },
+  documentation: { maxOutputTokens: 8192 },
+};
+
+const providerSchema = z.object({
+  type: z.enum(['anthropic', 'openai-compatible']),
+  baseURL: z.string().url().optional(),
+  apiKeyEnv: z.string().optional(),   // Name of the env variable holding the key
+  supportsStructuredOutputs: z.boolean().optional(),
+});
+
+const roleSchema = z.object({
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).optional(),
+});
+
+const settingsSchema = z.object({
+  providers: z.record(providerSchema).optional(),
+  default: roleSchema.optional(),
+  roles: z.record(z.enum(MODEL_ROLES as [ModelRole, ...ModelRole[]]), roleSchema).optional(),
+});
+
+export type ModelProviderConfig = z.infer<typeof providerSchema>;
+type ModelsFile = z.infer<typeof settingsSchema>;
+
+const builtinProviders: Record<string, ModelProviderConfig> = {
+  anthropic: { type: 'anthropic', apiKeyEnv: 'ANTHROPIC_API_KEY' },
+  openai: {
+    type: 'openai-compatible',
+    baseURL: 'https://api.openai.com/v1',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    supportsStructuredOutputs: true,
+  },
+  local: {
+    type: 'openai-compatible',
+    baseURL: process.env.BRAINGRID_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+    apiKeyEnv: 'BRAINGRID_LOCAL_API_KEY',
+  },
+};
+
+export interface ModelSettings {
+  model: LanguageModel;
+  temperature?: number;
+  maxOutputTokens: number;
+  maxRetries: number;
+}
+
+// Resolved description of a role, without the model instance
+export interface ResolvedModel {
+  role: ModelRole;
+  provider: string;
+  modelId: string;
+  temperature?: number;
+  maxOutputTokens: number;
+  maxRetries: number;
+}
+
+let modelsFile: ModelsFile | null = null;
+
+function loadModelsFile(): ModelsFile {
+  if (modelsFile) return modelsFile;
+
+  let raw: string;
+  try {
+    raw = readFileSync(MODELS_FILE, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      modelsFile = {};
+      return modelsFile;
+    }
+    throw error;
+  }
+
+  const parsed = settingsSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+    throw new Error(`Invalid model settings in ${MODELS_FILE}: ${issues.join('; ')}`);
+  }
+  modelsFile = parsed.data;
+  return modelsFile;
+}
+
+function parseModelRef(ref: string): { provider: string; modelId: string } {
+  const separator = ref.indexOf(':');
+  if (separator <= 0 || separator === ref.length - 1) {
+    throw new Error(`Invalid model "${ref}". Use "provider:model", e.g. "local:llama3.1"`);
+  }
+  return { provider: ref.slice(0, separator), modelId: ref.slice(separator + 1) };
+}
+
+function getProviderConfig(name: string): ModelProviderConfig {
+  const config = loadModelsFile().providers?.[name] ?? builtinProviders[name];
+  if (!config) {
+    throw new Error(`Unknown model provider "${name}"`);
+  }
+  return config;
+}
+
+function createModel(provider: string, modelId: string): LanguageModel {
+  const config = getProviderConfig(provider);
+  const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+
+  if (config.type === 'anthropic') {
+    return createAnthropic({ baseURL: config.baseURL, apiKey })(modelId);
+  }
+  if (!config.baseURL) {
+    throw new Error(`Model provider "${provider}" needs a baseURL`);
+  }
+  return createOpenAICompatible({
+    name: provider,
+    baseURL: config.baseURL,
+    apiKey,
+    supportsStructuredOutputs: config.supportsStructuredOutputs,
+  })(modelId);
+}
+
+/**
+ * Describe the model a role resolves to, without creating it.
+ */
+export function resolveModel(role: ModelRole): ResolvedModel {
+  const file = loadModelsFile();
+  const fileRole = file.roles?.[role] ?? {};
+  const fileDefault = file.default ?? {};
+
+  const ref =
+    process.env[`BRAINGRID_MODEL_${role.toUpperCase()}`] ||
+    fileRole.model ||
+    process.env.BRAINGRID_MODEL ||
+    fileDefault.model ||
+    roleDefaults[role].model ||
+    DEFAULT_MODEL;
+  const { provider, modelId } = parseModelRef(ref);
+
+  return {
+    role,
+    provider,
+    modelId,
+    temperature: fileRole.temperature ?? fileDefault.temperature,
+    maxOutputTokens:
+      fileRole.maxOutputTokens ?? fileDefault.maxOutputTokens ?? roleDefaults[role].maxOutputTokens,
+    maxRetries: fileRole.maxRetries ?? fileDefault.maxRetries ?? DEFAULT_MAX_RETRIES,
+  };
+}
+
+/**
+ * Call settings for a role, ready to spread into generateText, streamText or
+ * generateObject.
+ */
+export function getModelSettings(role: ModelRole): ModelSettings {
+  const resolved = resolveModel(role);
+  return {
+    model: createModel(resolved.provider, resolved.modelId),
+    temperature: resolved.temperature,
+    maxOutputTokens: resolved.maxOutputTokens,
+    maxRetries: resolved.maxRetries,
+  };
+}
+
+/**
+ * The chat role for a conversation phase.
+ */
+export function getChatRole(phase: ConversationPhase): ModelRole {
+  if (phase === 'generating') return 'generating';
+  if (phase === 'complete') return 'complete';
+  return 'clarifying';
+}
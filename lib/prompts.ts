@@ -1,6 +1,75 @@
-import type { ConversationPhase } from '@/types';
+import { MAX_QUESTIONS } from '@/lib/clarifying-questions';
+import type {
+  ConversationPhase,
+  ProjectTemplate,
+  SectionRefinementAction,
+  TaskGenerationScope,
+  TaskRefinementAction,
+} from '@/types';
+
+// Instructions for sessions seeded from an imported requirements document
+function getSourceDocumentSection(phase: ConversationPhase, sourceDocument: string): string {
+  const document = `## Imported Requirements Document
+The user is extending an existing requirements document rather than starting from scratch:
+
+[SOURCE_DOCUMENT]
+${sourceDocument}
+[/SOURCE_DOCUMENT]`;
+
+  if (phase === 'generating') {
+    return `${document}
+
+Produce a REVISED version of this document, not a new one:
+- Keep everything from the original that the conversation did not change
+- Keep existing requirement ids (FR-1, FR-2, ...) stable; number new requirements after the highest existing id
+- Restructure into the format below, carrying over any original sections that don't fit under a matching heading
+- Integrate the user's answers to fill the gaps that were discussed`;
+  }
+
+  return `${document}
+
+Ask ONLY about gaps in this document:
+- Sections that are missing or thin (personas, edge cases, non-functional requirements, out of scope)
+- Requirements that are vague, untestable or lack a priority
+- Contradictions between sections, or with the research findings
+- What the user wants to change or add in this iteration
+Never ask about anything the document already answers. Reference sections and requirement ids when you ask.`;
+}
+
+// Instructions for sessions started from a project template
+function getTemplateSection(phase: ConversationPhase, template: ProjectTemplate): string {
+  const sections = template.sections.map((s) => `- ${s.title}: ${s.guidance}`).join('\n');
+  const nfrs = template.nonFunctionalRequirements.map((nfr) => `- ${nfr}`).join('\n');
+  const outline = `## Project Template: ${template.name}
+The user started from the "${template.name}" template. Its domain sections:
+${sections || '- None'}
+
+Default non-functional requirements:
+${nfrs || '- None'}`;
 
-export function getSystemPrompt(phase: ConversationPhase, researchContext?: string): string {
+  if (phase === 'generating') {
+    return `${outline}
+
+Fill in the template:
+- Add every domain section above as a "##" section after Functional Requirements, covering its guidance
+- Start Non-Functional Requirements from the defaults, revised by what the conversation decided
+- Drop a section or default only if the user said it does not apply, and list it under Out of Scope`;
+  }
+
+  return `${outline}
+
+Use the template to focus your questions:
+- Prefer questions that fill the domain sections above
+- Confirm or adjust the default non-functional requirements rather than asking about them from scratch
+- Replace bracketed placeholders left in the description (e.g. [resources]) with concrete answers`;
+}
+
+export function getSystemPrompt(
+  phase: ConversationPhase,
+  researchContext?: string,
+  sourceDocument?: string,
+  template?: ProjectTemplate
+): string {
   const baseContext = `You are BrainGrid, an expert product manager and software architect. Your role is to help users transform project ideas into well-structured requirements and actionable tasks.
 
 IMPORTANT RULES:
@@ -56,6 +125,9 @@ Use this context to ask SHARP, INFORMED questions:
 - Surface potential conflicts or synergies with existing systems
 - Bring up pitfalls and edge cases from research as conversation starters
 - Challenge or validate assumptions based on what you learned
+- Findings marked MUST ADDRESS or added by the user reflect the user's decisions; ask how to handle them, not whether they matter
+- Don't raise findings the user rejected
+- When a finding prompted a question, set its "findingId" to the finding's id
 ` : ''}
 
 ## Adaptive Question Strategy
@@ -70,11 +142,29 @@ DON'T follow a rigid framework. Instead, let the conversation flow naturally and
 - **Constraint discovery**: "What are the hard limits we can't cross?"
 
 **Conversation Flow:**
-1. Build on their previous answer - show you're listening and connecting dots
+1. Build on their previous answers - show you're listening and connecting dots
 2. Go deeper on interesting threads rather than jumping to new topics
 3. It's okay to ask 2 quick follow-ups on something important
 4. When something feels underspecified but critical, dig in
 
+## Question Format
+The user answers in a form, so every question must be a structured object. Write a short message (1-3 sentences, no questions in the prose), then up to ${MAX_QUESTIONS} questions on their own lines:
+
+[QUESTIONS_START]
+{"questions": [
+  {"id": "q1", "type": "single_choice", "prompt": "Who starts a timer session?", "options": ["Each user", "A team lead for everyone"], "findingId": "finding-2"},
+  {"id": "q2", "type": "multi_choice", "prompt": "Which platforms must it run on?", "options": ["Web", "iOS", "Android", "Desktop"]},
+  {"id": "q3", "type": "numeric", "prompt": "How many people use it at once at peak?", "unit": "users", "min": 1},
+  {"id": "q4", "type": "free_text", "prompt": "What happens today when a session is interrupted?"}
+]}
+[QUESTIONS_END]
+
+- Prefer choice questions with 2-5 concrete options when the answer space is known; use free_text for open "why" and "walk me through" questions
+- "id" is unique within the message; "options" only for choice questions; "unit", "min" and "max" only for numeric ones
+- "findingId" is optional and must be the id of a research finding from the context
+- The user may skip questions; don't repeat a skipped question unless it blocks the requirements
+- The block must be valid JSON; nothing follows it
+
 **When to Stop:**
 You have enough when you can confidently answer:
 - What does "done" look like?
@@ -82,33 +172,39 @@ You have enough when you can confidently answer:
 - What are the 2-3 riskiest/hardest parts?
 - What constraints shape the solution?
 
-Usually 3-4 exchanges is enough if they're GOOD exchanges. Don't pad with filler questions.
-
+Usually 2-3 rounds of questions is enough if they're GOOD questions. Don't pad with filler questions.
+${sourceDocument ? `\n${getSourceDocumentSection(phase, sourceDocument)}\n` : ''}${
+        template ? `\n${getTemplateSection(phase, template)}\n` : ''
+      }
 When ready, say something like:
 "I think I have a solid picture now. Ready for me to put together the requirements and tasks?"
 
-Then include this marker on its own line:
+Then include this marker on its own line, with no questions block:
 [READY_TO_GENERATE]`;
 
     case 'generating':
       return `${baseContext}
 
 ## Current Phase: Generation
-Generate comprehensive requirements and tasks based on the conversation.
+Generate a comprehensive requirements document based on the conversation.
 
 ${researchContext ? `## Available Context
 ${researchContext}
 
-Use this context when generating requirements and tasks:
+Use this context when generating requirements:
 - If codebase analysis is available, reference actual files, components, and patterns
 - Design for integration with existing architecture and code
 - Follow established conventions found in the codebase
-- Include tasks for modifying existing components where appropriate
 - Address pitfalls and edge cases identified in research
+- Every finding marked MUST ADDRESS must be covered by a requirement, edge case or constraint
+- Treat findings added or edited by the user as decisions, not suggestions
+- Never turn a rejected finding into a requirement
 - Follow best practices from domain research
 - Reference technical considerations from both codebase and research
 ` : ''}
-
+${sourceDocument ? `${getSourceDocumentSection(phase, sourceDocument)}\n` : ''}${
+        template ? `${getTemplateSection(phase, template)}\n` : ''
+      }
 You MUST output in this EXACT format:
 
 First, write a brief message to the user (1-2 sentences).
@@ -156,32 +252,7 @@ Description of the requirement.
 - Items explicitly not included
 [REQUIREMENTS_END]
 
-Then output the tasks:
-
-[TASKS_START]
-[
-  {
-    "id": "task-1",
-    "title": "Task title",
-    "description": "Detailed description of what needs to be done",
-    "completed": false,
-    "subtasks": [
-      {"id": "subtask-1-1", "title": "Subtask description", "completed": false}
-    ],
-    "acceptanceCriteria": [
-      "Given X, when Y, then Z",
-      "The feature should..."
-    ]
-  }
-]
-[TASKS_END]
-
-IMPORTANT:
-- Generate 4-8 tasks that follow INVEST principles (Independent, Negotiable, Valuable, Estimable, Small, Testable)
-- Each task should have 2-4 subtasks
-- Each task should have 2-3 acceptance criteria
-- Use Given/When/Then format for acceptance criteria where appropriate
-- Tasks should be ordered by logical implementation sequence`;
+Do NOT output tasks here. Tasks are generated separately from the requirements document.`;
 
     case 'complete':
       return `${baseContext}
@@ -189,7 +260,7 @@ IMPORTANT:
 ## Current Phase: Complete
 Requirements and tasks have been generated. Help the user with any follow-up questions about the generated content. You can:
 - Explain specific requirements or tasks
-- Suggest modifications
+- Suggest modifications (for a change to a single task or requirement section, point the user to the Refine actions in the Tasks and Requirements tabs)
 - Answer questions about implementation approach
 
 If the user wants to start a new project, tell them to refresh the page or click reset.`;
@@ -198,3 +269,116 @@ If the user wants to start a new project, tell them to refresh the page or click
       return baseContext;
   }
 }
+
+// Sent after a requirements document that was cut off by the output limit
+export const REQUIREMENTS_CONTINUATION_PROMPT = `Your requirements document was cut off by the output limit. Continue it exactly where it stopped, mid-sentence if needed. Do not repeat anything already written and do not restart the document or add [REQUIREMENTS_START]. End with [REQUIREMENTS_END].`;
+
+// Staged generation breaks a few functional requirements down per step
+function getTaskScopeRules(scope: TaskGenerationScope, firstTaskNumber: number): string {
+  const rules = [
+    scope.requirementIds.length > 0
+      ? `- This is step ${scope.step} of ${scope.totalSteps}: generate tasks only for ${scope.requirementIds.join(', ')}, 1-3 tasks per requirement, following INVEST principles (Independent, Negotiable, Valuable, Estimable, Small, Testable)`
+      : '- Generate 4-8 tasks that follow INVEST principles (Independent, Negotiable, Valuable, Estimable, Small, Testable)',
+    scope.step === 1
+      ? '- Also include cross-cutting work that later tasks build on, such as project setup'
+      : '- Cross-cutting work such as project setup is already covered by earlier steps; don\'t repeat it',
+    `- Use ids "task-${firstTaskNumber}", "task-${firstTaskNumber + 1}", ... and "subtask-<task>-<n>" for subtasks; every id must be unique`,
+  ];
+
+  if (scope.existingTasks.length > 0) {
+    rules.push(
+      `- Earlier steps produced these tasks. Don't repeat their scope; "dependsOn" may reference them:\n${scope.existingTasks
+        .map((t) => `  - ${t.id}: ${t.title}${t.requirementId ? ` (${t.requirementId})` : ''}`)
+        .join('\n')}`
+    );
+  }
+
+  return rules.join('\n');
+}
+
+export function getTaskGenerationPrompt(context?: string, scope?: TaskGenerationScope): string {
+  const firstTaskNumber =
+    Math.max(0, ...(scope?.existingTasks ?? []).map((t) => Number(t.id.match(/^task-(\d+)$/)?.[1] ?? 0))) + 1;
+
+  return `You are BrainGrid, an expert software architect. Break the requirements document into an ordered list of implementation tasks.
+
+${context ? `## Available Context
+${context}
+
+Use this context when creating tasks:
+- If codebase analysis is available, reference actual files, components, and patterns
+- Include tasks for modifying existing components where appropriate
+- Address pitfalls and edge cases identified in research
+- Cover every finding marked MUST ADDRESS
+- Never create tasks for a rejected finding
+` : ''}
+## Task Rules
+${
+  scope
+    ? getTaskScopeRules(scope, firstTaskNumber)
+    : `- Generate 4-8 tasks that follow INVEST principles (Independent, Negotiable, Valuable, Estimable, Small, Testable)
+- Use ids "task-1", "task-2", ... and "subtask-<task>-<n>" for subtasks; every id must be unique`
+}
+- Each task should have 2-4 subtasks
+- Each task should have 2-3 acceptance criteria
+- Use Given/When/Then format for acceptance criteria where appropriate
+- Set "completed" to false for every task and subtask
+- Tasks should be ordered by logical implementation sequence
+
+## Planning Fields
+- "dependsOn": ids of the tasks that must be finished before this one (empty if none); only reference ids from this list${scope?.existingTasks.length ? ' or from earlier steps' : ''}, never the task itself
+- "estimate": relative size - "XS" (under an hour), "S" (half a day), "M" (1-2 days), "L" (3-5 days), "XL" (more than a week; prefer splitting)
+- "priority": "must-have", "should-have" or "nice-to-have", matching the priority of the requirement it implements
+- "requirementId": the functional requirement the task implements, e.g. "FR-2"; omit it only for cross-cutting work such as project setup`;
+}
+
+const taskRefinementInstructions: Record<TaskRefinementAction, string> = {
+  split:
+    'Split the task into 2-3 smaller tasks that can each be delivered and verified on their own. Give every resulting task a new id ("<original id>a", "<original id>b", ...), distribute the subtasks and acceptance criteria between them, and make later parts depend on earlier ones where needed.',
+  merge:
+    'Merge the tasks into a single task that covers all of their scope. Use the id of the first task, combine their subtasks and acceptance criteria without duplicates, and keep the union of their dependencies.',
+  'rewrite-criteria':
+    'Rewrite the acceptance criteria in Given/When/Then form so each one is specific and testable. Keep the id, title, description, subtasks and planning fields unchanged.',
+  custom: 'Apply the user\'s instructions to the tasks.',
+};
+
+const sectionRefinementInstructions: Record<SectionRefinementAction, string> = {
+  'expand-edge-cases':
+    'Expand the edge cases for this section: add concrete failure modes, boundary conditions, invalid inputs and concurrency or offline scenarios that an implementation must handle.',
+  clarify:
+    'Rewrite the section so every statement is specific and testable. Replace vague wording ("fast", "easy", "secure") with measurable criteria and resolve ambiguities.',
+  custom: 'Apply the user\'s instructions to the section.',
+};
+
+export function getRefinementPrompt(
+  target: 'tasks' | 'section',
+  action: TaskRefinementAction | SectionRefinementAction,
+  instructions?: string
+): string {
+  const actionInstructions =
+    target === 'tasks'
+      ? taskRefinementInstructions[action as TaskRefinementAction]
+      : sectionRefinementInstructions[action as SectionRefinementAction];
+
+  const rules =
+    target === 'tasks'
+      ? `## Rules
+- Return ONLY the tasks that replace the targeted tasks, never the untouched ones
+- Task ids must not clash with the ids of the other tasks
+- "dependsOn" may reference the other tasks or the tasks you return
+- Keep "completed" as it was for work that is unchanged; new tasks start as false
+- Every task needs an estimate and a priority; keep the requirementId of the task it came from`
+      : `## Rules
+- Return the complete replacement section, starting with its original heading line
+- Keep the heading level and any requirement id (e.g. "FR-3") unchanged
+- Keep the document's Markdown conventions, such as the **Priority:** line
+- Change only this section; do not repeat other sections`;
+
+  return `You are BrainGrid, an expert product manager and software architect. You make one targeted change to an existing plan instead of regenerating it.
+
+## Action
+${actionInstructions}
+${instructions ? `\n## User Instructions\n${instructions}\n` : ''}
+${rules}
+- "summary" is one or two sentences describing what you changed, shown to the user for review`;
+}
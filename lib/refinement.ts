@@ -0,0 +1,148 @@
+import type { RefinementPatch, Task } from '@/types';
+
+export type TaskPatch = Extract<RefinementPatch, { target: 'tasks' }>;
+export type SectionPatch = Extract<RefinementPatch, { target: 'section' }>;
+
+export interface RequirementSection {
+  id: string;              // "FR-3" for functional requirements, otherwise a heading slug
+  heading: string;
+  level: number;
+  start: number;           // Line index of the heading
+  end: number;             // Line index after the last line of the section
+}
+
+/**
+ * Split the requirements document into refinable sections. A section is a
+ * level 2-4 heading up to the next heading of the same or a higher level, so
+ * "## Functional Requirements" contains each "### FR-n" section.
+ */
+export function getRequirementSections(markdown: string | null): RequirementSection[] {
+  if (!markdown) return [];
+
+  const lines = markdown.split('\n');
+  const headings: Array<{ line: number; level: number; heading: string }> = [];
+  lines.forEach((line, index) => {
+    const match = line.match(/^(#{1,4})\s+(.+?)\s*#*$/);
+    if (match) headings.push({ line: index, level: match[1].length, heading: match[2] });
+  });
+
+  const used = new Set<string>();
+  const sections: RequirementSection[] = [];
+
+  headings.forEach((h, index) => {
+    if (h.level === 1) return;
+
+    const next = headings.slice(index + 1).find((other) => other.level <= h.level);
+    const fr = h.heading.match(/^(FR-\d+)\b/);
+    const base =
+      fr?.[1] ??
+      (h.heading
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'section');
+
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+
+    sections.push({
+      id,
+      heading: h.heading,
+      level: h.level,
+      start: h.line,
+      end: next ? next.line : lines.length,
+    });
+  });
+
+  return sections;
+}
+
+export function getSectionContent(markdown: string, section: RequirementSection): string {
+  return markdown.split('\n').slice(section.start, section.end).join('\n').trimEnd();
+}
+
+/**
+ * Replace one section of the requirements document. Returns null when the
+ * section no longer exists (the document was edited since the request).
+ */
+export function applySectionPatch(markdown: string, patch: SectionPatch): string | null {
+  const section = getRequirementSections(markdown).find((s) => s.id === patch.sectionId);
+  if (!section) return null;
+
+  const lines = markdown.split('\n');
+  const trailing = lines.slice(section.start, section.end).join('\n').match(/\n*$/)?.[0] ?? '';
+  return [
+    ...lines.slice(0, section.start),
+    patch.content.trimEnd() + trailing,
+    ...lines.slice(section.end),
+  ].join('\n');
+}
+
+/**
+ * Replace the targeted tasks with the patch's tasks, in place of the first
+ * targeted task. Dependencies on removed tasks are redirected to the tasks
+ * that replace them, and self-dependencies are dropped.
+ */
+export function applyTaskPatch(tasks: Task[], patch: TaskPatch): Task[] {
+  const removed = new Set(patch.replaceIds);
+  const newIds = patch.tasks.map((t) => t.id);
+
+  const redirect = (task: Task): Task => {
+    if (!task.dependsOn) return task;
+    const dependsOn = task.dependsOn
+      .flatMap((id) => (removed.has(id) && !newIds.includes(id) ? newIds : [id]))
+      .filter((id, index, all) => id !== task.id && all.indexOf(id) === index);
+    return { ...task, dependsOn };
+  };
+
+  const insertAt = tasks.findIndex((t) => removed.has(t.id));
+  const kept = tasks.filter((t) => !removed.has(t.id));
+  const position = insertAt === -1 ? kept.length : insertAt;
+
+  return [...kept.slice(0, position), ...patch.tasks, ...kept.slice(position)].map(redirect);
+}
+
+/**
+ * Problems with a patched task list: duplicate ids and dependencies on
+ * tasks that do not exist.
+ */
+export function validateTaskList(tasks: Task[]): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+
+  for (const task of tasks) {
+    if (ids.has(task.id)) issues.push(`Duplicate task id "${task.id}"`);
+    ids.add(task.id);
+  }
+  for (const task of tasks) {
+    for (const id of task.dependsOn ?? []) {
+      if (!ids.has(id)) issues.push(`Task "${task.id}" depends on unknown task "${id}"`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Render a task as Markdown for prompts and for reviewing changes.
+ */
+export function taskToMarkdown(task: Task): string {
+  const lines = [`### ${task.id}: ${task.title}`, '', task.description, ''];
+
+  const fields = [
+    task.requirementId && `Implements: ${task.requirementId}`,
+    task.priority && `Priority: ${task.priority}`,
+    task.estimate && `Estimate: ${task.estimate}`,
+    task.dependsOn && task.dependsOn.length > 0 && `Depends on: ${task.dependsOn.join(', ')}`,
+  ].filter(Boolean);
+  if (fields.length > 0) lines.push(...fields.map((field) => `- ${field}`), '');
+
+  if (task.subtasks.length > 0) {
+    lines.push('Subtasks:', ...task.subtasks.map((s) => `- [${s.completed ? 'x' : ' '}] ${s.title}`), '');
+  }
+  if (task.acceptanceCriteria.length > 0) {
+    lines.push('Acceptance criteria:', ...task.acceptanceCriteria.map((c) => `- ${c}`));
+  }
+
+  return lines.join('\n').trimEnd();
+}
@@ -0,0 +1,95 @@
+import type { TaskPriority } from '@/types';
+
+export interface FunctionalRequirement {
+  id: string;              // e.g. "FR-1"
+  title: string;
+  priority: TaskPriority | null;
+}
+
+const FR_HEADING = /^#{2,4}\s*(FR-\d+)\s*[:.\-–—]?\s*(.*)$/;
+const PRIORITY_LINE = /\*\*Priority:\*\*\s*(Must|Should|Nice)/i;
+
+const priorityByKeyword: Record<string, TaskPriority> = {
+  must: 'must-have',
+  should: 'should-have',
+  nice: 'nice-to-have',
+};
+
+/**
+ * Extract the numbered functional requirements ("### FR-1: Title") from the
+ * requirements document, with the priority declared under each heading.
+ */
+export function parseFunctionalRequirements(markdown: string | null): FunctionalRequirement[] {
+  if (!markdown) return [];
+
+  const requirements: FunctionalRequirement[] = [];
+  let current: FunctionalRequirement | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.trim().match(FR_HEADING);
+    if (heading) {
+      current = { id: heading[1], title: heading[2].trim(), priority: null };
+      requirements.push(current);
+      continue;
+    }
+
+    // Any other heading ends the current requirement's section
+    if (/^#{1,4}\s/.test(line.trim())) {
+      current = null;
+      continue;
+    }
+
+    const priority = current && !current.priority ? line.match(PRIORITY_LINE) : null;
+    if (current && priority) {
+      current.priority = priorityByKeyword[priority[1].toLowerCase()];
+    }
+  }
+
+  return requirements;
+}
+
+/**
+ * Project title from the first top-level heading of the requirements document.
+ */
+export function getProjectTitle(markdown: string | null): string {
+  const heading = markdown?.match(/^#\s+(.+)$/m);
+  return heading ? heading[1].trim() : 'BrainGrid Project';
+}
+
+// Imported documents larger than this are rejected rather than truncated
+export const MAX_IMPORT_LENGTH = 100_000;
+
+/**
+ * Normalize an imported PRD (Markdown or plain text) for use as the session's
+ * requirements document. Plain text without a top-level heading gets one
+ * derived from the file name.
+ */
+export function normalizeImportedDocument(text: string, name: string): string {
+  const content = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+  if (/^#\s+\S/m.test(content)) return content;
+
+  const title = name.replace(/\.(md|markdown|txt)$/i, '').replace(/[-_]+/g, ' ').trim();
+  return `# ${title || 'Imported Requirements'}\n\n${content}`;
+}
+
+/**
+ * Short description of a requirements document for domain research: the
+ * title plus the overview or problem statement, or the opening text.
+ */
+export function getResearchBrief(markdown: string, maxLength = 1500): string {
+  const lines = markdown.split('\n');
+  const start = lines.findIndex((line) =>
+    /^##\s+(Overview|Summary|Problem Statement|Background)\b/i.test(line.trim())
+  );
+
+  let body: string;
+  if (start >= 0) {
+    const end = lines.findIndex((line, i) => i > start && /^#{1,2}\s/.test(line.trim()));
+    body = lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+  } else {
+    body = lines.filter((line) => !/^#\s/.test(line)).join('\n');
+  }
+
+  const brief = `${getProjectTitle(markdown)}\n\n${body.trim()}`;
+  return brief.length > maxLength ? `${brief.substring(0, maxLength)}...` : brief;
+}
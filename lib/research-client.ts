@@ -0,0 +1,33 @@
+import type { ResearchProviderId, ResearchResults } from '@/types';
+
+export interface ResearchQuery {
+  projectDescription: string;
+  topic?: string;              // Focus of follow-up research
+  knownFindings?: string[];    // Titles of findings the session already has
+  provider?: ResearchProviderId;
+  codebaseContext?: string;    // Scan artifacts of the workspace
+}
+
+/**
+ * Run research through /api/research.
+ */
+export async function fetchResearch(query: ResearchQuery): Promise<ResearchResults> {
+  const response = await fetch('/api/research', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(query),
+  });
+
+  if (!response.ok) {
+    let message = `Research failed: ${response.status}`;
+    try {
+      const data = (await response.json()) as { error?: string };
+      if (data.error) message = data.error;
+    } catch {
+      // Keep the status-based message
+    }
+    throw new Error(message);
+  }
+
+  return (await response.json()) as ResearchResults;
+}
@@ -0,0 +1,208 @@
+import type {
+  FindingInclusion,
+  ResearchCitation,
+  ResearchContextPhase,
+  ResearchContextReport,
+  ResearchFinding,
+  ResearchResults,
+} from '@/types';
+
+// Approximate token budget for the research context of each request
+export const RESEARCH_CONTEXT_BUDGETS: Record<ResearchContextPhase, number> = {
+  clarifying: 1500,
+  generating: 6000,
+  tasks: 4000,
+};
+
+export const researchContextPhaseLabels: Record<ResearchContextPhase, string> = {
+  clarifying: 'Clarifying questions',
+  generating: 'Requirements',
+  tasks: 'Tasks',
+};
+
+// Category order per phase: questions start from concepts, generation must
+// cover what can go wrong first
+const categoryOrder: Record<ResearchContextPhase, ResearchFinding['category'][]> = {
+  clarifying: ['pitfall', 'edge_case', 'concept', 'best_practice', 'technical'],
+  generating: ['pitfall', 'edge_case', 'best_practice', 'technical', 'concept'],
+  tasks: ['pitfall', 'edge_case', 'technical', 'best_practice', 'concept'],
+};
+
+// Categories included in generation even when the budget is exhausted
+const requiredCategories: Record<ResearchContextPhase, ResearchFinding['category'][]> = {
+  clarifying: [],
+  generating: ['pitfall', 'edge_case'],
+  tasks: ['pitfall', 'edge_case'],
+};
+
+const relevanceRank: Record<ResearchFinding['relevance'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+const categoryLabels: Record<ResearchFinding['category'], string> = {
+  concept: 'Concept',
+  best_practice: 'Best practice',
+  pitfall: 'Pitfall',
+  edge_case: 'Edge case',
+  technical: 'Technical',
+};
+
+// Length findings are cut to when they don't fit in full
+const TRIMMED_CONTENT_LENGTH = 240;
+const MAX_SUMMARY_SHARE = 0.25;
+
+/**
+ * Rough token count (about four characters per token), close enough for
+ * budgeting prompt context.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+}
+
+function formatFinding(finding: ResearchFinding, content: string): string {
+  const tags: string[] = [categoryLabels[finding.category], finding.relevance];
+  if (finding.review === 'must_address') tags.push('MUST ADDRESS');
+  if (finding.review === 'accepted') tags.push('accepted');
+  if (finding.origin === 'user') tags.push('added by the user');
+  else if (finding.edited) tags.push('edited by the user');
+
+  const cited = finding.citations?.length ? ` [${finding.citations.join(', ')}]` : '';
+  return `- [${tags.join(', ')}] ${finding.title} (id: ${finding.id}): ${content}${cited}`;
+}
+
+// Findings the user wants in every context
+function isRequired(finding: ResearchFinding, selection: Record<string, FindingInclusion>): boolean {
+  return selection[finding.id] === 'pinned' || finding.review === 'must_address';
+}
+
+function formatCitation(citation: ResearchCitation): string {
+  return `[${citation.index}] ${citation.title}${citation.url ? ` (${citation.url})` : ''}`;
+}
+
+/**
+ * Findings in the order they are considered for a phase: pinned and "must
+ * address" first, then required categories, accepted findings, and the rest
+ * by relevance and category. Excluded and rejected findings are left out.
+ */
+export function rankFindings(
+  findings: ResearchFinding[],
+  phase: ResearchContextPhase,
+  selection: Record<string, FindingInclusion> = {}
+): ResearchFinding[] {
+  const order = categoryOrder[phase];
+  const required = requiredCategories[phase];
+  const score = (f: ResearchFinding) => [
+    isRequired(f, selection) ? 0 : 1,
+    required.includes(f.category) ? 0 : 1,
+    f.review === 'accepted' ? 0 : 1,
+    relevanceRank[f.relevance],
+    order.indexOf(f.category),
+  ];
+
+  return findings
+    .filter((f) => selection[f.id] !== 'excluded' && f.review !== 'rejected')
+    .map((finding, index) => ({ finding, index, score: score(finding) }))
+    .sort((a, b) => {
+      for (let i = 0; i < a.score.length; i++) {
+        if (a.score[i] !== b.score[i]) return a.score[i] - b.score[i];
+      }
+      return a.index - b.index;
+    })
+    .map(({ finding }) => finding);
+}
+
+/**
+ * Build the research context for one phase within its token budget.
+ *
+ * Findings are added in ranked order, in full while they fit and cut short
+ * when only a shorter version fits. Pinned and "must address" findings, and
+ * pitfalls and edge cases when generating, are always included (cut short if
+ * needed) even if that goes over the budget. Rejected findings are listed by
+ * title only, so the model knows not to act on them. The report says which
+ * findings made it in.
+ */
+export function buildResearchContext(
+  research: ResearchResults,
+  phase: ResearchContextPhase,
+  selection: Record<string, FindingInclusion> = {},
+  budget: number = RESEARCH_CONTEXT_BUDGETS[phase]
+): { text: string; report: ResearchContextReport } {
+  const rejected = research.findings.filter(
+    (f) => f.review === 'rejected' && selection[f.id] !== 'excluded'
+  );
+  const report: ResearchContextReport = {
+    phase,
+    budget,
+    tokens: 0,
+    included: [],
+    trimmed: [],
+    omitted: [],
+    excluded: research.findings.filter((f) => selection[f.id] === 'excluded').map((f) => f.id),
+    rejected: rejected.map((f) => f.id),
+  };
+
+  const rejectedList =
+    rejected.length > 0
+      ? `Rejected by the user (never turn these into requirements or tasks):\n${rejected.map((f) => `- ${f.title}`).join('\n')}`
+      : '';
+
+  const summary = truncate(research.summary, Math.floor(budget * MAX_SUMMARY_SHARE) * 4);
+  const questions =
+    phase === 'clarifying' && research.suggestedQuestions.length > 0
+      ? `Suggested Questions:\n${research.suggestedQuestions.map((q) => `- ${q}`).join('\n')}`
+      : '';
+  let used = estimateTokens(summary) + estimateTokens(questions) + estimateTokens(rejectedList);
+
+  const required = requiredCategories[phase];
+  const lines: string[] = [];
+  const cited = new Set<number>();
+
+  for (const finding of rankFindings(research.findings, phase, selection)) {
+    const mustInclude = isRequired(finding, selection) || required.includes(finding.category);
+    const full = formatFinding(finding, finding.content);
+    const short = formatFinding(finding, truncate(finding.content, TRIMMED_CONTENT_LENGTH));
+
+    let line: string | null = null;
+    if (used + estimateTokens(full) <= budget) {
+      line = full;
+    } else if (used + estimateTokens(short) <= budget || mustInclude) {
+      line = short;
+    }
+
+    if (!line) {
+      report.omitted.push(finding.id);
+      continue;
+    }
+    lines.push(line);
+    used += estimateTokens(line);
+    (line === full ? report.included : report.trimmed).push(finding.id);
+    finding.citations?.forEach((index) => cited.add(index));
+  }
+
+  // Only the sources the included findings cite
+  const sources = (research.citations ?? [])
+    .filter((c) => cited.has(c.index))
+    .map(formatCitation)
+    .join('\n');
+  used += estimateTokens(sources);
+
+  const sections = [
+    summary ? `Research Summary: ${summary}` : '',
+    lines.length > 0 ? `Key Findings:\n${lines.join('\n')}` : '',
+    rejectedList,
+    questions,
+    sources ? `Sources:\n${sources}` : '',
+  ].filter(Boolean);
+
+  report.tokens = used;
+  return {
+    text: `\n\n[RESEARCH_CONTEXT]\n${sections.join('\n\n')}\n[/RESEARCH_CONTEXT]`,
+    report,
+  };
+}
@@ -0,0 +1,239 @@
+import { existsSync } from 'fs';
+import { KNOWLEDGE_DIR, loadCorpusIndex, searchCorpus } from '@/lib/local-corpus';
+import type { ResearchCitation, ResearchProviderId } from '@/types';
+
+// Knowledge base excerpts passed on to analysis
+const LOCAL_MATCH_LIMIT = 8;
+
+export interface ResearchRequest {
+  projectDescription: string;
+  topic?: string;   // Follow-up research into one topic of the project
+  codebaseContext?: string;
+}
+
+// Raw material a provider gathered, before it is analyzed into findings
+export interface GatheredResearch {
+  content: string;
+  citations: ResearchCitation[];   // Numbered from 1, matching [n] markers in content
+  sourceLabel: string;   // How the analysis prompt introduces the content
+}
+
+export interface ResearchProvider {
+  id: ResearchProviderId;
+  gather(request: ResearchRequest): Promise<GatheredResearch>;
+}
+
+export class ResearchProviderError extends Error {
+  readonly status: number;
+  readonly details?: string;
+
+  constructor(message: string, status: number, details?: string) {
+    super(message);
+    this.name = 'ResearchProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+interface PerplexityMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface PerplexityResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+  citations?: string[];
+  search_results?: Array<{
+    title?: string;
+    url: string;
+  }>;
+}
+
+/**
+ * Fallback title for a web citation, e.g. "developer.mozilla.org".
+ */
+function titleFromUrl(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Web research with Perplexity Sonar. The project description is sent to
+ * Perplexity; the codebase scan is not.
+ */
+const perplexityProvider: ResearchProvider = {
+  id: 'perplexity',
+  async gather({ projectDescription, topic }) {
+    const perplexityApiKey = process.env.PERPLEXITY_API_KEY;
+    if (!perplexityApiKey) {
+      throw new ResearchProviderError('PERPLEXITY_API_KEY not configured', 500);
+    }
+
+    const researchPrompt = topic
+      ? `Research one topic in depth for the following project. I need practical, actionable information about this topic specifically.
+
+Project: ${projectDescription}
+
+Topic: ${topic}
+
+Please provide the key concepts, best practices, common pitfalls, edge cases and technical considerations for this topic. Be specific and practical. Include real examples where helpful.`
+      : `Research the following project idea comprehensively. I need practical, actionable information for building this project.
+
+Project: ${projectDescription}
+
+Please provide:
+1. **Key Domain Concepts**: Essential terminology and concepts a developer should understand
+2. **Best Practices**: Industry-standard approaches and patterns for this type of project
+3. **Common Pitfalls**: Mistakes to avoid and challenges teams typically face
+4. **Edge Cases**: Scenarios that are often overlooked but important to handle
+5. **Technical Considerations**: Architecture, technology choices, and implementation details
+
+Be specific and practical. Include real examples where helpful.`;
+
+    const perplexityMessages: PerplexityMessage[] = [
+      {
+        role: 'system',
+        content: 'You are a technical research assistant. Provide detailed, practical research findings with citations. Focus on actionable insights for software development projects.'
+      },
+      {
+        role: 'user',
+        content: researchPrompt
+      }
+    ];
+
+    const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${perplexityApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'sonar-pro',
+        messages: perplexityMessages,
+        temperature: 0.2,
+        max_tokens: 4000,
+      }),
+    });
+
+    if (!perplexityResponse.ok) {
+      const errorText = await perplexityResponse.text();
+      console.error('Perplexity API error:', errorText);
+      throw new ResearchProviderError('Research API failed', 500, errorText);
+    }
+
+    const perplexityData = (await perplexityResponse.json()) as PerplexityResponse;
+    // search_results carries titles; citations is the bare URL list in the
+    // same order as the [n] markers
+    const titles = new Map(
+      (perplexityData.search_results || []).map((r) => [r.url, r.title] as const)
+    );
+    const urls = perplexityData.citations || (perplexityData.search_results || []).map((r) => r.url);
+    return {
+      content: perplexityData.choices[0]?.message?.content || '',
+      citations: urls.map((url, i) => ({
+        index: i + 1,
+        title: titles.get(url) || titleFromUrl(url),
+        url,
+      })),
+      sourceLabel: 'Raw Research Findings',
+    };
+  },
+};
+
+/**
+ * Searches the local knowledge folder. Nothing leaves the server except the
+ * matched excerpts sent for analysis.
+ */
+const localCorpusProvider: ResearchProvider = {
+  id: 'local',
+  async gather({ projectDescription, topic }) {
+    const index = await loadCorpusIndex();
+    if (!index) {
+      throw new ResearchProviderError(
+        'Knowledge folder not found',
+        500,
+        `Create ${KNOWLEDGE_DIR} or set BRAINGRID_KNOWLEDGE_DIR`
+      );
+    }
+
+    // One citation per matched section, numbered in the order they are quoted
+    const matches = searchCorpus(index, topic || projectDescription, LOCAL_MATCH_LIMIT);
+    const citations: ResearchCitation[] = [];
+    const excerpts = matches.map((m) => {
+      const title = `${m.chunk.file} — ${m.chunk.heading}`;
+      let citation = citations.find((c) => c.title === title);
+      if (!citation) {
+        citation = { index: citations.length + 1, title };
+        citations.push(citation);
+      }
+      return `[${citation.index}] ${title}\n${m.chunk.text}`;
+    });
+    return {
+      content: excerpts.join('\n\n'),
+      citations,
+      sourceLabel: 'Excerpts from the team knowledge base',
+    };
+  },
+};
+
+/**
+ * No external research. Findings are derived from the codebase scan the
+ * client sends with the request, if any.
+ */
+const codebaseOnlyProvider: ResearchProvider = {
+  id: 'none',
+  async gather() {
+    return { content: '', citations: [], sourceLabel: '' };
+  },
+};
+
+const providers: Record<ResearchProviderId, ResearchProvider> = {
+  perplexity: perplexityProvider,
+  local: localCorpusProvider,
+  none: codebaseOnlyProvider,
+};
+
+export function isResearchProviderId(value: unknown): value is ResearchProviderId {
+  return typeof value === 'string' && Object.hasOwn(providers, value);
+}
+
+/**
+ * Pick the provider for a request.
+ *
+ * BRAINGRID_RESEARCH_PROVIDER pins the server to one provider; a request may
+ * then only ask for that provider or for no external research. Without it,
+ * the request's choice is used, falling back to Perplexity when a key is
+ * configured, then the knowledge folder when it exists, then none.
+ */
+export function resolveResearchProvider(requested?: ResearchProviderId): ResearchProvider {
+  const pinned = process.env.BRAINGRID_RESEARCH_PROVIDER;
+  if (pinned) {
+    if (!isResearchProviderId(pinned)) {
+      throw new ResearchProviderError(
+        'Invalid BRAINGRID_RESEARCH_PROVIDER',
+        500,
+        `Expected one of: ${Object.keys(providers).join(', ')}. Got: ${pinned}`
+      );
+    }
+    if (requested && requested !== pinned && requested !== 'none') {
+      throw new ResearchProviderError(
+        `Research provider "${requested}" is not allowed on this server`,
+        403,
+        `This server only allows "${pinned}" or "none"`
+      );
+    }
+    return providers[requested ?? pinned];
+  }
+
+  if (requested) return providers[requested];
+  if (process.env.PERPLEXITY_API_KEY) return providers.perplexity;
+  if (existsSync(KNOWLEDGE_DIR)) return providers.local;
+  return providers.none;
+}
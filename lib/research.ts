@@ -0,0 +1,221 @@
+import type {
+  FindingDraft,
+  FindingReview,
+  ResearchCitation,
+  ResearchFinding,
+  ResearchResults,
+  ResearchSession,
+} from '@/types';
+
+// Research runs kept per planning session; older ones are dropped first.
+// The merged findings are kept regardless.
+export const MAX_RESEARCH_SESSIONS = 50;
+
+// Share of title words two findings need in common to count as the same
+const DUPLICATE_TITLE_OVERLAP = 0.6;
+
+const relevanceRank: Record<ResearchFinding['relevance'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+function titleWords(title: string): Set<string> {
+  return new Set(title.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+}
+
+/**
+ * Whether two findings describe the same thing, judged by how many title
+ * words they share.
+ */
+export function isDuplicateFinding(a: ResearchFinding, b: ResearchFinding): boolean {
+  const wordsA = titleWords(a.title);
+  const wordsB = titleWords(b.title);
+  if (wordsA.size === 0 || wordsB.size === 0) return false;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared) >= DUPLICATE_TITLE_OVERLAP;
+}
+
+function isSameCitation(a: ResearchCitation, b: ResearchCitation): boolean {
+  return a.url || b.url ? a.url === b.url : a.title === b.title;
+}
+
+/**
+ * Merge follow-up research into existing results. Follow-up citations are
+ * renumbered after the existing ones (reusing the index of a source already
+ * cited), and a follow-up finding that duplicates an existing one adds its
+ * citations to it instead of being listed twice.
+ */
+export function mergeResearch(base: ResearchResults, followUp: ResearchResults): ResearchResults {
+  const citations = [...(base.citations ?? [])];
+  let nextIndex = citations.reduce((max, c) => Math.max(max, c.index), 0) + 1;
+  const renumbered = new Map<number, number>();
+  for (const citation of followUp.citations ?? []) {
+    const existing = citations.find((c) => isSameCitation(c, citation));
+    if (existing) {
+      renumbered.set(citation.index, existing.index);
+    } else {
+      renumbered.set(citation.index, nextIndex);
+      citations.push({ ...citation, index: nextIndex++ });
+    }
+  }
+
+  const findings = [...base.findings];
+  const ids = new Set(findings.map((f) => f.id));
+  for (const finding of followUp.findings) {
+    const cited = (finding.citations ?? [])
+      .map((index) => renumbered.get(index))
+      .filter((index): index is number => index !== undefined)
+      .sort((a, b) => a - b);
+
+    const duplicate = findings.findIndex((f) => isDuplicateFinding(f, finding));
+    if (duplicate >= 0) {
+      const existing = findings[duplicate];
+      findings[duplicate] = {
+        ...existing,
+        citations: Array.from(new Set([...(existing.citations ?? []), ...cited])).sort((a, b) => a - b),
+        relevance:
+          relevanceRank[finding.relevance] < relevanceRank[existing.relevance]
+            ? finding.relevance
+            : existing.relevance,
+      };
+      continue;
+    }
+
+    let id = finding.id;
+    for (let n = findings.length + 1; ids.has(id); n++) {
+      id = `finding-${n}`;
+    }
+    ids.add(id);
+    findings.push({ ...finding, id, citations: cited });
+  }
+
+  const questions = new Map<string, string>();
+  for (const question of [...base.suggestedQuestions, ...followUp.suggestedQuestions]) {
+    const key = question.trim().toLowerCase();
+    if (!questions.has(key)) questions.set(key, question);
+  }
+
+  // Base may hold only findings the user added before research ran
+  let summary = base.summary || followUp.summary;
+  if (base.summary && followUp.summary) {
+    summary = `${base.summary}\n\nFollow-up on ${followUp.topic ? `"${followUp.topic}"` : 'research'}: ${followUp.summary}`;
+  }
+
+  return {
+    ...base,
+    query: base.query || followUp.query,
+    provider: base.provider ?? followUp.provider,
+    findings,
+    citations,
+    suggestedQuestions: Array.from(questions.values()),
+    summary,
+    timestamp: followUp.timestamp,
+  };
+}
+
+/**
+ * Number of findings follow-up research would add to the existing results.
+ */
+export function countNewFindings(base: ResearchResults | null, followUp: ResearchResults): number {
+  if (!base) return followUp.findings.length;
+  return mergeResearch(base, followUp).findings.length - base.findings.length;
+}
+
+export function createResearchSession(results: ResearchResults, now: Date = new Date()): ResearchSession {
+  return {
+    ...results,
+    id: `research_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+  };
+}
+
+/**
+ * Record a research run: the run is kept as its own session and its findings
+ * are merged into the session's research.
+ */
+export function addResearch(
+  research: ResearchResults | null,
+  sessions: ResearchSession[],
+  results: ResearchResults
+): { research: ResearchResults; researchSessions: ResearchSession[] } {
+  return {
+    research: research ? mergeResearch(research, results) : results,
+    researchSessions: [...sessions, createResearchSession(results)].slice(-MAX_RESEARCH_SESSIONS),
+  };
+}
+
+function updateFindings(
+  research: ResearchResults,
+  update: (findings: ResearchFinding[]) => ResearchFinding[]
+): ResearchResults {
+  return { ...research, findings: update(research.findings) };
+}
+
+/**
+ * Record the user's decision on a finding; null clears it.
+ */
+export function reviewFinding(
+  research: ResearchResults,
+  id: string,
+  review: FindingReview | null
+): ResearchResults {
+  return updateFindings(research, (findings) =>
+    findings.map((f) => (f.id === id ? { ...f, review: review ?? undefined } : f))
+  );
+}
+
+/**
+ * Change a finding's text or classification. Research findings are marked as
+ * edited so the prompts don't present the user's wording as researched fact.
+ */
+export function editFinding(
+  research: ResearchResults,
+  id: string,
+  changes: Partial<FindingDraft>
+): ResearchResults {
+  return updateFindings(research, (findings) =>
+    findings.map((f) => {
+      if (f.id !== id) return f;
+      return f.origin === 'user' ? { ...f, ...changes } : { ...f, ...changes, edited: true };
+    })
+  );
+}
+
+/**
+ * Add a finding written by the user. It counts as accepted. Research is
+ * started if the session has none yet.
+ */
+export function addUserFinding(
+  research: ResearchResults | null,
+  draft: FindingDraft,
+  query: string,
+  now: Date = new Date()
+): ResearchResults {
+  const base: ResearchResults = research ?? {
+    query,
+    findings: [],
+    summary: '',
+    suggestedQuestions: [],
+    timestamp: now,
+  };
+  const finding: ResearchFinding = {
+    ...draft,
+    id: `user-finding-${now.getTime()}`,
+    origin: 'user',
+    review: 'accepted',
+  };
+  return updateFindings(base, (findings) => [...findings, finding]);
+}
+
+/**
+ * Remove a finding the user added. Research findings can only be rejected.
+ */
+export function removeUserFinding(research: ResearchResults, id: string): ResearchResults {
+  return updateFindings(research, (findings) =>
+    findings.filter((f) => f.id !== id || f.origin !== 'user')
+  );
+}
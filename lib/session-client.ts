@@ -0,0 +1,75 @@
+import { getProjectTitle } from '@/lib/requirements';
+import type { SessionState, SessionSummary, StoredSession } from '@/types';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+
+  if (!response.ok) {
+    let message = `Request failed: ${response.status}`;
+    try {
+      const data = (await response.json()) as { error?: string };
+      if (data.error) message = data.error;
+    } catch {
+      // Keep the status-based message
+    }
+    throw new Error(message);
+  }
+
+  return (await response.json()) as T;
+}
+
+export async function fetchSessions(): Promise<SessionSummary[]> {
+  const data = await request<{ sessions: SessionSummary[] }>('/api/sessions');
+  return data.sessions;
+}
+
+export function fetchSession(id: string): Promise<StoredSession> {
+  return request<StoredSession>(`/api/sessions/${encodeURIComponent(id)}`);
+}
+
+export function createSession(title: string, state: SessionState): Promise<StoredSession> {
+  return request<StoredSession>('/api/sessions', {
+    method: 'POST',
+    body: JSON.stringify({ title, state }),
+  });
+}
+
+export function saveSession(id: string, state: SessionState): Promise<StoredSession> {
+  return request<StoredSession>(`/api/sessions/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ state }),
+  });
+}
+
+export function renameSession(id: string, title: string): Promise<StoredSession> {
+  return request<StoredSession>(`/api/sessions/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ title }),
+  });
+}
+
+export function duplicateSession(id: string): Promise<StoredSession> {
+  return request<StoredSession>(`/api/sessions/${encodeURIComponent(id)}/duplicate`, {
+    method: 'POST',
+  });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await request<{ success: boolean }>(`/api/sessions/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Derive a session title from the imported document or the first user message.
+ */
+export function deriveSessionTitle(state: SessionState): string {
+  if (state.sourceDocument) return getProjectTitle(state.sourceDocument.content);
+  const firstUserMessage = state.messages.find((m) => m.role === 'user');
+  if (!firstUserMessage) return 'Untitled session';
+  const text = firstUserMessage.content.trim().replace(/\s+/g, ' ');
+  return text.length > 60 ? `${text.substring(0, 60)}...` : text;
+}
@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { SessionState, SessionSummary, StoredSession } from '@/types';
+
+// Sessions are stored as one JSON file per session. Override the location with
+// BRAINGRID_SESSIONS_DIR (e.g. a mounted volume in production).
+const SESSIONS_DIR = process.env.BRAINGRID_SESSIONS_DIR || path.join(process.cwd(), '.sessions');
+
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export function isValidSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+function sessionPath(id: string): string {
+  if (!isValidSessionId(id)) {
+    throw new Error(`Invalid session id: ${id}`);
+  }
+  return path.join(SESSIONS_DIR, `${id}.json`);
+}
+
+function toSummary(session: StoredSession): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    conversationPhase: session.state.conversationPhase,
+    taskCount: session.state.tasks.length,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+async function writeSession(session: StoredSession): Promise<void> {
+  await fs.mkdir(SESSIONS_DIR, { recursive: true });
+
+  const filePath = sessionPath(session.id);
+  const tmpPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+
+  // Write to temp file first, then atomically rename
+  await fs.writeFile(tmpPath, JSON.stringify(session, null, 2), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function getSession(id: string): Promise<StoredSession | null> {
+  try {
+    const content = await fs.readFile(sessionPath(id), 'utf-8');
+    return JSON.parse(content) as StoredSession;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === 'ENOENT') {
+      return null;
+    }
+    if (error instanceof SyntaxError) {
+      console.error(`Corrupted session file detected: ${id}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(SESSIONS_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    const session = await getSession(file.replace(/\.json$/, ''));
+    if (session) {
+      summaries.push(toSummary(session));
+    }
+  }
+
+  // Most recently updated first
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createSession(title: string, state: SessionState): Promise<StoredSession> {
+  const now = new Date().toISOString();
+  const session: StoredSession = {
+    id: randomUUID(),
+    title,
+    conversationPhase: state.conversationPhase,
+    taskCount: state.tasks.length,
+    createdAt: now,
+    updatedAt: now,
+    state,
+  };
+  await writeSession(session);
+  return session;
+}
+
+export async function saveSession(id: string, state: SessionState): Promise<StoredSession | null> {
+  const existing = await getSession(id);
+  if (!existing) {
+    return null;
+  }
+
+  const session: StoredSession = {
+    ...existing,
+    conversationPhase: state.conversationPhase,
+    taskCount: state.tasks.length,
+    updatedAt: new Date().toISOString(),
+    state,
+  };
+  await writeSession(session);
+  return session;
+}
+
+export async function renameSession(id: string, title: string): Promise<StoredSession | null> {
+  const existing = await getSession(id);
+  if (!existing) {
+    return null;
+  }
+
+  const session: StoredSession = {
+    ...existing,
+    title,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeSession(session);
+  return session;
+}
+
+export async function duplicateSession(id: string): Promise<StoredSession | null> {
+  const existing = await getSession(id);
+  if (!existing) {
+    return null;
+  }
+  return createSession(`${existing.title} (copy)`, existing.state);
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+  try {
+    await fs.unlink(sessionPath(id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
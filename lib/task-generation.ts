@@ -0,0 +1,143 @@
+import {
+  generateObject,
+  JSONParseError,
+  NoObjectGeneratedError,
+  TypeValidationError,
+  type ModelMessage,
+} from 'ai';
+import { ZodError } from 'zod';
+import { getModelSettings } from '@/lib/models';
+import { getTaskGenerationPrompt } from '@/lib/prompts';
+import { createTaskListSchema, formatIssues, repairTasksJson } from '@/lib/task-schema';
+import type {
+  Task,
+  TaskGenerationErrorCode,
+  TaskGenerationFailure,
+  TaskGenerationScope,
+} from '@/types';
+
+// Initial attempt plus re-asks with the validation issues fed back to the model
+const MAX_ATTEMPTS = 3;
+
+export class TaskGenerationError extends Error {
+  readonly code: TaskGenerationErrorCode;
+  readonly issues: string[];
+
+  constructor(failure: TaskGenerationFailure) {
+    super(failure.message);
+    this.name = 'TaskGenerationError';
+    this.code = failure.code;
+    this.issues = failure.issues;
+  }
+
+  toFailure(): TaskGenerationFailure {
+    return { code: this.code, message: this.message, issues: this.issues };
+  }
+}
+
+function describeFailure(error: NoObjectGeneratedError): TaskGenerationFailure {
+  const cause = error.cause;
+
+  if (TypeValidationError.isInstance(cause)) {
+    const zodError = cause.cause instanceof ZodError ? cause.cause : null;
+    return {
+      code: 'SCHEMA_MISMATCH',
+      message: 'Generated tasks did not match the expected structure',
+      issues: zodError ? formatIssues(zodError) : [cause.message],
+    };
+  }
+
+  if (JSONParseError.isInstance(cause)) {
+    return {
+      code: 'INVALID_JSON',
+      message: 'Generated tasks were not valid JSON',
+      issues: [cause.message],
+    };
+  }
+
+  return {
+    code: 'NO_OUTPUT',
+    message: 'The model did not return a task list',
+    issues: error.finishReason ? [`Finish reason: ${error.finishReason}`] : [],
+  };
+}
+
+/**
+ * Generate a schema-validated task list for the given requirements.
+ * Malformed JSON is repaired locally first; if the output still fails
+ * validation, the model is re-asked with the issues. Throws
+ * TaskGenerationError once all attempts are exhausted. Aborting the signal
+ * (e.g. the client disconnected) stops the current attempt and any re-asks.
+ * With a scope, only that step's functional requirements are broken down.
+ */
+export async function generateTasks({
+  messages,
+  requirements,
+  context,
+  scope,
+  abortSignal,
+}: {
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  requirements: string;
+  context?: string;
+  scope?: TaskGenerationScope;
+  abortSignal?: AbortSignal;
+}): Promise<Task[]> {
+  if (!requirements.trim()) {
+    throw new TaskGenerationError({
+      code: 'MISSING_REQUIREMENTS',
+      message: 'Requirements are required to generate tasks',
+      issues: [],
+    });
+  }
+
+  const conversation: ModelMessage[] = [
+    ...messages.map((m) => ({ role: m.role, content: m.content })),
+    {
+      role: 'user',
+      content: `Break ${
+        scope?.requirementIds.length ? scope.requirementIds.join(', ') : 'these requirements'
+      } down into implementation tasks:\n\n${requirements}`,
+    },
+  ];
+  const schema = createTaskListSchema(scope?.existingTasks.map((t) => t.id));
+
+  let lastFailure: TaskGenerationFailure | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const { object } = await generateObject({
+        ...getModelSettings('tasks'),
+        system: getTaskGenerationPrompt(context, scope),
+        messages: conversation,
+        schema,
+        schemaName: 'TaskList',
+        schemaDescription: 'Ordered implementation tasks for the requirements document',
+        experimental_repairText: async ({ text }) => repairTasksJson(text),
+        abortSignal,
+      });
+      return object.tasks;
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        throw error;
+      }
+
+      lastFailure = describeFailure(error);
+      console.error(`Task generation attempt ${attempt} failed:`, lastFailure);
+
+      // Re-ask with the invalid output and what was wrong with it
+      conversation.push(
+        { role: 'assistant', content: error.text || '(no output)' },
+        {
+          role: 'user',
+          content: `That task list failed validation:\n${lastFailure.issues.map((i) => `- ${i}`).join('\n') || `- ${lastFailure.message}`}\n\nReturn the complete corrected task list.`,
+        }
+      );
+    }
+  }
+
+  throw new TaskGenerationError({
+    ...lastFailure!,
+    message: `${lastFailure!.message} after ${MAX_ATTEMPTS} attempts`,
+  });
+}
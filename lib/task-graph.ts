@@ -0,0 +1,166 @@
+import type { Task, TaskEstimate } from '@/types';
+
+// Relative weight of each size when computing the critical path
+const ESTIMATE_WEIGHTS: Record<TaskEstimate, number> = {
+  XS: 0.5,
+  S: 1,
+  M: 2,
+  L: 4,
+  XL: 8,
+};
+
+// Tasks without an estimate count as medium
+const DEFAULT_WEIGHT = ESTIMATE_WEIGHTS.M;
+
+export interface TaskGraphEdge {
+  from: string;   // Dependency
+  to: string;     // Task that depends on it
+}
+
+export interface TaskGraph {
+  edges: TaskGraphEdge[];
+  // Columns for layout: every task sits one column after its latest dependency
+  levels: string[][];
+  // Longest chain by estimate, from first task to last
+  criticalPath: string[];
+  // Incomplete tasks whose dependencies are all complete
+  unblocked: string[];
+  // Each cycle as the ids along it; cycle edges are ignored for layout
+  cycles: string[][];
+  // Dependency ids that match no task
+  missingDependencies: Array<{ taskId: string; dependencyId: string }>;
+}
+
+export function estimateWeight(task: Task): number {
+  return task.estimate ? ESTIMATE_WEIGHTS[task.estimate] : DEFAULT_WEIGHT;
+}
+
+/**
+ * Find cycles with a depth-first search. Returns the cycles found and the set of
+ * back edges ("from->to") that close them.
+ */
+function findCycles(
+  ids: string[],
+  dependents: Map<string, string[]>
+): { cycles: string[][]; backEdges: Set<string> } {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const backEdges = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const next of dependents.get(id) ?? []) {
+      const nextState = state.get(next);
+      if (nextState === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(next)), next]);
+        backEdges.add(`${id}->${next}`);
+      } else if (!nextState) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of ids) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return { cycles, backEdges };
+}
+
+/**
+ * Build the dependency graph for a task list: layout levels, critical path,
+ * currently unblocked tasks and any dependency cycles.
+ */
+export function analyzeTaskGraph(tasks: Task[]): TaskGraph {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const ids = tasks.map((t) => t.id);
+
+  const edges: TaskGraphEdge[] = [];
+  const missingDependencies: TaskGraph['missingDependencies'] = [];
+  for (const task of tasks) {
+    for (const dependencyId of new Set(task.dependsOn ?? [])) {
+      if (dependencyId === task.id || byId.has(dependencyId)) {
+        edges.push({ from: dependencyId, to: task.id });
+      } else {
+        missingDependencies.push({ taskId: task.id, dependencyId });
+      }
+    }
+  }
+
+  const dependents = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const edge of edges) {
+    dependents.get(edge.from)!.push(edge.to);
+  }
+
+  const { cycles, backEdges } = findCycles(ids, dependents);
+  const acyclicEdges = edges.filter((e) => !backEdges.has(`${e.from}->${e.to}`));
+
+  // Topological order (Kahn) over the acyclic edges, keeping list order for ties
+  const inDegree = new Map<string, number>(ids.map((id) => [id, 0]));
+  const incoming = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const edge of acyclicEdges) {
+    inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+    incoming.get(edge.to)!.push(edge.from);
+  }
+
+  const order: string[] = [];
+  const queue = ids.filter((id) => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const edge of acyclicEdges) {
+      if (edge.from !== id) continue;
+      const remaining = inDegree.get(edge.to)! - 1;
+      inDegree.set(edge.to, remaining);
+      if (remaining === 0) queue.push(edge.to);
+    }
+  }
+
+  // Levels and longest (weighted) path ending at each task
+  const level = new Map<string, number>();
+  const pathWeight = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  for (const id of order) {
+    const deps = incoming.get(id)!;
+    level.set(id, deps.length === 0 ? 0 : Math.max(...deps.map((d) => level.get(d)!)) + 1);
+
+    let best: string | null = null;
+    for (const dep of deps) {
+      if (best === null || pathWeight.get(dep)! > pathWeight.get(best)!) best = dep;
+    }
+    pathWeight.set(id, (best ? pathWeight.get(best)! : 0) + estimateWeight(byId.get(id)!));
+    previous.set(id, best);
+  }
+
+  const levels: string[][] = [];
+  for (const id of order) {
+    const l = level.get(id)!;
+    (levels[l] ??= []).push(id);
+  }
+
+  const criticalPath: string[] = [];
+  let end: string | null = null;
+  for (const id of order) {
+    if (end === null || pathWeight.get(id)! > pathWeight.get(end)!) end = id;
+  }
+  for (let id = end; id; id = previous.get(id) ?? null) {
+    criticalPath.unshift(id);
+  }
+
+  const unblocked = tasks
+    .filter(
+      (t) =>
+        !t.completed &&
+        incoming.get(t.id)!.every((dep) => byId.get(dep)!.completed) &&
+        !cycles.some((cycle) => cycle.includes(t.id))
+    )
+    .map((t) => t.id);
+
+  return { edges: acyclicEdges, levels, criticalPath, unblocked, cycles, missingDependencies };
+}
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import type { TaskGenerationFailure } from '@/types';
+
+export const subtaskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  completed: z.boolean().default(false),
+});
+
+export const taskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  completed: z.boolean().default(false),
+  subtasks: z.array(subtaskSchema),
+  acceptanceCriteria: z.array(z.string().min(1)).min(1),
+  dependsOn: z.array(z.string().min(1)).default([]),
+  estimate: z.enum(['XS', 'S', 'M', 'L', 'XL']),
+  priority: z.enum(['must-have', 'should-have', 'nice-to-have']),
+  requirementId: z
+    .string()
+    .regex(/^FR-\d+$/, 'Expected a functional requirement id like "FR-1"')
+    .optional(),
+});
+
+/**
+ * Task list schema. existingIds are tasks from earlier generation steps: new
+ * tasks may depend on them but must not reuse their ids.
+ */
+export function createTaskListSchema(existingIds: string[] = []) {
+  const existing = new Set(existingIds);
+
+  // Top-level wrapper: structured output works best with an object root
+  return z
+    .object({
+      tasks: z.array(taskSchema).min(1),
+    })
+    .superRefine((value, ctx) => {
+      const seen = new Set<string>();
+      value.tasks.forEach((task, index) => {
+        if (seen.has(task.id) || existing.has(task.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['tasks', index, 'id'],
+            message: existing.has(task.id)
+              ? `Task id "${task.id}" is already used by an earlier task`
+              : `Duplicate task id "${task.id}"`,
+          });
+        }
+        seen.add(task.id);
+      });
+
+      // Dependencies must point at other tasks in the list or earlier steps
+      value.tasks.forEach((task, index) => {
+        task.dependsOn.forEach((dependencyId, depIndex) => {
+          if (dependencyId === task.id || !(seen.has(dependencyId) || existing.has(dependencyId))) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ['tasks', index, 'dependsOn', depIndex],
+              message:
+                dependencyId === task.id
+                  ? 'A task cannot depend on itself'
+                  : `Unknown task id "${dependencyId}"`,
+            });
+          }
+        });
+      });
+    });
+}
+
+export const taskListSchema = createTaskListSchema();
+
+export type TaskList = z.infer<typeof taskListSchema>;
+
+/**
+ * Format zod issues as short "path: message" lines for prompts and the UI.
+ */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+}
+
+/**
+ * Repair common formatting problems in model-produced task JSON: code fences,
+ * surrounding prose, trailing commas and a bare array instead of { tasks }.
+ * Returns null when there is nothing to repair.
+ */
+export function repairTasksJson(text: string): string | null {
+  let repaired = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const start = repaired.search(/[[{]/);
+  const end = Math.max(repaired.lastIndexOf('}'), repaired.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    return null;
+  }
+  repaired = repaired.substring(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+
+  if (repaired.startsWith('[')) {
+    repaired = `{"tasks":${repaired}}`;
+  }
+
+  return repaired === text ? null : repaired;
+}
+
+/**
+ * Parse and validate a task list. Never returns a partially valid list: either
+ * every task passes the schema or a failure describing the issues is returned.
+ */
+export function parseTasksJson(
+  text: string
+): { success: true; tasks: TaskList['tasks'] } | { success: false; error: TaskGenerationFailure } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    const repaired = repairTasksJson(text);
+    try {
+      data = repaired ? JSON.parse(repaired) : undefined;
+    } catch {
+      data = undefined;
+    }
+    if (data === undefined) {
+      return {
+        success: false,
+        error: { code: 'INVALID_JSON', message: 'Task list is not valid JSON', issues: [] },
+      };
+    }
+  }
+
+  const result = taskListSchema.safeParse(Array.isArray(data) ? { tasks: data } : data);
+  if (!result.success) {
+    return {
+      success: false,
+      error: {
+        code: 'SCHEMA_MISMATCH',
+        message: 'Task list does not match the expected structure',
+        issues: formatIssues(result.error),
+      },
+    };
+  }
+
+  return { success: true, tasks: result.data.tasks };
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { WORKSPACE_DIR } from '@/lib/codebase-store';
+import { BUILTIN_TEMPLATES } from '@/lib/templates';
+import type { ProjectTemplate } from '@/types';
+
+// Team templates are JSON files committed to the workspace. Override the
+// location with BRAINGRID_TEMPLATES_DIR.
+const TEMPLATES_DIR =
+  process.env.BRAINGRID_TEMPLATES_DIR || path.join(WORKSPACE_DIR, '.braingrid', 'templates');
+
+const templateFileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  summary: z.string().min(1),
+  icon: z.string().optional(),
+  projectDescription: z.string().min(1),
+  sections: z
+    .array(z.object({ title: z.string().min(1), guidance: z.string().min(1) }))
+    .default([]),
+  nonFunctionalRequirements: z.array(z.string().min(1)).default([]),
+  researchQuery: z.string().min(1),
+});
+
+async function readCustomTemplates(): Promise<ProjectTemplate[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(TEMPLATES_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const templates: ProjectTemplate[] = [];
+  for (const file of files.filter((f) => f.endsWith('.json')).sort()) {
+    try {
+      const content = await fs.readFile(path.join(TEMPLATES_DIR, file), 'utf-8');
+      const parsed = templateFileSchema.safeParse(JSON.parse(content));
+      if (!parsed.success) {
+        console.warn(`Ignoring invalid template ${file}:`, parsed.error.issues.map((i) => i.message));
+        continue;
+      }
+      templates.push({ ...parsed.data, source: 'custom' });
+    } catch (error) {
+      console.warn(`Failed to read template ${file}:`, error);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Built-in templates followed by the workspace's own. A custom template with
+ * the id of a built-in one replaces it.
+ */
+export async function listTemplates(): Promise<ProjectTemplate[]> {
+  const custom = await readCustomTemplates();
+  const customIds = new Set(custom.map((t) => t.id));
+  return [...BUILTIN_TEMPLATES.filter((t) => !customIds.has(t.id)), ...custom];
+}
@@ -0,0 +1,171 @@
+import type { ProjectTemplate } from '@/types';
+
+// Templates for common project types, offered in the welcome dialog. Teams add
+// their own as JSON files in .braingrid/templates (see lib/template-store.ts).
+export const BUILTIN_TEMPLATES: ProjectTemplate[] = [
+  {
+    id: 'rest-api',
+    name: 'REST API Service',
+    summary: 'HTTP API with resources, authentication and versioning',
+    icon: 'server',
+    projectDescription:
+      'I want to build a REST API service that exposes [resources] to [clients]. Clients authenticate with [API keys / OAuth] and the service stores data in [database].',
+    sections: [
+      { title: 'Resources and Endpoints', guidance: 'Each resource, its fields, and the endpoints and methods that act on it' },
+      { title: 'Authentication and Authorization', guidance: 'How clients authenticate, and which roles or scopes can call which endpoints' },
+      { title: 'Errors and Status Codes', guidance: 'Error response format, status codes per failure and validation messages' },
+      { title: 'Versioning and Compatibility', guidance: 'How the API is versioned and how breaking changes are rolled out' },
+      { title: 'Pagination, Filtering and Rate Limits', guidance: 'List endpoint behavior, query parameters and per-client limits' },
+    ],
+    nonFunctionalRequirements: [
+      'p95 latency under 200 ms for read endpoints',
+      'All endpoints served over HTTPS only',
+      'OpenAPI specification kept in sync with the implementation',
+      'Structured request logs with a request id on every response',
+    ],
+    researchQuery: 'REST API design best practices: resource modeling, authentication, error formats, versioning, pagination and rate limiting',
+    source: 'builtin',
+  },
+  {
+    id: 'crud-admin',
+    name: 'CRUD Admin App',
+    summary: 'Internal back office to manage records with roles and audit',
+    icon: 'table',
+    projectDescription:
+      'I want to build an internal admin app where [staff roles] can create, review, edit and delete [records]. It needs search, bulk actions and an audit trail.',
+    sections: [
+      { title: 'Entities and Fields', guidance: 'Each managed entity, its fields, validation rules and relationships' },
+      { title: 'Roles and Permissions', guidance: 'Which roles can view, create, edit, delete or export each entity' },
+      { title: 'List, Search and Bulk Actions', guidance: 'Table columns, filters, sorting, search and actions on many records' },
+      { title: 'Audit Trail', guidance: 'Which changes are recorded, who can see them and how long they are kept' },
+    ],
+    nonFunctionalRequirements: [
+      'Lists of 10,000 records load in under 2 seconds',
+      'Single sign-on through the company identity provider',
+      'Every create, update and delete is recorded in the audit log',
+      'Keyboard accessible forms that meet WCAG 2.1 AA',
+    ],
+    researchQuery: 'Admin panel and back office UX patterns: role-based access control, audit logging, bulk editing and data validation',
+    source: 'builtin',
+  },
+  {
+    id: 'mobile-backend',
+    name: 'Mobile Backend',
+    summary: 'API, sync and push notifications for a mobile app',
+    icon: 'smartphone',
+    projectDescription:
+      'I want to build the backend for a [iOS / Android] app that lets users [core action]. It needs accounts, data sync across devices and push notifications.',
+    sections: [
+      { title: 'Accounts and Sessions', guidance: 'Sign up, sign in, token refresh, device sessions and account deletion' },
+      { title: 'Data Sync and Offline Use', guidance: 'What syncs, how conflicts are resolved and what works offline' },
+      { title: 'Push Notifications', guidance: 'Notification types, triggers, user preferences and delivery providers' },
+      { title: 'App Version Support', guidance: 'Which app versions the API supports and how old clients are asked to update' },
+    ],
+    nonFunctionalRequirements: [
+      'API responses under 50 KB for list endpoints on mobile networks',
+      'Tokens stored only in the platform keychain or keystore',
+      'Backward compatible with the two previous app releases',
+      'Personal data can be exported and deleted on request',
+    ],
+    researchQuery: 'Mobile app backend architecture: authentication tokens, offline sync and conflict resolution, push notifications and API versioning for app releases',
+    source: 'builtin',
+  },
+  {
+    id: 'cli-tool',
+    name: 'CLI Tool',
+    summary: 'Command line tool with subcommands, config and scripting',
+    icon: 'terminal',
+    projectDescription:
+      'I want to build a command line tool that helps [users] [task]. It should work interactively and in scripts and CI.',
+    sections: [
+      { title: 'Commands and Flags', guidance: 'Each subcommand, its arguments, flags, defaults and examples' },
+      { title: 'Configuration', guidance: 'Config files, environment variables and their precedence over flags' },
+      { title: 'Output and Exit Codes', guidance: 'Human and machine-readable output, colors, verbosity and exit codes per failure' },
+      { title: 'Installation and Updates', guidance: 'Supported platforms, package managers and how users upgrade' },
+    ],
+    nonFunctionalRequirements: [
+      'Starts and prints help in under 200 ms',
+      'Runs on macOS, Linux and Windows',
+      'No interactive prompts when stdin is not a TTY',
+      'A --json flag on every command that prints data',
+    ],
+    researchQuery: 'Command line interface design guidelines: subcommands, flags, configuration precedence, output formats, exit codes and distribution',
+    source: 'builtin',
+  },
+  {
+    id: 'browser-extension',
+    name: 'Browser Extension',
+    summary: 'Extension with content scripts, popup and permissions',
+    icon: 'puzzle',
+    projectDescription:
+      'I want to build a browser extension for [Chrome / Firefox] that [what it does] on [which sites]. Users configure it from a popup or options page.',
+    sections: [
+      { title: 'Permissions and Host Access', guidance: 'Each permission requested, why it is needed and when it is asked for' },
+      { title: 'Content Scripts and Page Integration', guidance: 'Which pages are changed, how, and how conflicts with the page are avoided' },
+      { title: 'Popup and Options', guidance: 'Settings the user can change and where they are stored' },
+      { title: 'Store Review and Distribution', guidance: 'Store listing, privacy disclosures and the update process' },
+    ],
+    nonFunctionalRequirements: [
+      'Built on Manifest V3',
+      'Requests only the permissions a feature needs, when it is first used',
+      'Adds no more than 50 ms to page load on matched sites',
+      'No user data leaves the browser without consent',
+    ],
+    researchQuery: 'Browser extension development with Manifest V3: permissions, content scripts, service workers, storage and store review policies',
+    source: 'builtin',
+  },
+  {
+    id: 'data-pipeline',
+    name: 'Data Pipeline',
+    summary: 'Scheduled ingestion, transformation and loading of data',
+    icon: 'workflow',
+    projectDescription:
+      'I want to build a data pipeline that ingests [sources], transforms the data into [target model] and loads it into [warehouse / lake] on a [schedule].',
+    sections: [
+      { title: 'Sources and Ingestion', guidance: 'Each source, its format, volume, frequency and how changes are detected' },
+      { title: 'Transformations and Data Model', guidance: 'Cleaning, joins, aggregations and the target schema' },
+      { title: 'Data Quality', guidance: 'Checks per stage, what happens to bad records and who is alerted' },
+      { title: 'Scheduling, Backfills and Recovery', guidance: 'Orchestration, retries, idempotency and reprocessing past data' },
+    ],
+    nonFunctionalRequirements: [
+      'Daily loads finish within 2 hours of source data arriving',
+      'Every run is idempotent and safe to retry',
+      'Failed runs alert the owning team within 15 minutes',
+      'Lineage is recorded from source to target table',
+    ],
+    researchQuery: 'Data pipeline engineering best practices: incremental ingestion, idempotent transformations, data quality checks, backfills and orchestration',
+    source: 'builtin',
+  },
+];
+
+/**
+ * Load the built-in and workspace templates through /api/templates.
+ */
+export async function fetchTemplates(): Promise<ProjectTemplate[]> {
+  const response = await fetch('/api/templates');
+  if (!response.ok) {
+    throw new Error(`Loading templates failed: ${response.status}`);
+  }
+  return ((await response.json()) as { templates: ProjectTemplate[] }).templates;
+}
+
+/**
+ * Requirements skeleton of a template in the document's Markdown format, for
+ * previews before generation.
+ */
+export function formatTemplateSkeleton(template: ProjectTemplate): string {
+  const sections = template.sections
+    .map((section) => `## ${section.title}\n_${section.guidance}_`)
+    .join('\n\n');
+  const nfrs = template.nonFunctionalRequirements.map((nfr) => `- ${nfr}`).join('\n');
+
+  return `# ${template.name}
+
+## Functional Requirements
+_Filled in from the conversation_
+
+${sections}
+
+## Non-Functional Requirements
+${nfrs}`;
+}
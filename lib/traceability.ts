@@ -0,0 +1,81 @@
+import type { FunctionalRequirement } from '@/lib/requirements';
+import type { Task } from '@/types';
+
+export interface TraceLink {
+  task: Task;
+  // 'link': task.requirementId points at the requirement; 'mention': the id
+  // only appears in the task's description or acceptance criteria
+  via: 'link' | 'mention';
+  // Acceptance criteria that cover the requirement
+  criteria: string[];
+}
+
+export interface TraceRow {
+  requirement: FunctionalRequirement;
+  links: TraceLink[];
+}
+
+export interface TraceabilityReport {
+  rows: TraceRow[];
+  uncoveredRequirements: FunctionalRequirement[];
+  untracedTasks: Task[];
+  // Tasks linked to an FR id that is not in the requirements document
+  unknownReferences: Array<{ task: Task; requirementId: string }>;
+}
+
+function mentions(text: string, requirementId: string): boolean {
+  return new RegExp(`\\b${requirementId}\\b`).test(text);
+}
+
+/**
+ * Map functional requirements to the tasks and acceptance criteria that cover
+ * them, and collect the gaps in both directions.
+ */
+export function buildTraceability(
+  requirements: FunctionalRequirement[],
+  tasks: Task[]
+): TraceabilityReport {
+  const knownIds = new Set(requirements.map((r) => r.id));
+  const tracedTaskIds = new Set<string>();
+
+  const rows = requirements.map((requirement) => {
+    const links: TraceLink[] = [];
+
+    for (const task of tasks) {
+      const mentioningCriteria = task.acceptanceCriteria.filter((c) =>
+        mentions(c, requirement.id)
+      );
+
+      if (task.requirementId === requirement.id) {
+        // A linked task covers the requirement with all of its criteria unless
+        // specific criteria name the requirement
+        links.push({
+          task,
+          via: 'link',
+          criteria: mentioningCriteria.length > 0 ? mentioningCriteria : task.acceptanceCriteria,
+        });
+      } else if (mentioningCriteria.length > 0 || mentions(task.description, requirement.id)) {
+        links.push({ task, via: 'mention', criteria: mentioningCriteria });
+      } else {
+        continue;
+      }
+      tracedTaskIds.add(task.id);
+    }
+
+    return { requirement, links };
+  });
+
+  const unknownReferences = tasks
+    .filter((t) => t.requirementId && !knownIds.has(t.requirementId))
+    .map((t) => ({ task: t, requirementId: t.requirementId! }));
+
+  return {
+    rows,
+    uncoveredRequirements: rows.filter((r) => r.links.length === 0).map((r) => r.requirement),
+    // Tasks with an unknown link are reported under unknownReferences instead
+    untracedTasks: tasks.filter(
+      (t) => !tracedTaskIds.has(t.id) && !unknownReferences.some((u) => u.task.id === t.id)
+    ),
+    unknownReferences,
+  };
+}
@@ -6,23 +6,97 @@ export type ConversationPhase =
   | 'generating'   // AI creates requirements/tasks
   | 'complete';    // Generation finished
 
+// The user's decision on a research finding
+export type FindingReview = 'accepted' | 'rejected' | 'must_address';
+
 // Research finding structure
 export interface ResearchFinding {
   id: string;
   category: 'concept' | 'best_practice' | 'pitfall' | 'edge_case' | 'technical';
   title: string;
   content: string;
-  source?: string;
+  source?: string;        // Free-text source on research saved before citations
+  citations?: number[];   // Indices of the ResearchResults citations supporting it
   relevance: 'high' | 'medium' | 'low';
+  review?: FindingReview; // Absent until the user decides
+  origin?: 'user';        // Added by the user, e.g. an internal constraint
+  edited?: boolean;       // Text changed by the user
+}
+
+// Fields the user can edit or set when adding a finding
+export type FindingDraft = Pick<ResearchFinding, 'category' | 'title' | 'content' | 'relevance'>;
+
+// A source the research was drawn from. The index matches the [n] markers in
+// the raw research and is what findings refer to.
+export interface ResearchCitation {
+  index: number;
+  title: string;
+  url?: string;   // Absent for knowledge base excerpts and the codebase scan
 }
 
+// Where research findings come from: web search, the local knowledge folder,
+// or the codebase scan only
+export type ResearchProviderId = 'perplexity' | 'local' | 'none';
+
 // Research results structure
 export interface ResearchResults {
   query: string;
+  topic?: string;   // Set on follow-up research into one topic
   findings: ResearchFinding[];
   summary: string;
   suggestedQuestions: string[];
   timestamp: Date;
+  provider?: ResearchProviderId;  // Absent on research saved before providers existed
+  citations?: ResearchCitation[]; // Absent on research saved before citations existed
+}
+
+// One research run. BrainGridState.research merges all of a session's runs.
+export interface ResearchSession extends ResearchResults {
+  id: string;
+}
+
+// User override for whether a finding goes into prompt context
+export type FindingInclusion = 'pinned' | 'excluded';
+
+// Requests that carry research context, each with its own token budget
+export type ResearchContextPhase = 'clarifying' | 'generating' | 'tasks';
+
+// What the research context builder put into one phase's context (finding ids)
+export interface ResearchContextReport {
+  phase: ResearchContextPhase;
+  budget: number;       // Approximate tokens
+  tokens: number;
+  included: string[];   // In full
+  trimmed: string[];    // Content cut short to fit
+  omitted: string[];    // Left out for budget
+  excluded: string[];   // Left out by the user
+  rejected: string[];   // Listed only as findings not to act on
+}
+
+// Clarifying questions are asked as structured objects and answered in a form
+export type ClarifyingQuestionType = 'single_choice' | 'multi_choice' | 'free_text' | 'numeric';
+
+export interface ClarifyingQuestion {
+  id: string;
+  type: ClarifyingQuestionType;
+  prompt: string;
+  options?: string[];   // Choice questions only
+  unit?: string;        // Numeric questions only, e.g. "users"
+  min?: number;
+  max?: number;
+  findingId?: string;   // Research finding that motivated the question
+}
+
+// null when the user skipped the question
+export interface ClarifyingAnswer {
+  questionId: string;
+  value: string | string[] | number | null;
+}
+
+// Why an assistant reply is incomplete, and which request retrying it re-runs
+export interface MessageFailure {
+  reason: 'stopped' | 'error';
+  retry: 'chat' | 'generation';
 }
 
 // Chat message structure
@@ -30,8 +104,15 @@ export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  questions?: ClarifyingQuestion[];   // Assistant messages that ask clarifying questions
+  answers?: ClarifyingAnswer[];       // User messages answering them
+  failure?: MessageFailure;           // Stopped or failed replies; never sent to the model
+  local?: boolean;                    // Research progress and /research commands; shown only, never sent to the model
 }
 
+// Message as sent to /api/chat; answers are turned into text on the server
+export type ChatRequestMessage = Omit<Message, 'id' | 'failure' | 'local'>;
+
 // Subtask structure
 export interface Subtask {
   id: string;
@@ -39,6 +120,12 @@ export interface Subtask {
   completed: boolean;
 }
 
+// Task priority, aligned with requirement priorities (Must/Should/Nice-to-have)
+export type TaskPriority = 'must-have' | 'should-have' | 'nice-to-have';
+
+// Relative task size
+export type TaskEstimate = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
 // Task structure with acceptance criteria
 export interface Task {
   id: string;
@@ -47,37 +134,212 @@ export interface Task {
   completed: boolean;
   subtasks: Subtask[];
   acceptanceCriteria: string[];
+  // Planning fields; optional because tasks saved before they existed lack them
+  dependsOn?: string[];        // Ids of tasks that must be done first
+  estimate?: TaskEstimate;
+  priority?: TaskPriority;
+  requirementId?: string;      // Functional requirement implemented, e.g. "FR-2"
+}
+
+// Existing requirements document imported to seed a session
+export interface SourceDocument {
+  name: string;          // File name, or "Pasted document"
+  content: string;       // Normalized Markdown
+  importedAt: string;
+}
+
+// Domain-specific section a template adds to the requirements document
+export interface TemplateSection {
+  title: string;
+  guidance: string;      // What the section should cover
+}
+
+// Starting point for a common project type. Built in, or a JSON file in the
+// workspace's .braingrid/templates folder.
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  summary: string;                        // One line for the welcome dialog
+  icon?: string;                          // lucide icon name, e.g. "server"
+  projectDescription: string;             // Prefilled, editable description
+  sections: TemplateSection[];
+  nonFunctionalRequirements: string[];    // Defaults the user can revise
+  researchQuery: string;                  // Focus of the initial research
+  source: 'builtin' | 'custom';
 }
 
+// What produced a saved version of the requirements or task list
+export type RevisionSource = 'generation' | 'manual' | 'refinement' | 'import' | 'restore';
+
+export type RevisionSubject = 'requirements' | 'tasks';
+
+// A saved version; task lists are stored as JSON so both subjects diff as text
+export interface Revision {
+  id: string;
+  timestamp: string;
+  source: RevisionSource;
+  content: string;
+}
+
+export type RevisionHistory = Record<RevisionSubject, Revision[]>;
+
+// Scan artifacts written by the VS Code extension to .braingrid/artifacts
+export type CodebaseArtifactType = 'summary' | 'architecture' | 'dataModel' | 'workflow';
+
+// One part of the codebase context: the generated documentation of a scan
+// artifact, or a short summary of its raw JSON when no documentation exists
+export interface CodebaseSection {
+  type: CodebaseArtifactType;
+  title: string;
+  content: string;            // Markdown
+  source: 'docs' | 'summary';
+  generatedAt: string;        // ISO8601
+  incomplete?: boolean;       // The scan stopped before covering every file
+}
+
+// Scan artifacts of the workspace the server runs in
+export interface CodebaseSnapshot {
+  workspace: string;
+  sections: CodebaseSection[];
+}
+
+// Tabs in the content panel
+export type ContentTab = 'requirements' | 'tasks' | 'traceability' | 'research' | 'codebase';
+
 // Global state for BrainGrid
 export interface BrainGridState {
+  sessionId: string | null;
   conversationPhase: ConversationPhase;
   messages: Message[];
   requirements: string | null;
   tasks: Task[];
   research: ResearchResults | null;
+  researchSessions: ResearchSession[];
+  researchSelection: Record<string, FindingInclusion>;  // By finding id
+  sourceDocument: SourceDocument | null;  // Set when the session extends an imported PRD
+  template: ProjectTemplate | null;       // Set when the session started from a template
+  history: RevisionHistory;
+  generation: GenerationCheckpoint | null;  // Set while generation is unfinished
   isLoading: boolean;
-  activeTab: 'requirements' | 'tasks' | 'research';
+  activeTab: ContentTab;
 }
 
 // Action types for reducer
 export type BrainGridAction =
   | { type: 'ADD_MESSAGE'; payload: Message }
   | { type: 'UPDATE_LAST_MESSAGE'; payload: string }
+  | {
+      type: 'UPDATE_MESSAGE';
+      payload: { id: string; content: string; questions?: ClarifyingQuestion[]; failure?: MessageFailure };
+    }
+  | { type: 'REMOVE_MESSAGE'; payload: string }
   | { type: 'SET_PHASE'; payload: ConversationPhase }
-  | { type: 'SET_REQUIREMENTS'; payload: string }
-  | { type: 'SET_TASKS'; payload: Task[] }
-  | { type: 'SET_RESEARCH'; payload: ResearchResults }
+  | { type: 'SET_REQUIREMENTS'; payload: string; source: RevisionSource }
+  | { type: 'SET_TASKS'; payload: Task[]; source: RevisionSource }
+  | { type: 'SET_GENERATION'; payload: GenerationCheckpoint | null }
+  | { type: 'ADD_RESEARCH'; payload: ResearchResults }
+  | { type: 'SET_FINDING_INCLUSION'; payload: { id: string; inclusion: FindingInclusion | null } }
+  | { type: 'REVIEW_FINDING'; payload: { id: string; review: FindingReview | null } }
+  | { type: 'UPDATE_FINDING'; payload: { id: string; changes: Partial<FindingDraft> } }
+  | { type: 'ADD_FINDING'; payload: FindingDraft }
+  | { type: 'REMOVE_FINDING'; payload: string }
+  | { type: 'IMPORT_DOCUMENT'; payload: SourceDocument }
+  | { type: 'SET_TEMPLATE'; payload: ProjectTemplate | null }
   | { type: 'TOGGLE_TASK'; payload: string }
+  | { type: 'UPDATE_TASK'; payload: { id: string; changes: Partial<Omit<Task, 'id'>> } }
   | { type: 'TOGGLE_SUBTASK'; payload: { taskId: string; subtaskId: string } }
+  | { type: 'RESTORE_REVISION'; payload: { subject: RevisionSubject; id: string } }
   | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_ACTIVE_TAB'; payload: 'requirements' | 'tasks' | 'research' }
+  | { type: 'SET_ACTIVE_TAB'; payload: ContentTab }
+  | { type: 'SET_SESSION_ID'; payload: string }
+  | { type: 'LOAD_SESSION'; payload: { sessionId: string; state: SessionState } }
   | { type: 'RESET' };
 
+// Portion of BrainGridState that is persisted with a session
+export type SessionState = Pick<
+  BrainGridState,
+  | 'conversationPhase'
+  | 'messages'
+  | 'requirements'
+  | 'tasks'
+  | 'research'
+  | 'researchSessions'
+  | 'researchSelection'
+  | 'sourceDocument'
+  | 'template'
+  | 'history'
+  | 'generation'
+  | 'activeTab'
+>;
+
+// Session list entry returned by /api/sessions
+export interface SessionSummary {
+  id: string;
+  title: string;
+  conversationPhase: ConversationPhase;
+  taskCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Full stored session
+export interface StoredSession extends SessionSummary {
+  state: SessionState;
+}
+
 // Parsed AI response structure
 export interface ParsedAIResponse {
   cleanContent: string;
   shouldGenerate: boolean;
   requirements: string | null;
   tasks: Task[] | null;
+  tasksError: TaskGenerationFailure | null;
+}
+
+// Targeted AI actions on existing tasks and requirement sections
+export type TaskRefinementAction = 'split' | 'merge' | 'rewrite-criteria' | 'custom';
+export type SectionRefinementAction = 'expand-edge-cases' | 'clarify' | 'custom';
+
+export type RefinementRequest =
+  | { target: 'tasks'; action: TaskRefinementAction; taskIds: string[]; instructions?: string }
+  | { target: 'section'; action: SectionRefinementAction; sectionId: string; instructions?: string };
+
+// Structured change returned by /api/refine; applied only once the user accepts it
+export type RefinementPatch =
+  | { target: 'tasks'; summary: string; replaceIds: string[]; tasks: Task[] }
+  | { target: 'section'; summary: string; sectionId: string; content: string };
+
+// Why structured task generation failed
+export type TaskGenerationErrorCode =
+  | 'INVALID_JSON'          // Output could not be parsed as JSON
+  | 'SCHEMA_MISMATCH'       // JSON did not match the task schema
+  | 'NO_OUTPUT'             // Model returned no usable output
+  | 'MISSING_REQUIREMENTS'; // Nothing to break down into tasks
+
+// Typed task generation error returned by /api/chat and shown in the UI
+export interface TaskGenerationFailure {
+  code: TaskGenerationErrorCode;
+  message: string;
+  issues: string[];
+}
+
+// One step of staged task generation: the functional requirements it breaks
+// down and the tasks earlier steps produced
+export interface TaskGenerationScope {
+  requirementIds: string[];   // Empty for the whole document
+  step: number;               // 1-based
+  totalSteps: number;
+  existingTasks: Task[];
+}
+
+// Progress of staged generation, saved with the session after every step so a
+// truncated, failed or stopped step is continued instead of restarted
+export interface GenerationCheckpoint {
+  message: string;                 // The assistant's note before the document
+  requirements: string;            // Document so far, without the markers
+  requirementsComplete: boolean;   // False while the document is cut off
+  continuations: number;           // Times a cut-off document was continued
+  taskGroups: string[][];          // Functional requirement ids per task step
+  completedGroups: number;
+  tasks: Task[];                   // Tasks from the completed steps
 }